@@ -0,0 +1,246 @@
+/**
+ * @contextio/budget - Token and cost budgets for LLM API calls.
+ *
+ * Proxy plugin that records the tokens and estimated cost of every call
+ * (from `parseResponseUsage` and `estimateCost`) and enforces limits per
+ * session, per source tool, or across all traffic, over the whole
+ * session or a rolling day or month.
+ *
+ * Crossing a warning threshold logs to stderr. Once a hard cap is
+ * reached, further requests in that scope are rejected with a
+ * provider-shaped 403 error, so agent loops stop instead of retrying.
+ * Spend is persisted to disk and survives proxy restarts.
+ *
+ * ```typescript
+ * import { createBudgetPlugin } from '@contextio/budget';
+ *
+ * const budget = createBudgetPlugin({
+ *   rules: [
+ *     { scope: "session", maxCost: 5 },
+ *     { scope: "total", window: "day", maxCost: 50 },
+ *   ],
+ * });
+ * ```
+ */
+
+import { homedir } from "node:os";
+import { join } from "node:path";
+
+import { buildProviderError, estimateCost, parseResponseUsage } from "@contextio/core";
+import type { CaptureData, ProxyPlugin, RequestContext } from "@contextio/core";
+
+import { Ledger, type LedgerFilter, type SpendTotal } from "./ledger.js";
+
+export { Ledger, RETENTION_MS, type SpendRecord, type SpendTotal } from "./ledger.js";
+
+/** What a budget rule totals over. */
+export type BudgetScope = "session" | "source" | "total";
+
+/** Rolling window of a budget rule. */
+export type BudgetWindow = "day" | "month";
+
+/** A spending limit. At least one of `maxCost` and `maxTokens` should be set. */
+export interface BudgetRule {
+  /** Per session ID, per source tool, or across all traffic. */
+  scope: BudgetScope;
+  /**
+   * Rolling window: the last 24 hours or the last 30 days. Without one,
+   * all recorded spend in the scope counts (up to the 30-day retention).
+   */
+  window?: BudgetWindow;
+  /** Hard cap in USD. */
+  maxCost?: number;
+  /** Hard cap in tokens (input, output, and cache tokens combined). */
+  maxTokens?: number;
+}
+
+/** Configuration for {@link createBudgetPlugin}. */
+export interface BudgetPluginConfig {
+  rules: BudgetRule[];
+  /** Fractions of a cap at which to log a warning. Default: [0.5, 0.8, 0.95]. */
+  warnAt?: number[];
+  /**
+   * File the spend ledger is kept in. Default: `~/.contextio/budget.jsonl`.
+   * Set to null to keep it in memory only.
+   */
+  stateFile?: string | null;
+}
+
+/** Budget plugin with the resolved state file, for CLI output. */
+export interface BudgetPlugin extends ProxyPlugin {
+  stateFile: string | null;
+}
+
+const BUDGET_SCOPES: BudgetScope[] = ["session", "source", "total"];
+
+const WINDOW_MS: Record<BudgetWindow, number> = {
+  day: 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000,
+};
+
+const DEFAULT_WARN_AT = [0.5, 0.8, 0.95];
+
+/** Who a request is attributed to. */
+interface Attribution {
+  sessionId: string | null;
+  source: string | null;
+}
+
+/** Ledger filter for a rule, or null if the request has no key in the rule's scope. */
+function ruleFilter(rule: BudgetRule, who: Attribution, now: number): LedgerFilter | null {
+  const filter: LedgerFilter = {};
+  if (rule.window) filter.since = now - WINDOW_MS[rule.window];
+  if (rule.scope === "session") {
+    if (!who.sessionId) return null;
+    filter.sessionId = who.sessionId;
+  } else if (rule.scope === "source") {
+    if (!who.source) return null;
+    filter.source = who.source;
+  }
+  return filter;
+}
+
+/** Human-readable scope, e.g. `session a1b2c3d4 (24h)`. */
+function ruleLabel(rule: BudgetRule, who: Attribution): string {
+  const scope =
+    rule.scope === "session"
+      ? `session ${who.sessionId}`
+      : rule.scope === "source"
+        ? `source ${who.source}`
+        : "all traffic";
+  const window = rule.window === "day" ? " (24h)" : rule.window === "month" ? " (30d)" : "";
+  return `${scope}${window}`;
+}
+
+/** Largest fraction of any cap in the rule that `spent` has used. */
+function usedFraction(rule: BudgetRule, spent: SpendTotal): number {
+  let fraction = 0;
+  if (rule.maxCost !== undefined && rule.maxCost > 0) {
+    fraction = Math.max(fraction, spent.cost / rule.maxCost);
+  }
+  if (rule.maxTokens !== undefined && rule.maxTokens > 0) {
+    fraction = Math.max(fraction, spent.tokens / rule.maxTokens);
+  }
+  return fraction;
+}
+
+function formatSpend(rule: BudgetRule, spent: SpendTotal): string {
+  const parts: string[] = [];
+  if (rule.maxCost !== undefined) parts.push(`$${spent.cost.toFixed(2)} of $${rule.maxCost.toFixed(2)}`);
+  if (rule.maxTokens !== undefined) parts.push(`${spent.tokens} of ${rule.maxTokens} tokens`);
+  return parts.join(", ");
+}
+
+function modelOf(capture: CaptureData, usageModel: string | null): string | null {
+  if (usageModel) return usageModel;
+  const body = capture.requestBody;
+  if (body && typeof body === "object" && !Array.isArray(body) && typeof body.model === "string") {
+    return body.model;
+  }
+  return null;
+}
+
+/**
+ * Create a budget plugin.
+ *
+ * onRequest rejects requests whose scope has reached a cap. onCapture
+ * records the call's spend and logs any warning thresholds it crossed.
+ * Responses produced by plugins (cache hits, blocks) cost nothing and are
+ * not recorded.
+ */
+export function createBudgetPlugin(config: BudgetPluginConfig): BudgetPlugin {
+  const rules = config.rules;
+  const warnAt = [...(config.warnAt ?? DEFAULT_WARN_AT)].sort((a, b) => a - b);
+  const stateFile =
+    config.stateFile === undefined ? join(homedir(), ".contextio", "budget.jsonl") : config.stateFile;
+
+  for (const rule of rules) {
+    if (!BUDGET_SCOPES.includes(rule.scope)) {
+      throw new Error(`Unknown budget scope "${rule.scope}". Use one of: ${BUDGET_SCOPES.join(", ")}`);
+    }
+    if (rule.window !== undefined && !(rule.window in WINDOW_MS)) {
+      throw new Error(`Unknown budget window "${rule.window}". Use "day" or "month"`);
+    }
+    if (rule.maxCost === undefined && rule.maxTokens === undefined) {
+      throw new Error(`Budget rule for scope "${rule.scope}" needs maxCost or maxTokens`);
+    }
+  }
+
+  const ledger = new Ledger(stateFile);
+
+  return {
+    name: "budget",
+    stateFile,
+
+    onRequest(ctx: RequestContext): RequestContext {
+      const who = { sessionId: ctx.sessionId, source: ctx.source };
+      const now = Date.now();
+
+      for (const rule of rules) {
+        const filter = ruleFilter(rule, who, now);
+        if (!filter) continue;
+        const spent = ledger.total(filter);
+        if (usedFraction(rule, spent) < 1) continue;
+
+        const label = ruleLabel(rule, who);
+        const sid = ctx.sessionId ? ` [${ctx.sessionId}]` : "";
+        console.error(`[budget]${sid} Rejected request: ${label} budget exhausted (${formatSpend(rule, spent)})`);
+        return {
+          ...ctx,
+          response: buildProviderError(
+            ctx.apiFormat,
+            403,
+            `Request rejected by contextio budget: ${label} budget exhausted (${formatSpend(rule, spent)})`,
+            "budget_exceeded",
+          ),
+        };
+      }
+      return ctx;
+    },
+
+    onCapture(capture: CaptureData): void {
+      if (capture.respondedBy) return;
+
+      const usage = parseResponseUsage(capture.responseBody);
+      const tokens =
+        usage.inputTokens + usage.outputTokens + usage.cacheReadTokens + usage.cacheWriteTokens;
+      if (tokens === 0) return;
+
+      const model = modelOf(capture, usage.model);
+      const cost = model
+        ? estimateCost(model, usage.inputTokens, usage.outputTokens, usage.cacheReadTokens, usage.cacheWriteTokens) ?? 0
+        : 0;
+
+      const who = { sessionId: capture.sessionId, source: capture.source };
+      const now = Date.now();
+
+      // Totals before this call, to tell which thresholds it crossed
+      const before = rules.map((rule) => {
+        const filter = ruleFilter(rule, who, now);
+        return filter ? ledger.total(filter) : null;
+      });
+
+      ledger.add({ ts: now, sessionId: who.sessionId, source: who.source, model, tokens, cost });
+
+      const sid = capture.sessionId ? ` [${capture.sessionId}]` : "";
+      rules.forEach((rule, i) => {
+        const prev = before[i];
+        if (!prev) return;
+        const after = { tokens: prev.tokens + tokens, cost: prev.cost + cost };
+        const from = usedFraction(rule, prev);
+        const to = usedFraction(rule, after);
+        const label = ruleLabel(rule, who);
+
+        if (from < 1 && to >= 1) {
+          console.error(`[budget]${sid} Limit reached: ${label} at ${formatSpend(rule, after)}; further requests will be rejected`);
+          return;
+        }
+        const crossed = warnAt.filter((t) => from < t && to >= t);
+        if (crossed.length > 0) {
+          const pct = Math.round(crossed[crossed.length - 1] * 100);
+          console.error(`[budget]${sid} Warning: ${label} at ${pct}% (${formatSpend(rule, after)})`);
+        }
+      });
+    },
+  };
+}
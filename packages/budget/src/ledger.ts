@@ -0,0 +1,201 @@
+/**
+ * Spend ledger.
+ *
+ * Every completed call is recorded with its session, source, tokens, and
+ * estimated cost. Rolling-window totals are sums over the records inside
+ * the window. The ledger is persisted as JSON lines so totals survive
+ * proxy restarts and are shared by proxies using the same file; records
+ * older than the longest window are dropped.
+ */
+
+import fs from "node:fs";
+import { dirname } from "node:path";
+
+/** One completed API call. */
+export interface SpendRecord {
+  /** Unix epoch milliseconds. */
+  ts: number;
+  sessionId: string | null;
+  source: string | null;
+  model: string | null;
+  tokens: number;
+  /** Estimated USD; 0 when the model has no pricing. */
+  cost: number;
+}
+
+/** Which records a total covers. */
+export interface LedgerFilter {
+  sessionId?: string;
+  source?: string;
+  /** Only records at or after this time (epoch ms). */
+  since?: number;
+}
+
+/** Sum of tokens and cost. */
+export interface SpendTotal {
+  tokens: number;
+  cost: number;
+}
+
+/** Longest window any rule can use (30 days); older records are dropped. */
+export const RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** Expired lines the file may hold before it is rewritten without them. */
+const COMPACT_AFTER = 1000;
+
+/** A compaction lock older than this was left by a process that died. */
+const STALE_LOCK_MS = 60_000;
+
+/**
+ * In-memory ledger backed by a JSONL file that several proxies can share.
+ *
+ * Each record is appended as one line, so a write never rewrites the
+ * file, and every proxy reads the lines the others appended before it
+ * totals. Once the expired lines outnumber the live ones (and there are
+ * more than COMPACT_AFTER), the file is rewritten without them under a
+ * lock file; readers notice the new file and read it from the start.
+ */
+export class Ledger {
+  private records: SpendRecord[] = [];
+  /** Bytes of the file read so far, and the inode they were read from. */
+  private offset = 0;
+  private ino = 0;
+  /** Lines in the file that are past retention. */
+  private expired = 0;
+
+  constructor(private readonly file: string | null) {
+    if (file) this.refresh();
+  }
+
+  /** Read the lines appended since the last read. */
+  private refresh(): void {
+    const file = this.file!;
+    try {
+      const stat = fs.statSync(file);
+      if (stat.ino !== this.ino || stat.size < this.offset) {
+        // New or compacted file: read it from the start
+        this.records = [];
+        this.offset = 0;
+        this.expired = 0;
+        this.ino = stat.ino;
+      }
+      if (stat.size === this.offset) return;
+
+      const buf = Buffer.alloc(stat.size - this.offset);
+      const fd = fs.openSync(file, "r");
+      try {
+        fs.readSync(fd, buf, 0, buf.length, this.offset);
+      } finally {
+        fs.closeSync(fd);
+      }
+      // A line still being written is read next time
+      const end = buf.lastIndexOf(0x0a) + 1;
+      this.offset += end;
+
+      const cutoff = Date.now() - RETENTION_MS;
+      for (const line of buf.subarray(0, end).toString("utf8").split("\n")) {
+        if (!line) continue;
+        let record: SpendRecord;
+        try {
+          record = JSON.parse(line) as SpendRecord;
+        } catch {
+          continue;
+        }
+        if (record.ts >= cutoff) this.records.push(record);
+        else this.expired++;
+      }
+    } catch {
+      // Missing or unreadable state keeps what was read so far
+    }
+  }
+
+  /** Add a record and persist it. Write errors are logged, not thrown. */
+  add(record: SpendRecord): void {
+    if (this.file && this.append(record)) {
+      this.refresh();
+    } else {
+      this.records.push(record);
+    }
+
+    const cutoff = record.ts - RETENTION_MS;
+    const live = this.records.filter((r) => r.ts >= cutoff);
+    this.expired += this.records.length - live.length;
+    this.records = live;
+
+    if (this.file && this.expired > COMPACT_AFTER && this.expired > this.records.length) {
+      this.compact();
+    }
+  }
+
+  /** Total tokens and cost of the records matching `filter`. */
+  total(filter: LedgerFilter): SpendTotal {
+    if (this.file) this.refresh();
+    let tokens = 0;
+    let cost = 0;
+    for (const r of this.records) {
+      if (filter.sessionId !== undefined && r.sessionId !== filter.sessionId) continue;
+      if (filter.source !== undefined && r.source !== filter.source) continue;
+      if (filter.since !== undefined && r.ts < filter.since) continue;
+      tokens += r.tokens;
+      cost += r.cost;
+    }
+    return { tokens, cost };
+  }
+
+  private append(record: SpendRecord): boolean {
+    try {
+      fs.mkdirSync(dirname(this.file!), { recursive: true });
+      fs.appendFileSync(this.file!, `${JSON.stringify(record)}\n`);
+      return true;
+    } catch (err: unknown) {
+      logWriteError(err);
+      return false;
+    }
+  }
+
+  /**
+   * Rewrite the file with only the live records. Skipped while another
+   * process holds the lock. Lines other proxies append during the
+   * rewrite are copied over just before the rename.
+   */
+  private compact(): void {
+    const file = this.file!;
+    const lockPath = `${file}.lock`;
+    try {
+      fs.writeFileSync(lockPath, String(process.pid), { flag: "wx" });
+    } catch {
+      try {
+        if (Date.now() - fs.statSync(lockPath).mtimeMs > STALE_LOCK_MS) fs.rmSync(lockPath, { force: true });
+      } catch {
+        // Lock released meanwhile
+      }
+      return;
+    }
+
+    const tmpPath = `${file}.tmp`;
+    try {
+      this.refresh();
+      fs.writeFileSync(tmpPath, this.records.map((r) => `${JSON.stringify(r)}\n`).join(""));
+      const written = this.records.length;
+      this.refresh();
+      fs.appendFileSync(tmpPath, this.records.slice(written).map((r) => `${JSON.stringify(r)}\n`).join(""));
+      fs.renameSync(tmpPath, file);
+
+      const stat = fs.statSync(file);
+      this.ino = stat.ino;
+      this.offset = stat.size;
+      this.expired = 0;
+    } catch (err: unknown) {
+      logWriteError(err);
+    } finally {
+      fs.rmSync(lockPath, { force: true });
+    }
+  }
+}
+
+function logWriteError(err: unknown): void {
+  console.error(
+    "[budget] State write error:",
+    err instanceof Error ? err.message : String(err),
+  );
+}
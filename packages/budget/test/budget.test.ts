@@ -0,0 +1,193 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import type { CaptureData, RequestContext } from "@contextio/core";
+
+import { Ledger, createBudgetPlugin } from "../dist/index.js";
+
+// --- Helpers ---
+
+function makeRequest(sessionId: string | null = "sess0001", source: string | null = "claude"): RequestContext {
+  const body = { model: "claude-sonnet-4", messages: [{ role: "user", content: "hi" }] };
+  return {
+    provider: "anthropic",
+    apiFormat: "anthropic-messages",
+    path: "/v1/messages",
+    source,
+    sessionId,
+    headers: {},
+    body,
+    rawBody: Buffer.from(JSON.stringify(body)),
+    annotations: {},
+  };
+}
+
+/** A capture whose response reports the given usage on claude-sonnet-4 ($3 / $15 per MTok). */
+function makeCapture(
+  inputTokens: number,
+  outputTokens: number,
+  overrides: Partial<CaptureData> = {},
+): CaptureData {
+  return {
+    timestamp: new Date().toISOString(),
+    sessionId: "sess0001",
+    method: "POST",
+    path: "/v1/messages",
+    source: "claude",
+    provider: "anthropic",
+    apiFormat: "anthropic-messages",
+    targetUrl: "https://api.anthropic.com/v1/messages",
+    requestHeaders: {},
+    requestBody: { model: "claude-sonnet-4" },
+    requestBytes: 0,
+    responseStatus: 200,
+    responseHeaders: {},
+    responseBody: JSON.stringify({
+      model: "claude-sonnet-4",
+      usage: { input_tokens: inputTokens, output_tokens: outputTokens },
+    }),
+    responseIsStreaming: false,
+    responseBytes: 0,
+    timings: { send_ms: 0, wait_ms: 0, receive_ms: 0, total_ms: 0 },
+    ...overrides,
+  };
+}
+
+let dir: string;
+let logged: string[] = [];
+let origError: typeof console.error;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(join(tmpdir(), "contextio-budget-"));
+  logged = [];
+  origError = console.error;
+  console.error = (...args: unknown[]) => logged.push(args.map(String).join(" "));
+});
+
+afterEach(() => {
+  console.error = origError;
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+// --- Enforcement ---
+
+describe("budget: enforcement", () => {
+  it("rejects requests once a session cost cap is reached", async () => {
+    const plugin = createBudgetPlugin({ rules: [{ scope: "session", maxCost: 1 }], stateFile: null });
+
+    assert.equal((await plugin.onRequest!(makeRequest())).response, undefined);
+    // 100k in + 50k out = $0.30 + $0.75 = $1.05
+    await plugin.onCapture!(makeCapture(100_000, 50_000));
+
+    const ctx = await plugin.onRequest!(makeRequest());
+    assert.ok(ctx.response);
+    assert.equal(ctx.response.status, 403);
+    const body = JSON.parse(ctx.response.body as string);
+    assert.equal(body.error.type, "permission_error");
+    assert.ok(body.error.message.includes("session sess0001 budget exhausted"), body.error.message);
+    assert.ok(logged.some((l) => l.includes("Limit reached: session sess0001")));
+
+    // Other sessions are unaffected
+    assert.equal((await plugin.onRequest!(makeRequest("sess0002"))).response, undefined);
+  });
+
+  it("applies source caps to every session of that source", async () => {
+    const plugin = createBudgetPlugin({ rules: [{ scope: "source", window: "day", maxTokens: 1000 }], stateFile: null });
+
+    await plugin.onCapture!(makeCapture(800, 300, { sessionId: "a" }));
+    assert.ok((await plugin.onRequest!(makeRequest("b", "claude"))).response);
+    assert.equal((await plugin.onRequest!(makeRequest("b", "aider"))).response, undefined);
+  });
+
+  it("only counts spend inside the rolling window", async () => {
+    const file = join(dir, "budget.jsonl");
+    const old = Date.now() - 25 * 60 * 60 * 1000;
+    fs.writeFileSync(file, `${JSON.stringify({ ts: old, sessionId: "x", source: "claude", model: null, tokens: 5000, cost: 10 })}\n`);
+
+    const daily = createBudgetPlugin({ rules: [{ scope: "total", window: "day", maxCost: 5 }], stateFile: file });
+    assert.equal((await daily.onRequest!(makeRequest())).response, undefined);
+
+    const monthly = createBudgetPlugin({ rules: [{ scope: "total", window: "month", maxCost: 5 }], stateFile: file });
+    assert.ok((await monthly.onRequest!(makeRequest())).response);
+  });
+
+  it("does not record plugin responses", async () => {
+    const plugin = createBudgetPlugin({ rules: [{ scope: "total", maxTokens: 10 }], stateFile: null });
+    await plugin.onCapture!(makeCapture(100, 100, { respondedBy: "cache" }));
+    assert.equal((await plugin.onRequest!(makeRequest())).response, undefined);
+  });
+
+  it("validates rules", () => {
+    assert.throws(() => createBudgetPlugin({ rules: [{ scope: "user" as "session", maxCost: 1 }] }), /Unknown budget scope/);
+    assert.throws(() => createBudgetPlugin({ rules: [{ scope: "total" }] }), /needs maxCost or maxTokens/);
+  });
+});
+
+// --- Warnings ---
+
+describe("budget: warnings", () => {
+  it("logs each threshold once as spend crosses it", async () => {
+    const plugin = createBudgetPlugin({ rules: [{ scope: "total", maxTokens: 1000 }], warnAt: [0.5, 0.8], stateFile: null });
+
+    await plugin.onCapture!(makeCapture(300, 0));
+    assert.equal(logged.length, 0);
+    await plugin.onCapture!(makeCapture(250, 0));
+    assert.deepEqual(logged, ["[budget] [sess0001] Warning: all traffic at 50% (550 of 1000 tokens)"]);
+    await plugin.onCapture!(makeCapture(100, 0));
+    assert.equal(logged.length, 1);
+    // Jumping past several thresholds reports the highest
+    await plugin.onCapture!(makeCapture(200, 0));
+    assert.ok(logged[1].includes("at 80%"), logged[1]);
+  });
+});
+
+// --- Persistence ---
+
+describe("budget: persistence", () => {
+  it("keeps spend across restarts", async () => {
+    const file = join(dir, "nested", "budget.jsonl");
+    const first = createBudgetPlugin({ rules: [{ scope: "session", maxTokens: 100 }], stateFile: file });
+    await first.onCapture!(makeCapture(80, 40));
+    assert.ok(fs.existsSync(file));
+
+    const second = createBudgetPlugin({ rules: [{ scope: "session", maxTokens: 100 }], stateFile: file });
+    assert.ok((await second.onRequest!(makeRequest())).response);
+  });
+
+  it("drops records older than 30 days once enough have expired", () => {
+    const file = join(dir, "budget.jsonl");
+    const now = Date.now();
+    const line = (ts: number, tokens: number) =>
+      `${JSON.stringify({ ts, sessionId: null, source: null, model: null, tokens, cost: 0 })}\n`;
+    fs.writeFileSync(file, line(now - 31 * 24 * 60 * 60 * 1000, 1).repeat(1001));
+
+    const ledger = new Ledger(file);
+    const other = new Ledger(file);
+    assert.deepEqual(ledger.total({}), { tokens: 0, cost: 0 });
+    ledger.add({ ts: now, sessionId: null, source: null, model: null, tokens: 2, cost: 0 });
+
+    assert.equal(fs.readFileSync(file, "utf8"), line(now, 2));
+    // Readers of the old file re-read the compacted one
+    other.add({ ts: now, sessionId: null, source: null, model: null, tokens: 4, cost: 0 });
+    assert.deepEqual(other.total({}), { tokens: 6, cost: 0 });
+    assert.deepEqual(new Ledger(file).total({}), { tokens: 6, cost: 0 });
+  });
+
+  it("counts records appended by other proxies sharing the file", () => {
+    const file = join(dir, "shared", "budget.jsonl");
+    const a = new Ledger(file);
+    const b = new Ledger(file);
+    const record = { ts: Date.now(), sessionId: null, source: null, model: null, cost: 0 };
+
+    a.add({ ...record, tokens: 1 });
+    b.add({ ...record, tokens: 2 });
+    a.add({ ...record, tokens: 4 });
+
+    assert.deepEqual(a.total({}), { tokens: 7, cost: 0 });
+    assert.deepEqual(b.total({}), { tokens: 7, cost: 0 });
+    assert.equal(fs.readFileSync(file, "utf8").trim().split("\n").length, 3);
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * @contextio/cache - Response cache for LLM API calls.
+ *
+ * Proxy plugin that stores complete responses on disk, keyed on the
+ * forwarded request body, and serves them again when the same request
+ * comes back. Streamed responses are replayed with their original chunk
+ * boundaries, and optionally their original timing.
+ *
+ * Cache hits and misses are recorded on the capture under `cache`,
+ * together with the tokens and estimated cost a hit saved.
+ *
+ * Place the plugin after redact, so keys only ever see redacted request
+ * bodies. Behind reversible redaction, set `separateRecorder` and place
+ * the plugin's `recorder` before redact: entries then hold the redacted
+ * upstream response, never the original values, and redact rehydrates
+ * hits on the way out like any other response.
+ *
+ * ```typescript
+ * import { createCachePlugin } from '@contextio/cache';
+ *
+ * const cache = createCachePlugin({ replayTiming: true });
+ * ```
+ */
+
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { StringDecoder } from "node:string_decoder";
+
+import { EVENT_STREAM_CONTENT_TYPE, estimateCost, parseResponseUsage } from "@contextio/core";
+import type {
+  CacheInfo,
+  CaptureData,
+  JsonValue,
+  PluginResponseChunk,
+  ProxyPlugin,
+  RequestContext,
+  ResponseContext,
+} from "@contextio/core";
+
+import { DEFAULT_IGNORE_FIELDS, cacheKey, isStreamingRequest } from "./key.js";
+import { pruneEntries, readEntry, writeEntry, type CacheEntry } from "./store.js";
+
+export { DEFAULT_IGNORE_FIELDS, cacheKey, isStreamingRequest, normalizeBody } from "./key.js";
+export type { CacheEntry } from "./store.js";
+
+/** Configuration for {@link createCachePlugin}. */
+export interface CachePluginConfig {
+  /**
+   * Directory for cache entries.
+   * Default: `~/.contextio/cache`
+   */
+  cacheDir?: string;
+  /**
+   * Extra body fields to leave out of the key, as dot paths
+   * (e.g. `temperature`). Added to {@link DEFAULT_IGNORE_FIELDS}.
+   */
+  ignoreFields?: string[];
+  /** Replay streamed chunks with their recorded delays. Default: false. */
+  replayTiming?: boolean;
+  /**
+   * Entries older than this are not served, and are deleted when the
+   * plugin is created. Default: 30 days.
+   */
+  maxAgeMs?: number;
+  /**
+   * Add the session ID to keys, so entries are only served to the session
+   * that stored them. Needed behind reversible redaction: placeholders
+   * like `[EMAIL_1]` are numbered per session. Default: false.
+   */
+  perSession?: boolean;
+  /**
+   * Record responses in {@link CachePlugin.recorder} instead of this
+   * plugin. Place the recorder before plugins that rewrite responses,
+   * such as reversible redaction, so entries hold what the upstream sent.
+   * Default: false.
+   */
+  separateRecorder?: boolean;
+  /** Log hits and stores to stderr. Default: false. */
+  verbose?: boolean;
+}
+
+/** Cache plugin with the resolved cache directory, for CLI output. */
+export interface CachePlugin extends ProxyPlugin {
+  /** The resolved directory where entries are stored. */
+  cacheDir: string;
+  /**
+   * Response hooks that record entries on a miss. Only needs to be added
+   * to the proxy with `separateRecorder`; otherwise the cache plugin runs
+   * them itself.
+   */
+  recorder: ProxyPlugin;
+}
+
+/** Per-session state for a forwarded (missed) request. */
+interface PendingEntry {
+  key: string;
+  provider: string;
+  path: string;
+  streaming: boolean;
+  /** Time of the previous chunk (or of the request, before the first one). */
+  last: number;
+  decoder: StringDecoder;
+  chunks: PluginResponseChunk[];
+  body: string | null;
+}
+
+const DEFAULT_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+function requestModel(body: JsonValue | null): string | null {
+  if (!body || typeof body !== "object" || Array.isArray(body)) return null;
+  return typeof body.model === "string" ? body.model : null;
+}
+
+/** Tokens and cost the stored response reported, credited to a hit. */
+function savings(entry: CacheEntry, model: string | null): Omit<CacheInfo, "hit" | "key"> {
+  const raw = entry.chunks ? entry.chunks.map((c) => c.data).join("") : entry.body ?? "";
+  const usage = parseResponseUsage(raw);
+  const cost = estimateCost(
+    usage.model ?? model ?? "",
+    usage.inputTokens,
+    usage.outputTokens,
+    usage.cacheReadTokens,
+    usage.cacheWriteTokens,
+  );
+  return {
+    savedInputTokens: usage.inputTokens + usage.cacheReadTokens + usage.cacheWriteTokens,
+    savedOutputTokens: usage.outputTokens,
+    savedCost: cost,
+  };
+}
+
+/**
+ * Create a cache plugin.
+ *
+ * onRequest looks the request up and answers it on a hit. On a miss the
+ * response is recorded from onResponse or onStreamChunk (the recorder's,
+ * with `separateRecorder`), and written in onCapture once its status is
+ * known. Only 2xx responses that no plugin
+ * blocked or produced are stored. Bedrock event streams are binary and
+ * are not stored.
+ */
+export function createCachePlugin(config?: CachePluginConfig): CachePlugin {
+  const cacheDir = config?.cacheDir || join(homedir(), ".contextio", "cache");
+  const ignoreFields = [...DEFAULT_IGNORE_FIELDS, ...(config?.ignoreFields ?? [])];
+  const replayTiming = config?.replayTiming ?? false;
+  const perSession = config?.perSession ?? false;
+  const separateRecorder = config?.separateRecorder ?? false;
+  const maxAgeMs = config?.maxAgeMs ?? DEFAULT_MAX_AGE_MS;
+  const verbose = config?.verbose ?? false;
+
+  const pruned = pruneEntries(cacheDir, maxAgeMs);
+  if (verbose && pruned > 0) console.error(`[cache] Pruned ${pruned} expired entry file(s)`);
+
+  // Pending entries keyed by session, like the redact plugin's rehydrators.
+  const pending = new Map<string, PendingEntry>();
+
+  const recorder: ProxyPlugin = {
+    name: "cache-recorder",
+
+    onResponse(ctx: ResponseContext): ResponseContext {
+      const state = pending.get(ctx.sessionId ?? "__default__");
+      if (state && !state.streaming) state.body = ctx.body;
+      return ctx;
+    },
+
+    onStreamChunk(chunk: Buffer, sessionId: string | null): Buffer {
+      const state = pending.get(sessionId ?? "__default__");
+      if (!state || !state.streaming) return chunk;
+
+      // The decoder holds back multi-byte characters split across chunks.
+      const data = state.decoder.write(chunk);
+      if (data) {
+        const now = Date.now();
+        state.chunks.push({ data, delayMs: now - state.last });
+        state.last = now;
+      }
+      return chunk;
+    },
+  };
+
+  return {
+    name: "cache",
+    cacheDir,
+    recorder,
+    ...(separateRecorder
+      ? {}
+      : { onResponse: recorder.onResponse, onStreamChunk: recorder.onStreamChunk }),
+
+    onRequest(ctx: RequestContext): RequestContext {
+      if (ctx.body === null) return ctx;
+
+      const key = cacheKey(
+        perSession ? { ...ctx, session: ctx.sessionId ?? "__default__" } : ctx,
+        ignoreFields,
+      );
+      const streaming = isStreamingRequest(ctx.body, ctx.path);
+      const annotations = ctx.annotations ?? {};
+      const entry = readEntry(cacheDir, key, streaming, maxAgeMs);
+
+      if (!entry) {
+        annotations.cache = { hit: false, key, savedInputTokens: 0, savedOutputTokens: 0, savedCost: null };
+        pending.set(ctx.sessionId ?? "__default__", {
+          key,
+          provider: ctx.provider,
+          path: ctx.path,
+          streaming,
+          last: Date.now(),
+          decoder: new StringDecoder("utf8"),
+          chunks: [],
+          body: null,
+        });
+        return ctx.annotations ? ctx : { ...ctx, annotations };
+      }
+
+      annotations.cache = { hit: true, key, ...savings(entry, requestModel(ctx.body)) };
+      if (verbose) {
+        const sid = ctx.sessionId ? ` [${ctx.sessionId}]` : "";
+        console.error(`[cache]${sid} Hit ${key.slice(0, 12)} (${ctx.path})`);
+      }
+
+      const headers = { "content-type": entry.contentType };
+      const response = entry.chunks
+        ? {
+            status: entry.status,
+            headers,
+            chunks: replayTiming ? entry.chunks : entry.chunks.map((c) => ({ data: c.data })),
+          }
+        : { status: entry.status, headers, body: entry.body };
+      return { ...ctx, annotations, response };
+    },
+
+    onCapture(capture: CaptureData): void {
+      const sessionKey = capture.sessionId ?? "__default__";
+      const state = pending.get(sessionKey);
+      pending.delete(sessionKey);
+      if (!state || capture.cache?.key !== state.key) return;
+      if (capture.respondedBy || capture.security?.blocked) return;
+      if (capture.responseStatus < 200 || capture.responseStatus >= 300) return;
+      if (capture.responseHeaders["content-type"]?.includes(EVENT_STREAM_CONTENT_TYPE)) return;
+
+      const entry: CacheEntry = {
+        version: 1,
+        key: state.key,
+        createdAt: new Date().toISOString(),
+        provider: state.provider,
+        path: state.path,
+        status: capture.responseStatus,
+        contentType:
+          capture.responseHeaders["content-type"] ??
+          (state.streaming ? "text/event-stream" : "application/json"),
+      };
+      if (state.streaming) {
+        const tail = state.decoder.end();
+        if (tail) state.chunks.push({ data: tail, delayMs: 0 });
+        entry.chunks = state.chunks;
+      } else {
+        entry.body = state.body ?? capture.responseBody;
+      }
+
+      try {
+        writeEntry(cacheDir, entry);
+        if (verbose) {
+          const sid = capture.sessionId ? ` [${capture.sessionId}]` : "";
+          console.error(`[cache]${sid} Stored ${state.key.slice(0, 12)} (${state.path})`);
+        }
+      } catch (err: unknown) {
+        console.error(
+          "[cache] Write error:",
+          err instanceof Error ? err.message : String(err),
+        );
+      }
+    },
+  };
+}
@@ -0,0 +1,105 @@
+/**
+ * Cache keys.
+ *
+ * Two requests share a key when they go to the same provider and path
+ * with the same forwarded body, ignoring fields that change between runs
+ * without changing the answer (`metadata.user_id`, `stream`). Object keys
+ * are sorted before hashing, so property order does not matter. Keys can
+ * also be scoped to one session.
+ */
+
+import { createHash } from "node:crypto";
+
+import type { JsonObject, JsonValue } from "@contextio/core";
+
+/** Body fields left out of the key by default, as dot paths. */
+export const DEFAULT_IGNORE_FIELDS = ["stream", "stream_options", "metadata.user_id"];
+
+function isObject(value: JsonValue | undefined): value is JsonObject {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/** Copy of `obj` without the field at `path`; parents left empty are dropped too. */
+function withoutPath(obj: JsonObject, path: string[]): JsonObject {
+  const [head, ...rest] = path;
+  if (!(head in obj)) return obj;
+
+  const out = { ...obj };
+  if (rest.length === 0) {
+    delete out[head];
+    return out;
+  }
+
+  const child = out[head];
+  if (!isObject(child)) return obj;
+  const trimmed = withoutPath(child, rest);
+  if (Object.keys(trimmed).length === 0) delete out[head];
+  else out[head] = trimmed;
+  return out;
+}
+
+/** JSON serialization with object keys sorted at every level. */
+function stableStringify(value: JsonValue): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (isObject(value)) {
+    const entries = Object.keys(value)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${stableStringify(value[k])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Remove ignored fields from a request body.
+ *
+ * @param body - Parsed request body.
+ * @param ignoreFields - Dot paths to remove, e.g. `metadata.user_id`.
+ */
+export function normalizeBody(
+  body: JsonValue | null,
+  ignoreFields: string[] = DEFAULT_IGNORE_FIELDS,
+): JsonValue | null {
+  if (!isObject(body ?? undefined)) return body;
+  let out = body as JsonObject;
+  for (const field of ignoreFields) {
+    out = withoutPath(out, field.split("."));
+  }
+  return out;
+}
+
+/**
+ * Compute the cache key for a request.
+ *
+ * @param request - Provider, path, and body; `session`, when set, keeps
+ *   the key private to that session.
+ * @returns sha256 hex digest of provider, path, normalized body, and
+ *   session.
+ */
+export function cacheKey(
+  request: { provider: string; path: string; body: JsonValue | null; session?: string },
+  ignoreFields: string[] = DEFAULT_IGNORE_FIELDS,
+): string {
+  const material = stableStringify({
+    provider: request.provider,
+    path: request.path,
+    body: normalizeBody(request.body, ignoreFields),
+    ...(request.session !== undefined ? { session: request.session } : {}),
+  });
+  return createHash("sha256").update(material).digest("hex");
+}
+
+/**
+ * Whether a request asks for a streamed response.
+ *
+ * The `stream` flag is not part of the key, so streamed and buffered
+ * responses to the same request are stored side by side.
+ */
+export function isStreamingRequest(body: JsonValue | null, path: string): boolean {
+  if (isObject(body ?? undefined) && (body as JsonObject).stream === true) return true;
+  return (
+    path.includes(":streamGenerateContent") ||
+    /[?&]alt=sse\b/.test(path) ||
+    /\/(invoke-with-response-stream|converse-stream)$/.test(path)
+  );
+}
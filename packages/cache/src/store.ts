@@ -0,0 +1,100 @@
+/**
+ * On-disk cache entries.
+ *
+ * One JSON file per key and response kind: `{key}.json` for buffered
+ * responses and `{key}.sse.json` for streams. Writes are atomic (write
+ * to .tmp, then rename), like the logger's capture files. Entries past
+ * the plugin's `maxAgeMs` are not served, and `pruneEntries` deletes them.
+ */
+
+import fs from "node:fs";
+import { join } from "node:path";
+
+import type { PluginResponseChunk } from "@contextio/core";
+
+/** A stored response. */
+export interface CacheEntry {
+  version: 1;
+  key: string;
+  /** ISO-8601 timestamp when the entry was written. */
+  createdAt: string;
+  provider: string;
+  path: string;
+  status: number;
+  contentType: string;
+  /** Buffered response body. */
+  body?: string;
+  /** Streamed response, split at the original chunk boundaries. */
+  chunks?: PluginResponseChunk[];
+}
+
+/** Path of the entry file for a key. */
+export function entryPath(dir: string, key: string, streaming: boolean): string {
+  return join(dir, `${key}${streaming ? ".sse" : ""}.json`);
+}
+
+/** Read an entry, or null if it is missing, unreadable, or older than `maxAgeMs`. */
+export function readEntry(
+  dir: string,
+  key: string,
+  streaming: boolean,
+  maxAgeMs = Infinity,
+  now = Date.now(),
+): CacheEntry | null {
+  try {
+    const raw = fs.readFileSync(entryPath(dir, key, streaming), "utf8");
+    const entry = JSON.parse(raw) as CacheEntry;
+    if (entry.version !== 1) return null;
+    if (streaming ? !Array.isArray(entry.chunks) : typeof entry.body !== "string") return null;
+    if (!(now - Date.parse(entry.createdAt) <= maxAgeMs)) return null;
+    return entry;
+  } catch {
+    return null;
+  }
+}
+
+/** Write an entry atomically. Throws on I/O errors. */
+export function writeEntry(dir: string, entry: CacheEntry): void {
+  fs.mkdirSync(dir, { recursive: true });
+  const filePath = entryPath(dir, entry.key, entry.chunks !== undefined);
+  const tmpPath = `${filePath}.tmp`;
+  try {
+    fs.writeFileSync(tmpPath, JSON.stringify(entry));
+    fs.renameSync(tmpPath, filePath);
+  } catch (err) {
+    try {
+      fs.unlinkSync(tmpPath);
+    } catch {
+      /* may not exist */
+    }
+    throw err;
+  }
+}
+
+/**
+ * Delete entries written more than `maxAgeMs` ago, going by file
+ * modification time (entries are never rewritten in place). Returns how
+ * many were removed.
+ */
+export function pruneEntries(dir: string, maxAgeMs: number, now = Date.now()): number {
+  let names: string[];
+  try {
+    names = fs.readdirSync(dir).filter((f) => f.endsWith(".json"));
+  } catch {
+    return 0;
+  }
+
+  let removed = 0;
+  for (const name of names) {
+    try {
+      const filePath = join(dir, name);
+      if (now - fs.statSync(filePath).mtimeMs > maxAgeMs) {
+        fs.unlinkSync(filePath);
+        removed++;
+      }
+    } catch {
+      // Removed meanwhile
+    }
+  }
+  return removed;
+}
@@ -0,0 +1,288 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import type { CaptureData, JsonValue, RequestContext, ResponseContext } from "@contextio/core";
+
+import { cacheKey, createCachePlugin, isStreamingRequest, normalizeBody } from "../dist/index.js";
+
+// --- Helpers ---
+
+function makeRequest(body: JsonValue, path = "/v1/messages"): RequestContext {
+  return {
+    provider: "anthropic",
+    apiFormat: "anthropic-messages",
+    path,
+    source: null,
+    sessionId: null,
+    headers: {},
+    body,
+    rawBody: Buffer.from(JSON.stringify(body)),
+    annotations: {},
+  };
+}
+
+function makeResponse(body: string): ResponseContext {
+  return {
+    sessionId: null,
+    status: 200,
+    headers: { "content-type": "application/json" },
+    body,
+    isStreaming: false,
+  };
+}
+
+function makeCapture(ctx: RequestContext, status: number, streaming: boolean): CaptureData {
+  return {
+    ...ctx.annotations,
+    timestamp: new Date().toISOString(),
+    sessionId: null,
+    method: "POST",
+    path: ctx.path,
+    source: null,
+    provider: ctx.provider,
+    apiFormat: ctx.apiFormat,
+    targetUrl: `https://api.anthropic.com${ctx.path}`,
+    requestHeaders: {},
+    requestBody: ctx.body,
+    requestBytes: 0,
+    responseStatus: status,
+    responseHeaders: { "content-type": streaming ? "text/event-stream" : "application/json" },
+    responseBody: "",
+    responseIsStreaming: streaming,
+    responseBytes: 0,
+    timings: { send_ms: 0, wait_ms: 0, receive_ms: 0, total_ms: 0 },
+  };
+}
+
+const BODY = {
+  model: "claude-sonnet-4-20250514",
+  metadata: { user_id: "user_abc" },
+  messages: [{ role: "user", content: "hi" }],
+};
+
+const RESPONSE = JSON.stringify({
+  model: "claude-sonnet-4-20250514",
+  content: [{ type: "text", text: "hello" }],
+  usage: { input_tokens: 1000, output_tokens: 200 },
+});
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(join(tmpdir(), "contextio-cache-"));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+// --- Keys ---
+
+describe("cache: keys", () => {
+  it("ignores volatile fields and key order", () => {
+    const a = cacheKey({ provider: "anthropic", path: "/v1/messages", body: BODY });
+    const b = cacheKey({
+      provider: "anthropic",
+      path: "/v1/messages",
+      body: { messages: [{ content: "hi", role: "user" }], model: BODY.model, stream: true, metadata: { user_id: "other" } },
+    });
+    assert.equal(a, b);
+    assert.match(a, /^[0-9a-f]{64}$/);
+  });
+
+  it("distinguishes provider, path, and content", () => {
+    const base = { provider: "anthropic", path: "/v1/messages", body: BODY as JsonValue };
+    const key = cacheKey(base);
+    assert.notEqual(cacheKey({ ...base, provider: "openai" }), key);
+    assert.notEqual(cacheKey({ ...base, path: "/v1/complete" }), key);
+    assert.notEqual(cacheKey({ ...base, body: { ...BODY, model: "claude-opus-4" } }), key);
+  });
+
+  it("drops emptied parents", () => {
+    assert.deepEqual(normalizeBody({ metadata: { user_id: "u" }, a: 1 }), { a: 1 });
+    assert.deepEqual(normalizeBody({ metadata: { user_id: "u", tag: "x" } }), { metadata: { tag: "x" } });
+  });
+
+  it("detects streaming requests", () => {
+    assert.equal(isStreamingRequest({ stream: true }, "/v1/messages"), true);
+    assert.equal(isStreamingRequest({}, "/v1beta/models/g:streamGenerateContent?alt=sse"), true);
+    assert.equal(isStreamingRequest({}, "/v1/messages"), false);
+    assert.equal(isStreamingRequest({}, "/model/anthropic.claude-v2/converse-stream"), true);
+  });
+});
+
+// --- Plugin ---
+
+describe("cache: buffered responses", () => {
+  it("stores a 2xx response and serves it on the next identical request", async () => {
+    const plugin = createCachePlugin({ cacheDir: dir });
+
+    const first = await plugin.onRequest!(makeRequest(BODY));
+    assert.equal(first.response, undefined);
+    assert.equal(first.annotations?.cache?.hit, false);
+    await plugin.onResponse!(makeResponse(RESPONSE));
+    await plugin.onCapture!(makeCapture(first, 200, false));
+    assert.equal(fs.readdirSync(dir).length, 1);
+
+    const second = await plugin.onRequest!(makeRequest({ ...BODY, metadata: { user_id: "someone_else" } }));
+    assert.ok(second.response);
+    assert.equal(second.response.status, 200);
+    assert.equal(second.response.body, RESPONSE);
+    assert.equal(second.response.headers?.["content-type"], "application/json");
+
+    const cache = second.annotations?.cache;
+    assert.ok(cache);
+    assert.equal(cache.hit, true);
+    assert.equal(cache.key, first.annotations?.cache?.key);
+    assert.equal(cache.savedInputTokens, 1000);
+    assert.equal(cache.savedOutputTokens, 200);
+    assert.ok(cache.savedCost !== null && cache.savedCost > 0);
+  });
+
+  it("neither serves nor keeps entries older than maxAgeMs", async () => {
+    const plugin = createCachePlugin({ cacheDir: dir });
+    const first = await plugin.onRequest!(makeRequest(BODY));
+    await plugin.onResponse!(makeResponse(RESPONSE));
+    await plugin.onCapture!(makeCapture(first, 200, false));
+    const [name] = fs.readdirSync(dir);
+    const file = join(dir, name);
+    const entry = JSON.parse(fs.readFileSync(file, "utf8"));
+    const twoDaysAgo = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000);
+    fs.writeFileSync(file, JSON.stringify({ ...entry, createdAt: twoDaysAgo.toISOString() }));
+
+    assert.ok((await createCachePlugin({ cacheDir: dir }).onRequest!(makeRequest(BODY))).response);
+    // Pruning goes by file time, reading by createdAt
+    const day = 24 * 60 * 60 * 1000;
+    assert.equal((await createCachePlugin({ cacheDir: dir, maxAgeMs: day }).onRequest!(makeRequest(BODY))).response, undefined);
+
+    fs.utimesSync(file, twoDaysAgo, twoDaysAgo);
+    createCachePlugin({ cacheDir: dir, maxAgeMs: day });
+    assert.deepEqual(fs.readdirSync(dir), []);
+  });
+
+  it("does not store errors or responses another plugin produced", async () => {
+    const plugin = createCachePlugin({ cacheDir: dir });
+
+    const failed = await plugin.onRequest!(makeRequest(BODY));
+    await plugin.onResponse!(makeResponse('{"type":"error"}'));
+    await plugin.onCapture!(makeCapture(failed, 529, false));
+
+    const blocked = await plugin.onRequest!(makeRequest(BODY));
+    await plugin.onCapture!({ ...makeCapture(blocked, 200, false), respondedBy: "guard" });
+
+    assert.equal(fs.existsSync(dir) ? fs.readdirSync(dir).length : 0, 0);
+  });
+
+  it("keeps entries per session when perSession is set", async () => {
+    // Behind reversible redaction both sessions send [EMAIL_1], but for different addresses.
+    const body = { ...BODY, messages: [{ role: "user", content: "email [EMAIL_1]" }] };
+    const plugin = createCachePlugin({ cacheDir: dir, perSession: true });
+
+    const a = await plugin.onRequest!({ ...makeRequest(body), sessionId: "sessionA" });
+    await plugin.onResponse!({ ...makeResponse('{"text":"You said: email alice@corp.com"}'), sessionId: "sessionA" });
+    await plugin.onCapture!({ ...makeCapture(a, 200, false), sessionId: "sessionA" });
+
+    const b = await plugin.onRequest!({ ...makeRequest(body), sessionId: "sessionB" });
+    assert.equal(b.response, undefined);
+    assert.equal(b.annotations?.cache?.hit, false);
+    assert.notEqual(b.annotations?.cache?.key, a.annotations?.cache?.key);
+
+    const again = await plugin.onRequest!({ ...makeRequest(body), sessionId: "sessionA" });
+    assert.equal(again.annotations?.cache?.hit, true);
+  });
+
+  it("stores what the separate recorder saw, not the rehydrated response", async () => {
+    const body = { ...BODY, messages: [{ role: "user", content: "email [EMAIL_1]" }] };
+    const plugin = createCachePlugin({ cacheDir: dir, perSession: true, separateRecorder: true });
+    assert.equal(plugin.onResponse, undefined);
+    assert.equal(plugin.onStreamChunk, undefined);
+
+    // The recorder runs before redact, which puts the original value back for the client.
+    const ctx = await plugin.onRequest!({ ...makeRequest(body), sessionId: "sessionA" });
+    await plugin.recorder.onResponse!({ ...makeResponse('{"text":"You said: email [EMAIL_1]"}'), sessionId: "sessionA" });
+    await plugin.onCapture!({
+      ...makeCapture(ctx, 200, false),
+      sessionId: "sessionA",
+      responseBody: '{"text":"You said: email alice@corp.com"}',
+    });
+
+    const [file] = fs.readdirSync(dir);
+    assert.ok(!fs.readFileSync(join(dir, file), "utf8").includes("alice@corp.com"));
+
+    const hit = await plugin.onRequest!({ ...makeRequest(body), sessionId: "sessionA" });
+    assert.equal(hit.response?.body, '{"text":"You said: email [EMAIL_1]"}');
+  });
+
+  it("skips non-JSON request bodies", async () => {
+    const plugin = createCachePlugin({ cacheDir: dir });
+    const ctx = await plugin.onRequest!({ ...makeRequest(null), rawBody: Buffer.from("raw") });
+    assert.equal(ctx.annotations?.cache, undefined);
+  });
+});
+
+describe("cache: streaming responses", () => {
+  const events = [
+    'event: message_start\ndata: {"type":"message_start","message":{"model":"claude-sonnet-4-20250514","usage":{"input_tokens":50,"output_tokens":1}}}\n\n',
+    'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"héllo"}}\n\n',
+    'event: message_delta\ndata: {"type":"message_delta","usage":{"output_tokens":7}}\n\n',
+  ];
+
+  async function record(plugin: ReturnType<typeof createCachePlugin>): Promise<void> {
+    const ctx = await plugin.onRequest!(makeRequest({ ...BODY, stream: true }));
+    // Split the second event inside the multi-byte "é".
+    const middle = Buffer.from(events[1]);
+    const cut = middle.indexOf(0xc3) + 1;
+    plugin.onStreamChunk!(Buffer.from(events[0]), null);
+    plugin.onStreamChunk!(middle.subarray(0, cut), null);
+    plugin.onStreamChunk!(middle.subarray(cut), null);
+    plugin.onStreamChunk!(Buffer.from(events[2]), null);
+    await plugin.onCapture!(makeCapture(ctx, 200, true));
+  }
+
+  it("replays chunks with their original boundaries", async () => {
+    const plugin = createCachePlugin({ cacheDir: dir });
+    await record(plugin);
+
+    const hit = await plugin.onRequest!(makeRequest({ ...BODY, stream: true }));
+    const chunks = hit.response?.chunks;
+    assert.ok(chunks);
+    assert.equal(chunks.map((c) => c.data).join(""), events.join(""));
+    assert.equal(chunks.length, 4);
+    assert.ok(chunks.every((c) => c.delayMs === undefined));
+    assert.equal(hit.response?.headers?.["content-type"], "text/event-stream");
+    assert.equal(hit.annotations?.cache?.savedOutputTokens, 7);
+  });
+
+  it("keeps recorded delays with replayTiming", async () => {
+    const plugin = createCachePlugin({ cacheDir: dir, replayTiming: true });
+    await record(plugin);
+
+    const hit = await plugin.onRequest!(makeRequest({ ...BODY, stream: true }));
+    assert.ok(hit.response?.chunks?.every((c) => typeof c.delayMs === "number"));
+  });
+
+  it("stores streamed and buffered responses separately", async () => {
+    const plugin = createCachePlugin({ cacheDir: dir });
+    await record(plugin);
+
+    const buffered = await plugin.onRequest!(makeRequest(BODY));
+    assert.equal(buffered.response, undefined);
+    assert.equal(buffered.annotations?.cache?.hit, false);
+  });
+
+  it("does not store Bedrock event streams", async () => {
+    const plugin = createCachePlugin({ cacheDir: dir });
+    const path = "/model/anthropic.claude-v2/invoke-with-response-stream";
+    const ctx = await plugin.onRequest!({ ...makeRequest(BODY, path), provider: "bedrock" });
+    plugin.onStreamChunk!(Buffer.from([0, 0, 0, 16, 0, 0, 0, 0]), null);
+    await plugin.onCapture!({
+      ...makeCapture(ctx, 200, true),
+      responseHeaders: { "content-type": "application/vnd.amazon.eventstream" },
+    });
+
+    assert.equal(fs.existsSync(dir) ? fs.readdirSync(dir).length : 0, 0);
+  });
+});
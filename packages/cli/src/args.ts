@@ -2,7 +2,7 @@
  * CLI argument parsing.
  *
  * Uses Commander to define subcommands (proxy, attach, monitor, inspect,
- * doctor) and parse argv into typed result objects.
+ * replay, export, mock, redact, doctor) and parse argv into typed result objects.
  * The parser never calls process.exit; instead it returns ParseResult
  * which is either a typed args object or a ParseError.
  */
@@ -10,7 +10,7 @@
 import fs from "node:fs";
 import { fileURLToPath } from "node:url";
 
-import { Command } from "commander";
+import { Command, InvalidArgumentError, Option } from "commander";
 
 const _pkgPath = new URL("../package.json", import.meta.url);
 const _pkg = JSON.parse(fs.readFileSync(fileURLToPath(_pkgPath), "utf8")) as { version: string };
@@ -19,8 +19,8 @@ const CLI_VERSION: string = _pkg.version;
 /** Parsed arguments for `ctxio proxy`. */
 export interface ProxyArgs {
   command: "proxy";
-  /** "start" for normal operation, "stop"/"status" for background control. */
-  action: "start" | "stop" | "status";
+  /** "start" for normal operation, "stop"/"status"/"reload" for background control. */
+  action: "start" | "stop" | "status" | "reload";
   port: number;
   bind: string;
   /** Run in background (detached) mode. */
@@ -29,11 +29,36 @@ export interface ProxyArgs {
   redactPreset: string;
   redactPolicy: string | null;
   redactReversible: boolean;
+  /** Keep reversible-redaction mappings encrypted on disk across restarts. */
+  redactPersist: boolean;
+  /** Prompt-injection guard mode, or null when the guard is off. */
+  guard: "observe" | "warn" | "block" | null;
+  /** Serve repeated requests from the response cache. */
+  cache: boolean;
+  cacheDir: string | null;
+  /** Replay cached streams with their recorded timing. */
+  cacheTiming: boolean;
+  /** Days cache entries are served and kept, or null for the plugin default. */
+  cacheMaxAge: number | null;
+  /** USD cap per session, or null for none. */
+  budgetSession: number | null;
+  /** USD cap per source tool over a rolling day, or null for none. */
+  budgetSource: number | null;
+  /** USD cap for all traffic over a rolling day, or null for none. */
+  budgetDay: number | null;
+  /** USD cap for all traffic over a rolling 30 days, or null for none. */
+  budgetMonth: number | null;
   log: boolean;
   noLog: boolean;
   logDir: string | null;
   logMaxSessions: number;
   verbose: boolean;
+  /** Accept CONNECT, so the proxy can be used as `HTTPS_PROXY`. */
+  intercept: boolean;
+  /** JSON file of named OpenAI-compatible upstreams, or null for none. */
+  upstreams: string | null;
+  /** JSON file of model routing rules, or null for none. */
+  routes: string | null;
   /** Command and args after "--" to wrap, or null for standalone proxy. */
   wrap: string[] | null;
 }
@@ -53,6 +78,10 @@ export interface MonitorArgs {
   /** Duration filter like "1h", "30m". Show recent captures then watch. */
   last: string | null;
   source: string | null;
+  /** Context utilization (%) at which rows are highlighted yellow. */
+  contextWarn: number;
+  /** Context utilization (%) at which rows are highlighted red. */
+  contextCritical: number;
   /** Test hook: render existing captures and return without starting fs.watch. */
   once?: boolean;
 }
@@ -66,6 +95,73 @@ export interface InspectArgs {
   source: string | null;
   /** Show full system prompt without truncation. */
   full: boolean;
+  /** Summarize redaction audit records instead of prompts. */
+  redactions: boolean;
+}
+
+/** Parsed arguments for `ctxio replay <capture>`. */
+export interface ReplayArgs {
+  command: "replay";
+  /** Capture file path, or a filename inside the capture directory. */
+  file: string;
+  /** Full URL to send the request to instead of the captured target. */
+  target: string | null;
+  /** Base URL replacing the captured origin; the captured path is kept. */
+  upstream: string | null;
+  /** Override the `model` field of the captured request body. */
+  model: string | null;
+}
+
+/** Parsed arguments for `ctxio export`. */
+export interface ExportArgs {
+  command: "export";
+  /** Session to export, or null for all sessions. */
+  session: string | null;
+  /** Export the most recent session. */
+  last: boolean;
+  /** Run request and response bodies through redaction before bundling. */
+  redact: boolean;
+  redactPreset: string;
+  redactPolicy: string | null;
+  /** Output path for the archive; defaults to a timestamped name in cwd. */
+  output: string | null;
+}
+
+/** Parsed arguments for `ctxio mock --from <dir>`. */
+export interface MockArgs {
+  command: "mock";
+  /** Directory of capture files to serve responses from. */
+  from: string;
+  port: number;
+  bind: string;
+  /** Body fields (dot paths) used for matching, or null for the whole body. */
+  matchFields: string[] | null;
+  /** Extra body fields (dot paths) ignored when matching. */
+  ignoreFields: string[];
+  verbose: boolean;
+}
+
+/** Parsed arguments for `ctxio redact mappings [session]`. */
+export interface RedactMappingsArgs {
+  command: "redact-mappings";
+  /** Session to show or purge, or null for all stored sessions. */
+  session: string | null;
+  /** Delete the stored mappings instead of showing them. */
+  purge: boolean;
+  /** Show original values unmasked. */
+  reveal: boolean;
+}
+
+/** Parsed arguments for `ctxio redact test [inputs...]`. */
+export interface RedactTestArgs {
+  command: "redact-test";
+  /** Files or capture directories to run the policy over. Empty (or "-") reads stdin. */
+  inputs: string[];
+  preset: string;
+  policy: string | null;
+  /** Fixture file with inputs and the rules expected to match them. */
+  expect: string | null;
+  color: boolean;
 }
 
 /** Parsed arguments for `ctxio doctor`. */
@@ -79,6 +175,11 @@ export type ParsedArgs =
   | AttachArgs
   | MonitorArgs
   | InspectArgs
+  | ReplayArgs
+  | ExportArgs
+  | MockArgs
+  | RedactMappingsArgs
+  | RedactTestArgs
   | DoctorArgs;
 
 /** Returned when argument parsing fails. */
@@ -94,6 +195,38 @@ export function isError(result: ParseResult): result is ParseError {
   return "error" in result;
 }
 
+/** Parse a positive USD amount option value. */
+function parseUsd(value: string): number {
+  const amount = Number(value.replace(/^\$/, ""));
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new InvalidArgumentError("Expected a positive USD amount.");
+  }
+  return amount;
+}
+
+/** Parse a positive number of days. */
+function parseDays(value: string): number {
+  const days = Number(value);
+  if (!Number.isFinite(days) || days <= 0) {
+    throw new InvalidArgumentError("Expected a positive number of days.");
+  }
+  return days;
+}
+
+/** Split a comma-separated option value, dropping empty entries. */
+function splitList(value: string): string[] {
+  return value.split(",").map((s) => s.trim()).filter(Boolean);
+}
+
+/** Parse a percentage option value between 1 and 100. */
+function parsePercent(value: string): number {
+  const pct = Number(value.replace(/%$/, ""));
+  if (!Number.isFinite(pct) || pct <= 0 || pct > 100) {
+    throw new InvalidArgumentError("Expected a percentage between 1 and 100.");
+  }
+  return pct;
+}
+
 /** Build the Commander program with all subcommands. Results are emitted via callback. */
 export function buildProgram(
   onResult: (result: ParseResult) => void,
@@ -118,20 +251,37 @@ export function buildProgram(
     .option("-P, --redact-preset <name>", "preset: secrets, pii, strict")
     .option("-f, --redact-policy <path>", "path to a redaction policy JSON file")
     .option("-R, --redact-reversible", "restore redacted values in responses")
+    .option("--redact-persist", "keep reversible mappings encrypted on disk across restarts")
+    .addOption(
+      new Option("--guard [mode]", "scan for prompt injection: observe, warn, block (default: warn)")
+        .choices(["observe", "warn", "block"])
+        .preset("warn"),
+    )
+    .option("--cache", "serve repeated requests from the response cache")
+    .option("--cache-dir <path>", "directory for cache entries (default: ~/.contextio/cache)")
+    .option("--cache-timing", "replay cached streams with their original timing")
+    .addOption(new Option("--cache-max-age <days>", "serve and keep cache entries this many days (default: 30)").argParser(parseDays))
+    .addOption(new Option("--budget-session <usd>", "reject requests once a session has cost this much").argParser(parseUsd))
+    .addOption(new Option("--budget-source <usd>", "daily cap per source tool (rolling 24h)").argParser(parseUsd))
+    .addOption(new Option("--budget-day <usd>", "daily cap for all traffic (rolling 24h)").argParser(parseUsd))
+    .addOption(new Option("--budget-month <usd>", "monthly cap for all traffic (rolling 30d)").argParser(parseUsd))
     .option("--no-log", "disable capture logging (on by default)")
     .option("--log-dir <path>", "directory for capture files")
     .option("--log-max-sessions <n>", "keep only the last N sessions (default: 0)")
     .option("--verbose", "show per-request traffic logs")
+    .option("--intercept", "accept CONNECT and read LLM API traffic (use as HTTPS_PROXY)")
+    .option("--upstreams <path>", "JSON file of named OpenAI-compatible upstreams")
+    .option("--routes <path>", "JSON file of rules that rewrite the model or upstream")
     .allowUnknownOption(false)
     .passThroughOptions()
     .argument("[command-args...]")
     .exitOverride();
 
   proxy.action((commandArgs, opts) => {
-    // "proxy stop" and "proxy status" are special actions
+    // "proxy stop", "proxy status", and "proxy reload" are special actions
     if (
       commandArgs.length === 1 &&
-      (commandArgs[0] === "stop" || commandArgs[0] === "status")
+      (commandArgs[0] === "stop" || commandArgs[0] === "status" || commandArgs[0] === "reload")
     ) {
       onResult({
         command: "proxy",
@@ -143,11 +293,24 @@ export function buildProgram(
         redactPreset: "pii",
         redactPolicy: null,
         redactReversible: false,
+        redactPersist: false,
+        guard: null,
+        cache: false,
+        cacheDir: null,
+        cacheTiming: false,
+        cacheMaxAge: null,
+        budgetSession: null,
+        budgetSource: null,
+        budgetDay: null,
+        budgetMonth: null,
         log: true,
         noLog: false,
         logDir: null,
         logMaxSessions: 0,
         verbose: false,
+        intercept: false,
+        upstreams: null,
+        routes: null,
         wrap: null,
       });
       return;
@@ -160,6 +323,7 @@ export function buildProgram(
       !!opts.redactPreset ||
       !!opts.redactPolicy ||
       opts.redactReversible ||
+      opts.redactPersist ||
       false;
 
     const noLog = opts.log === false;
@@ -174,12 +338,25 @@ export function buildProgram(
       redact,
       redactPreset: opts.redactPreset || "pii",
       redactPolicy: opts.redactPolicy || null,
-      redactReversible: opts.redactReversible || false,
+      redactReversible: opts.redactReversible || opts.redactPersist || false,
+      redactPersist: opts.redactPersist || false,
+      guard: opts.guard ?? null,
+      cache: opts.cache || !!opts.cacheDir || opts.cacheTiming || opts.cacheMaxAge !== undefined,
+      cacheDir: opts.cacheDir || null,
+      cacheTiming: opts.cacheTiming || false,
+      cacheMaxAge: opts.cacheMaxAge ?? null,
+      budgetSession: opts.budgetSession ?? null,
+      budgetSource: opts.budgetSource ?? null,
+      budgetDay: opts.budgetDay ?? null,
+      budgetMonth: opts.budgetMonth ?? null,
       log,
       noLog,
       logDir: opts.logDir || null,
       logMaxSessions: opts.logMaxSessions ? parseInt(opts.logMaxSessions, 10) : 0,
       verbose: opts.verbose || false,
+      intercept: opts.intercept || false,
+      upstreams: opts.upstreams || null,
+      routes: opts.routes || null,
       wrap,
     });
   });
@@ -208,13 +385,23 @@ export function buildProgram(
     .argument("[session]", "session ID to watch")
     .option("--last <duration>", "show recent captures, then watch (1h, 30m, 60s)")
     .option("--source <name>", "filter by source tool (claude, codex, copilot)")
+    .addOption(new Option("--context-warn <pct>", "highlight requests using this % of the context window (default: 80)").argParser(parsePercent))
+    .addOption(new Option("--context-critical <pct>", "flag requests about to hit the context limit (default: 95)").argParser(parsePercent))
     .exitOverride()
     .action((session, opts) => {
+      const contextWarn: number = opts.contextWarn ?? 80;
+      const contextCritical: number = opts.contextCritical ?? 95;
+      if (contextWarn > contextCritical) {
+        onResult({ error: `--context-warn (${contextWarn}%) must not be above --context-critical (${contextCritical}%)` });
+        return;
+      }
       onResult({
         command: "monitor",
         session: session || null,
         last: opts.last || null,
         source: opts.source || null,
+        contextWarn,
+        contextCritical,
       });
     });
 
@@ -226,6 +413,7 @@ export function buildProgram(
     .option("--last", "inspect the most recent session")
     .option("--source <name>", "filter by tool (claude, codex, copilot)")
     .option("--full", "show full system prompt (don't truncate)")
+    .option("--redactions", "summarize what was redacted, per session")
     .exitOverride()
     .action((session, opts) => {
       onResult({
@@ -234,6 +422,114 @@ export function buildProgram(
         last: opts.last || false,
         source: opts.source || null,
         full: opts.full || false,
+        redactions: opts.redactions || false,
+      });
+    });
+
+  // --- replay ---
+  program
+    .command("replay")
+    .description("Re-send a captured request and diff the response")
+    .argument("<capture>", "capture file (path or name in the capture dir)")
+    .option("--target <url>", "send to this full URL instead of the captured target")
+    .option("--upstream <url>", "replace the captured origin, keeping the path")
+    .option("--model <name>", "swap the model in the request body")
+    .exitOverride()
+    .action((file, opts) => {
+      onResult({
+        command: "replay",
+        file,
+        target: opts.target || null,
+        upstream: opts.upstream || null,
+        model: opts.model || null,
+      });
+    });
+
+  // --- export ---
+  program
+    .command("export")
+    .description("Bundle session captures into a shareable tar.gz")
+    .argument("[session]", "session ID to export (default: all sessions)")
+    .option("--last", "export the most recent session")
+    .option("-r, --redact", "redact bodies before bundling (default preset: pii)")
+    .option("-P, --redact-preset <name>", "preset: secrets, pii, strict")
+    .option("-f, --redact-policy <path>", "path to a redaction policy JSON file")
+    .option("-o, --output <path>", "archive path (default: contextio-export-<timestamp>.tar.gz)")
+    .exitOverride()
+    .action((session, opts) => {
+      onResult({
+        command: "export",
+        session: session || null,
+        last: opts.last || false,
+        redact: opts.redact || !!opts.redactPreset || !!opts.redactPolicy || false,
+        redactPreset: opts.redactPreset || "pii",
+        redactPolicy: opts.redactPolicy || null,
+        output: opts.output || null,
+      });
+    });
+
+  // --- mock ---
+  program
+    .command("mock")
+    .description("Serve recorded responses from capture files, with no upstream")
+    .requiredOption("--from <dir>", "directory of capture files to serve")
+    .option("-p, --port <number>", "port to listen on (default: 4040)")
+    .option("--bind <host>", "bind address (default: 127.0.0.1)")
+    .option("--match-fields <paths>", "match only these body fields, comma-separated (e.g. model,messages)")
+    .option("--ignore-fields <paths>", "also ignore these body fields, comma-separated")
+    .option("--verbose", "log every served request")
+    .exitOverride()
+    .action((opts) => {
+      onResult({
+        command: "mock",
+        from: opts.from,
+        port: opts.port ? parseInt(opts.port, 10) : 0,
+        bind: opts.bind || "",
+        matchFields: opts.matchFields ? splitList(opts.matchFields) : null,
+        ignoreFields: opts.ignoreFields ? splitList(opts.ignoreFields) : [],
+        verbose: opts.verbose || false,
+      });
+    });
+
+  // --- redact ---
+  const redact = program
+    .command("redact")
+    .description("Manage and test redaction")
+    .exitOverride();
+
+  redact
+    .command("mappings")
+    .description("Inspect or purge stored reversible-redaction mappings")
+    .argument("[session]", "session ID to show (default: list all)")
+    .option("--purge", "delete the session's mappings (all sessions if none given)")
+    .option("--reveal", "show original values instead of masking them")
+    .exitOverride()
+    .action((session, opts) => {
+      onResult({
+        command: "redact-mappings",
+        session: session || null,
+        purge: opts.purge || false,
+        reveal: opts.reveal || false,
+      });
+    });
+
+  redact
+    .command("test")
+    .description("Dry-run a redaction policy over text, files, or capture files")
+    .argument("[inputs...]", "files or capture directories (default: stdin)")
+    .option("-P, --preset <name>", "preset: secrets, pii, strict (default: pii)")
+    .option("-f, --policy <path>", "path to a redaction policy JSON file")
+    .option("--expect <path>", "fixture file of inputs and expected matches; exits 1 on failure")
+    .option("--no-color", "print matches without ANSI colors")
+    .exitOverride()
+    .action((inputs, opts) => {
+      onResult({
+        command: "redact-test",
+        inputs: inputs ?? [],
+        preset: opts.preset || "pii",
+        policy: opts.policy || null,
+        expect: opts.expect || null,
+        color: opts.color !== false,
       });
     });
 
@@ -1,13 +1,18 @@
 import type {
   AttachArgs,
+  ExportArgs,
   InspectArgs,
+  MockArgs,
   MonitorArgs,
   ParsedArgs,
   ProxyArgs,
+  RedactMappingsArgs,
+  RedactTestArgs,
+  ReplayArgs,
 } from "./args.js";
 
 interface ProxyHandlers {
-  runBackground: (action: ProxyArgs["action"]) => Promise<number>;
+  runBackground: (args: ProxyArgs) => Promise<number>;
   runStandalone: (args: ProxyArgs) => Promise<void>;
   runWrap: (args: ProxyArgs, wrap: string[]) => Promise<void>;
 }
@@ -18,6 +23,11 @@ interface CommandHandlers {
   runProxy: ProxyHandlers;
   runMonitor: (args: MonitorArgs) => Promise<void>;
   runInspect: (args: InspectArgs) => Promise<void>;
+  runReplay: (args: ReplayArgs) => Promise<number>;
+  runExport: (args: ExportArgs) => Promise<number>;
+  runMock: (args: MockArgs) => Promise<number | undefined>;
+  runRedactMappings: (args: RedactMappingsArgs) => number;
+  runRedactTest: (args: RedactTestArgs) => number;
 }
 
 export async function dispatchCommand(
@@ -31,11 +41,8 @@ export async function dispatchCommand(
       await handlers.runAttach(result);
       return undefined;
     case "proxy":
-      if (result.action === "stop" || result.action === "status") {
-        return handlers.runProxy.runBackground(result.action);
-      }
-      if (result.detach) {
-        return handlers.runProxy.runBackground("start");
+      if (result.action !== "start" || result.detach) {
+        return handlers.runProxy.runBackground(result);
       }
       if (result.wrap) {
         await handlers.runProxy.runWrap(result, result.wrap);
@@ -49,5 +56,15 @@ export async function dispatchCommand(
     case "inspect":
       await handlers.runInspect(result);
       return undefined;
+    case "replay":
+      return handlers.runReplay(result);
+    case "export":
+      return handlers.runExport(result);
+    case "mock":
+      return handlers.runMock(result);
+    case "redact-mappings":
+      return handlers.runRedactMappings(result);
+    case "redact-test":
+      return handlers.runRedactTest(result);
   }
 }
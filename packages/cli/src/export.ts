@@ -0,0 +1,359 @@
+/**
+ * Capture export.
+ *
+ * Bundles the capture files of one or all sessions into a self-contained
+ * tar.gz with a manifest, for attaching to bug reports. With `--redact`,
+ * every request and response body, header value and target URL is run
+ * through a redaction policy before it is written, so the archive can be
+ * shared without leaking customer data. API keys in the URL query, the
+ * text matched by guard findings and the hashes in redaction audit
+ * records are removed too.
+ */
+
+import fs from "node:fs";
+import { basename, join } from "node:path";
+
+import {
+  extractResponseText,
+  selectHeaders,
+  parseResponseUsage,
+  type CaptureData,
+  type JsonValue,
+  type SecurityFindings,
+} from "@contextio/core";
+import {
+  createStats,
+  fromPreset,
+  loadPolicyFile,
+  redactWithPolicy,
+  type CompiledPolicy,
+  type PresetName,
+  type RedactionStats,
+} from "@contextio/redact";
+
+import type { ExportArgs } from "./args.js";
+import { captureDir, findLastSessionId, listCaptureFiles, readCapture } from "./captures.js";
+import { createTarGz } from "./tar.js";
+
+/** Per-session summary written to the manifest. */
+export interface ExportSessionSummary {
+  sessionId: string | null;
+  captures: number;
+  sources: string[];
+  models: string[];
+  firstTimestamp: string;
+  lastTimestamp: string;
+}
+
+/** A capture as written to the export archive. */
+export interface ExportedCapture extends CaptureData {
+  /**
+   * Set when redaction flattened a streamed response to its plain text
+   * (see `redactStreamingBody`). `responseIsStreaming` is false then.
+   */
+  responseStreamCollapsed?: true;
+}
+
+/** Contents of `manifest.json` inside the export archive. */
+export interface ExportManifest {
+  createdAt: string;
+  captureCount: number;
+  sessions: ExportSessionSummary[];
+  sources: string[];
+  models: string[];
+  /** Redaction applied to the bundled captures, or null if none. */
+  redaction: {
+    policy: string;
+    totalReplacements: number;
+    byRule: Record<string, number>;
+  } | null;
+}
+
+/** Format a timestamp as YYYY-MM-DD-HHMMSS for the archive name. */
+function exportTimestamp(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}-` +
+    `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`
+  );
+}
+
+/**
+ * Redact a raw response body.
+ *
+ * JSON bodies are parsed and redacted structurally. SSE bodies are redacted
+ * event by event so the stream framing survives. Anything else is treated
+ * as a plain string.
+ */
+export function redactResponseBody(
+  body: string,
+  policy: CompiledPolicy,
+  stats: RedactionStats,
+): string {
+  try {
+    const parsed: unknown = JSON.parse(body);
+    return JSON.stringify(redactWithPolicy(parsed, policy, stats));
+  } catch {
+    // Not JSON; fall through to SSE / plain text handling
+  }
+
+  return body
+    .split("\n")
+    .map((line) => {
+      const match = /^(data:\s?)(.*)$/.exec(line);
+      if (match) {
+        try {
+          const parsed: unknown = JSON.parse(match[2]);
+          return match[1] + JSON.stringify(redactWithPolicy(parsed, policy, stats));
+        } catch {
+          // Non-JSON data line such as [DONE]
+        }
+      }
+      return redactWithPolicy(line, policy, stats) as string;
+    })
+    .join("\n");
+}
+
+/**
+ * Redact a streamed response body, catching matches split across events.
+ *
+ * Events are redacted one at a time, so a value the model streamed over
+ * two deltas survives that pass. When the text rebuilt from the redacted
+ * deltas still matches the policy, the body is replaced by that text,
+ * redacted: the stream framing is lost, the value is not leaked.
+ */
+function redactStreamingBody(
+  body: string,
+  policy: CompiledPolicy,
+  stats: RedactionStats,
+): { body: string; collapsed: boolean } {
+  const redacted = redactResponseBody(body, policy, stats);
+  const text = extractResponseText(redacted);
+  if (!text) return { body: redacted, collapsed: false };
+
+  const check = createStats();
+  const rebuilt = redactWithPolicy(text, policy, check) as string;
+  if (check.totalReplacements === 0) return { body: redacted, collapsed: false };
+  for (const [rule, count] of Object.entries(check.byRule)) {
+    stats.byRule[rule] = (stats.byRule[rule] ?? 0) + count;
+  }
+  stats.totalReplacements += check.totalReplacements;
+  return { body: rebuilt, collapsed: true };
+}
+
+/**
+ * Redact a target URL. The `key` query parameter (Gemini API keys) is
+ * removed outright; the rest of the URL goes through the policy.
+ */
+function redactTargetUrl(targetUrl: string, policy: CompiledPolicy, stats: RedactionStats): string {
+  let url = targetUrl;
+  try {
+    const parsed = new URL(targetUrl);
+    parsed.searchParams.delete("key");
+    url = parsed.toString();
+  } catch {
+    // Not a URL; redact it as a plain string
+  }
+  return redactWithPolicy(url, policy, stats) as string;
+}
+
+/** Drop credential headers and redact the values of the rest. */
+function redactHeaders(
+  headers: Record<string, string>,
+  policy: CompiledPolicy,
+  stats: RedactionStats,
+): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(selectHeaders(headers))) {
+    result[name] = redactWithPolicy(value, policy, stats) as string;
+  }
+  return result;
+}
+
+/** Guard findings without the matched text, which may be the secret that was found. */
+function stripSecurityMatches(security: SecurityFindings): SecurityFindings {
+  return {
+    ...security,
+    input: security.input.map((alert) => ({ ...alert, match: "[REDACTED]" })),
+    output: security.output.map((alert) => ({ ...alert, match: "[REDACTED]" })),
+  };
+}
+
+/**
+ * Redact the bodies, headers and target URLs of a capture. Returns a copy.
+ *
+ * Guard findings lose their matched text, and redaction audit records
+ * their hashes: a keyed hash of a short value can be brute-forced by
+ * anyone holding the key.
+ */
+export function redactCapture(
+  capture: CaptureData,
+  policy: CompiledPolicy,
+  stats: RedactionStats,
+): ExportedCapture {
+  let responseBody = capture.responseBody;
+  let collapsed = false;
+  if (responseBody) {
+    if (capture.responseIsStreaming) {
+      ({ body: responseBody, collapsed } = redactStreamingBody(responseBody, policy, stats));
+    } else {
+      responseBody = redactResponseBody(responseBody, policy, stats);
+    }
+  }
+
+  return {
+    ...capture,
+    targetUrl: redactTargetUrl(capture.targetUrl, policy, stats),
+    ...(capture.route?.originalTargetUrl
+      ? { route: { ...capture.route, originalTargetUrl: redactTargetUrl(capture.route.originalTargetUrl, policy, stats) } }
+      : {}),
+    requestHeaders: redactHeaders(capture.requestHeaders, policy, stats),
+    responseHeaders: redactHeaders(capture.responseHeaders, policy, stats),
+    requestBody:
+      capture.requestBody === null
+        ? null
+        : (redactWithPolicy(capture.requestBody, policy, stats) as JsonValue),
+    responseBody,
+    ...(collapsed ? { responseIsStreaming: false, responseStreamCollapsed: true } : {}),
+    ...(capture.security ? { security: stripSecurityMatches(capture.security) } : {}),
+    ...(capture.redactions
+      ? { redactions: capture.redactions.map((record) => ({ ...record, hash: "[REDACTED]" })) }
+      : {}),
+  };
+}
+
+function captureModel(capture: CaptureData): string | null {
+  const fromResponse = parseResponseUsage(capture.responseBody).model;
+  if (fromResponse) return fromResponse;
+  const body = capture.requestBody;
+  if (body && typeof body === "object" && !Array.isArray(body) && typeof body.model === "string") {
+    return body.model;
+  }
+  return null;
+}
+
+/** Build the manifest describing a set of exported captures. */
+export function buildManifest(
+  captures: CaptureData[],
+  redaction: ExportManifest["redaction"],
+  now = new Date(),
+): ExportManifest {
+  const sessions = new Map<string, ExportSessionSummary>();
+  const allSources = new Set<string>();
+  const allModels = new Set<string>();
+
+  for (const capture of captures) {
+    const key = capture.sessionId ?? "";
+    let summary = sessions.get(key);
+    if (!summary) {
+      summary = {
+        sessionId: capture.sessionId ?? null,
+        captures: 0,
+        sources: [],
+        models: [],
+        firstTimestamp: capture.timestamp,
+        lastTimestamp: capture.timestamp,
+      };
+      sessions.set(key, summary);
+    }
+
+    summary.captures += 1;
+    if (capture.timestamp < summary.firstTimestamp) summary.firstTimestamp = capture.timestamp;
+    if (capture.timestamp > summary.lastTimestamp) summary.lastTimestamp = capture.timestamp;
+
+    const source = capture.source ?? "unknown";
+    if (!summary.sources.includes(source)) summary.sources.push(source);
+    allSources.add(source);
+
+    const model = captureModel(capture);
+    if (model) {
+      if (!summary.models.includes(model)) summary.models.push(model);
+      allModels.add(model);
+    }
+  }
+
+  return {
+    createdAt: now.toISOString(),
+    captureCount: captures.length,
+    sessions: [...sessions.values()],
+    sources: [...allSources].sort(),
+    models: [...allModels].sort(),
+    redaction,
+  };
+}
+
+/**
+ * Export captures to a tar.gz archive.
+ *
+ * @returns Exit code: 0 on success, 1 when nothing matched or the policy failed to load.
+ */
+export async function runExport(args: ExportArgs): Promise<number> {
+  const dir = captureDir();
+
+  let sessionId = args.session;
+  if (!sessionId && args.last) {
+    sessionId = findLastSessionId(dir);
+    if (!sessionId) {
+      console.error("No captures found.");
+      return 1;
+    }
+  }
+
+  const files: string[] = [];
+  const captures: CaptureData[] = [];
+  for (const file of listCaptureFiles(dir)) {
+    const capture = readCapture(join(dir, file));
+    if (!capture) continue;
+    if (sessionId && capture.sessionId !== sessionId) continue;
+    files.push(file);
+    captures.push(capture);
+  }
+
+  if (captures.length === 0) {
+    console.error(sessionId ? `No captures found for session ${sessionId}.` : "No captures found.");
+    return 1;
+  }
+
+  let redaction: ExportManifest["redaction"] = null;
+  let exported: ExportedCapture[] = captures;
+  if (args.redact) {
+    let policy: CompiledPolicy;
+    try {
+      policy = args.redactPolicy
+        ? loadPolicyFile(args.redactPolicy)
+        : fromPreset(args.redactPreset as PresetName);
+    } catch (err: unknown) {
+      console.error(`Failed to load redaction policy: ${err instanceof Error ? err.message : String(err)}`);
+      return 1;
+    }
+    const stats = createStats();
+    exported = captures.map((capture) => redactCapture(capture, policy, stats));
+    redaction = {
+      policy: args.redactPolicy ?? `preset:${args.redactPreset}`,
+      totalReplacements: stats.totalReplacements,
+      byRule: stats.byRule,
+    };
+  }
+
+  const now = new Date();
+  const archiveName = `contextio-export-${exportTimestamp(now)}`;
+  const manifest = buildManifest(exported, redaction, now);
+
+  const tarball = createTarGz([
+    { name: `${archiveName}/manifest.json`, content: `${JSON.stringify(manifest, null, 2)}\n`, mtime: now },
+    ...exported.map((capture, i) => ({
+      name: `${archiveName}/captures/${basename(files[i])}`,
+      content: `${JSON.stringify(capture, null, 2)}\n`,
+      mtime: now,
+    })),
+  ]);
+
+  const output = args.output ?? `${archiveName}.tar.gz`;
+  fs.writeFileSync(output, tarball);
+
+  console.log(`Exported ${captures.length} capture(s) from ${manifest.sessions.length} session(s) to ${output}`);
+  if (redaction) {
+    console.log(`Redacted: ${redaction.totalReplacements} value(s) using ${redaction.policy}`);
+  }
+  return 0;
+}
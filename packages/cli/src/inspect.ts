@@ -2,14 +2,24 @@
  * Session inspector.
  *
  * Lists available sessions or deep-inspects a specific one, showing
- * the system prompt, tool definitions, first user message, and context
- * overhead estimates.
+ * the system prompt, tool definitions, first user message, context
+ * overhead estimates, prompt injection findings, and cache savings.
+ *
+ * With `--redactions`, summarizes the redaction audit records instead:
+ * per session in the listing, per rule for a single session.
  */
 
 import fs from "node:fs";
 import { join } from "node:path";
 
-import { estimateTokens, type CaptureData, type JsonObject } from "@contextio/core";
+import {
+  estimateTokens,
+  extractMessageSegments,
+  scanRequest,
+  type CaptureData,
+  type JsonObject,
+  type RedactionRecord,
+} from "@contextio/core";
 
 import type { InspectArgs } from "./args.js";
 import { captureDir, listCaptureFiles, readCapture } from "./captures.js";
@@ -216,23 +226,9 @@ function extractSystemPrompt(capture: CaptureData): { system: string | null; too
 
 /** Extract the first user message from the conversation in a capture. */
 function getFirstUserMessage(capture: CaptureData): string | null {
-  const body = capture.requestBody;
-  if (!body || typeof body !== "object" || Array.isArray(body)) return null;
-
-  const messages = body.messages;
-  if (!Array.isArray(messages)) return null;
-
-  for (const msg of messages) {
-    if (!msg || typeof msg !== "object" || Array.isArray(msg)) continue;
-    if (msg.role === "user") {
-      const contentText = extractTextContent(msg.content);
-      if (contentText !== null) {
-        return contentText;
-      }
-    }
-  }
-
-  return null;
+  const segments = extractMessageSegments(capture.requestBody, capture.apiFormat);
+  const first = segments.find((s) => s.role === "user");
+  return first ? first.text : null;
 }
 
 function truncate(text: string, maxLen: number): string {
@@ -286,6 +282,142 @@ function printContextOverhead(system: string | null, tools: ToolDefinition[], fi
   }
 }
 
+/**
+ * Print prompt injection findings for the session.
+ *
+ * Each request resends the whole conversation, so only the last capture is
+ * scanned; it covers every message the model has seen so far.
+ */
+function printSecurity(captures: CaptureData[], full: boolean): void {
+  const last = captures[captures.length - 1];
+  const alerts = scanRequest(last.requestBody, last.apiFormat).alerts;
+  const blocked = captures.filter((c) => c.security?.blocked).length;
+
+  if (alerts.length === 0 && blocked === 0) {
+    console.log("\nSecurity: no findings");
+    return;
+  }
+
+  console.log("\nSecurity:");
+  for (const alert of alerts) {
+    const tool = alert.toolName ? ` (${alert.toolName})` : "";
+    const match = full ? alert.match : truncate(alert.match, 60);
+    console.log(`  [${alert.severity}] ${alert.pattern} in ${alert.role ?? "?"}${tool} message #${alert.index}: ${match}`);
+  }
+  if (blocked > 0) {
+    console.log(`  Blocked by guard: ${blocked} request(s)`);
+  }
+}
+
+/** Print response cache hits and what they saved. Silent when the cache was off. */
+function printCache(captures: CaptureData[]): void {
+  const cached = captures.filter((c) => c.cache);
+  if (cached.length === 0) return;
+
+  const hits = cached.filter((c) => c.cache?.hit);
+  const inTokens = hits.reduce((sum, c) => sum + (c.cache?.savedInputTokens ?? 0), 0);
+  const outTokens = hits.reduce((sum, c) => sum + (c.cache?.savedOutputTokens ?? 0), 0);
+  const cost = hits.reduce((sum, c) => sum + (c.cache?.savedCost ?? 0), 0);
+  const unpriced = hits.some((c) => c.cache?.savedCost === null);
+
+  console.log("\nCache:");
+  console.log(`  Hits: ${hits.length} of ${cached.length} request(s)`);
+  if (hits.length > 0) {
+    console.log(`  Saved: ${inTokens} input / ${outTokens} output tokens, ~$${cost.toFixed(4)}${unpriced ? " (some models unpriced)" : ""}`);
+  }
+}
+
+/** Redaction totals for one rule and action. */
+interface RedactionSummary {
+  rule: string;
+  action: RedactionRecord["action"];
+  /** Number of records. The conversation is resent each turn, so one value is usually counted once per request. */
+  matches: number;
+  /** Distinct hashed values. */
+  values: Set<string>;
+  paths: Set<string>;
+}
+
+/** Group the redaction records of some captures by rule and action, most matches first. */
+function summarizeRedactions(captures: CaptureData[]): RedactionSummary[] {
+  const byKey = new Map<string, RedactionSummary>();
+  for (const capture of captures) {
+    for (const r of capture.redactions ?? []) {
+      const key = `${r.rule}\0${r.action}`;
+      let summary = byKey.get(key);
+      if (!summary) {
+        summary = { rule: r.rule, action: r.action, matches: 0, values: new Set(), paths: new Set() };
+        byKey.set(key, summary);
+      }
+      summary.matches++;
+      summary.values.add(r.hash);
+      summary.paths.add(r.path || "(text)");
+    }
+  }
+  return [...byKey.values()].sort((a, b) => b.matches - a.matches || a.rule.localeCompare(b.rule));
+}
+
+/** Print the per-rule redaction breakdown for one session's captures. */
+function printRedactions(captures: CaptureData[]): void {
+  const summaries = summarizeRedactions(captures);
+  if (summaries.length === 0) {
+    console.log("\nRedactions: none recorded");
+    return;
+  }
+
+  const withRedactions = captures.filter((c) => c.redactions && c.redactions.length > 0).length;
+  const blocked = captures.filter((c) => c.redactions?.some((r) => r.action === "blocked")).length;
+  const width = Math.max(4, ...summaries.map((s) => s.rule.length));
+
+  console.log(`\nRedactions (${withRedactions} of ${captures.length} request(s)):`);
+  console.log(`  ${"RULE".padEnd(width)}  ACTION    MATCHES  VALUES  PATHS`);
+  for (const s of summaries) {
+    console.log(
+      `  ${s.rule.padEnd(width)}  ${s.action.padEnd(8)}  ${String(s.matches).padEnd(7)}  ${String(s.values.size).padEnd(6)}  ${[...s.paths].join(", ")}`,
+    );
+  }
+  if (blocked > 0) {
+    console.log(`  Blocked by redaction policy: ${blocked} request(s)`);
+  }
+}
+
+/** List all sessions with their redaction totals. */
+function listRedactionSessions(args: InspectArgs): void {
+  const dir = captureDir();
+  const sessions = new Map<string, { source: string; captures: CaptureData[] }>();
+
+  for (const file of listCaptureFiles(dir)) {
+    const capture = readCapture(join(dir, file));
+    if (!capture || !capture.sessionId) continue;
+    if (args.source && capture.source !== args.source) continue;
+    const session = sessions.get(capture.sessionId);
+    if (session) session.captures.push(capture);
+    else sessions.set(capture.sessionId, { source: capture.source || "?", captures: [capture] });
+  }
+
+  if (sessions.size === 0) {
+    console.log(args.source ? `No sessions found for source: ${args.source}` : "No sessions found. Run some LLM traffic first.");
+    process.exit(1);
+  }
+
+  console.log(" SESSION     SOURCE      REQUESTS  REDACTED  BLOCKED  WARNED  VALUES  RULES");
+  // Oldest session first, like the plain listing
+  const sorted = [...sessions.entries()].sort(
+    (a, b) => new Date(a[1].captures[0].timestamp).getTime() - new Date(b[1].captures[0].timestamp).getTime(),
+  );
+  for (const [id, { source, captures }] of sorted) {
+    const summaries = summarizeRedactions(captures);
+    const count = (action: RedactionRecord["action"]) =>
+      summaries.filter((s) => s.action === action).reduce((sum, s) => sum + s.matches, 0);
+    const values = new Set(summaries.flatMap((s) => [...s.values])).size;
+    const rules = [...new Set(summaries.map((s) => s.rule))].join(", ") || "-";
+    console.log(
+      ` ${id.padEnd(10)}  ${source.padEnd(10)}  ${String(captures.length).padEnd(8)}  ${String(count("redacted")).padEnd(8)}  ${String(count("blocked")).padEnd(7)}  ${String(count("warned")).padEnd(6)}  ${String(values).padEnd(6)}  ${rules}`,
+    );
+  }
+  console.log(`\nUse 'ctxio inspect <session> --redactions' for a per-rule breakdown.`);
+}
+
 /** List all sessions in a table (session ID, source, provider, request count, time). */
 function listSessions(args: InspectArgs): void {
   const dir = captureDir();
@@ -342,7 +474,9 @@ function listSessions(args: InspectArgs): void {
  * Run the inspect command.
  *
  * Without a session argument: lists all sessions. With a session (or --last):
- * shows system prompt, tool definitions, context overhead, and first user message.
+ * shows system prompt, tool definitions, context overhead, first user message,
+ * prompt injection findings, and cache savings. `--redactions` switches both
+ * views to redaction summaries.
  */
 export async function runInspect(args: InspectArgs): Promise<void> {
   const dir = captureDir();
@@ -353,15 +487,10 @@ export async function runInspect(args: InspectArgs): Promise<void> {
     process.exit(1);
   }
 
-  // No session specified: list all sessions
-  if (!args.session && !args.last && !args.source) {
-    listSessions(args);
-    return;
-  }
-
-  // Source without --last or --session: list sessions for that source
-  if (args.source && !args.last && !args.session) {
-    listSessions(args);
+  // No session specified (optionally filtered by source): list sessions
+  if (!args.session && !args.last) {
+    if (args.redactions) listRedactionSessions(args);
+    else listSessions(args);
     return;
   }
 
@@ -410,10 +539,18 @@ export async function runInspect(args: InspectArgs): Promise<void> {
   console.log(`Source: ${sessionInfo.source} | Provider: ${sessionInfo.provider} | API: ${sessionInfo.apiFormat}`);
   console.log(`Requests in session: ${sessionInfo.totalRequests}`);
 
+  if (args.redactions) {
+    printRedactions(captures);
+    console.log("");
+    return;
+  }
+
   printSection("System prompt", sessionInfo.systemPrompt, args.full);
   printTools(sessionInfo.tools);
   printContextOverhead(sessionInfo.systemPrompt, sessionInfo.tools, sessionInfo.firstUserMessage);
   printSection("First user message", sessionInfo.firstUserMessage, args.full);
+  printSecurity(captures, args.full);
+  printCache(captures);
 
   console.log("");
 }
@@ -15,35 +15,39 @@
  */
 
 import { randomBytes } from "node:crypto";
-import { spawn, spawnSync } from "node:child_process";
+import { spawn } from "node:child_process";
 import fs from "node:fs";
 import net from "node:net";
 import { homedir } from "node:os";
 import { join } from "node:path";
 import { fileURLToPath } from "node:url";
 
-import type { ProxyPlugin } from "@contextio/core";
+import type { NamedUpstream, ProxyPlugin } from "@contextio/core";
+import { createBudgetPlugin, type BudgetPlugin, type BudgetRule } from "@contextio/budget";
+import { createCachePlugin, type CachePlugin } from "@contextio/cache";
+import { createGuardPlugin } from "@contextio/guard";
 import { createLoggerPlugin } from "@contextio/logger";
 import type { LoggerPlugin } from "@contextio/logger";
-import { createProxy } from "@contextio/proxy";
-import { createRedactPlugin } from "@contextio/redact";
-import type { PresetName } from "@contextio/redact";
+import { createProxy, defaultCaDir, loadNamedUpstreams, loadOrCreateCA } from "@contextio/proxy";
+import { MappingStore, createRedactPlugin, loadAuditKey } from "@contextio/redact";
+import type { PresetName, RedactPlugin } from "@contextio/redact";
+import { createRouterPlugin, loadRouteRules } from "@contextio/router";
 
 import { isError, parseArgs } from "./args.js";
 import type { AttachArgs, ProxyArgs } from "./args.js";
 import { getToolEnv } from "./tools.js";
 import { runMonitor } from "./monitor.js";
 import { runInspect } from "./inspect.js";
+import { runReplay } from "./replay.js";
+import { runExport } from "./export.js";
+import { runMock } from "./mock.js";
+import { runRedactMappings, runRedactTest } from "./redact.js";
 import { dispatchCommand } from "./dispatch.js";
 
 const _pkgPath = new URL("../package.json", import.meta.url);
 const _pkg = JSON.parse(fs.readFileSync(fileURLToPath(_pkgPath), "utf8")) as { version: string };
 const VERSION: string = _pkg.version;
 const CLI_ENTRY = fileURLToPath(import.meta.url);
-const __dirname = fileURLToPath(new URL(".", import.meta.url));
-const MITM_PORT = 8080;
-const MITM_ADDON_PATH = join(__dirname, "..", "mitm_addon.py");
-const MITM_START_TIMEOUT_MS = 8000;
 const PROXY_START_TIMEOUT_MS = 8000;
 /** Lockfile for coordinating shared proxy instances across wrap invocations. */
 const PROXY_LOCKFILE = "/tmp/contextio.lock";
@@ -58,6 +62,8 @@ interface ProxyLockState {
   count: number;
   pid: number;
   port: number;
+  /** Whether the proxy accepts CONNECT (`--intercept`). Absent in older lockfiles. */
+  intercept?: boolean;
 }
 
 /** State persisted for background proxy (started with `proxy -d`). */
@@ -65,23 +71,8 @@ interface BackgroundState {
   pid: number;
   port: number;
   startedAt: string;
-}
-
-/** Search PATH for an executable. Returns the full path or null. */
-function findBinaryOnPath(binary: string): string | null {
-  const pathEnv = process.env.PATH;
-  if (!pathEnv) return null;
-  for (const dir of pathEnv.split(":")) {
-    if (!dir) continue;
-    const full = join(dir, binary);
-    try {
-      fs.accessSync(full, fs.constants.X_OK);
-      return full;
-    } catch {
-      // continue
-    }
-  }
-  return null;
+  /** Whether the proxy accepts CONNECT (`--intercept`). Absent in older state files. */
+  intercept?: boolean;
 }
 
 function contextioStateDir(): string {
@@ -194,29 +185,6 @@ function isPortListening(port: number, host = "127.0.0.1"): Promise<boolean> {
   });
 }
 
-/** Bind port 0 to get an OS-assigned ephemeral port, then release it. */
-function reserveEphemeralPort(): Promise<number> {
-  return new Promise((resolve, reject) => {
-    const server = net.createServer();
-    server.listen(0, "127.0.0.1", () => {
-      const addr = server.address();
-      const port =
-        addr && typeof addr === "object" ? addr.port : 0;
-      server.close((err) => {
-        if (err) reject(err);
-        else resolve(port);
-      });
-    });
-    server.on("error", reject);
-  });
-}
-
-/** Use the preferred mitmproxy port, or pick an ephemeral one if it's taken. */
-async function chooseMitmPort(preferredPort: number): Promise<number> {
-  if (!(await isPortListening(preferredPort))) return preferredPort;
-  return reserveEphemeralPort();
-}
-
 /** Reconstruct CLI argv for spawning a shared proxy subprocess. */
 function buildProxyArgs(args: ProxyArgs, port: number): string[] {
   const out = ["proxy", "--port", String(port)];
@@ -231,13 +199,30 @@ function buildProxyArgs(args: ProxyArgs, port: number): string[] {
     if (args.redactReversible) {
       out.push("--redact-reversible");
     }
+    if (args.redactPersist) {
+      out.push("--redact-persist");
+    }
   }
+  if (args.guard) out.push("--guard", args.guard);
+  if (args.cache) {
+    out.push("--cache");
+    if (args.cacheDir) out.push("--cache-dir", args.cacheDir);
+    if (args.cacheTiming) out.push("--cache-timing");
+    if (args.cacheMaxAge !== null) out.push("--cache-max-age", String(args.cacheMaxAge));
+  }
+  if (args.budgetSession !== null) out.push("--budget-session", String(args.budgetSession));
+  if (args.budgetSource !== null) out.push("--budget-source", String(args.budgetSource));
+  if (args.budgetDay !== null) out.push("--budget-day", String(args.budgetDay));
+  if (args.budgetMonth !== null) out.push("--budget-month", String(args.budgetMonth));
   if (args.noLog) out.push("--no-log");
   else if (args.logDir) out.push("--log-dir", args.logDir);
   if (args.logMaxSessions > 0) {
     out.push("--log-max-sessions", String(args.logMaxSessions));
   }
   if (args.verbose) out.push("--verbose");
+  if (args.intercept) out.push("--intercept");
+  if (args.upstreams) out.push("--upstreams", args.upstreams);
+  if (args.routes) out.push("--routes", args.routes);
   return out;
 }
 
@@ -255,25 +240,15 @@ async function waitForPort(
   return false;
 }
 
-/** Run diagnostics: check mitmproxy, certs, capture dir, ports, lockfile, background state. */
+/** Run diagnostics: check the local CA, capture dir, ports, lockfile, background state. */
 async function runDoctor(): Promise<number> {
   console.log(`ctxio doctor v${VERSION}`);
 
-  // mitmproxy is needed for tools that ignore base URL overrides
-  // (Codex, Copilot, OpenCode). The addon rewrites requests to route
-  // through the contextio proxy for full redaction and logging.
-  const mitmdumpPath = findBinaryOnPath("mitmdump");
+  // The local CA lets the proxy intercept tools that ignore base URL
+  // overrides (Codex, Copilot, OpenCode) and go through HTTPS_PROXY.
+  const caCert = join(defaultCaDir(), "ca-cert.pem");
   console.log(
-    `- mitmdump (Codex/Copilot/OpenCode): ${mitmdumpPath ?? "not found (install: pipx install mitmproxy)"}`,
-  );
-
-  const certPath = join(homedir(), ".mitmproxy", "mitmproxy-ca-cert.pem");
-  console.log(
-    `- mitm cert (Codex/Copilot/OpenCode): ${fs.existsSync(certPath) ? certPath : "not present (run 'mitmdump' once to generate)"}`,
-  );
-
-  console.log(
-    `- mitm addon (Codex/Copilot/OpenCode): ${fs.existsSync(MITM_ADDON_PATH) ? MITM_ADDON_PATH : "not found"}`,
+    `- local CA (Codex/Copilot/OpenCode): ${fs.existsSync(caCert) ? caCert : "not created yet (created on first use)"}`,
   );
 
   const captureDir = join(homedir(), ".contextio", "captures");
@@ -285,16 +260,13 @@ async function runDoctor(): Promise<number> {
   const proxyBusy = await isPortListening(4040);
   console.log(`- port 4040: ${proxyBusy ? "in use" : "available"}`);
 
-  const mitmBusy = await isPortListening(MITM_PORT);
-  console.log(`- port ${MITM_PORT}: ${mitmBusy ? "in use" : "available"}`);
-
   const lock = readProxyLock();
   if (!lock) {
     console.log(`- lockfile: absent (${PROXY_LOCKFILE})`);
   } else {
     const alive = isPidAlive(lock.pid);
     console.log(
-      `- lockfile: present count=${lock.count} pid=${lock.pid} port=${lock.port} (${alive ? "alive" : "stale"})`,
+      `- lockfile: present count=${lock.count} pid=${lock.pid} port=${lock.port} intercept=${lock.intercept ?? "unknown"} (${alive ? "alive" : "stale"})`,
     );
   }
 
@@ -310,10 +282,12 @@ async function runDoctor(): Promise<number> {
   return 0;
 }
 
-/** Manage the background (detached) proxy: start, stop, or check status. */
-async function runBackground(
-  action: "start" | "stop" | "status",
-): Promise<number> {
+/**
+ * Manage the background (detached) proxy: start it with the given flags,
+ * stop it, check its status, or make it reload its redaction policy.
+ */
+async function runBackground(args: ProxyArgs): Promise<number> {
+  const action = args.action;
   if (action === "status") {
     const bg = readBackgroundState();
     if (!bg) {
@@ -349,6 +323,17 @@ async function runBackground(
     return 0;
   }
 
+  if (action === "reload") {
+    const bg = readBackgroundState();
+    if (!bg || !isPidAlive(bg.pid)) {
+      console.error("Background proxy is not running.");
+      return 1;
+    }
+    process.kill(bg.pid, "SIGHUP");
+    console.log(`Sent reload signal to background proxy (pid ${bg.pid}). See ${join(homedir(), ".contextio", "proxy.log")} for the result.`);
+    return 0;
+  }
+
   const existing = readBackgroundState();
   if (existing && isPidAlive(existing.pid)) {
     console.log(
@@ -360,7 +345,7 @@ async function runBackground(
     clearBackgroundState();
   }
 
-  const port = 4040;
+  const port = args.port || 4040;
   if (await isPortListening(port)) {
     console.error(
       `Cannot start background proxy: port ${port} is already in use.`,
@@ -371,7 +356,7 @@ async function runBackground(
   const bgLogFile = join(homedir(), ".contextio", "proxy.log");
   fs.mkdirSync(join(homedir(), ".contextio"), { recursive: true });
   const bgLogFd = fs.openSync(bgLogFile, "a");
-  const child = spawn("node", [CLI_ENTRY, "proxy", "--port", String(port)], {
+  const child = spawn("node", [CLI_ENTRY, ...buildProxyArgs(args, port)], {
     detached: true,
     stdio: ["ignore", bgLogFd, bgLogFd],
     env: { ...process.env },
@@ -389,16 +374,41 @@ async function runBackground(
     pid: child.pid,
     port,
     startedAt: new Date().toISOString(),
+    intercept: args.intercept,
   });
   console.log(`Background proxy started on http://127.0.0.1:${port}`);
   return 0;
 }
 
+/**
+ * Whether the contextio proxy on a port accepts CONNECT, from the shared
+ * proxy lockfile or the background state. Null when neither describes a
+ * live proxy on that port, or it was started by an older version.
+ */
+function runningProxyIntercepts(port: number): boolean | null {
+  for (const state of [readProxyLock(), readBackgroundState()]) {
+    if (state && state.port === port && isPidAlive(state.pid)) {
+      return state.intercept ?? null;
+    }
+  }
+  return null;
+}
+
+/** Explain why a tool that needs CONNECT cannot use the proxy on `port`. */
+function noInterceptMessage(port: number): string {
+  return (
+    `The proxy on port ${port} was started without --intercept, so it drops the HTTPS_PROXY ` +
+    `traffic of this tool. Stop it and start it again with --intercept, or use --port for a separate proxy.`
+  );
+}
+
 /**
  * Ensure a shared proxy is running for wrap mode.
  *
  * If a proxy is already running (tracked via lockfile), increments the
- * reference count. Otherwise spawns a new detached proxy process.
+ * reference count. Otherwise spawns a new detached proxy process. A
+ * running proxy that is known not to accept CONNECT is refused when
+ * `args.intercept` is set.
  *
  * @returns The proxy port and whether this caller should manage the ref count.
  */
@@ -415,6 +425,9 @@ async function ensureSharedProxyForWrap(
   }
 
   if (proxyRunning) {
+    if (args.intercept && runningProxyIntercepts(proxyPort) === false) {
+      throw new Error(noInterceptMessage(proxyPort));
+    }
     const freshLock = readProxyLock();
     if (freshLock && freshLock.port === proxyPort && isPidAlive(freshLock.pid)) {
       writeProxyLock({
@@ -447,6 +460,7 @@ async function ensureSharedProxyForWrap(
     count: 1,
     pid: child.pid,
     port: proxyPort,
+    intercept: args.intercept,
   });
 
   return { proxyPort, manageRef: true };
@@ -475,21 +489,85 @@ function releaseSharedProxyRef(manageRef: boolean): void {
   writeProxyLock({ ...lock, count: next });
 }
 
-/** Create the plugin array from CLI args (redact + logger based on flags). */
+/** Budget rules from the --budget-* flags. */
+function budgetRules(args: ProxyArgs): BudgetRule[] {
+  const rules: BudgetRule[] = [];
+  if (args.budgetSession !== null) rules.push({ scope: "session", maxCost: args.budgetSession });
+  if (args.budgetSource !== null) rules.push({ scope: "source", window: "day", maxCost: args.budgetSource });
+  if (args.budgetDay !== null) rules.push({ scope: "total", window: "day", maxCost: args.budgetDay });
+  if (args.budgetMonth !== null) rules.push({ scope: "total", window: "month", maxCost: args.budgetMonth });
+  return rules;
+}
+
+/**
+ * The stable key for hashing originals in redaction audit records, so
+ * hashes stay comparable across proxy runs. Falls back to a per-run key
+ * (undefined) if the key file can't be used.
+ */
+function auditKey(): Buffer | undefined {
+  try {
+    return loadAuditKey();
+  } catch (err: unknown) {
+    console.error(`Warning: redaction audit hashes won't match across restarts: ${err instanceof Error ? err.message : String(err)}`);
+    return undefined;
+  }
+}
+
+/** Create the plugin array from CLI args (router + redact + guard + cache + budget + logger based on flags). */
 function buildPlugins(args: ProxyArgs): ProxyPlugin[] {
   const plugins: ProxyPlugin[] = [];
 
+  // First: later plugins see the model and upstream actually used.
+  if (args.routes) {
+    plugins.push(createRouterPlugin({ rules: loadRouteRules(args.routes), verbose: args.verbose }));
+  }
+
+  const reversible = args.redactReversible;
+  const cache = args.cache
+    ? createCachePlugin({
+        cacheDir: args.cacheDir ?? undefined,
+        replayTiming: args.cacheTiming,
+        maxAgeMs: args.cacheMaxAge === null ? undefined : args.cacheMaxAge * 24 * 60 * 60 * 1000,
+        // Placeholders are numbered per session: never serve one session's entries to another.
+        perSession: reversible,
+        separateRecorder: reversible,
+        verbose: args.verbose,
+      })
+    : null;
+
+  // Before redact: the cache stores responses before their placeholders
+  // are rehydrated, so original values never reach the cache on disk.
+  if (cache && reversible) plugins.push(cache.recorder);
+
   if (args.redact) {
     plugins.push(
       createRedactPlugin({
+        auditKey: auditKey(),
         preset: args.redactPreset as PresetName,
         policyFile: args.redactPolicy ?? undefined,
         reversible: args.redactReversible,
+        mappingStore: args.redactPersist ? new MappingStore() : undefined,
+        watchPolicy: !!args.redactPolicy,
         verbose: args.verbose,
       }),
     );
   }
 
+  // After redact, so findings never quote values that redaction removed.
+  if (args.guard) {
+    plugins.push(createGuardPlugin({ mode: args.guard }));
+  }
+
+  // After redact and guard: keys cover the redacted body, and cached
+  // responses still pass through the guard's response scanning.
+  if (cache) plugins.push(cache);
+
+  // After cache: cache hits are free and never count against a budget.
+  const rules = budgetRules(args);
+  if (rules.length > 0) {
+    plugins.push(createBudgetPlugin({ rules }));
+  }
+
   if (args.log) {
     plugins.push(createLoggerPlugin({
       captureDir: args.logDir ?? undefined,
@@ -500,6 +578,11 @@ function buildPlugins(args: ProxyArgs): ProxyPlugin[] {
   return plugins;
 }
 
+/** Load the `--upstreams` registry, or undefined when none was given. */
+function namedUpstreams(args: ProxyArgs): Record<string, NamedUpstream> | undefined {
+  return args.upstreams ? loadNamedUpstreams(args.upstreams) : undefined;
+}
+
 /** Print a summary of active plugins, redaction config, and log directory. */
 function printStartupInfo(plugins: ProxyPlugin[], args: ProxyArgs, isWrap = false): void {
   const names = plugins.map((p) => p.name);
@@ -510,14 +593,46 @@ function printStartupInfo(plugins: ProxyPlugin[], args: ProxyArgs, isWrap = fals
   }
 
   if (args.redact) {
-    const mode = args.redactReversible ? " (reversible)" : "";
+    const mode = args.redactPersist
+      ? ` (reversible, mappings in ${new MappingStore().dir})`
+      : args.redactReversible ? " (reversible)" : "";
     if (args.redactPolicy) {
-      console.log(`Redact:  policy ${args.redactPolicy}${mode}`);
+      console.log(`Redact:  policy ${args.redactPolicy}${mode}, reloaded on change`);
     } else {
       console.log(`Redact:  preset "${args.redactPreset}"${mode}`);
     }
   }
 
+  if (args.guard) {
+    console.log(`Guard:   ${args.guard}`);
+  }
+
+  const upstreams = namedUpstreams(args);
+  if (upstreams) {
+    console.log(`Routing: ${Object.keys(upstreams).join(", ")} (${args.upstreams})`);
+  }
+
+  if (args.routes) {
+    console.log(`Routes:  ${args.routes}`);
+  }
+
+  const cachePlugin = plugins.find((p) => p.name === "cache") as CachePlugin | undefined;
+  if (cachePlugin) {
+    const timing = args.cacheTiming ? " (original timing)" : "";
+    console.log(`Cache:   ${cachePlugin.cacheDir}${timing}`);
+  }
+
+  const budgetPlugin = plugins.find((p) => p.name === "budget") as BudgetPlugin | undefined;
+  if (budgetPlugin) {
+    const caps = [
+      args.budgetSession !== null ? `$${args.budgetSession}/session` : null,
+      args.budgetSource !== null ? `$${args.budgetSource}/source/day` : null,
+      args.budgetDay !== null ? `$${args.budgetDay}/day` : null,
+      args.budgetMonth !== null ? `$${args.budgetMonth}/month` : null,
+    ].filter(Boolean);
+    console.log(`Budget:  ${caps.join(", ")} (${budgetPlugin.stateFile})`);
+  }
+
   const loggerPlugin = plugins.find((p) => p.name === "logger") as LoggerPlugin | undefined;
   if (loggerPlugin) {
     console.log(`Logs:    ${loggerPlugin.captureDir}`);
@@ -530,7 +645,7 @@ function printStartupInfo(plugins: ProxyPlugin[], args: ProxyArgs, isWrap = fals
 
 /**
  * Start the proxy in standalone mode (no child process).
- * Runs until SIGINT/SIGTERM.
+ * Runs until SIGINT/SIGTERM. SIGHUP reloads the redaction policy file.
  */
 async function runStandalone(args: ProxyArgs): Promise<void> {
   const plugins = buildPlugins(args);
@@ -541,6 +656,8 @@ async function runStandalone(args: ProxyArgs): Promise<void> {
     bindHost: args.bind || undefined,
     plugins,
     logTraffic: args.verbose,
+    intercept: args.intercept,
+    namedUpstreams: namedUpstreams(args),
   });
 
   await proxy.start();
@@ -555,16 +672,42 @@ async function runStandalone(args: ProxyArgs): Promise<void> {
   process.on("SIGINT", shutdown);
   process.on("SIGTERM", shutdown);
 
+  const redactPlugin = plugins.find((p) => p.name === "redact") as RedactPlugin | undefined;
+  process.on("SIGHUP", () => {
+    if (!redactPlugin || !args.redactPolicy) {
+      console.log("SIGHUP: no redaction policy file to reload");
+      return;
+    }
+    redactPlugin.reload();
+  });
+
   // Keep alive
   process.stdin.resume();
 }
 
+/**
+ * Make a child process trust the proxy's local CA, creating it if needed.
+ * Sets both NODE_EXTRA_CA_CERTS (Node.js) and SSL_CERT_FILE (OpenSSL; the
+ * bundle keeps the system roots, so tunneled hosts still verify).
+ */
+function trustLocalCA(env: NodeJS.ProcessEnv): void {
+  try {
+    const ca = loadOrCreateCA();
+    env.NODE_EXTRA_CA_CERTS = ca.certFile;
+    env.SSL_CERT_FILE = ca.bundleFile;
+  } catch (err: unknown) {
+    console.error(
+      `Warning: could not set up the local CA: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+}
+
 /**
  * Wrap mode: start a shared proxy, spawn the child tool routed through
  * it, and clean up everything when the child exits.
  *
- * For tools that need mitmproxy (Codex, Copilot, OpenCode), also starts
- * mitmproxy in upstream mode between the tool and the proxy.
+ * Tools that go through HTTPS_PROXY (Codex, Copilot, OpenCode) are also
+ * told to trust the local CA, so the proxy can read their traffic.
  */
 async function runWrap(args: ProxyArgs, wrap: string[]): Promise<void> {
   const plugins = buildPlugins(args);
@@ -586,13 +729,15 @@ async function runWrap(args: ProxyArgs, wrap: string[]): Promise<void> {
     }
   }
 
-  const { proxyPort, manageRef } = await ensureSharedProxyForWrap(args);
+  // Tools that go through HTTPS_PROXY need a proxy that accepts CONNECT
+  const needsIntercept = !!getToolEnv(command, "").intercept;
+  const { proxyPort, manageRef } = await ensureSharedProxyForWrap(
+    needsIntercept ? { ...args, intercept: true } : args,
+  );
   const proxyUrl = `http://127.0.0.1:${proxyPort}`;
   const toolEnv = getToolEnv(command, proxyUrl, sessionId);
-  let mitmProcess: ReturnType<typeof spawn> | null = null;
   let child: ReturnType<typeof spawn> | null = null;
   let cleanupCalled = false;
-  let mitmPort = MITM_PORT;
 
   console.log(`Session: ${sessionId}`);
   console.log(`Wrapping: ${wrap.join(" ")}`);
@@ -602,24 +747,13 @@ async function runWrap(args: ProxyArgs, wrap: string[]): Promise<void> {
     ...toolEnv.env,
   };
 
-  if (toolEnv.needsMitm) {
-    const certPath = join(homedir(), ".mitmproxy", "mitmproxy-ca-cert.pem");
-    if (fs.existsSync(certPath)) {
-      childEnv.SSL_CERT_FILE = certPath;
-      childEnv.NODE_EXTRA_CA_CERTS = certPath;
-    } else {
-      console.error(
-        `Warning: mitmproxy CA cert not found at ${certPath}. Run 'mitmdump' once to generate it.`,
-      );
-    }
-  }
+  if (toolEnv.intercept) trustLocalCA(childEnv);
 
   const cleanupAndExit = (exitCode: number): void => {
     if (cleanupCalled) return;
     cleanupCalled = true;
 
     if (child && !child.killed) child.kill("SIGTERM");
-    if (mitmProcess && !mitmProcess.killed) mitmProcess.kill();
     releaseSharedProxyRef(manageRef);
     process.exit(exitCode);
   };
@@ -655,94 +789,6 @@ async function runWrap(args: ProxyArgs, wrap: string[]): Promise<void> {
     });
   };
 
-  if (toolEnv.needsMitm) {
-    if (!fs.existsSync(MITM_ADDON_PATH)) {
-      console.error(`mitm addon not found: ${MITM_ADDON_PATH}`);
-      cleanupAndExit(1);
-      return;
-    }
-    if (!findBinaryOnPath("mitmdump")) {
-      console.error("mitmdump not found on PATH.");
-      console.error("Install it with: pipx install mitmproxy");
-      cleanupAndExit(1);
-      return;
-    }
-    const versionCheck = spawnSync("mitmdump", ["--version"], {
-      stdio: "ignore",
-    });
-    if (versionCheck.status !== 0) {
-      console.error("mitmdump is installed but not runnable.");
-      cleanupAndExit(1);
-      return;
-    }
-
-    mitmPort = await chooseMitmPort(MITM_PORT);
-    const mitmProxyUrl = `http://127.0.0.1:${mitmPort}`;
-    childEnv.https_proxy = mitmProxyUrl;
-    childEnv.HTTPS_PROXY = mitmProxyUrl;
-    childEnv.http_proxy = mitmProxyUrl;
-    childEnv.HTTP_PROXY = mitmProxyUrl;
-    if (mitmPort !== MITM_PORT) {
-      console.log(
-        `Port ${MITM_PORT} is in use; using mitmproxy port ${mitmPort}.`,
-      );
-    }
-
-    // mitmproxy terminates TLS, the addon rewrites requests to route
-    // through the contextio proxy for redaction and logging.
-    console.log(
-      `Starting mitmproxy (routing through proxy on :${proxyPort})...`,
-    );
-    mitmProcess = spawn(
-      "mitmdump",
-      [
-        "-s", MITM_ADDON_PATH,
-        "--quiet",
-        "--listen-port", String(mitmPort),
-      ],
-      {
-        stdio: ["ignore", "pipe", "pipe"],
-        env: {
-          ...process.env,
-          CONTEXTIO_PROXY_URL: `http://127.0.0.1:${proxyPort}`,
-          CONTEXTIO_SOURCE: command,
-          CONTEXTIO_SESSION_ID: sessionId,
-        },
-      },
-    );
-
-    mitmProcess.on("error", (err) => {
-      console.error(`Failed to start mitmproxy: ${err.message}`);
-      console.error("Install it with: pipx install mitmproxy");
-      cleanupAndExit(1);
-    });
-
-    mitmProcess.on("exit", (code) => {
-      if (cleanupCalled) return;
-      if (!code) return;
-      console.error("mitmproxy exited unexpectedly");
-      cleanupAndExit(code || 1);
-    });
-
-    let attempts = 0;
-    const pollMitm = setInterval(() => {
-      attempts += 1;
-      const socket = net.connect({ port: mitmPort, host: "127.0.0.1" }, () => {
-        socket.end();
-        clearInterval(pollMitm);
-        startChild();
-      });
-      socket.on("error", () => {});
-      socket.setTimeout(500, () => socket.destroy());
-      if (attempts * 200 >= MITM_START_TIMEOUT_MS) {
-        clearInterval(pollMitm);
-        console.error("Timed out waiting for mitmproxy to become ready.");
-        cleanupAndExit(1);
-      }
-    }, 200);
-    return;
-  }
-
   startChild();
 }
 
@@ -751,8 +797,8 @@ async function runWrap(args: ProxyArgs, wrap: string[]): Promise<void> {
  * Sets env vars, spawns the command, exits when it finishes.
  * Does not start or stop the proxy.
  *
- * For tools that need mitmproxy (Copilot, OpenCode), starts mitmproxy
- * in upstream mode, chaining HTTPS traffic through to the proxy.
+ * Tools that go through HTTPS_PROXY (Codex, Copilot, OpenCode) are also
+ * told to trust the local CA.
  */
 async function runAttach(args: AttachArgs): Promise<void> {
   const proxyPort = args.port || 4040;
@@ -761,92 +807,23 @@ async function runAttach(args: AttachArgs): Promise<void> {
   const proxyUrl = `http://127.0.0.1:${proxyPort}`;
   const toolEnv = getToolEnv(command, proxyUrl, sessionId);
 
-  // A running contextio proxy is always required (mitmproxy chains into it)
+  // A running contextio proxy is always required
   if (!(await isPortListening(proxyPort))) {
     console.error(`No proxy running on port ${proxyPort}.`);
-    console.error(`Start one first: contextio proxy [options]`);
+    console.error(`Start one first: contextio proxy ${toolEnv.intercept ? "--intercept " : ""}[options]`);
+    process.exit(1);
+  }
+  if (toolEnv.intercept && runningProxyIntercepts(proxyPort) === false) {
+    console.error(noInterceptMessage(proxyPort));
     process.exit(1);
   }
 
   console.log(`Session: ${sessionId}`);
-  if (toolEnv.needsMitm) {
-    console.log(`Mode:    mitmproxy (upstream to proxy)`);
-  } else {
-    console.log(`Proxy:   port ${proxyPort}`);
-  }
+  console.log(`Proxy:   port ${proxyPort}${toolEnv.intercept ? " (as HTTPS_PROXY)" : ""}`);
   console.log(`Running: ${args.wrap.join(" ")}`);
 
   const childEnv = { ...process.env, ...toolEnv.env };
-  let mitmProcess: ReturnType<typeof spawn> | null = null;
-
-  const cleanup = (): void => {
-    if (mitmProcess && !mitmProcess.killed) mitmProcess.kill();
-  };
-
-  // Start mitmproxy if needed; addon rewrites requests to the proxy
-  if (toolEnv.needsMitm) {
-    if (!fs.existsSync(MITM_ADDON_PATH)) {
-      console.error(`mitm addon not found: ${MITM_ADDON_PATH}`);
-      process.exit(1);
-    }
-    if (!findBinaryOnPath("mitmdump")) {
-      console.error("mitmdump not found on PATH.");
-      console.error("Install it with: pipx install mitmproxy");
-      process.exit(1);
-    }
-
-    // Resolve SSL cert for mitmproxy HTTPS interception.
-    // Set both SSL_CERT_FILE (OpenSSL) and NODE_EXTRA_CA_CERTS (Node.js).
-    const certPath = join(homedir(), ".mitmproxy", "mitmproxy-ca-cert.pem");
-    if (fs.existsSync(certPath)) {
-      childEnv.SSL_CERT_FILE = certPath;
-      childEnv.NODE_EXTRA_CA_CERTS = certPath;
-    } else {
-      console.error(
-        `Warning: mitmproxy CA cert not found at ${certPath}. Run 'mitmdump' once to generate it.`,
-      );
-    }
-
-    const mitmPort = await chooseMitmPort(MITM_PORT);
-    const mitmUrl = `http://127.0.0.1:${mitmPort}`;
-    childEnv.https_proxy = mitmUrl;
-    childEnv.HTTPS_PROXY = mitmUrl;
-    childEnv.http_proxy = mitmUrl;
-    childEnv.HTTP_PROXY = mitmUrl;
-
-    console.log(`Proxy:   port ${proxyPort} (via mitmproxy on :${mitmPort})`);
-
-    mitmProcess = spawn(
-      "mitmdump",
-      [
-        "-s", MITM_ADDON_PATH,
-        "--quiet",
-        "--listen-port", String(mitmPort),
-      ],
-      {
-        stdio: ["ignore", "ignore", "ignore"],
-        env: {
-          ...process.env,
-          CONTEXTIO_PROXY_URL: `http://127.0.0.1:${proxyPort}`,
-          CONTEXTIO_SOURCE: command,
-          CONTEXTIO_SESSION_ID: sessionId,
-        },
-      },
-    );
-
-    mitmProcess.on("error", (err) => {
-      console.error(`Failed to start mitmproxy: ${err.message}`);
-      process.exit(1);
-    });
-
-    // Wait for mitmproxy to be ready
-    const ready = await waitForPort(mitmPort, MITM_START_TIMEOUT_MS);
-    if (!ready) {
-      console.error("Timed out waiting for mitmproxy to start.");
-      cleanup();
-      process.exit(1);
-    }
-  }
+  if (toolEnv.intercept) trustLocalCA(childEnv);
 
   const child = spawn(command, commandArgs, {
     stdio: "inherit",
@@ -854,7 +831,6 @@ async function runAttach(args: AttachArgs): Promise<void> {
   });
 
   child.on("error", (err) => {
-    cleanup();
     if ((err as NodeJS.ErrnoException).code === "ENOENT") {
       console.error(`Command not found: ${command}`);
       process.exit(127);
@@ -865,7 +841,6 @@ async function runAttach(args: AttachArgs): Promise<void> {
   });
 
   child.on("exit", (code, signal) => {
-    cleanup();
     const exitCode = signal ? 128 + (signal === "SIGINT" ? 2 : 15) : code || 0;
     process.exit(exitCode);
   });
@@ -874,7 +849,6 @@ async function runAttach(args: AttachArgs): Promise<void> {
   process.on("SIGINT", () => {});
   process.on("SIGTERM", () => {
     if (!child.killed) child.kill("SIGTERM");
-    cleanup();
   });
 }
 
@@ -896,6 +870,11 @@ async function main(): Promise<void> {
     },
     runMonitor,
     runInspect,
+    runReplay,
+    runExport,
+    runMock,
+    runRedactMappings,
+    runRedactTest,
   });
 
   if (typeof exitCode === "number") {
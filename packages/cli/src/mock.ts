@@ -0,0 +1,271 @@
+/**
+ * Offline mock upstream.
+ *
+ * Runs the proxy as a stand-in for the LLM provider: incoming requests
+ * are matched against recorded captures by provider, path, and a body
+ * fingerprint, and answered with the recorded status, headers, and body.
+ * Nothing is forwarded, so tests of agent tooling can run without
+ * network access or API keys.
+ *
+ * The fingerprint reuses the response cache's keying: volatile fields
+ * (`metadata.user_id`, `stream`) are ignored and object keys are sorted.
+ * `--match-fields` narrows it to selected fields, `--ignore-fields`
+ * drops more of them.
+ */
+
+import { join } from "node:path";
+
+import { DEFAULT_IGNORE_FIELDS, cacheKey, isStreamingRequest } from "@contextio/cache";
+import {
+  EVENT_STREAM_CONTENT_TYPE,
+  buildProviderError,
+  encodeEventStreamMessage,
+  type CaptureData,
+  type JsonObject,
+  type JsonValue,
+  type PluginResponse,
+  type ProxyPlugin,
+  type RequestContext,
+} from "@contextio/core";
+import { createProxy } from "@contextio/proxy";
+
+import type { MockArgs } from "./args.js";
+import { listCaptureFiles, readCapture } from "./captures.js";
+
+/** How requests are fingerprinted. */
+export interface MockMatchOptions {
+  /** Only these body fields (dot paths) take part in matching; null for the whole body. */
+  matchFields: string[] | null;
+  /** Extra body fields (dot paths) left out of matching. */
+  ignoreFields: string[];
+}
+
+/** Mock plugin with the number of recorded responses it can serve. */
+export interface MockPlugin extends ProxyPlugin {
+  /** Number of distinct request fingerprints loaded. */
+  fingerprints: number;
+}
+
+/** Recorded headers that describe the original transfer, not the body we serve. */
+const SKIP_HEADERS = new Set([
+  "connection",
+  "content-length",
+  "content-encoding",
+  "keep-alive",
+  "transfer-encoding",
+]);
+
+/** Upstream for requests that bypass plugins (GET /v1/models): a closed local port. */
+const OFFLINE_UPSTREAM = "http://127.0.0.1:9";
+
+// --- Fingerprints ---
+
+function isObject(value: JsonValue | undefined): value is JsonObject {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/** Copy only the fields at `paths` from a body. Missing fields are skipped. */
+export function pickFields(body: JsonValue | null, paths: string[]): JsonValue | null {
+  if (!isObject(body ?? undefined)) return body;
+  const out: JsonObject = {};
+  for (const path of paths) {
+    const parts = path.split(".");
+    let src: JsonValue | undefined = body as JsonObject;
+    for (const part of parts) {
+      src = isObject(src) ? src[part] : undefined;
+    }
+    if (src === undefined) continue;
+
+    let dst = out;
+    for (const part of parts.slice(0, -1)) {
+      if (!isObject(dst[part])) dst[part] = {};
+      dst = dst[part] as JsonObject;
+    }
+    dst[parts[parts.length - 1]] = src;
+  }
+  return out;
+}
+
+/**
+ * Fingerprint a request for matching.
+ *
+ * Streaming and non-streaming requests never match each other, since the
+ * client expects the response format it asked for.
+ */
+export function mockFingerprint(
+  request: { provider: string; path: string; body: JsonValue | null },
+  options: MockMatchOptions,
+): string {
+  const body = options.matchFields ? pickFields(request.body, options.matchFields) : request.body;
+  const key = cacheKey(
+    { provider: request.provider, path: request.path, body },
+    [...DEFAULT_IGNORE_FIELDS, ...options.ignoreFields],
+  );
+  return isStreamingRequest(request.body, request.path) ? `${key}:sse` : key;
+}
+
+// --- Responses ---
+
+/** Split an SSE body into events, keeping each event's trailing blank line. */
+function splitEvents(body: string): string[] {
+  return body.split(/(?<=\r?\n\r?\n)/).filter((event) => event.length > 0);
+}
+
+/**
+ * Encode one SSE event of a captured Bedrock stream back into an
+ * event-stream message, the reverse of `eventStreamToSse`. InvokeModel
+ * `chunk` payloads are wrapped in their base64 `bytes` field again.
+ */
+function sseEventToEventStream(event: string): Buffer {
+  const type = /^event:\s?(.*)$/m.exec(event)?.[1] ?? "";
+  const data = /^data:\s?(.*)$/m.exec(event)?.[1] ?? "";
+  const payload =
+    type === "chunk" ? JSON.stringify({ bytes: Buffer.from(data, "utf8").toString("base64") }) : data;
+  const headers: Record<string, string> = /Exception$/.test(type)
+    ? { ":message-type": "exception", ":exception-type": type }
+    : { ":message-type": "event", ":event-type": type };
+  return encodeEventStreamMessage({ ...headers, ":content-type": "application/json" }, payload);
+}
+
+/**
+ * Rebuild the recorded response of a capture. Bedrock streams, captured
+ * as SSE text, are served as event-stream messages again.
+ */
+export function recordedResponse(capture: CaptureData): PluginResponse {
+  const headers: Record<string, string> = {};
+  for (const [key, value] of Object.entries(capture.responseHeaders ?? {})) {
+    if (!SKIP_HEADERS.has(key.toLowerCase())) headers[key] = value;
+  }
+
+  if (capture.responseIsStreaming) {
+    const events = splitEvents(capture.responseBody);
+    const eventStream = Object.entries(headers).some(
+      ([key, value]) => key.toLowerCase() === "content-type" && value.includes(EVENT_STREAM_CONTENT_TYPE),
+    );
+    return {
+      status: capture.responseStatus,
+      headers,
+      chunks: events.map((event) => ({ data: eventStream ? sseEventToEventStream(event) : event })),
+    };
+  }
+  return { status: capture.responseStatus, headers, body: capture.responseBody };
+}
+
+/**
+ * Create a plugin that answers every request from recorded captures.
+ *
+ * Captures sharing a fingerprint are served in recorded order; once they
+ * run out, the last one is repeated. Unmatched requests get a 404 in the
+ * provider's error format.
+ */
+export function createMockPlugin(
+  captures: CaptureData[],
+  options: MockMatchOptions,
+  verbose = false,
+): MockPlugin {
+  const recorded = new Map<string, { captures: CaptureData[]; next: number }>();
+  for (const capture of captures) {
+    const key = mockFingerprint(
+      { provider: capture.provider, path: capture.path, body: capture.requestBody },
+      options,
+    );
+    const entry = recorded.get(key);
+    if (entry) entry.captures.push(capture);
+    else recorded.set(key, { captures: [capture], next: 0 });
+  }
+
+  return {
+    name: "mock",
+    fingerprints: recorded.size,
+
+    onRequest(ctx: RequestContext): RequestContext {
+      const key = mockFingerprint(ctx, options);
+      const entry = recorded.get(key);
+      const sid = ctx.sessionId ? ` [${ctx.sessionId}]` : "";
+
+      if (!entry) {
+        console.error(`[mock]${sid} No recorded response for ${ctx.provider} ${ctx.path} (fingerprint ${key.slice(0, 12)})`);
+        return {
+          ...ctx,
+          response: buildProviderError(
+            ctx.apiFormat,
+            404,
+            `contextio mock: no recorded response matches this ${ctx.provider} request to ${ctx.path}`,
+            "mock_no_match",
+          ),
+        };
+      }
+
+      const capture = entry.captures[Math.min(entry.next, entry.captures.length - 1)];
+      entry.next++;
+      if (verbose) {
+        console.error(`[mock]${sid} Serving ${ctx.provider} ${ctx.path} (${capture.responseStatus})`);
+      }
+      return { ...ctx, response: recordedResponse(capture) };
+    },
+  };
+}
+
+/** Load every readable capture in a directory, in file order. */
+export function loadMockCaptures(dir: string): CaptureData[] {
+  const captures: CaptureData[] = [];
+  for (const file of listCaptureFiles(dir)) {
+    const capture = readCapture(join(dir, file));
+    if (capture && typeof capture.responseBody === "string") captures.push(capture);
+  }
+  return captures;
+}
+
+/**
+ * Start the mock upstream. It keeps running until SIGINT/SIGTERM.
+ *
+ * @returns 1 if the capture directory holds no captures, otherwise undefined once listening.
+ */
+export async function runMock(args: MockArgs): Promise<number | undefined> {
+  const captures = loadMockCaptures(args.from);
+  if (captures.length === 0) {
+    console.error(`No captures found in ${args.from}`);
+    return 1;
+  }
+
+  const plugin = createMockPlugin(
+    captures,
+    { matchFields: args.matchFields, ignoreFields: args.ignoreFields },
+    args.verbose,
+  );
+  const proxy = createProxy({
+    port: args.port || undefined,
+    bindHost: args.bind || undefined,
+    allowTargetOverride: false,
+    plugins: [plugin],
+    logTraffic: args.verbose,
+    upstreams: {
+      anthropic: OFFLINE_UPSTREAM,
+      openai: OFFLINE_UPSTREAM,
+      chatgpt: OFFLINE_UPSTREAM,
+      bedrock: OFFLINE_UPSTREAM,
+      azureOpenai: OFFLINE_UPSTREAM,
+      gemini: OFFLINE_UPSTREAM,
+      geminiCodeAssist: OFFLINE_UPSTREAM,
+      vertex: OFFLINE_UPSTREAM,
+    },
+  });
+
+  console.log(`Mock:    ${captures.length} capture(s), ${plugin.fingerprints} distinct request(s) from ${args.from}`);
+  if (args.matchFields) console.log(`Match:   ${args.matchFields.join(", ")}`);
+  await proxy.start();
+
+  let shuttingDown = false;
+  const shutdown = (): void => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    console.log("\nShutting down...");
+    proxy.stop().then(() => process.exit(0));
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+
+  // Keep alive
+  process.stdin.resume();
+  return undefined;
+}
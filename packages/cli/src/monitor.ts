@@ -4,12 +4,22 @@
  * Shows a table of API requests as they happen, with model, status,
  * latency, token counts, and estimated cost. Uses fs.watch() to
  * detect new capture files as they're written by the logger plugin.
+ * Cache hits cost nothing; their tokens and cost are totalled as saved.
+ * The CTX column shows how full the model's context window was, turning
+ * yellow and red past the --context-warn and --context-critical thresholds.
+ * Requests whose model a routing rule rewrote show the model that was
+ * asked for after the cost.
  */
 
 import fs from "node:fs";
 import { join } from "node:path";
 
-import { estimateCost, parseResponseUsage, type CaptureData } from "@contextio/core";
+import {
+  estimateContextUtilization,
+  estimateCost,
+  parseResponseUsage,
+  type CaptureData,
+} from "@contextio/core";
 
 import type { MonitorArgs } from "./args.js";
 import { captureDir, listCaptureFiles, readCapture } from "./captures.js";
@@ -19,16 +29,25 @@ interface CaptureDisplay {
   time: string;
   source: string;
   model: string;
+  /** Model the client asked for, when a routing rule sent a different one. */
+  requestedModel: string | null;
   status: number;
   latency: string;
   tokensIn: number;
   tokensOut: number;
   cost: string;
   sessionId: string | null;
+  /** Served from the response cache. */
+  cacheHit: boolean;
+  savedTokens: number;
+  savedCost: number;
+  /** Context window utilization in percent, or null for unknown models. */
+  contextPercent: number | null;
 }
 
-/** Extract the model name from a capture's request body. */
+/** Extract the model name from a capture's request body, or an Azure deployment's model. */
 function parseModelName(capture: CaptureData): string {
+  if (capture.azure?.model) return capture.azure.model;
   const body = capture.requestBody;
   if (!body || typeof body !== "object" || Array.isArray(body)) return "?";
 
@@ -85,21 +104,42 @@ function loadCaptureDisplay(filepath: string): CaptureDisplay | null {
     usage.cacheWriteTokens,
   );
 
+  const cache = capture.cache?.hit ? capture.cache : null;
+  const route = capture.route;
+
+  // Captures from before the proxy recorded utilization are estimated here
+  const utilization =
+    capture.contextUtilization ?? estimateContextUtilization(capture.requestBody, capture.path);
+
   return {
     time: formatTime(capture.timestamp),
     source: capture.source || "?",
     model,
+    requestedModel: route && route.requestedModel !== route.model ? route.requestedModel : null,
     status: capture.responseStatus,
     latency: formatLatency(latencyMs),
     tokensIn: usage.inputTokens,
     tokensOut: usage.outputTokens,
-    cost: formatCost(cost),
+    cost: cache ? "cached" : formatCost(cost),
     sessionId: capture.sessionId,
+    cacheHit: cache !== null,
+    savedTokens: cache ? cache.savedInputTokens + cache.savedOutputTokens : 0,
+    savedCost: cache?.savedCost ?? 0,
+    contextPercent: utilization?.percent ?? null,
   };
 }
 
-/** Format a capture as a fixed-width table row with ANSI status coloring. */
-function formatDisplayRow(c: CaptureDisplay): string {
+/** Context utilization cell: yellow past the warn threshold, red past critical. */
+function formatContext(percent: number | null, args: MonitorArgs): string {
+  if (percent === null) return "-".padEnd(4);
+  const text = `${Math.round(percent)}%`.padEnd(4);
+  if (percent >= args.contextCritical) return `\x1b[31m${text}\x1b[0m`;
+  if (percent >= args.contextWarn) return `\x1b[33m${text}\x1b[0m`;
+  return text;
+}
+
+/** Format a capture as a fixed-width table row with ANSI status and context coloring. */
+function formatDisplayRow(c: CaptureDisplay, args: MonitorArgs): string {
   const statusColor = c.status >= 200 && c.status < 300 ? "\x1b[32m" : "\x1b[31m";
   const reset = "\x1b[0m";
 
@@ -110,26 +150,42 @@ function formatDisplayRow(c: CaptureDisplay): string {
     `${statusColor}${String(c.status).padEnd(5)}${reset}  ` +
     `${c.latency.padEnd(5)}  ` +
     `${formatTokens(c.tokensIn, c.tokensOut).padEnd(14)}  ` +
-    c.cost
+    `${formatContext(c.contextPercent, args)}  ` +
+    (c.cacheHit ? `\x1b[36m${c.cost}\x1b[0m` : c.cost) +
+    (c.requestedModel ? `  \x1b[2m(requested ${c.requestedModel})\x1b[0m` : "")
   );
 }
 
-/** Build a summary line with session count, total requests, tokens, and cost. */
-function getTotalsLine(displays: CaptureDisplay[]): string {
+/**
+ * Build a summary line with session count, total requests, tokens, cost,
+ * and how many requests crossed the context warning threshold.
+ */
+function getTotalsLine(displays: CaptureDisplay[], args: MonitorArgs): string {
   const sessions = new Set(displays.map((d) => d.sessionId).filter(Boolean)).size;
-  const totalIn = displays.reduce((sum, d) => sum + d.tokensIn, 0);
-  const totalOut = displays.reduce((sum, d) => sum + d.tokensOut, 0);
-  const totalCost = displays.reduce((sum, d) => {
+  const spent = displays.filter((d) => !d.cacheHit);
+  const hits = displays.filter((d) => d.cacheHit);
+  const totalIn = spent.reduce((sum, d) => sum + d.tokensIn, 0);
+  const totalOut = spent.reduce((sum, d) => sum + d.tokensOut, 0);
+  const totalCost = spent.reduce((sum, d) => {
     const c = d.cost;
     if (c === "$?") return sum;
     return sum + parseFloat(c.slice(1));
   }, 0);
 
+  const saved = hits.length > 0
+    ? ` | Cache: ${hits.length} hit(s), saved ` +
+      `${formatNumber(hits.reduce((sum, d) => sum + d.savedTokens, 0))} tokens / ` +
+      `$${hits.reduce((sum, d) => sum + d.savedCost, 0).toFixed(2)}`
+    : "";
+
+  const nearLimit = displays.filter((d) => d.contextPercent !== null && d.contextPercent >= args.contextWarn).length;
+  const context = nearLimit > 0 ? ` | Context: ${nearLimit} over ${args.contextWarn}%` : "";
+
   return (
     `\x1b[7m Sessions: ${sessions} active | ` +
     `Requests: ${displays.length} | ` +
     `Tokens: ${formatNumber(totalIn)} in / ${formatNumber(totalOut)} out | ` +
-    `Cost: $${totalCost.toFixed(2)} \x1b[0m`
+    `Cost: $${totalCost.toFixed(2)}${saved}${context} \x1b[0m`
   );
 }
 
@@ -187,7 +243,7 @@ export async function runMonitor(args: MonitorArgs): Promise<void> {
     process.exit(1);
   }
 
-  const header = " TIME      SOURCE      MODEL             STATUS  LATENCY  TOKENS (in/out)  COST";
+  const header = " TIME      SOURCE      MODEL             STATUS  LATENCY  TOKENS (in/out)  CTX   COST";
   console.log(header);
 
   // Only show existing captures for --last or --session mode.
@@ -205,11 +261,11 @@ export async function runMonitor(args: MonitorArgs): Promise<void> {
     }
 
     for (const display of displays) {
-      console.log(formatDisplayRow(display));
+      console.log(formatDisplayRow(display, args));
     }
 
     if (displays.length > 0) {
-      console.log(getTotalsLine(displays));
+      console.log(getTotalsLine(displays, args));
     }
   }
 
@@ -233,8 +289,8 @@ export async function runMonitor(args: MonitorArgs): Promise<void> {
     const display = loadCaptureDisplay(filepath);
     if (display && matchesFilter(display, args)) {
       displays.push(display);
-      console.log(formatDisplayRow(display));
-      console.log("\r" + getTotalsLine(displays) + "\n");
+      console.log(formatDisplayRow(display, args));
+      console.log("\r" + getTotalsLine(displays, args) + "\n");
     }
   };
 
@@ -0,0 +1,302 @@
+/**
+ * `ctxio redact` subcommands.
+ *
+ * `mappings` inspects or purges the encrypted replacement maps that
+ * `ctxio proxy --redact-persist` keeps on disk for reversible redaction.
+ * Originals are masked unless `--reveal` is given.
+ *
+ * `test` dry-runs a policy over stdin, files, or capture files and prints
+ * every match inline, including ones a gate skipped. With `--expect`, it
+ * also checks a fixture file and exits 1 if any fixture fails, for CI.
+ */
+
+import fs from "node:fs";
+import { join } from "node:path";
+
+import {
+  MappingStore,
+  createStats,
+  fromPreset,
+  loadPolicyFile,
+  redactWithPolicy,
+} from "@contextio/redact";
+import type { CompiledPolicy, PresetName, RedactionMatch } from "@contextio/redact";
+
+import type { RedactMappingsArgs, RedactTestArgs } from "./args.js";
+import { listCaptureFiles } from "./captures.js";
+
+/** Mask a sensitive value, keeping just enough to recognise it. */
+export function maskValue(value: string): string {
+  if (value.length <= 6) return "***";
+  return `${value.slice(0, 2)}***${value.slice(-2)}`;
+}
+
+function formatDate(iso: string): string {
+  return iso.replace("T", " ").slice(0, 19);
+}
+
+/** List all stored session maps. */
+function listSessions(store: MappingStore): number {
+  const sessions = store.list();
+  if (sessions.length === 0) {
+    console.log(`No stored mappings in ${store.dir}`);
+    return 0;
+  }
+
+  console.log(`Stored mappings (${store.dir}):\n`);
+  console.log("  SESSION       ENTRIES  UPDATED");
+  for (const s of sessions) {
+    console.log(`  ${s.sessionId.padEnd(12)}  ${String(s.count).padEnd(7)}  ${formatDate(s.updatedAt)}`);
+  }
+  console.log(`\nRun 'ctxio redact mappings <session>' to see a session's entries.`);
+  return 0;
+}
+
+/** Print one session's entries. */
+function showSession(store: MappingStore, sessionId: string, reveal: boolean): number {
+  const entries = store.load(sessionId);
+  if (!entries) {
+    console.error(`No stored mappings for session ${sessionId}.`);
+    return 1;
+  }
+
+  console.log(`Session ${sessionId}: ${entries.length} mapping(s)\n`);
+  const width = Math.max(11, ...entries.map((e) => e.placeholder.length));
+  for (const e of entries) {
+    const original = reveal ? e.original : maskValue(e.original);
+    console.log(`  ${e.placeholder.padEnd(width)}  ${e.ruleId.padEnd(16)}  ${original}`);
+  }
+  if (!reveal) {
+    console.log(`\nOriginals are masked. Use --reveal to show them.`);
+  }
+  return 0;
+}
+
+/** Delete one session's map, or all of them. */
+function purge(store: MappingStore, sessionId: string | null): number {
+  if (sessionId) {
+    if (!store.delete(sessionId)) {
+      console.error(`No stored mappings for session ${sessionId}.`);
+      return 1;
+    }
+    console.log(`Purged mappings for session ${sessionId}`);
+    return 0;
+  }
+
+  const sessions = store.list();
+  for (const s of sessions) store.delete(s.sessionId);
+  console.log(`Purged mappings for ${sessions.length} session(s)`);
+  return 0;
+}
+
+/**
+ * Run `ctxio redact mappings [session]`.
+ *
+ * Without a session, lists stored maps. With one, prints its entries.
+ * `--purge` deletes the session's map, or every map without a session.
+ */
+export function runRedactMappings(args: RedactMappingsArgs, store = new MappingStore()): number {
+  try {
+    if (args.purge) return purge(store, args.session);
+    if (!args.session) return listSessions(store);
+    return showSession(store, args.session, args.reveal);
+  } catch (err: unknown) {
+    console.error(`Could not access stored mappings: ${err instanceof Error ? err.message : String(err)}`);
+    return 1;
+  }
+}
+
+// --- redact test ---
+
+/** One entry of a `--expect` fixture file. */
+export interface RedactFixture {
+  /** Label for the report. Default: the fixture's position. */
+  name?: string;
+  /** Text or JSON value to redact. */
+  input: unknown;
+  /** Ids of the rules expected to match (one per match, any order). Skipped matches don't count. */
+  expect?: string[];
+  /** Exact expected redacted value. */
+  output?: unknown;
+}
+
+/** Something to run the policy over. */
+interface TestInput {
+  label: string;
+  value: unknown;
+}
+
+const OUTCOME_LABELS: Record<RedactionMatch["outcome"], string> = {
+  redacted: "redacted",
+  blocked: "blocked (request would be rejected)",
+  warned: "warned (left unchanged)",
+  allowlisted: "skipped: allowlisted",
+  "low-entropy": "skipped: low entropy",
+  "no-context": "skipped: no context word nearby",
+};
+
+/** True for matches that changed or flagged the text, as opposed to ones a gate skipped. */
+function isApplied(m: RedactionMatch): boolean {
+  return m.outcome === "redacted" || m.outcome === "blocked" || m.outcome === "warned";
+}
+
+function oneLine(text: string): string {
+  return text.replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Render a match in its surrounding text: the match struck out and the
+ * replacement added, in red and green (or `[-...-]{+...+}` without color).
+ */
+export function formatMatchDiff(m: RedactionMatch, color: boolean): string {
+  const before = oneLine(m.before);
+  const after = oneLine(m.after);
+  const match = oneLine(m.match);
+  const replacement = m.replacement === null ? null : oneLine(m.replacement);
+
+  if (!color) {
+    const added = replacement === null ? "" : `{+${replacement}+}`;
+    return `${before}[-${match}-]${added}${after}`;
+  }
+  const dim = "\x1b[2m";
+  const reset = "\x1b[0m";
+  const removed = replacement === null ? `\x1b[33m${match}${reset}` : `\x1b[31m${match}${reset}`;
+  const added = replacement === null ? "" : `\x1b[32m${replacement}${reset}`;
+  return `${dim}${before}${reset}${removed}${added}${dim}${after}${reset}`;
+}
+
+/** Parse file content: capture files yield their request body, other JSON its value, anything else the text. */
+function parseInput(label: string, text: string): TestInput {
+  try {
+    const value: unknown = JSON.parse(text);
+    if (value && typeof value === "object" && "requestBody" in value && "timestamp" in value) {
+      return { label: `${label} (request body)`, value: (value as { requestBody: unknown }).requestBody };
+    }
+    return { label, value };
+  } catch {
+    return { label, value: text };
+  }
+}
+
+/** Expand the input arguments: directories become their capture files, "-" is stdin. */
+function collectInputs(paths: string[], readStdin: () => string): TestInput[] {
+  const inputs: TestInput[] = [];
+  for (const path of paths) {
+    if (path === "-") {
+      inputs.push(parseInput("stdin", readStdin()));
+    } else if (fs.statSync(path).isDirectory()) {
+      for (const file of listCaptureFiles(path)) {
+        inputs.push(parseInput(join(path, file), fs.readFileSync(join(path, file), "utf8")));
+      }
+    } else {
+      inputs.push(parseInput(path, fs.readFileSync(path, "utf8")));
+    }
+  }
+  return inputs;
+}
+
+/** Redact one input and print its matches. Returns the matches. */
+function testInput(input: TestInput, policy: CompiledPolicy, color: boolean): RedactionMatch[] {
+  const stats = createStats({ recordMatches: true });
+  redactWithPolicy(input.value, policy, stats);
+  const matches = stats.matches ?? [];
+
+  console.log(`${input.label}: ${matches.length === 0 ? "no matches" : `${matches.length} match(es)`}`);
+  for (const m of matches) {
+    const context = m.contextFound ? " (context word found)" : "";
+    console.log(`  ${m.rule}  ${m.path || "(text)"}  ${OUTCOME_LABELS[m.outcome]}${context}`);
+    console.log(`    ${formatMatchDiff(m, color)}`);
+  }
+  return matches;
+}
+
+/** Check fixtures against the policy. Returns the number of failures. */
+function checkFixtures(fixtures: RedactFixture[], policy: CompiledPolicy): number {
+  let failures = 0;
+  fixtures.forEach((fixture, i) => {
+    const name = fixture.name ?? `fixture ${i + 1}`;
+    const stats = createStats({ recordMatches: true });
+    const output = redactWithPolicy(fixture.input, policy, stats);
+    const got = (stats.matches ?? []).filter(isApplied).map((m) => m.rule).sort();
+
+    const problems: string[] = [];
+    if (fixture.expect) {
+      const want = [...fixture.expect].sort();
+      if (JSON.stringify(want) !== JSON.stringify(got)) {
+        problems.push(`expected matches [${want.join(", ")}], got [${got.join(", ")}]`);
+      }
+    }
+    if (fixture.output !== undefined && JSON.stringify(fixture.output) !== JSON.stringify(output)) {
+      problems.push(`expected output ${JSON.stringify(fixture.output)}, got ${JSON.stringify(output)}`);
+    }
+
+    if (problems.length === 0) {
+      console.log(`  PASS  ${name}`);
+    } else {
+      failures++;
+      console.log(`  FAIL  ${name}: ${problems.join("; ")}`);
+    }
+  });
+  return failures;
+}
+
+/** Read and validate a fixture file. */
+function loadFixtures(path: string): RedactFixture[] {
+  const fixtures: unknown = JSON.parse(fs.readFileSync(path, "utf8"));
+  if (!Array.isArray(fixtures) || fixtures.some((f) => !f || typeof f !== "object" || !("input" in f))) {
+    throw new Error(`${path} must be a JSON array of { "input", "expect"?, "output"? } objects`);
+  }
+  return fixtures as RedactFixture[];
+}
+
+/**
+ * Run `ctxio redact test [inputs...]`.
+ *
+ * Prints every match the policy finds in the inputs. With `--expect`,
+ * also runs the fixtures and fails if any of them doesn't match.
+ *
+ * @returns Exit code: 1 on a failed fixture or an unreadable policy or input.
+ */
+export function runRedactTest(
+  args: RedactTestArgs,
+  readStdin: () => string = () => fs.readFileSync(0, "utf8"),
+): number {
+  const color = args.color && !process.env.NO_COLOR;
+
+  let policy: CompiledPolicy;
+  try {
+    policy = args.policy ? loadPolicyFile(args.policy) : fromPreset(args.preset as PresetName);
+  } catch (err: unknown) {
+    console.error(`Invalid policy: ${err instanceof Error ? err.message : String(err)}`);
+    return 1;
+  }
+
+  let inputs: TestInput[];
+  let fixtures: RedactFixture[] = [];
+  try {
+    const paths = args.inputs.length === 0 && !args.expect ? ["-"] : args.inputs;
+    inputs = collectInputs(paths, readStdin);
+    if (args.expect) fixtures = loadFixtures(args.expect);
+  } catch (err: unknown) {
+    console.error(`Could not read input: ${err instanceof Error ? err.message : String(err)}`);
+    return 1;
+  }
+
+  const counts = { applied: 0, skipped: 0 };
+  for (const input of inputs) {
+    for (const m of testInput(input, policy, color)) {
+      if (isApplied(m)) counts.applied++;
+      else counts.skipped++;
+    }
+  }
+  if (inputs.length > 0) {
+    console.log(`\n${inputs.length} input(s): ${counts.applied} match(es) applied, ${counts.skipped} skipped`);
+  }
+
+  if (!args.expect) return 0;
+
+  console.log(`\nFixtures (${args.expect}):`);
+  const failures = checkFixtures(fixtures, policy);
+  console.log(`\n${fixtures.length - failures} passed, ${failures} failed`);
+  return failures > 0 ? 1 : 0;
+}
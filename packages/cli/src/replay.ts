@@ -0,0 +1,441 @@
+/**
+ * Capture replay.
+ *
+ * Re-sends a captured request to its original target (or an override)
+ * and prints a structured diff of status, token usage, and response text
+ * against the recorded response. Useful for checking how a model or
+ * provider change affects the exact same request.
+ *
+ * Captures never contain credentials (the proxy strips auth headers before
+ * logging), so API keys are injected from the environment at replay time.
+ * Bedrock requests are signed with SigV4 from the AWS credentials there,
+ * and event-stream responses are decoded to SSE text, as the proxy
+ * records them, before diffing.
+ */
+
+import fs from "node:fs";
+import { join } from "node:path";
+
+import {
+  EVENT_STREAM_CONTENT_TYPE,
+  eventStreamToSse,
+  extractResponseText,
+  parseResponseUsage,
+  type CaptureData,
+  type ParsedResponseUsage,
+} from "@contextio/core";
+
+import { awsCredentialsFromEnv, signSigV4 } from "@contextio/proxy";
+
+import type { ReplayArgs } from "./args.js";
+import { captureDir, readCapture } from "./captures.js";
+
+/** A fully-built request ready to send. */
+export interface ReplayRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body: string | null;
+  /** Name of the env var credentials were taken from, or null if none. */
+  credentialSource: string | null;
+}
+
+/** The response received from the replayed request. */
+export interface ReplayResponse {
+  status: number;
+  body: string;
+  total_ms: number;
+}
+
+/** One line of a line-based text diff. */
+export interface DiffLine {
+  op: "same" | "add" | "remove";
+  text: string;
+}
+
+/** A single token usage field compared between capture and replay. */
+export interface UsageDiffRow {
+  field: string;
+  before: number;
+  after: number;
+}
+
+/** Structured comparison of a recorded response and its replay. */
+export interface ReplayDiff {
+  status: { before: number; after: number };
+  model: { before: string | null; after: string | null };
+  usage: UsageDiffRow[];
+  text: { before: string; after: string; lines: DiffLine[] };
+  totalMs: { before: number; after: number };
+}
+
+/**
+ * Headers that must not be replayed verbatim: hop-by-hop headers, and
+ * ones that describe the original encoded body rather than the JSON we send.
+ */
+const SKIP_HEADERS = new Set([
+  "host",
+  "connection",
+  "content-length",
+  "transfer-encoding",
+  "content-encoding",
+  "accept-encoding",
+  "keep-alive",
+  "proxy-connection",
+  "x-target-url",
+]);
+
+/**
+ * Set provider credentials on the outgoing headers from the environment.
+ *
+ * @returns The env var name used, or null if no credentials were found.
+ */
+export function injectCredentials(
+  provider: string,
+  headers: Record<string, string>,
+  env: NodeJS.ProcessEnv = process.env,
+): string | null {
+  if (provider === "anthropic") {
+    if (env.ANTHROPIC_API_KEY) {
+      headers["x-api-key"] = env.ANTHROPIC_API_KEY;
+      return "ANTHROPIC_API_KEY";
+    }
+    if (env.ANTHROPIC_AUTH_TOKEN) {
+      headers.authorization = `Bearer ${env.ANTHROPIC_AUTH_TOKEN}`;
+      return "ANTHROPIC_AUTH_TOKEN";
+    }
+    return null;
+  }
+
+  if (provider === "openai") {
+    if (env.OPENAI_API_KEY) {
+      headers.authorization = `Bearer ${env.OPENAI_API_KEY}`;
+      return "OPENAI_API_KEY";
+    }
+    return null;
+  }
+
+  if (provider === "azure-openai") {
+    if (env.AZURE_OPENAI_API_KEY) {
+      headers["api-key"] = env.AZURE_OPENAI_API_KEY;
+      return "AZURE_OPENAI_API_KEY";
+    }
+    return null;
+  }
+
+  if (provider === "gemini") {
+    for (const name of ["GEMINI_API_KEY", "GOOGLE_API_KEY"]) {
+      if (env[name]) {
+        headers["x-goog-api-key"] = env[name];
+        return name;
+      }
+    }
+    return null;
+  }
+
+  return null;
+}
+
+/** The region of a Bedrock runtime URL, or null for other hosts. */
+function bedrockRegion(url: string): string | null {
+  return new URL(url).hostname.match(/^bedrock-runtime(?:-fips)?\.([a-z0-9-]+)\.amazonaws\.com$/)?.[1] ?? null;
+}
+
+/**
+ * Sign a Bedrock request with SigV4 from `AWS_ACCESS_KEY_ID`,
+ * `AWS_SECRET_ACCESS_KEY`, and `AWS_SESSION_TOKEN`, updating `headers`.
+ *
+ * @returns The env var name used, or null without credentials.
+ */
+export function signBedrockRequest(
+  request: { url: string; method: string; headers: Record<string, string>; body: string | null },
+  region: string,
+  env: NodeJS.ProcessEnv = process.env,
+): string | null {
+  const credentials = awsCredentialsFromEnv(env);
+  if (!credentials) return null;
+
+  const url = new URL(request.url);
+  const signed = signSigV4(
+    {
+      method: request.method,
+      path: url.pathname + url.search,
+      headers: { ...request.headers, host: url.host },
+      body: Buffer.from(request.body ?? ""),
+    },
+    credentials,
+    { region, service: "bedrock" },
+  );
+  for (const [key, value] of Object.entries(signed)) {
+    if (key !== "host" && typeof value === "string") request.headers[key] = value;
+  }
+  return "AWS_ACCESS_KEY_ID";
+}
+
+/**
+ * Rebuild a captured request for replay.
+ *
+ * `target` replaces the whole URL; `upstream` replaces only the origin
+ * (scheme, host, port and any base path) and keeps the captured path and
+ * query string. `model` swaps the model field of a JSON object body.
+ *
+ * Bedrock requests are signed for the URL they're sent to, in the region
+ * of that URL or else of the captured target (`AWS_REGION` as a last
+ * resort).
+ */
+export function buildReplayRequest(
+  capture: CaptureData,
+  opts: { target: string | null; upstream: string | null; model?: string | null },
+  env: NodeJS.ProcessEnv = process.env,
+): ReplayRequest {
+  let url = capture.targetUrl;
+  if (opts.target) {
+    url = opts.target;
+  } else if (opts.upstream) {
+    const original = new URL(capture.targetUrl);
+    url = opts.upstream.replace(/\/+$/, "") + original.pathname + original.search;
+  }
+
+  const headers: Record<string, string> = {};
+  for (const [key, value] of Object.entries(capture.requestHeaders ?? {})) {
+    if (SKIP_HEADERS.has(key.toLowerCase())) continue;
+    headers[key.toLowerCase()] = value;
+  }
+
+  let body: string | null = null;
+  if (capture.requestBody !== null && capture.requestBody !== undefined) {
+    const requestBody =
+      opts.model && typeof capture.requestBody === "object" && !Array.isArray(capture.requestBody)
+        ? { ...capture.requestBody, model: opts.model }
+        : capture.requestBody;
+    body = JSON.stringify(requestBody);
+    headers["content-type"] = "application/json";
+  }
+
+  const method = capture.method || "POST";
+  let credentialSource: string | null;
+  if (capture.provider === "bedrock") {
+    const region =
+      bedrockRegion(url) ?? bedrockRegion(capture.targetUrl) ?? env.AWS_REGION ?? env.AWS_DEFAULT_REGION;
+    credentialSource = region ? signBedrockRequest({ url, method, headers, body }, region, env) : null;
+  } else {
+    credentialSource = injectCredentials(capture.provider, headers, env);
+  }
+
+  return {
+    url,
+    method,
+    headers,
+    body,
+    credentialSource,
+  };
+}
+
+/** Largest LCS table `diffLines` builds; bigger changes are shown as a block replace. */
+const MAX_DIFF_CELLS = 1_000_000;
+
+/**
+ * Line-based diff using a longest-common-subsequence table over the
+ * lines between the common prefix and suffix. When that middle part
+ * would need more than MAX_DIFF_CELLS cells, its old lines are shown
+ * removed and its new lines added instead.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const lines: DiffLine[] = a.slice(0, start).map((text) => ({ op: "same", text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if ((midA.length + 1) * (midB.length + 1) > MAX_DIFF_CELLS) {
+    for (const text of midA) lines.push({ op: "remove", text });
+    for (const text of midB) lines.push({ op: "add", text });
+  } else {
+    lines.push(...diffMiddle(midA, midB));
+  }
+
+  for (const text of a.slice(endA)) lines.push({ op: "same", text });
+  return lines;
+}
+
+function diffMiddle(a: string[], b: string[]): DiffLine[] {
+  const table: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] =
+        a[i] === b[j]
+          ? table[i + 1][j + 1] + 1
+          : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ op: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      lines.push({ op: "remove", text: a[i++] });
+    } else {
+      lines.push({ op: "add", text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ op: "remove", text: a[i++] });
+  while (j < b.length) lines.push({ op: "add", text: b[j++] });
+
+  return lines;
+}
+
+const USAGE_FIELDS: (keyof ParsedResponseUsage & string)[] = [
+  "inputTokens",
+  "outputTokens",
+  "cacheReadTokens",
+  "cacheWriteTokens",
+  "thinkingTokens",
+];
+
+/** Compare a recorded capture against its replayed response. */
+export function diffReplay(capture: CaptureData, replayed: ReplayResponse): ReplayDiff {
+  const beforeUsage = parseResponseUsage(capture.responseBody);
+  const afterUsage = parseResponseUsage(replayed.body);
+  const beforeText = extractResponseText(capture.responseBody ?? "");
+  const afterText = extractResponseText(replayed.body);
+
+  return {
+    status: { before: capture.responseStatus, after: replayed.status },
+    model: { before: beforeUsage.model, after: afterUsage.model },
+    usage: USAGE_FIELDS.map((field) => ({
+      field,
+      before: beforeUsage[field] as number,
+      after: afterUsage[field] as number,
+    })),
+    text: { before: beforeText, after: afterText, lines: diffLines(beforeText, afterText) },
+    totalMs: { before: capture.timings?.total_ms ?? 0, after: replayed.total_ms },
+  };
+}
+
+/**
+ * Send a replay request and buffer the full response body. Event streams
+ * are binary, so they're rendered as SSE text like the captured response.
+ */
+export async function sendReplayRequest(request: ReplayRequest): Promise<ReplayResponse> {
+  const started = Date.now();
+  const res = await fetch(request.url, {
+    method: request.method,
+    headers: request.headers,
+    body: request.body ?? undefined,
+  });
+  const buffer = Buffer.from(await res.arrayBuffer());
+  const body = res.headers.get("content-type")?.includes(EVENT_STREAM_CONTENT_TYPE)
+    ? eventStreamToSse(buffer)
+    : buffer.toString("utf8");
+  return { status: res.status, body, total_ms: Date.now() - started };
+}
+
+function formatDelta(before: number, after: number): string {
+  const delta = after - before;
+  if (delta === 0) return "";
+  return delta > 0 ? ` (+${delta})` : ` (${delta})`;
+}
+
+/** Print a replay diff in human-readable form. */
+export function printReplayDiff(diff: ReplayDiff): void {
+  const red = "\x1b[31m";
+  const green = "\x1b[32m";
+  const dim = "\x1b[2m";
+  const reset = "\x1b[0m";
+
+  const statusMark = diff.status.before === diff.status.after ? "" : "  (changed)";
+  console.log(`Status:  ${diff.status.before} -> ${diff.status.after}${statusMark}`);
+  console.log(`Model:   ${diff.model.before ?? "?"} -> ${diff.model.after ?? "?"}`);
+  console.log(`Time:    ${diff.totalMs.before}ms -> ${diff.totalMs.after}ms`);
+
+  console.log("\nUsage:");
+  for (const row of diff.usage) {
+    console.log(
+      `  ${row.field.padEnd(18)} ${String(row.before).padStart(8)} -> ${String(row.after).padStart(8)}${formatDelta(row.before, row.after)}`,
+    );
+  }
+
+  console.log("\nResponse text:");
+  if (diff.text.before === diff.text.after) {
+    console.log(`  ${dim}(identical)${reset}`);
+    return;
+  }
+  for (const line of diff.text.lines) {
+    if (line.op === "remove") console.log(`${red}- ${line.text}${reset}`);
+    else if (line.op === "add") console.log(`${green}+ ${line.text}${reset}`);
+    else console.log(`  ${line.text}`);
+  }
+}
+
+/** Resolve a capture argument as a path, falling back to the capture directory. */
+function resolveCaptureFile(file: string): string | null {
+  if (fs.existsSync(file)) return file;
+  const inCaptureDir = join(captureDir(), file);
+  if (fs.existsSync(inCaptureDir)) return inCaptureDir;
+  return null;
+}
+
+/**
+ * Replay a captured request and print the diff.
+ *
+ * @returns Exit code: 0 when the replay got a 2xx response, 1 otherwise.
+ */
+export async function runReplay(args: ReplayArgs): Promise<number> {
+  const file = resolveCaptureFile(args.file);
+  if (!file) {
+    console.error(`Capture file not found: ${args.file}`);
+    return 1;
+  }
+
+  const capture = readCapture(file);
+  if (!capture) {
+    console.error(`Could not read capture: ${file}`);
+    return 1;
+  }
+
+  let replayed: ReplayResponse;
+  try {
+    const request = buildReplayRequest(capture, {
+      target: args.target,
+      upstream: args.upstream,
+      model: args.model,
+    });
+
+    console.log(`Replaying: ${capture.method} ${request.url}`);
+    console.log(`Session:   ${capture.sessionId ?? "-"} (${capture.source ?? "unknown"})`);
+    if (!request.credentialSource && capture.provider === "bedrock") {
+      console.log("Warning:   no AWS credentials or region in env to sign the Bedrock request");
+      console.log("           (AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY, AWS_REGION)");
+    } else if (!request.credentialSource) {
+      console.log(`Warning:   no credentials found in env for provider "${capture.provider}"`);
+    }
+    console.log("");
+
+    replayed = await sendReplayRequest(request);
+  } catch (err: unknown) {
+    console.error(`Replay failed: ${err instanceof Error ? err.message : String(err)}`);
+    return 1;
+  }
+
+  printReplayDiff(diffReplay(capture, replayed));
+
+  return replayed.status >= 200 && replayed.status < 300 ? 0 : 1;
+}
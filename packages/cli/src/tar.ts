@@ -0,0 +1,88 @@
+/**
+ * Minimal tar.gz writer built on Node built-ins.
+ *
+ * Produces POSIX ustar archives containing regular files only, which is
+ * all `ctxio export` needs. Paths longer than 100 bytes are split into
+ * the ustar prefix field.
+ */
+
+import { gzipSync } from "node:zlib";
+
+/** A regular file to place in the archive. */
+export interface TarEntry {
+  /** Path inside the archive, using forward slashes. */
+  name: string;
+  content: Buffer | string;
+  /** Modification time. Defaults to now. */
+  mtime?: Date;
+}
+
+const BLOCK_SIZE = 512;
+
+function writeString(buf: Buffer, value: string, offset: number, length: number): void {
+  buf.write(value, offset, Math.min(Buffer.byteLength(value), length), "utf8");
+}
+
+/** Write a zero-padded octal number terminated by NUL, as tar expects. */
+function writeOctal(buf: Buffer, value: number, offset: number, length: number): void {
+  const octal = value.toString(8).padStart(length - 1, "0");
+  writeString(buf, `${octal}\0`, offset, length);
+}
+
+/** Split a long path into ustar prefix (max 155) and name (max 100) fields. */
+function splitPath(path: string): { prefix: string; name: string } {
+  if (Buffer.byteLength(path) <= 100) return { prefix: "", name: path };
+  for (let i = path.lastIndexOf("/"); i > 0; i = path.lastIndexOf("/", i - 1)) {
+    const prefix = path.slice(0, i);
+    const name = path.slice(i + 1);
+    if (Buffer.byteLength(prefix) <= 155 && Buffer.byteLength(name) <= 100) {
+      return { prefix, name };
+    }
+  }
+  throw new Error(`Path too long for tar archive: ${path}`);
+}
+
+function buildHeader(entry: TarEntry, size: number): Buffer {
+  const header = Buffer.alloc(BLOCK_SIZE);
+  const { prefix, name } = splitPath(entry.name);
+  const mtime = Math.floor((entry.mtime ?? new Date()).getTime() / 1000);
+
+  writeString(header, name, 0, 100);
+  writeOctal(header, 0o644, 100, 8);
+  writeOctal(header, 0, 108, 8); // uid
+  writeOctal(header, 0, 116, 8); // gid
+  writeOctal(header, size, 124, 12);
+  writeOctal(header, mtime, 136, 12);
+  header.fill(" ", 148, 156); // checksum placeholder: spaces while summing
+  writeString(header, "0", 156, 1); // regular file
+  writeString(header, "ustar\0", 257, 6);
+  writeString(header, "00", 263, 2);
+  writeString(header, prefix, 345, 155);
+
+  let checksum = 0;
+  for (const byte of header) checksum += byte;
+  writeString(header, `${checksum.toString(8).padStart(6, "0")}\0 `, 148, 8);
+
+  return header;
+}
+
+/** Build an uncompressed tar archive from the given entries. */
+export function createTar(entries: TarEntry[]): Buffer {
+  const blocks: Buffer[] = [];
+  for (const entry of entries) {
+    const content = typeof entry.content === "string"
+      ? Buffer.from(entry.content, "utf8")
+      : entry.content;
+    blocks.push(buildHeader(entry, content.length), content);
+    const padding = (BLOCK_SIZE - (content.length % BLOCK_SIZE)) % BLOCK_SIZE;
+    if (padding > 0) blocks.push(Buffer.alloc(padding));
+  }
+  // Two zero blocks mark the end of the archive.
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+  return Buffer.concat(blocks);
+}
+
+/** Build a gzip-compressed tar archive from the given entries. */
+export function createTarGz(entries: TarEntry[]): Buffer {
+  return gzipSync(createTar(entries));
+}
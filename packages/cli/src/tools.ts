@@ -2,8 +2,8 @@
  * Tool-specific proxy configuration.
  *
  * Each AI coding tool has its own way of accepting a base URL override.
- * This module maps tool names to the right environment variables and
- * determines whether mitmproxy is needed.
+ * This module maps tool names to the right environment variables. Tools
+ * without one go through the proxy as `HTTPS_PROXY` instead.
  */
 
 /** Environment configuration for routing a tool through the proxy. */
@@ -11,13 +11,13 @@ export interface ToolEnv {
   /** Environment variables to set on the child process. */
   env: Record<string, string>;
   /**
-   * Whether the tool needs mitmproxy as a TLS-terminating forward proxy.
+   * Whether the tool reaches the proxy through `HTTPS_PROXY`.
    *
    * Some tools (Codex, Copilot, OpenCode) ignore base URL overrides but
-   * respect HTTPS_PROXY. For those, mitmproxy terminates TLS and chains
-   * traffic through the contextio proxy for redaction and logging.
+   * respect HTTPS_PROXY. The proxy terminates their TLS with a local CA,
+   * which the tool must be told to trust (see `loadOrCreateCA`).
    */
-  needsMitm?: boolean;
+  intercept?: boolean;
 }
 
 /**
@@ -29,7 +29,7 @@ export interface ToolEnv {
  * @param command - Tool binary name (e.g. "claude", "codex", "gemini").
  * @param proxyUrl - The proxy base URL (e.g. "http://127.0.0.1:4040").
  * @param sessionId - Optional 8-char hex session ID for capture grouping.
- * @returns Env vars to set and whether mitmproxy is needed.
+ * @returns Env vars to set and whether the tool's TLS is intercepted.
  */
 export function getToolEnv(
   command: string,
@@ -39,6 +39,11 @@ export function getToolEnv(
   const sourceTag = sessionId ? `${command}/${sessionId}` : command;
   const sourceUrl = `${proxyUrl}/${sourceTag}`;
 
+  // For HTTPS_PROXY, the tag travels as proxy credentials instead
+  const credentials = sessionId ? `${command}:${sessionId}` : command;
+  const forwardProxyUrl = proxyUrl.replace("://", `://${credentials}@`);
+  const forwardProxyEnv = { HTTPS_PROXY: forwardProxyUrl, https_proxy: forwardProxyUrl };
+
   // Tool-specific overrides
   switch (command) {
     case "claude":
@@ -66,31 +71,30 @@ export function getToolEnv(
 
     case "codex":
       // Codex ignores OPENAI_BASE_URL but respects HTTPS_PROXY.
-      // Route through mitmproxy in upstream mode, chained into the
-      // contextio proxy for full redaction and logging support.
+      // The proxy intercepts its API traffic for full redaction and
+      // logging support.
       return {
-        env: {},
-        needsMitm: true,
+        env: forwardProxyEnv,
+        intercept: true,
       };
 
     case "copilot":
       // Copilot CLI ignores OPENAI_BASE_URL but respects HTTPS_PROXY.
-      // Route through mitmproxy in upstream mode, chained into the
-      // contextio proxy for full redaction and logging support.
+      // The proxy intercepts its API traffic for full redaction and
+      // logging support.
       return {
-        env: {},
-        needsMitm: true,
+        env: forwardProxyEnv,
+        intercept: true,
       };
 
     case "opencode":
       // OpenCode embeds multiple AI SDKs (OpenAI, Anthropic, OpenRouter).
       // Direct providers (Anthropic, OpenAI) respect *_BASE_URL, but
-      // OpenRouter and others don't. Route through mitmproxy in upstream
-      // mode so all traffic flows through the contextio proxy regardless
-      // of provider.
+      // OpenRouter and others don't. Use HTTPS_PROXY so all traffic flows
+      // through the contextio proxy regardless of provider.
       return {
-        env: {},
-        needsMitm: true,
+        env: forwardProxyEnv,
+        intercept: true,
       };
 
     // Default: set both Anthropic and OpenAI base URLs.
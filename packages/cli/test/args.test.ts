@@ -19,6 +19,9 @@ describe("parseArgs", () => {
       assert.equal(r.port, 0);
       assert.equal(r.detach, false);
       assert.equal(r.redact, false);
+      assert.equal(r.guard, null);
+      assert.equal(r.cache, false);
+      assert.equal(r.budgetSession, null);
       assert.equal(r.log, true);
       assert.equal(r.verbose, false);
       assert.equal(r.wrap, null);
@@ -49,6 +52,72 @@ describe("parseArgs", () => {
     }
   });
 
+  it("proxy --redact-persist implies reversible redaction", () => {
+    const r = parse("proxy", "--redact-persist");
+    assert.ok(!isError(r));
+    if (r.command === "proxy") {
+      assert.equal(r.redact, true);
+      assert.equal(r.redactReversible, true);
+      assert.equal(r.redactPersist, true);
+    }
+  });
+
+  it("proxy --guard defaults to warn", () => {
+    const r = parse("proxy", "--guard");
+    assert.ok(!isError(r));
+    if (r.command === "proxy") assert.equal(r.guard, "warn");
+  });
+
+  it("proxy --guard block -- wraps a command", () => {
+    const r = parse("proxy", "--guard", "block", "--", "claude");
+    assert.ok(!isError(r));
+    if (r.command === "proxy") {
+      assert.equal(r.guard, "block");
+      assert.deepEqual(r.wrap, ["claude"]);
+    }
+  });
+
+  it("proxy --guard rejects unknown modes", () => {
+    const r = parse("proxy", "--guard", "loud");
+    assert.ok(isError(r));
+  });
+
+  it("proxy --cache-dir and --cache-timing imply cache", () => {
+    const r = parse("proxy", "--cache-dir", "/tmp/cache", "--cache-timing");
+    assert.ok(!isError(r));
+    if (r.command === "proxy") {
+      assert.equal(r.cache, true);
+      assert.equal(r.cacheDir, "/tmp/cache");
+      assert.equal(r.cacheTiming, true);
+    }
+  });
+
+  it("proxy --cache-max-age takes a positive number of days and implies cache", () => {
+    const r = parse("proxy", "--cache-max-age", "7");
+    assert.ok(!isError(r));
+    if (r.command === "proxy") {
+      assert.equal(r.cache, true);
+      assert.equal(r.cacheMaxAge, 7);
+    }
+    assert.ok(isError(parse("proxy", "--cache-max-age", "0")));
+  });
+
+  it("proxy --budget-* flags parse USD amounts", () => {
+    const r = parse("proxy", "--budget-session", "5", "--budget-month", "$120.50");
+    assert.ok(!isError(r));
+    if (r.command === "proxy") {
+      assert.equal(r.budgetSession, 5);
+      assert.equal(r.budgetSource, null);
+      assert.equal(r.budgetDay, null);
+      assert.equal(r.budgetMonth, 120.5);
+    }
+  });
+
+  it("proxy --budget-day rejects non-positive amounts", () => {
+    assert.ok(isError(parse("proxy", "--budget-day", "0")));
+    assert.ok(isError(parse("proxy", "--budget-day", "lots")));
+  });
+
   it("proxy --no-log disables logging", () => {
     const r = parse("proxy", "--no-log");
     assert.ok(!isError(r));
@@ -106,6 +175,27 @@ describe("parseArgs", () => {
     if (r.command === "proxy") assert.equal(r.logMaxSessions, 50);
   });
 
+  it("proxy --upstreams", () => {
+    const r = parse("proxy", "--upstreams", "upstreams.json");
+    assert.ok(!isError(r));
+    if (r.command === "proxy") assert.equal(r.upstreams, "upstreams.json");
+  });
+
+  it("proxy --intercept", () => {
+    const r = parse("proxy");
+    assert.ok(!isError(r));
+    if (r.command === "proxy") assert.equal(r.intercept, false);
+    const on = parse("proxy", "--intercept");
+    assert.ok(!isError(on));
+    if (on.command === "proxy") assert.equal(on.intercept, true);
+  });
+
+  it("proxy --routes", () => {
+    const r = parse("proxy", "--routes", "routes.json");
+    assert.ok(!isError(r));
+    if (r.command === "proxy") assert.equal(r.routes, "routes.json");
+  });
+
   // --- attach ---
 
   it("attach parses command and args", () => {
@@ -154,6 +244,12 @@ describe("parseArgs", () => {
     if (r.command === "proxy") assert.equal(r.action, "status");
   });
 
+  it("proxy reload", () => {
+    const r = parse("proxy", "reload");
+    assert.ok(!isError(r));
+    if (r.command === "proxy") assert.equal(r.action, "reload");
+  });
+
   // --- monitor ---
 
   it("monitor defaults", () => {
@@ -163,6 +259,8 @@ describe("parseArgs", () => {
       assert.equal(r.session, null);
       assert.equal(r.last, null);
       assert.equal(r.source, null);
+      assert.equal(r.contextWarn, 80);
+      assert.equal(r.contextCritical, 95);
     }
   });
 
@@ -181,6 +279,25 @@ describe("parseArgs", () => {
     }
   });
 
+  it("monitor --context-warn --context-critical", () => {
+    const r = parse("monitor", "--context-warn", "70%", "--context-critical", "90");
+    assert.ok(!isError(r));
+    if (r.command === "monitor") {
+      assert.equal(r.contextWarn, 70);
+      assert.equal(r.contextCritical, 90);
+    }
+  });
+
+  it("monitor rejects an out-of-range context threshold", () => {
+    assert.ok(isError(parse("monitor", "--context-warn", "150")));
+  });
+
+  it("monitor rejects a warn threshold above the critical one", () => {
+    const r = parse("monitor", "--context-warn", "96");
+    assert.ok(isError(r));
+    if (isError(r)) assert.match(r.error, /--context-warn \(96%\) must not be above --context-critical \(95%\)/);
+  });
+
   // --- inspect ---
 
   it("inspect defaults", () => {
@@ -191,6 +308,7 @@ describe("parseArgs", () => {
       assert.equal(r.last, false);
       assert.equal(r.source, null);
       assert.equal(r.full, false);
+      assert.equal(r.redactions, false);
     }
   });
 
@@ -210,6 +328,124 @@ describe("parseArgs", () => {
     }
   });
 
+  it("inspect --redactions", () => {
+    const r = parse("inspect", "--last", "--redactions");
+    assert.ok(!isError(r));
+    if (r.command === "inspect") {
+      assert.equal(r.last, true);
+      assert.equal(r.redactions, true);
+    }
+  });
+
+  // --- replay ---
+
+  it("replay requires a capture file", () => {
+    const r = parse("replay");
+    assert.ok(isError(r));
+  });
+
+  it("replay with --upstream", () => {
+    const r = parse("replay", "claude_abc12345_1.json", "--upstream", "http://localhost:9000");
+    assert.ok(!isError(r));
+    if (r.command === "replay") {
+      assert.equal(r.file, "claude_abc12345_1.json");
+      assert.equal(r.upstream, "http://localhost:9000");
+      assert.equal(r.target, null);
+    }
+  });
+
+  it("replay with --target", () => {
+    const r = parse("replay", "cap.json", "--target", "http://localhost:9000/v1/messages");
+    assert.ok(!isError(r));
+    if (r.command === "replay") assert.equal(r.target, "http://localhost:9000/v1/messages");
+  });
+
+  // --- export ---
+
+  it("export defaults to all sessions without redaction", () => {
+    const r = parse("export");
+    assert.ok(!isError(r));
+    if (r.command === "export") {
+      assert.equal(r.session, null);
+      assert.equal(r.last, false);
+      assert.equal(r.redact, false);
+      assert.equal(r.output, null);
+    }
+  });
+
+  it("export --redact-preset implies redact", () => {
+    const r = parse("export", "abc12345", "--redact-preset", "secrets", "-o", "out.tar.gz");
+    assert.ok(!isError(r));
+    if (r.command === "export") {
+      assert.equal(r.session, "abc12345");
+      assert.equal(r.redact, true);
+      assert.equal(r.redactPreset, "secrets");
+      assert.equal(r.output, "out.tar.gz");
+    }
+  });
+
+  // --- mock ---
+
+  it("mock --from with match fields", () => {
+    const r = parse("mock", "--from", "./captures", "--match-fields", "model, messages", "-p", "5050");
+    assert.ok(!isError(r));
+    if (r.command === "mock") {
+      assert.equal(r.from, "./captures");
+      assert.equal(r.port, 5050);
+      assert.deepEqual(r.matchFields, ["model", "messages"]);
+      assert.deepEqual(r.ignoreFields, []);
+    }
+  });
+
+  it("mock requires --from", () => {
+    assert.ok(isError(parse("mock")));
+  });
+
+  // --- redact ---
+
+  it("redact mappings lists all sessions by default", () => {
+    const r = parse("redact", "mappings");
+    assert.ok(!isError(r));
+    if (r.command === "redact-mappings") {
+      assert.equal(r.session, null);
+      assert.equal(r.purge, false);
+      assert.equal(r.reveal, false);
+    }
+  });
+
+  it("redact mappings <session> --purge", () => {
+    const r = parse("redact", "mappings", "abc12345", "--purge");
+    assert.ok(!isError(r));
+    if (r.command === "redact-mappings") {
+      assert.equal(r.session, "abc12345");
+      assert.equal(r.purge, true);
+    }
+  });
+
+  it("redact test defaults to the pii preset and stdin", () => {
+    const r = parse("redact", "test");
+    assert.ok(!isError(r));
+    if (r.command === "redact-test") {
+      assert.deepEqual(r.inputs, []);
+      assert.equal(r.preset, "pii");
+      assert.equal(r.policy, null);
+      assert.equal(r.expect, null);
+      assert.equal(r.color, true);
+    }
+  });
+
+  it("redact test with files, policy, fixtures, and --no-color", () => {
+    const r = parse("redact", "test", "a.txt", "captures/", "-f", "policy.json", "--expect", "fixtures.json", "--no-color");
+    assert.ok(!isError(r));
+    assert.equal(r.command, "redact-test");
+    if (r.command === "redact-test") {
+      assert.deepEqual(r.inputs, ["a.txt", "captures/"]);
+      assert.equal(r.policy, "policy.json");
+      assert.equal(r.expect, "fixtures.json");
+      assert.equal(r.color, false);
+    }
+  });
+
   // --- doctor ---
 
   it("doctor", () => {
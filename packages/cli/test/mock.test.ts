@@ -0,0 +1,272 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import http from "node:http";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { decodeEventStream, eventStreamEventType, eventStreamToSse, encodeEventStreamMessage } from "@contextio/core";
+import type { CaptureData, JsonValue, RequestContext } from "@contextio/core";
+import { createProxy } from "@contextio/proxy";
+
+import {
+  createMockPlugin,
+  loadMockCaptures,
+  mockFingerprint,
+  pickFields,
+  runMock,
+} from "../dist/mock.js";
+
+function makeCapture(overrides: Partial<CaptureData> = {}): CaptureData {
+  return {
+    timestamp: "2025-01-01T12:00:00.000Z",
+    sessionId: "abc12345",
+    method: "POST",
+    path: "/v1/messages",
+    source: "claude",
+    provider: "anthropic",
+    apiFormat: "anthropic-messages",
+    targetUrl: "https://api.anthropic.com/v1/messages",
+    requestHeaders: {},
+    requestBody: { model: "claude-sonnet-4", messages: [{ role: "user", content: "hi" }] },
+    requestBytes: 100,
+    responseStatus: 200,
+    responseHeaders: { "content-type": "application/json", "content-length": "999", "request-id": "req_1" },
+    responseBody: JSON.stringify({ content: [{ type: "text", text: "Hello" }] }),
+    responseIsStreaming: false,
+    responseBytes: 50,
+    timings: { send_ms: 1, wait_ms: 100, receive_ms: 10, total_ms: 111 },
+    ...overrides,
+  };
+}
+
+function makeRequest(body: JsonValue, overrides: Partial<RequestContext> = {}): RequestContext {
+  return {
+    provider: "anthropic",
+    apiFormat: "anthropic-messages",
+    path: "/v1/messages",
+    source: null,
+    sessionId: null,
+    headers: {},
+    body,
+    rawBody: Buffer.from(JSON.stringify(body)),
+    annotations: {},
+    ...overrides,
+  };
+}
+
+const ALL_FIELDS = { matchFields: null, ignoreFields: [] };
+
+// Silence [mock] no-match logs
+let origError: typeof console.error;
+beforeEach(() => {
+  origError = console.error;
+  console.error = () => {};
+});
+afterEach(() => {
+  console.error = origError;
+});
+
+describe("mock: fingerprints", () => {
+  it("picks nested fields and skips missing ones", () => {
+    assert.deepEqual(
+      pickFields({ model: "m", metadata: { user_id: "u", tag: "t" }, temperature: 1 }, ["model", "metadata.tag", "nope"]),
+      { model: "m", metadata: { tag: "t" } },
+    );
+  });
+
+  it("narrows matching with matchFields and ignoreFields", () => {
+    const a = { provider: "anthropic", path: "/v1/messages", body: { model: "m", messages: [], temperature: 0 } };
+    const b = { ...a, body: { model: "m", messages: [], temperature: 1 } };
+    assert.notEqual(mockFingerprint(a, ALL_FIELDS), mockFingerprint(b, ALL_FIELDS));
+    assert.equal(
+      mockFingerprint(a, { matchFields: ["model", "messages"], ignoreFields: [] }),
+      mockFingerprint(b, { matchFields: ["model", "messages"], ignoreFields: [] }),
+    );
+    assert.equal(
+      mockFingerprint(a, { matchFields: null, ignoreFields: ["temperature"] }),
+      mockFingerprint(b, { matchFields: null, ignoreFields: ["temperature"] }),
+    );
+  });
+
+  it("keeps streaming and buffered requests apart", () => {
+    const body = { model: "m", messages: [] };
+    const request = { provider: "anthropic", path: "/v1/messages", body };
+    assert.notEqual(
+      mockFingerprint(request, ALL_FIELDS),
+      mockFingerprint({ ...request, body: { ...body, stream: true } }, ALL_FIELDS),
+    );
+  });
+});
+
+describe("mock: plugin", () => {
+  it("serves the recorded status, headers, and body", async () => {
+    const plugin = createMockPlugin([makeCapture({ responseStatus: 201 })], ALL_FIELDS);
+    const ctx = await plugin.onRequest!(
+      makeRequest({ messages: [{ role: "user", content: "hi" }], model: "claude-sonnet-4", metadata: { user_id: "x" } }),
+    );
+
+    assert.ok(ctx.response);
+    assert.equal(ctx.response.status, 201);
+    assert.equal(ctx.response.headers?.["request-id"], "req_1");
+    assert.equal(ctx.response.headers?.["content-length"], undefined);
+    assert.equal(JSON.parse(ctx.response.body as string).content[0].text, "Hello");
+  });
+
+  it("splits recorded streams into SSE events", async () => {
+    const sse = "event: a\ndata: {}\n\nevent: b\ndata: {}\n\n";
+    const plugin = createMockPlugin(
+      [makeCapture({
+        requestBody: { model: "m", stream: true },
+        responseIsStreaming: true,
+        responseHeaders: { "content-type": "text/event-stream" },
+        responseBody: sse,
+      })],
+      ALL_FIELDS,
+    );
+    const ctx = await plugin.onRequest!(makeRequest({ model: "m", stream: true }));
+
+    assert.deepEqual(ctx.response?.chunks, [
+      { data: "event: a\ndata: {}\n\n" },
+      { data: "event: b\ndata: {}\n\n" },
+    ]);
+  });
+
+  it("serves repeated requests in recorded order, then repeats the last", async () => {
+    const plugin = createMockPlugin(
+      [makeCapture({ responseBody: "first" }), makeCapture({ responseBody: "second" })],
+      ALL_FIELDS,
+    );
+    assert.equal(plugin.fingerprints, 1);
+
+    const body = { model: "claude-sonnet-4", messages: [{ role: "user", content: "hi" }] };
+    const served: JsonValue[] = [];
+    for (let i = 0; i < 3; i++) {
+      served.push((await plugin.onRequest!(makeRequest(body))).response?.body ?? null);
+    }
+    assert.deepEqual(served, ["first", "second", "second"]);
+  });
+
+  it("answers unmatched requests with a provider-shaped 404", async () => {
+    const plugin = createMockPlugin([makeCapture()], ALL_FIELDS);
+
+    const anthropic = await plugin.onRequest!(makeRequest({ model: "other" }));
+    assert.equal(anthropic.response?.status, 404);
+    const error = JSON.parse(anthropic.response?.body as string);
+    assert.equal(error.type, "error");
+    assert.equal(error.error.type, "not_found_error");
+
+    const openai = await plugin.onRequest!(
+      makeRequest({ model: "gpt-4o" }, { provider: "openai", apiFormat: "chat-completions", path: "/v1/chat/completions" }),
+    );
+    assert.equal(JSON.parse(openai.response?.body as string).error.code, "mock_no_match");
+  });
+});
+
+describe("mock: end to end", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(join(tmpdir(), "ctxio-mock-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("loads captures from a directory and serves them through the proxy", async () => {
+    fs.writeFileSync(join(dir, "claude_abc12345_1-000000.json"), JSON.stringify(makeCapture()));
+    fs.writeFileSync(join(dir, "broken.json"), "{");
+    const captures = loadMockCaptures(dir);
+    assert.equal(captures.length, 1);
+
+    const origLog = console.log;
+    console.log = () => {};
+    const proxy = createProxy({ port: 0, plugins: [createMockPlugin(captures, ALL_FIELDS)] });
+    await proxy.start();
+    console.log = origLog;
+
+    try {
+      const res = await new Promise<{ status: number; body: string }>((resolve, reject) => {
+        const req = http.request(
+          { hostname: "127.0.0.1", port: proxy.port, method: "POST", path: "/v1/messages" },
+          (r) => {
+            let body = "";
+            r.on("data", (c: Buffer) => (body += c));
+            r.on("end", () => resolve({ status: r.statusCode!, body }));
+          },
+        );
+        req.on("error", reject);
+        req.end(JSON.stringify({ model: "claude-sonnet-4", messages: [{ role: "user", content: "hi" }] }));
+      });
+
+      assert.equal(res.status, 200);
+      assert.equal(JSON.parse(res.body).content[0].text, "Hello");
+    } finally {
+      await proxy.stop();
+    }
+  });
+
+  it("serves Bedrock streams as event-stream messages", async () => {
+    const upstream = Buffer.concat([
+      encodeEventStreamMessage(
+        { ":event-type": "contentBlockDelta", ":content-type": "application/json", ":message-type": "event" },
+        JSON.stringify({ contentBlockIndex: 0, delta: { text: "Hello" } }),
+      ),
+      encodeEventStreamMessage(
+        { ":event-type": "chunk", ":content-type": "application/json", ":message-type": "event" },
+        JSON.stringify({ bytes: Buffer.from('{"type":"message_stop"}').toString("base64") }),
+      ),
+    ]);
+    const path = "/model/anthropic.claude-3-haiku/converse-stream";
+    const capture = makeCapture({
+      path,
+      provider: "bedrock",
+      apiFormat: "bedrock-converse",
+      requestBody: { messages: [{ role: "user", content: [{ text: "hi" }] }] },
+      responseIsStreaming: true,
+      responseHeaders: { "content-type": "application/vnd.amazon.eventstream" },
+      responseBody: eventStreamToSse(upstream),
+    });
+
+    const origLog = console.log;
+    console.log = () => {};
+    const proxy = createProxy({ port: 0, plugins: [createMockPlugin([capture], ALL_FIELDS)] });
+    await proxy.start();
+    console.log = origLog;
+
+    try {
+      const res = await new Promise<{ type: string; body: Buffer }>((resolve, reject) => {
+        const req = http.request(
+          { hostname: "127.0.0.1", port: proxy.port, method: "POST", path },
+          (r) => {
+            const chunks: Buffer[] = [];
+            r.on("data", (c: Buffer) => chunks.push(c));
+            r.on("end", () => resolve({ type: r.headers["content-type"]!, body: Buffer.concat(chunks) }));
+          },
+        );
+        req.on("error", reject);
+        req.end(JSON.stringify(capture.requestBody));
+      });
+
+      assert.equal(res.type, "application/vnd.amazon.eventstream");
+      const messages = decodeEventStream(res.body);
+      assert.deepEqual(messages.map(eventStreamEventType), ["contentBlockDelta", "chunk"]);
+      assert.equal(eventStreamToSse(res.body), capture.responseBody);
+    } finally {
+      await proxy.stop();
+    }
+  });
+
+  it("returns 1 for a directory without captures", async () => {
+    assert.equal(await runMock({
+      command: "mock",
+      from: dir,
+      port: 0,
+      bind: "",
+      matchFields: null,
+      ignoreFields: [],
+      verbose: false,
+    }), 1);
+  });
+});
@@ -119,7 +119,7 @@ describe("runMonitor listing", () => {
 
     const out = await captureConsole(() =>
       // session filter with no matches exits cleanly after printing header
-      runMonitor({ command: "monitor", session: "nosuchsession", last: null, source: null, once: true }),
+      runMonitor({ command: "monitor", session: "nosuchsession", last: null, source: null, contextWarn: 80, contextCritical: 95, once: true }),
     );
 
     assert.ok(out.includes("TIME"), `header missing in: ${out}`);
@@ -135,7 +135,7 @@ describe("runMonitor listing", () => {
     const { runMonitor } = await import("../dist/monitor.js");
 
     const out = await captureConsole(() =>
-      runMonitor({ command: "monitor", session: "aabb0011", last: null, source: null, once: true }),
+      runMonitor({ command: "monitor", session: "aabb0011", last: null, source: null, contextWarn: 80, contextCritical: 95, once: true }),
     );
 
     assert.ok(out.includes("claude"), `source missing in: ${out}`);
@@ -151,7 +151,7 @@ describe("runMonitor listing", () => {
     const { runMonitor } = await import("../dist/monitor.js");
 
     const out = await captureConsole(() =>
-      runMonitor({ command: "monitor", session: "aabb0011", last: null, source: "claude", once: true }),
+      runMonitor({ command: "monitor", session: "aabb0011", last: null, source: "claude", contextWarn: 80, contextCritical: 95, once: true }),
     );
 
     assert.ok(out.includes("claude"), `claude missing in: ${out}`);
@@ -166,7 +166,7 @@ describe("runMonitor listing", () => {
     const { runMonitor } = await import("../dist/monitor.js");
 
     const out = await captureConsole(() =>
-      runMonitor({ command: "monitor", session: "aabb0011", last: null, source: null, once: true }),
+      runMonitor({ command: "monitor", session: "aabb0011", last: null, source: null, contextWarn: 80, contextCritical: 95, once: true }),
     );
 
     assert.ok(out.includes("Requests:"), `totals line missing in: ${out}`);
@@ -178,7 +178,7 @@ describe("runMonitor listing", () => {
     const { runMonitor } = await import("../dist/monitor.js");
 
     const out = await captureConsole(() =>
-      runMonitor({ command: "monitor", session: "aabb0011", last: null, source: null, once: true }),
+      runMonitor({ command: "monitor", session: "aabb0011", last: null, source: null, contextWarn: 80, contextCritical: 95, once: true }),
     );
 
     // timings.total_ms = 211 → "211ms"
@@ -186,4 +186,79 @@ describe("runMonitor listing", () => {
     // usage: 10 in / 5 out
     assert.ok(out.includes("10/5"), `token counts missing in: ${out}`);
   });
+
+  it("marks cache hits and totals what they saved", async () => {
+    writeFixtures([
+      makeCapture({ sessionId: "aabb0011" }),
+      makeCapture({
+        sessionId: "aabb0011",
+        cache: { hit: true, key: "k", savedInputTokens: 1000, savedOutputTokens: 500, savedCost: 0.5 },
+      }),
+    ]);
+    const { runMonitor } = await import("../dist/monitor.js");
+
+    const out = await captureConsole(() =>
+      runMonitor({ command: "monitor", session: "aabb0011", last: null, source: null, contextWarn: 80, contextCritical: 95, once: true }),
+    );
+
+    assert.ok(out.includes("cached"), `cache hit missing in: ${out}`);
+    // Only the uncached request counts as spent
+    assert.ok(out.includes("Tokens: 10 in / 5 out"), `totals should exclude hits: ${out}`);
+    assert.ok(out.includes("Cache: 1 hit(s), saved 1.5k tokens / $0.50"), `savings missing in: ${out}`);
+  });
+
+  it("highlights requests near the context limit", async () => {
+    const util = (percent: number) => ({
+      model: "claude-opus-4",
+      estimatedTokens: percent * 2000,
+      contextLimit: 200000,
+      percent,
+    });
+    writeFixtures([
+      makeCapture({ sessionId: "aabb0011", contextUtilization: util(12) }),
+      makeCapture({ sessionId: "aabb0011", contextUtilization: util(84.6) }),
+      makeCapture({ sessionId: "aabb0011", contextUtilization: util(97) }),
+    ]);
+    const { runMonitor } = await import("../dist/monitor.js");
+
+    const out = await captureConsole(() =>
+      runMonitor({ command: "monitor", session: "aabb0011", last: null, source: null, contextWarn: 80, contextCritical: 95, once: true }),
+    );
+
+    assert.ok(out.includes("CTX"), `header missing in: ${out}`);
+    assert.ok(out.includes("12% "), `plain utilization missing in: ${out}`);
+    assert.ok(out.includes("\x1b[33m85% "), `warning highlight missing in: ${out}`);
+    assert.ok(out.includes("\x1b[31m97% "), `critical highlight missing in: ${out}`);
+    assert.ok(out.includes("Context: 2 over 80%"), `context summary missing in: ${out}`);
+  });
+
+  it("shows the requested model next to the one a routing rule sent", async () => {
+    writeFixtures([
+      makeCapture({
+        sessionId: "aabb0011",
+        requestBody: { model: "claude-haiku-4", messages: [] },
+        route: { rule: "#1", requestedModel: "claude-opus-4", model: "claude-haiku-4", originalTargetUrl: null },
+      }),
+    ]);
+    const { runMonitor } = await import("../dist/monitor.js");
+
+    const out = await captureConsole(() =>
+      runMonitor({ command: "monitor", session: "aabb0011", last: null, source: null, contextWarn: 80, contextCritical: 95, once: true }),
+    );
+
+    assert.ok(out.includes("claude-haiku-4"), `effective model missing in: ${out}`);
+    assert.ok(out.includes("(requested claude-opus-4)"), `requested model missing in: ${out}`);
+  });
+
+  it("estimates utilization for captures recorded without it", async () => {
+    writeFixtures([makeCapture({ sessionId: "aabb0011" })]);
+    const { runMonitor } = await import("../dist/monitor.js");
+
+    const out = await captureConsole(() =>
+      runMonitor({ command: "monitor", session: "aabb0011", last: null, source: null, contextWarn: 80, contextCritical: 95, once: true }),
+    );
+
+    assert.ok(out.includes("0%"), `estimated utilization missing in: ${out}`);
+    assert.ok(!out.includes("Context:"), `small requests should not be counted: ${out}`);
+  });
 });
@@ -0,0 +1,156 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { MappingStore } from "@contextio/redact";
+
+import { formatMatchDiff, maskValue, runRedactMappings, runRedactTest } from "../dist/redact.js";
+
+describe("redact mappings", () => {
+  let dir: string;
+  let store: MappingStore;
+  let out: string[];
+  let origLog: typeof console.log;
+  let origError: typeof console.error;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(join(tmpdir(), "ctxio-redact-"));
+    store = new MappingStore({ dir: join(dir, "mappings"), keyFile: join(dir, "mapping.key") });
+    store.save("abc12345", [{ original: "jane.doe@example.com", placeholder: "[EMAIL_1]", ruleId: "email" }]);
+    out = [];
+    origLog = console.log;
+    origError = console.error;
+    console.log = (...args: unknown[]) => out.push(args.map(String).join(" "));
+    console.error = (...args: unknown[]) => out.push(args.map(String).join(" "));
+  });
+
+  afterEach(() => {
+    console.log = origLog;
+    console.error = origError;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const args = { command: "redact-mappings" as const, session: null, purge: false, reveal: false };
+
+  it("masks values unless revealed", () => {
+    assert.equal(maskValue("jane.doe@example.com"), "ja***om");
+    assert.equal(maskValue("12345"), "***");
+  });
+
+  it("lists stored sessions", () => {
+    assert.equal(runRedactMappings(args, store), 0);
+    assert.ok(out.some((l) => l.includes("abc12345") && l.includes("1")), out.join("\n"));
+  });
+
+  it("shows a session's entries, masked by default", () => {
+    assert.equal(runRedactMappings({ ...args, session: "abc12345" }, store), 0);
+    assert.ok(out.some((l) => l.includes("[EMAIL_1]") && l.includes("ja***om")), out.join("\n"));
+    assert.ok(!out.join("\n").includes("jane.doe@example.com"));
+
+    out.length = 0;
+    runRedactMappings({ ...args, session: "abc12345", reveal: true }, store);
+    assert.ok(out.join("\n").includes("jane.doe@example.com"));
+  });
+
+  it("purges a session and reports unknown ones", () => {
+    assert.equal(runRedactMappings({ ...args, session: "abc12345", purge: true }, store), 0);
+    assert.deepEqual(store.list(), []);
+    assert.equal(runRedactMappings({ ...args, session: "abc12345" }, store), 1);
+    assert.ok(out.some((l) => l.includes("No stored mappings for session abc12345")));
+  });
+
+  it("fails cleanly when the key no longer matches", () => {
+    fs.rmSync(join(dir, "mapping.key"));
+    const fresh = new MappingStore({ dir: join(dir, "mappings"), keyFile: join(dir, "mapping.key") });
+    assert.equal(runRedactMappings({ ...args, session: "abc12345" }, fresh), 1);
+    assert.ok(out.some((l) => l.startsWith("Could not access stored mappings")));
+  });
+});
+
+describe("redact test", () => {
+  let dir: string;
+  let out: string[];
+  let origLog: typeof console.log;
+  let origError: typeof console.error;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(join(tmpdir(), "ctxio-redact-test-"));
+    out = [];
+    origLog = console.log;
+    origError = console.error;
+    console.log = (...args: unknown[]) => out.push(args.map(String).join(" "));
+    console.error = (...args: unknown[]) => out.push(args.map(String).join(" "));
+  });
+
+  afterEach(() => {
+    console.log = origLog;
+    console.error = origError;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const args = {
+    command: "redact-test" as const,
+    inputs: [] as string[],
+    preset: "pii",
+    policy: null,
+    expect: null,
+    color: false,
+  };
+
+  it("prints matches from stdin with path, rule, and context decision", () => {
+    const code = runRedactTest(args, () => "mail john@test.com, order 123-45-6789");
+    assert.equal(code, 0);
+    const text = out.join("\n");
+    assert.ok(text.includes("stdin: 2 match(es)"), text);
+    assert.ok(text.includes("email  (text)  redacted"), text);
+    assert.ok(text.includes("mail [-john@test.com-]{+[EMAIL_REDACTED]+}, order"), text);
+    assert.ok(text.includes("ssn  (text)  skipped: no context word nearby"), text);
+    assert.ok(text.includes("1 match(es) applied, 1 skipped"), text);
+  });
+
+  it("reads the request body of capture files in a directory", () => {
+    const captures = join(dir, "captures");
+    fs.mkdirSync(captures);
+    fs.writeFileSync(join(captures, "a.json"), JSON.stringify({
+      timestamp: "2026-01-01T00:00:00.000Z",
+      requestBody: { messages: [{ role: "user", content: "I am jane@test.com" }] },
+      responseBody: "jane@test.com is not in the request body",
+    }));
+
+    assert.equal(runRedactTest({ ...args, inputs: [captures] }), 0);
+    const text = out.join("\n");
+    assert.ok(text.includes("a.json (request body): 1 match(es)"), text);
+    assert.ok(text.includes("email  messages[*].content  redacted"), text);
+  });
+
+  it("exits 1 when a fixture fails", () => {
+    const fixtures = join(dir, "fixtures.json");
+    fs.writeFileSync(fixtures, JSON.stringify([
+      { name: "email", input: "mail john@test.com", expect: ["email"], output: "mail [EMAIL_REDACTED]" },
+      { name: "no false positive", input: "order 123-45-6789", expect: [] },
+      { name: "wrong", input: "plain text", expect: ["email"] },
+    ]));
+
+    assert.equal(runRedactTest({ ...args, expect: fixtures }), 1);
+    const text = out.join("\n");
+    assert.ok(text.includes("PASS  email"), text);
+    assert.ok(text.includes("PASS  no false positive"), text);
+    assert.ok(text.includes("FAIL  wrong: expected matches [email], got []"), text);
+    assert.ok(text.includes("2 passed, 1 failed"), text);
+  });
+
+  it("reports an invalid policy", () => {
+    assert.equal(runRedactTest({ ...args, preset: "nope" }, () => ""), 1);
+    assert.ok(out.some((l) => l.startsWith("Invalid policy: Unknown preset")));
+  });
+
+  it("colors removed and added text", () => {
+    const diff = formatMatchDiff(
+      { rule: "email", path: "", match: "a@b.co", before: "x ", after: "", replacement: "[E]", outcome: "redacted" },
+      true,
+    );
+    assert.ok(diff.includes("\x1b[31ma@b.co\x1b[0m\x1b[32m[E]\x1b[0m"));
+  });
+});
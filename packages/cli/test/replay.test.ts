@@ -0,0 +1,321 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import http from "node:http";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { encodeEventStreamMessage, eventStreamToSse } from "@contextio/core";
+import type { CaptureData } from "@contextio/core";
+
+import {
+  buildReplayRequest,
+  diffLines,
+  diffReplay,
+  injectCredentials,
+  runReplay,
+} from "../dist/replay.js";
+
+function makeCapture(overrides: Partial<CaptureData> = {}): CaptureData {
+  return {
+    timestamp: "2025-01-01T12:00:00.000Z",
+    sessionId: "abc12345",
+    method: "POST",
+    path: "/v1/messages",
+    source: "claude",
+    provider: "anthropic",
+    apiFormat: "anthropic-messages",
+    targetUrl: "https://api.anthropic.com/v1/messages?beta=true",
+    requestHeaders: {
+      "content-type": "application/json",
+      "anthropic-version": "2023-06-01",
+      "content-length": "999",
+      host: "127.0.0.1:4040",
+    },
+    requestBody: { model: "claude-sonnet-4", messages: [{ role: "user", content: "hi" }] },
+    requestBytes: 100,
+    responseStatus: 200,
+    responseHeaders: {},
+    responseBody: JSON.stringify({
+      model: "claude-sonnet-4",
+      content: [{ type: "text", text: "Hello\nworld" }],
+      usage: { input_tokens: 10, output_tokens: 5 },
+    }),
+    responseIsStreaming: false,
+    responseBytes: 50,
+    timings: { send_ms: 1, wait_ms: 100, receive_ms: 10, total_ms: 111 },
+    ...overrides,
+  };
+}
+
+describe("replay: request building", () => {
+  it("keeps the captured URL by default and drops hop-by-hop headers", () => {
+    const req = buildReplayRequest(makeCapture(), { target: null, upstream: null }, {});
+    assert.equal(req.url, "https://api.anthropic.com/v1/messages?beta=true");
+    assert.equal(req.headers["anthropic-version"], "2023-06-01");
+    assert.equal(req.headers.host, undefined);
+    assert.equal(req.headers["content-length"], undefined);
+    assert.equal(req.credentialSource, null);
+  });
+
+  it("--upstream replaces the origin and keeps path and query", () => {
+    const req = buildReplayRequest(
+      makeCapture(),
+      { target: null, upstream: "http://localhost:9000/" },
+      {},
+    );
+    assert.equal(req.url, "http://localhost:9000/v1/messages?beta=true");
+  });
+
+  it("--target replaces the whole URL", () => {
+    const req = buildReplayRequest(
+      makeCapture(),
+      { target: "http://localhost:9000/other", upstream: "http://ignored" },
+      {},
+    );
+    assert.equal(req.url, "http://localhost:9000/other");
+  });
+
+  it("--model swaps the body model", () => {
+    const req = buildReplayRequest(
+      makeCapture(),
+      { target: null, upstream: null, model: "claude-opus-4" },
+      {},
+    );
+    assert.equal(JSON.parse(req.body ?? "{}").model, "claude-opus-4");
+  });
+
+  it("injects provider credentials from env", () => {
+    const anthropic: Record<string, string> = {};
+    assert.equal(injectCredentials("anthropic", anthropic, { ANTHROPIC_API_KEY: "sk-ant" }), "ANTHROPIC_API_KEY");
+    assert.equal(anthropic["x-api-key"], "sk-ant");
+
+    const openai: Record<string, string> = {};
+    injectCredentials("openai", openai, { OPENAI_API_KEY: "sk-oai" });
+    assert.equal(openai.authorization, "Bearer sk-oai");
+
+    const azure: Record<string, string> = {};
+    assert.equal(injectCredentials("azure-openai", azure, { AZURE_OPENAI_API_KEY: "az" }), "AZURE_OPENAI_API_KEY");
+    assert.equal(azure["api-key"], "az");
+
+    const gemini: Record<string, string> = {};
+    assert.equal(injectCredentials("gemini", gemini, { GOOGLE_API_KEY: "g" }), "GOOGLE_API_KEY");
+    assert.equal(gemini["x-goog-api-key"], "g");
+  });
+
+  it("signs Bedrock requests with SigV4 for the region they go to", () => {
+    const capture = makeCapture({
+      provider: "bedrock",
+      apiFormat: "bedrock-converse",
+      targetUrl: "https://bedrock-runtime.eu-west-1.amazonaws.com/model/anthropic.claude-v2/converse",
+      requestHeaders: { "content-type": "application/json", "x-amz-date": "20240101T000000Z" },
+    });
+    const env = { AWS_ACCESS_KEY_ID: "AKIDEXAMPLE", AWS_SECRET_ACCESS_KEY: "secret", AWS_SESSION_TOKEN: "token" };
+
+    const req = buildReplayRequest(capture, { target: null, upstream: null }, env);
+    assert.equal(req.credentialSource, "AWS_ACCESS_KEY_ID");
+    assert.match(req.headers.authorization, /^AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE\/\d{8}\/eu-west-1\/bedrock\/aws4_request, /);
+    assert.notEqual(req.headers["x-amz-date"], "20240101T000000Z");
+    assert.equal(req.headers["x-amz-security-token"], "token");
+    assert.equal(req.headers.host, undefined);
+
+    const local = buildReplayRequest(capture, { target: null, upstream: "http://localhost:4040" }, env);
+    assert.match(local.headers.authorization, /\/eu-west-1\/bedrock\//);
+
+    assert.equal(buildReplayRequest(capture, { target: null, upstream: null }, {}).credentialSource, null);
+  });
+});
+
+describe("replay: diff", () => {
+  it("diffLines marks removed and added lines", () => {
+    const lines = diffLines("a\nb\nc", "a\nx\nc");
+    assert.deepEqual(lines, [
+      { op: "same", text: "a" },
+      { op: "remove", text: "b" },
+      { op: "add", text: "x" },
+      { op: "same", text: "c" },
+    ]);
+  });
+
+  it("diffLines shows large rewrites as a block replace around the common lines", () => {
+    const before = Array.from({ length: 2000 }, (_, i) => `old ${i}`);
+    const after = Array.from({ length: 2000 }, (_, i) => `new ${i}`);
+    const lines = diffLines(["head", ...before, "tail"].join("\n"), ["head", ...after, "tail"].join("\n"));
+
+    assert.equal(lines.length, 4002);
+    assert.deepEqual(lines[0], { op: "same", text: "head" });
+    assert.deepEqual(lines[1], { op: "remove", text: "old 0" });
+    assert.deepEqual(lines[2001], { op: "add", text: "new 0" });
+    assert.deepEqual(lines[4001], { op: "same", text: "tail" });
+  });
+
+  it("diffReplay compares status, usage and text", () => {
+    const diff = diffReplay(makeCapture(), {
+      status: 200,
+      total_ms: 42,
+      body: JSON.stringify({
+        model: "claude-sonnet-4",
+        content: [{ type: "text", text: "Hello\nthere" }],
+        usage: { input_tokens: 10, output_tokens: 7 },
+      }),
+    });
+    assert.deepEqual(diff.status, { before: 200, after: 200 });
+    const output = diff.usage.find((row) => row.field === "outputTokens");
+    assert.deepEqual(output, { field: "outputTokens", before: 5, after: 7 });
+    assert.equal(diff.text.before, "Hello\nworld");
+    assert.equal(diff.text.after, "Hello\nthere");
+  });
+});
+
+/** A Bedrock ConverseStream body with one text delta. */
+function converseStream(text: string): Buffer {
+  return encodeEventStreamMessage(
+    { ":event-type": "contentBlockDelta", ":content-type": "application/json", ":message-type": "event" },
+    JSON.stringify({ contentBlockIndex: 0, delta: { text } }),
+  );
+}
+
+describe("replay: runReplay", () => {
+  let server: http.Server;
+  let port: number;
+  let tmpDir: string;
+  let received: { url?: string; headers?: http.IncomingHttpHeaders; body?: string } = {};
+  const savedKey = process.env.ANTHROPIC_API_KEY;
+
+  before(async () => {
+    tmpDir = fs.mkdtempSync(join(tmpdir(), "ctxio-replay-"));
+    process.env.ANTHROPIC_API_KEY = "sk-ant-replay";
+    server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        received = { url: req.url, headers: req.headers, body };
+        if (req.url?.endsWith("/converse-stream")) {
+          res.writeHead(200, { "content-type": "application/vnd.amazon.eventstream" });
+          res.end(converseStream("Hello\nagain"));
+          return;
+        }
+        res.writeHead(200, { "content-type": "application/json" });
+        res.end(JSON.stringify({
+          model: "claude-sonnet-4",
+          content: [{ type: "text", text: "Hello\nagain" }],
+          usage: { input_tokens: 10, output_tokens: 6 },
+        }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    port = (server.address() as { port: number }).port;
+  });
+
+  after(async () => {
+    if (savedKey === undefined) delete process.env.ANTHROPIC_API_KEY;
+    else process.env.ANTHROPIC_API_KEY = savedKey;
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it("sends the captured body with env credentials and prints the diff", async () => {
+    const file = join(tmpDir, "claude_abc12345_1.json");
+    fs.writeFileSync(file, JSON.stringify(makeCapture()));
+
+    const lines: string[] = [];
+    const orig = console.log;
+    console.log = (...args: unknown[]) => lines.push(args.map(String).join(" "));
+    let code: number;
+    try {
+      code = await runReplay({
+        command: "replay",
+        file,
+        target: null,
+        upstream: `http://127.0.0.1:${port}`,
+        model: null,
+      });
+    } finally {
+      console.log = orig;
+    }
+    const out = lines.join("\n");
+
+    assert.equal(code, 0);
+    assert.equal(received.url, "/v1/messages?beta=true");
+    assert.equal(received.headers?.["x-api-key"], "sk-ant-replay");
+    assert.deepEqual(JSON.parse(received.body ?? ""), makeCapture().requestBody);
+    assert.ok(out.includes("Status:  200 -> 200"), out);
+    assert.ok(out.includes("- world"), out);
+    assert.ok(out.includes("+ again"), out);
+  });
+
+  it("decodes event-stream responses before diffing", async () => {
+    const file = join(tmpDir, "claude_abc12345_2.json");
+    fs.writeFileSync(file, JSON.stringify(makeCapture({
+      provider: "bedrock",
+      apiFormat: "bedrock-converse",
+      path: "/model/anthropic.claude-v2/converse-stream",
+      targetUrl: "https://bedrock-runtime.us-east-1.amazonaws.com/model/anthropic.claude-v2/converse-stream",
+      requestBody: { messages: [{ role: "user", content: [{ text: "hi" }] }] },
+      responseHeaders: { "content-type": "application/vnd.amazon.eventstream" },
+      responseBody: eventStreamToSse(converseStream("Hello\nworld")),
+      responseIsStreaming: true,
+    })));
+
+    const lines: string[] = [];
+    const orig = console.log;
+    console.log = (...args: unknown[]) => lines.push(args.map(String).join(" "));
+    let code: number;
+    try {
+      code = await runReplay({
+        command: "replay",
+        file,
+        target: null,
+        upstream: `http://127.0.0.1:${port}`,
+        model: null,
+      });
+    } finally {
+      console.log = orig;
+    }
+    const out = lines.join("\n");
+
+    assert.equal(code, 0);
+    assert.ok(out.includes("  Hello"), out);
+    assert.ok(out.includes("- world"), out);
+    assert.ok(out.includes("+ again"), out);
+  });
+
+  it("prints an error for a capture with an invalid target URL", async () => {
+    const file = join(tmpDir, "claude_abc12345_3.json");
+    fs.writeFileSync(file, JSON.stringify(makeCapture({ targetUrl: "not a url" })));
+
+    const errors: string[] = [];
+    const origErr = console.error;
+    console.error = (...args: unknown[]) => errors.push(args.map(String).join(" "));
+    try {
+      const code = await runReplay({
+        command: "replay",
+        file,
+        target: null,
+        upstream: `http://127.0.0.1:${port}`,
+        model: null,
+      });
+      assert.equal(code, 1);
+    } finally {
+      console.error = origErr;
+    }
+    assert.match(errors.join("\n"), /^Replay failed: Invalid URL/);
+  });
+
+  it("returns 1 for a missing capture file", async () => {
+    const origErr = console.error;
+    console.error = () => {};
+    try {
+      const code = await runReplay({
+        command: "replay",
+        file: join(tmpDir, "missing.json"),
+        target: null,
+        upstream: null,
+        model: null,
+      });
+      assert.equal(code, 1);
+    } finally {
+      console.error = origErr;
+    }
+  });
+});
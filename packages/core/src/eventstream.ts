@@ -0,0 +1,257 @@
+/**
+ * AWS event-stream framing, as used by Amazon Bedrock's streaming APIs.
+ *
+ * `invoke-with-response-stream` and `converse-stream` answer with
+ * `application/vnd.amazon.eventstream` instead of SSE: a sequence of
+ * binary messages, each laid out as
+ *
+ *   total length (u32) | headers length (u32) | prelude CRC32 (u32)
+ *   headers | payload | message CRC32 (u32)
+ *
+ * Headers carry the message type (`:message-type` "event" or
+ * "exception") and the event name (`:event-type`, `:exception-type`).
+ * Converse payloads are the event JSON itself; InvokeModel wraps the
+ * model's own event JSON in a `chunk` event as `{"bytes": "<base64>"}`.
+ *
+ * `eventStreamToSse` renders a stream as SSE text, so captures and the
+ * SSE-based usage parsers read Bedrock streams like any other.
+ *
+ * Zero external dependencies.
+ */
+
+/** MIME type of an AWS event stream. */
+export const EVENT_STREAM_CONTENT_TYPE = "application/vnd.amazon.eventstream";
+
+export type EventStreamHeaderValue = string | number | boolean | Buffer;
+
+/** One decoded event-stream message. */
+export interface EventStreamMessage {
+  headers: Record<string, EventStreamHeaderValue>;
+  payload: Buffer;
+  /** The message exactly as received, for passing it on unchanged. */
+  raw: Buffer;
+}
+
+const PRELUDE_LENGTH = 12;
+const CRC_LENGTH = 4;
+
+// --- CRC32 (IEEE 802.3, as in zlib) ---
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(buf: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of buf) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// --- Headers ---
+
+function decodeHeaders(buf: Buffer): Record<string, EventStreamHeaderValue> {
+  const headers: Record<string, EventStreamHeaderValue> = {};
+  let pos = 0;
+  while (pos < buf.length) {
+    const nameLength = buf.readUInt8(pos);
+    const name = buf.toString("utf8", pos + 1, pos + 1 + nameLength);
+    pos += 1 + nameLength;
+    const type = buf.readUInt8(pos++);
+    switch (type) {
+      case 0:
+      case 1:
+        headers[name] = type === 0;
+        break;
+      case 2:
+        headers[name] = buf.readInt8(pos);
+        pos += 1;
+        break;
+      case 3:
+        headers[name] = buf.readInt16BE(pos);
+        pos += 2;
+        break;
+      case 4:
+        headers[name] = buf.readInt32BE(pos);
+        pos += 4;
+        break;
+      case 5:
+      case 8: // long, timestamp (ms since epoch)
+        headers[name] = Number(buf.readBigInt64BE(pos));
+        pos += 8;
+        break;
+      case 6:
+      case 7: {
+        const length = buf.readUInt16BE(pos);
+        const value = buf.subarray(pos + 2, pos + 2 + length);
+        headers[name] = type === 7 ? value.toString("utf8") : Buffer.from(value);
+        pos += 2 + length;
+        break;
+      }
+      case 9: // uuid
+        headers[name] = Buffer.from(buf.subarray(pos, pos + 16));
+        pos += 16;
+        break;
+      default:
+        throw new Error(`Unknown event-stream header type ${type}`);
+    }
+  }
+  return headers;
+}
+
+function encodeHeaders(headers: Record<string, EventStreamHeaderValue>): Buffer {
+  const parts: Buffer[] = [];
+  for (const [name, value] of Object.entries(headers)) {
+    const nameBytes = Buffer.from(name, "utf8");
+    parts.push(Buffer.from([nameBytes.length]), nameBytes);
+    if (typeof value === "boolean") {
+      parts.push(Buffer.from([value ? 0 : 1]));
+    } else if (typeof value === "number") {
+      const int = Buffer.alloc(5);
+      int.writeUInt8(4, 0);
+      int.writeInt32BE(value, 1);
+      parts.push(int);
+    } else {
+      const bytes = typeof value === "string" ? Buffer.from(value, "utf8") : value;
+      const prefix = Buffer.alloc(3);
+      prefix.writeUInt8(typeof value === "string" ? 7 : 6, 0);
+      prefix.writeUInt16BE(bytes.length, 1);
+      parts.push(prefix, bytes);
+    }
+  }
+  return Buffer.concat(parts);
+}
+
+// --- Messages ---
+
+/**
+ * Encode one event-stream message.
+ *
+ * Header numbers are written as 32-bit integers; strings, booleans, and
+ * byte arrays keep their types.
+ */
+export function encodeEventStreamMessage(
+  headers: Record<string, EventStreamHeaderValue>,
+  payload: Buffer | string,
+): Buffer {
+  const headerBytes = encodeHeaders(headers);
+  const body = typeof payload === "string" ? Buffer.from(payload, "utf8") : payload;
+  const total = PRELUDE_LENGTH + headerBytes.length + body.length + CRC_LENGTH;
+
+  const prelude = Buffer.alloc(PRELUDE_LENGTH);
+  prelude.writeUInt32BE(total, 0);
+  prelude.writeUInt32BE(headerBytes.length, 4);
+  prelude.writeUInt32BE(crc32(prelude.subarray(0, 8)), 8);
+
+  const message = Buffer.concat([prelude, headerBytes, body, Buffer.alloc(CRC_LENGTH)]);
+  message.writeUInt32BE(crc32(message.subarray(0, total - CRC_LENGTH)), total - CRC_LENGTH);
+  return message;
+}
+
+/** Decode one complete message. Throws on a checksum mismatch. */
+function decodeMessage(raw: Buffer): EventStreamMessage {
+  const total = raw.readUInt32BE(0);
+  const headersLength = raw.readUInt32BE(4);
+  if (raw.readUInt32BE(8) !== crc32(raw.subarray(0, 8))) {
+    throw new Error("Event-stream prelude checksum mismatch");
+  }
+  if (raw.readUInt32BE(total - CRC_LENGTH) !== crc32(raw.subarray(0, total - CRC_LENGTH))) {
+    throw new Error("Event-stream message checksum mismatch");
+  }
+  const headersEnd = PRELUDE_LENGTH + headersLength;
+  return {
+    headers: decodeHeaders(raw.subarray(PRELUDE_LENGTH, headersEnd)),
+    payload: raw.subarray(headersEnd, total - CRC_LENGTH),
+    raw,
+  };
+}
+
+/**
+ * Create an incremental decoder: feed it response chunks as they arrive
+ * and get back the messages they complete. Bytes of a message split
+ * across chunks are held until the rest arrives.
+ */
+export function createEventStreamDecoder(): {
+  push: (chunk: Buffer) => EventStreamMessage[];
+  /** Bytes received that don't form a complete message yet. */
+  pending: () => Buffer;
+} {
+  let buffer: Buffer = Buffer.alloc(0);
+
+  return {
+    push(chunk: Buffer): EventStreamMessage[] {
+      buffer = buffer.length > 0 ? Buffer.concat([buffer, chunk]) : chunk;
+      const messages: EventStreamMessage[] = [];
+      while (buffer.length >= PRELUDE_LENGTH) {
+        const total = buffer.readUInt32BE(0);
+        if (total < PRELUDE_LENGTH + CRC_LENGTH) {
+          throw new Error(`Invalid event-stream message length ${total}`);
+        }
+        if (buffer.length < total) break;
+        messages.push(decodeMessage(Buffer.from(buffer.subarray(0, total))));
+        buffer = buffer.subarray(total);
+      }
+      return messages;
+    },
+
+    pending: () => buffer,
+  };
+}
+
+/** Decode a complete event stream. A truncated final message is ignored. */
+export function decodeEventStream(buf: Buffer): EventStreamMessage[] {
+  return createEventStreamDecoder().push(buf);
+}
+
+/** The event (or exception) name of a message, e.g. "chunk" or "contentBlockDelta". */
+export function eventStreamEventType(message: EventStreamMessage): string {
+  const type = message.headers[":event-type"] ?? message.headers[":exception-type"];
+  return typeof type === "string" ? type : "";
+}
+
+/**
+ * The event JSON a message carries, as text.
+ *
+ * InvokeModel `chunk` payloads are unwrapped from their base64 `bytes`
+ * field; other payloads are returned as they are.
+ */
+export function eventStreamPayloadText(message: EventStreamMessage): string {
+  const text = message.payload.toString("utf8");
+  if (eventStreamEventType(message) !== "chunk") return text;
+  try {
+    const wrapper = JSON.parse(text) as { bytes?: unknown };
+    if (typeof wrapper.bytes === "string") {
+      return Buffer.from(wrapper.bytes, "base64").toString("utf8");
+    }
+  } catch {
+    // Not a JSON wrapper; keep the payload as-is
+  }
+  return text;
+}
+
+/**
+ * Render an event stream as SSE text: one `event:`/`data:` pair per
+ * message, with InvokeModel chunks unwrapped. Bytes that are not valid
+ * event-stream framing are rendered as plain text.
+ */
+export function eventStreamToSse(buf: Buffer): string {
+  const decoder = createEventStreamDecoder();
+  let messages: EventStreamMessage[];
+  try {
+    messages = decoder.push(buf);
+  } catch {
+    return buf.toString("utf8");
+  }
+  if (messages.length === 0 && decoder.pending().length > 0) return buf.toString("utf8");
+  return messages
+    .map((message) => {
+      const data = eventStreamPayloadText(message).replace(/\r?\n/g, " ");
+      return `event: ${eventStreamEventType(message)}\ndata: ${data}\n\n`;
+    })
+    .join("");
+}
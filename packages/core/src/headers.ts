@@ -24,6 +24,8 @@ export const SENSITIVE_HEADERS = new Set([
   "www-authenticate",
   "proxy-authenticate",
   "x-goog-api-key",
+  "x-amz-security-token",
+  "api-key",
 ]);
 
 /**
@@ -32,13 +34,18 @@ export const SENSITIVE_HEADERS = new Set([
  * Also filters out non-string values; Node's `IncomingHttpHeaders`
  * can represent multi-valued headers as `string[]`, but captures
  * store everything as `Record<string, string>`.
+ *
+ * @param extraSensitive - More header names (lowercase) to remove, such
+ *   as the `authHeader` of each named upstream.
  */
 export function selectHeaders(
   headers: HeaderMap,
+  extraSensitive?: ReadonlySet<string>,
 ): Record<string, string> {
   const result: Record<string, string> = {};
   for (const [key, val] of Object.entries(headers)) {
-    if (SENSITIVE_HEADERS.has(key.toLowerCase())) continue;
+    const name = key.toLowerCase();
+    if (SENSITIVE_HEADERS.has(name) || extraSensitive?.has(name)) continue;
     if (typeof val === "string") result[key] = val;
   }
   return result;
@@ -14,16 +14,20 @@
 export {
   classifyRequest,
   extractSource,
+  namedUpstreamForUrl,
+  resolveAzureDeployment,
+  resolveNamedUpstream,
   resolveTargetUrl,
 } from "./routing.js";
 
 // Header filtering: strip auth/secret headers before persisting captures
 export { SENSITIVE_HEADERS, selectHeaders } from "./headers.js";
 
-// Model metadata: pricing, context limits, known model list
+// Model metadata: pricing, context limits and utilization, known model list
 export {
   CONTEXT_LIMITS,
   MODEL_PRICING,
+  estimateContextUtilization,
   estimateCost,
   getContextLimit,
   getKnownModels,
@@ -35,14 +39,32 @@ export { IMAGE_TOKEN_ESTIMATE, estimateTokens, countImageBlocks } from "./tokens
 // Response parsing: extract usage/tokens from streaming and non-streaming responses
 export {
   extractResponseId,
+  extractResponseText,
   parseResponseUsage,
   parseStreamingTokens,
   type ParsedResponseUsage,
 } from "./response.js";
 
+// AWS event streams: Bedrock's binary streaming framing
+export {
+  EVENT_STREAM_CONTENT_TYPE,
+  createEventStreamDecoder,
+  decodeEventStream,
+  encodeEventStreamMessage,
+  eventStreamEventType,
+  eventStreamPayloadText,
+  eventStreamToSse,
+  type EventStreamHeaderValue,
+  type EventStreamMessage,
+} from "./eventstream.js";
+
+// Request messages: flatten any API format into role-tagged text segments
+export { extractMessageSegments, type MessageSegment } from "./messages.js";
+
 // Input security: prompt injection and suspicious pattern detection
 export {
   scanSecurity,
+  scanRequest,
   scanRequestMessages,
   type AlertSeverity,
   type SecurityAlert,
@@ -70,19 +92,33 @@ export {
   type OutputScanResult,
 } from "./output-scanner.js";
 
+// Synthetic responses: provider-shaped errors for plugins that reject requests
+export { buildProviderError, buildProviderStreamError } from "./synthetic.js";
+
 // Core types used across all packages
 export type {
   ApiFormat,
+  AzureDeployment,
+  CacheInfo,
+  CaptureAnnotations,
   CaptureData,
+  ContextUtilization,
   ExtractSourceResult,
   HeaderMap,
   JsonObject,
   JsonValue,
+  NamedUpstream,
+  NamedUpstreamTarget,
+  PluginResponse,
+  PluginResponseChunk,
   Provider,
   ProxyConfig,
   ProxyPlugin,
+  RedactionRecord,
   RequestContext,
   ResolveTargetResult,
   ResponseContext,
+  RouteInfo,
+  SecurityFindings,
   Upstreams,
 } from "./types.js";
@@ -0,0 +1,309 @@
+/**
+ * Request message normalization.
+ *
+ * Each API format nests conversation content differently: Anthropic puts
+ * tool output in `tool_result` blocks inside user messages, Chat
+ * Completions uses `tool` role messages, the Responses API uses
+ * `function_call_output` input items, Gemini uses `functionResponse`
+ * parts, and Bedrock Converse uses `toolResult` content blocks. This
+ * module flattens all of them into role-tagged text segments so
+ * scanners and the CLI can treat every format the same way.
+ *
+ * Tool output is always tagged with role "tool" and, where it can be
+ * resolved from the matching tool call, the tool's name.
+ *
+ * Zero external dependencies.
+ */
+
+import type { ApiFormat, JsonObject, JsonValue } from "./types.js";
+
+/** A piece of conversation text with the role that produced it. */
+export interface MessageSegment {
+  /** Position of the source message or input item in the conversation (0-based). */
+  index: number;
+  /** "system", "developer", "user", "assistant", or "tool". */
+  role: string;
+  /** Tool name for role "tool" segments, when it can be resolved. */
+  toolName: string | null;
+  text: string;
+}
+
+// --- Helpers ---
+
+function asObj(value: JsonValue | undefined): JsonObject | null {
+  if (value && typeof value === "object" && !Array.isArray(value)) return value;
+  return null;
+}
+
+function str(value: JsonValue | undefined): string | null {
+  return typeof value === "string" ? value : null;
+}
+
+/** Collect every string leaf of a JSON value, joined by newlines. */
+function collectStrings(value: JsonValue | undefined): string {
+  if (typeof value === "string") return value;
+  if (Array.isArray(value)) return value.map(collectStrings).filter(Boolean).join("\n");
+  const obj = asObj(value);
+  if (!obj) return "";
+  return Object.values(obj).map(collectStrings).filter(Boolean).join("\n");
+}
+
+/**
+ * Text of a content value: a plain string, or an array of text-like
+ * parts (`text`, `input_text`, `output_text`). Other part types are skipped.
+ */
+function contentText(content: JsonValue | undefined): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  const parts: string[] = [];
+  for (const part of content) {
+    if (typeof part === "string") {
+      parts.push(part);
+      continue;
+    }
+    const p = asObj(part);
+    if (!p) continue;
+    if (p.type === "text" || p.type === "input_text" || p.type === "output_text") {
+      const text = str(p.text);
+      if (text) parts.push(text);
+    }
+  }
+  return parts.join("\n");
+}
+
+function push(
+  out: MessageSegment[],
+  index: number,
+  role: string,
+  toolName: string | null,
+  text: string,
+): void {
+  if (text) out.push({ index, role, toolName, text });
+}
+
+// --- Per-format extractors ---
+
+/** Anthropic Messages: string or block content, tool output in `tool_result` blocks. */
+function anthropicSegments(messages: JsonValue[]): MessageSegment[] {
+  const out: MessageSegment[] = [];
+  const toolNames = new Map<string, string>();
+
+  messages.forEach((msg, index) => {
+    const m = asObj(msg);
+    const role = str(m?.role);
+    if (!m || !role) return;
+
+    if (!Array.isArray(m.content)) {
+      push(out, index, role, null, contentText(m.content));
+      return;
+    }
+
+    const text: string[] = [];
+    for (const block of m.content) {
+      const b = asObj(block);
+      if (!b) continue;
+      if (b.type === "text") {
+        const t = str(b.text);
+        if (t) text.push(t);
+      } else if (b.type === "tool_use") {
+        const id = str(b.id);
+        const name = str(b.name);
+        if (id && name) toolNames.set(id, name);
+      } else if (b.type === "tool_result") {
+        const id = str(b.tool_use_id);
+        push(out, index, "tool", (id && toolNames.get(id)) ?? null, contentText(b.content));
+      }
+    }
+    push(out, index, role, null, text.join("\n"));
+  });
+
+  return out;
+}
+
+/** Chat Completions: `tool` (and legacy `function`) role messages carry tool output. */
+function chatSegments(messages: JsonValue[]): MessageSegment[] {
+  const out: MessageSegment[] = [];
+  const toolNames = new Map<string, string>();
+
+  messages.forEach((msg, index) => {
+    const m = asObj(msg);
+    const role = str(m?.role);
+    if (!m || !role) return;
+
+    if (Array.isArray(m.tool_calls)) {
+      for (const call of m.tool_calls) {
+        const c = asObj(call);
+        const id = str(c?.id);
+        const name = str(asObj(c?.function)?.name);
+        if (id && name) toolNames.set(id, name);
+      }
+    }
+
+    if (role === "tool" || role === "function") {
+      const id = str(m.tool_call_id);
+      const name = str(m.name) ?? (id ? toolNames.get(id) ?? null : null);
+      push(out, index, "tool", name, contentText(m.content));
+      return;
+    }
+
+    push(out, index, role, null, contentText(m.content));
+  });
+
+  return out;
+}
+
+/** Responses API: `input` is a string or a list of message, call, and call-output items. */
+function responsesSegments(input: JsonValue | undefined): MessageSegment[] {
+  if (typeof input === "string") {
+    return input ? [{ index: 0, role: "user", toolName: null, text: input }] : [];
+  }
+  if (!Array.isArray(input)) return [];
+
+  const out: MessageSegment[] = [];
+  const toolNames = new Map<string, string>();
+
+  input.forEach((item, index) => {
+    const it = asObj(item);
+    if (!it) return;
+    const type = str(it.type);
+
+    if (type === "function_call" || type === "custom_tool_call") {
+      const id = str(it.call_id);
+      const name = str(it.name);
+      if (id && name) toolNames.set(id, name);
+      return;
+    }
+
+    if (type === "function_call_output" || type === "custom_tool_call_output") {
+      const id = str(it.call_id);
+      const output = typeof it.output === "string" ? it.output : contentText(it.output);
+      push(out, index, "tool", (id && toolNames.get(id)) ?? null, output);
+      return;
+    }
+
+    // Message items, with or without an explicit `type: "message"`
+    const role = str(it.role);
+    if (role && (type === null || type === "message")) {
+      push(out, index, role, null, contentText(it.content));
+    }
+  });
+
+  return out;
+}
+
+/** Gemini: `contents[].parts` with `text` and `functionResponse` parts. */
+function geminiSegments(contents: JsonValue[]): MessageSegment[] {
+  const out: MessageSegment[] = [];
+
+  contents.forEach((content, index) => {
+    const c = asObj(content);
+    if (!c || !Array.isArray(c.parts)) return;
+    const rawRole = str(c.role) ?? "user";
+    const role = rawRole === "model" ? "assistant" : rawRole;
+
+    const text: string[] = [];
+    for (const part of c.parts) {
+      const p = asObj(part);
+      if (!p) continue;
+      const t = str(p.text);
+      if (t && p.thought !== true) text.push(t);
+      const response = asObj(p.functionResponse);
+      if (response) {
+        push(out, index, "tool", str(response.name), collectStrings(response.response));
+      }
+    }
+    push(out, index, role, null, text.join("\n"));
+  });
+
+  return out;
+}
+
+/** Bedrock Converse: `messages[].content` blocks with `text`, `toolUse`, and `toolResult`. */
+function converseSegments(messages: JsonValue[]): MessageSegment[] {
+  const out: MessageSegment[] = [];
+  const toolNames = new Map<string, string>();
+
+  messages.forEach((msg, index) => {
+    const m = asObj(msg);
+    const role = str(m?.role);
+    if (!m || !role || !Array.isArray(m.content)) return;
+
+    const text: string[] = [];
+    for (const block of m.content) {
+      const b = asObj(block);
+      if (!b) continue;
+      const t = str(b.text);
+      if (t) text.push(t);
+      const use = asObj(b.toolUse);
+      const useId = str(use?.toolUseId);
+      const useName = str(use?.name);
+      if (useId && useName) toolNames.set(useId, useName);
+      const result = asObj(b.toolResult);
+      if (result) {
+        const id = str(result.toolUseId);
+        push(out, index, "tool", (id && toolNames.get(id)) ?? null, collectStrings(result.content));
+      }
+    }
+    push(out, index, role, null, text.join("\n"));
+  });
+
+  return out;
+}
+
+/**
+ * Flatten a request body into role-tagged text segments.
+ *
+ * Top-level instructions (Anthropic and Converse `system`, Gemini
+ * `systemInstruction`, Responses `instructions`) are not included;
+ * system and developer messages that appear inside the conversation
+ * are, tagged as such.
+ *
+ * Unknown formats are handled by shape: `contents` is read as Gemini,
+ * `input` as Responses, and `messages` with both Anthropic and Chat
+ * Completions tool conventions.
+ *
+ * @param body - Parsed request body.
+ * @param apiFormat - Wire format from request classification.
+ * @returns Segments in conversation order. Empty if the body has no conversation.
+ */
+export function extractMessageSegments(
+  body: JsonValue | null,
+  apiFormat: ApiFormat | string,
+): MessageSegment[] {
+  let obj = asObj(body ?? undefined);
+  if (!obj) return [];
+
+  // Gemini Code Assist wraps the standard request in `request`
+  const wrapped = asObj(obj.request);
+  if (wrapped && Array.isArray(wrapped.contents)) obj = wrapped;
+
+  const messages = Array.isArray(obj.messages) ? obj.messages : null;
+
+  switch (apiFormat) {
+    case "anthropic-messages":
+      return messages ? anthropicSegments(messages) : [];
+    case "chat-completions":
+      return messages ? chatSegments(messages) : [];
+    case "responses":
+    case "chatgpt-backend":
+      return responsesSegments(obj.input);
+    case "gemini":
+      return Array.isArray(obj.contents) ? geminiSegments(obj.contents) : [];
+    case "bedrock-converse":
+      return messages ? converseSegments(messages) : [];
+  }
+
+  if (Array.isArray(obj.contents)) return geminiSegments(obj.contents);
+  if (obj.input !== undefined) return responsesSegments(obj.input);
+  if (!messages) return [];
+
+  // Unknown format: a message list may use either tool convention.
+  const hasToolBlocks = messages.some((m) => {
+    const content = asObj(m)?.content;
+    return Array.isArray(content) && content.some((b) => {
+      const type = asObj(b)?.type;
+      return type === "tool_result" || type === "tool_use";
+    });
+  });
+  return hasToolBlocks ? anthropicSegments(messages) : chatSegments(messages);
+}
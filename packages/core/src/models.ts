@@ -10,6 +10,9 @@
  * for both direct-API model IDs and OpenRouter-prefixed IDs.
  */
 
+import { estimateTokens } from "./tokens.js";
+import type { ContextUtilization, JsonValue } from "./types.js";
+
 // ----------------------------------------------------------------------------
 // Context limits (tokens)
 // ----------------------------------------------------------------------------
@@ -259,3 +262,49 @@ export function estimateCost(
 export function getKnownModels(): string[] {
   return Object.keys(MODEL_PRICING).sort();
 }
+
+// ----------------------------------------------------------------------------
+// Context utilization
+// ----------------------------------------------------------------------------
+
+/**
+ * Model named by a request: the body's `model` field, or for Gemini the
+ * `/models/<model>:` segment of the path.
+ */
+function requestModel(body: JsonValue | null, path: string | undefined): string | null {
+  if (body && typeof body === "object" && !Array.isArray(body) && typeof body.model === "string") {
+    return body.model;
+  }
+  const match = path?.match(/\/models\/([^/:?]+)/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Estimate how much of the model's context window a request fills.
+ *
+ * The whole request body is estimated with {@link estimateTokens}, which
+ * counts system prompt, messages, and tool definitions alike, and compared
+ * against {@link getContextLimit}.
+ *
+ * @param body - Parsed request body.
+ * @param path - Request path, used to find the model for Gemini requests.
+ * @param model - Model to look up. Defaults to the one the body or path
+ *   names; Azure requests pass their deployment's model.
+ * @returns Utilization, or null when the request names no model.
+ */
+export function estimateContextUtilization(
+  body: JsonValue | null,
+  path?: string,
+  model: string | null = requestModel(body, path),
+): ContextUtilization | null {
+  if (!model) return null;
+
+  const estimatedTokens = estimateTokens(body);
+  const contextLimit = getContextLimit(model);
+  return {
+    model,
+    estimatedTokens,
+    contextLimit,
+    percent: Math.round((estimatedTokens / contextLimit) * 1000) / 10,
+  };
+}
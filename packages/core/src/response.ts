@@ -6,8 +6,12 @@
  * - Anthropic Messages API
  * - OpenAI Chat Completions and Responses API
  * - Google Gemini, including Code Assist wrapper responses
+ * - Amazon Bedrock: Converse, and InvokeModel event streams (decoded
+ *   from AWS event-stream framing; see eventstream.ts)
  */
 
+import { eventStreamToSse } from "./eventstream.js";
+
 /** Parsed token usage from an API response. */
 export interface ParsedResponseUsage {
   /** Input or prompt tokens, excluding cache reads where providers report them separately. */
@@ -123,6 +127,34 @@ function setGeminiUsage(
   result.thinkingTokens = numberValue(usage.thoughtsTokenCount);
 }
 
+/** Bedrock Converse usage: camelCase counts, cache reads and writes reported separately. */
+function setConverseUsage(
+  result: ParsedResponseUsage,
+  usage: Record<string, unknown>,
+): void {
+  result.inputTokens = numberValue(usage.inputTokens) || result.inputTokens;
+  result.outputTokens = numberValue(usage.outputTokens) || result.outputTokens;
+  result.cacheReadTokens = numberValue(usage.cacheReadInputTokens) || result.cacheReadTokens;
+  result.cacheWriteTokens = numberValue(usage.cacheWriteInputTokens) || result.cacheWriteTokens;
+}
+
+/**
+ * Bedrock InvokeModel streams end with `amazon-bedrock-invocationMetrics`
+ * on the last chunk, whatever the model. Only used when the model's own
+ * events reported no usage.
+ */
+function setInvocationMetrics(
+  result: ParsedResponseUsage,
+  parsed: Record<string, unknown>,
+): void {
+  const metrics = asRecord(parsed["amazon-bedrock-invocationMetrics"]);
+  if (!metrics) return;
+  result.inputTokens ||= numberValue(metrics.inputTokenCount);
+  result.outputTokens ||= numberValue(metrics.outputTokenCount);
+  result.cacheReadTokens ||= numberValue(metrics.cacheReadInputTokenCount);
+  result.cacheWriteTokens ||= numberValue(metrics.cacheWriteInputTokenCount);
+}
+
 function collectFinishReasons(candidates: unknown, field: string): string[] {
   const items = asRecordArray(candidates);
   if (!items) return [];
@@ -208,6 +240,7 @@ export function parseResponseUsage(responseData: unknown): ParsedResponseUsage {
   const usage = asRecord(responseData.usage);
   if (usage) {
     setOpenAiUsage(result, usage);
+    setConverseUsage(result, usage);
   }
 
   const response = asRecord(responseData.response);
@@ -229,7 +262,8 @@ export function parseResponseUsage(responseData: unknown): ParsedResponseUsage {
     stringValue(response?.modelVersion) ||
     null;
 
-  const stopReason = stringValue(responseData.stop_reason);
+  const stopReason =
+    stringValue(responseData.stop_reason) ?? stringValue(responseData.stopReason);
   if (stopReason) {
     result.finishReasons = [stopReason];
   } else if (responseData.choices) {
@@ -286,7 +320,11 @@ function parseStreamingUsage(
     const openAiUsage = asRecord(parsed.usage) ?? asRecord(response?.usage);
     if (openAiUsage) {
       setOpenAiUsage(result, openAiUsage);
+      setConverseUsage(result, openAiUsage);
     }
+    const converseStop = stringValue(parsed.stopReason);
+    if (converseStop) result.finishReasons = [converseStop];
+    setInvocationMetrics(result, parsed);
     const choices = asRecordArray(parsed.choices) ?? asRecordArray(response?.choices);
     const choiceFinish = choices?.[0]?.finish_reason;
     if (typeof choiceFinish === "string") {
@@ -320,15 +358,24 @@ function parseStreamingUsage(
  * Provider-specific streaming token parser.
  *
  * Unlike parseResponseUsage, this function takes an explicit provider hint
- * and only checks for that provider's SSE format.
+ * and only checks for that provider's SSE format. For "bedrock", `body`
+ * may also be the raw event stream; its frames are decoded first. Both
+ * InvokeModel streams of Claude models and Converse streams are read.
+ * "azure-openai" streams are read like OpenAI's.
  */
 export function parseStreamingTokens(
-  body: string,
+  body: string | Buffer,
   provider: string,
 ): ParsedResponseUsage | null {
   const result = emptyUsage(true);
 
-  const lines = body.split("\n");
+  const text =
+    typeof body === "string"
+      ? body
+      : provider === "bedrock"
+        ? eventStreamToSse(body)
+        : body.toString("utf8");
+  const lines = text.split("\n");
   for (const line of lines) {
     const data = readSseData(line);
     if (data === null || data === "[DONE]") continue;
@@ -336,7 +383,7 @@ export function parseStreamingTokens(
     const parsed = parseJsonObject(data);
     if (!parsed) continue;
 
-    if (provider === "anthropic") {
+    if (provider === "anthropic" || provider === "bedrock") {
       if (parsed.type === "message_start") {
         const message = asRecord(parsed.message);
         result.model = stringValue(message?.model) || result.model;
@@ -362,7 +409,16 @@ export function parseStreamingTokens(
             result.thinkingTokens;
         }
       }
-    } else if (provider === "openai" || provider === "chatgpt") {
+      if (provider === "bedrock") {
+        // Converse: `messageStop` and `metadata` events
+        const stopReason = stringValue(parsed.stopReason);
+        if (stopReason) result.finishReasons = [stopReason];
+        const usage = asRecord(parsed.usage);
+        if (usage && !parsed.type) setConverseUsage(result, usage);
+        setInvocationMetrics(result, parsed);
+      }
+    } else if (provider === "openai" || provider === "chatgpt" || provider === "azure-openai") {
+      result.model = stringValue(parsed.model) || result.model;
       const usage = asRecord(parsed.usage);
       if (usage && parsed.choices) {
         setOpenAiUsage(result, usage);
@@ -396,3 +452,95 @@ export function parseStreamingTokens(
 
   return result;
 }
+
+function collectGeminiText(carrier: Record<string, unknown> | null, out: string[]): void {
+  const candidates = asRecordArray(carrier?.candidates);
+  const parts = asRecordArray(asRecord(candidates?.[0]?.content)?.parts);
+  for (const part of parts ?? []) {
+    if (part.thought === true) continue;
+    const text = stringValue(part.text);
+    if (text) out.push(text);
+  }
+}
+
+function collectJsonText(parsed: Record<string, unknown>, out: string[]): void {
+  // Anthropic: content blocks
+  for (const block of asRecordArray(parsed.content) ?? []) {
+    if (block.type === "text" && typeof block.text === "string") out.push(block.text);
+  }
+
+  // OpenAI Chat Completions: choices[].message.content
+  const choices = asRecordArray(parsed.choices);
+  const content = asRecord(choices?.[0]?.message)?.content;
+  if (typeof content === "string") out.push(content);
+
+  // OpenAI Responses: output[] message items (possibly wrapped in `response`)
+  const response = asRecord(parsed.response) ?? parsed;
+  for (const item of asRecordArray(response.output) ?? []) {
+    for (const part of asRecordArray(item.content) ?? []) {
+      if (part.type === "output_text" && typeof part.text === "string") out.push(part.text);
+    }
+  }
+
+  // Gemini, including the Code Assist `response` wrapper
+  collectGeminiText(parsed.candidates ? parsed : asRecord(parsed.response), out);
+
+  // Bedrock Converse: output.message.content[].text
+  const converse = asRecord(asRecord(parsed.output)?.message);
+  for (const block of asRecordArray(converse?.content) ?? []) {
+    const text = stringValue(block.text);
+    if (text) out.push(text);
+  }
+}
+
+function collectStreamingText(body: string, out: string[]): void {
+  for (const line of body.split("\n")) {
+    const data = readSseData(line);
+    if (data === null || data === "[DONE]") continue;
+    const parsed = parseJsonObject(data);
+    if (!parsed) continue;
+
+    if (parsed.type === "content_block_delta") {
+      const text = stringValue(asRecord(parsed.delta)?.text);
+      if (text) out.push(text);
+      continue;
+    }
+    if (parsed.type === "response.output_text.delta") {
+      const text = stringValue(parsed.delta);
+      if (text) out.push(text);
+      continue;
+    }
+
+    // Bedrock Converse contentBlockDelta events
+    if (typeof parsed.contentBlockIndex === "number") {
+      const text = stringValue(asRecord(parsed.delta)?.text);
+      if (text) out.push(text);
+      continue;
+    }
+
+    const choices = asRecordArray(parsed.choices);
+    const delta = stringValue(asRecord(choices?.[0]?.delta)?.content);
+    if (delta) out.push(delta);
+
+    collectGeminiText(parsed.candidates ? parsed : asRecord(parsed.response), out);
+  }
+}
+
+/**
+ * Extract the assistant's text output from a raw response body.
+ *
+ * Accepts the same JSON and SSE bodies as parseResponseUsage. Streaming
+ * deltas are concatenated in order; tool calls and thinking blocks are
+ * ignored. Returns an empty string when no text is found.
+ */
+export function extractResponseText(body: string): string {
+  const out: string[] = [];
+  const trimmed = body.trim();
+  if (hasSseData(trimmed)) {
+    collectStreamingText(trimmed, out);
+  } else {
+    const parsed = parseJsonObject(trimmed);
+    if (parsed) collectJsonText(parsed, out);
+  }
+  return out.join("");
+}
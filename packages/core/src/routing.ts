@@ -4,14 +4,19 @@
  * Three responsibilities:
  * 1. Classify requests by provider and API format (path/header heuristics)
  * 2. Extract source tool tags and session IDs from URL path prefixes
- * 3. Resolve the upstream URL to forward the request to
+ * 3. Resolve the upstream URL to forward the request to, from the
+ *    provider defaults or the named-upstream registry
  *
  * Zero external dependencies.
  */
 
 import type {
   ApiFormat,
+  AzureDeployment,
   ExtractSourceResult,
+  JsonValue,
+  NamedUpstream,
+  NamedUpstreamTarget,
   Provider,
   ResolveTargetResult,
   Upstreams,
@@ -36,8 +41,27 @@ const API_PATH_SEGMENTS = new Set([
   "backend-api",
   "api",
   "codex",
+  "model",
 ]);
 
+/** Bedrock runtime model operations; the model ID may be a URL-encoded ARN. */
+const BEDROCK_PATH =
+  /^\/model\/([^/]+)\/(invoke|invoke-with-response-stream|converse|converse-stream)$/;
+
+/** Azure OpenAI deployment routes: /openai/deployments/{deployment}/... */
+const AZURE_DEPLOYMENT_PATH = /^\/openai\/deployments\/([^/]+)\//;
+
+/** SigV4 credential scope: `Credential=AKID/20240101/us-east-1/bedrock/aws4_request`. */
+const SIGV4_REGION = /Credential=[^/,\s]+\/\d{8}\/([a-z0-9-]+)\/bedrock\/aws4_request/;
+
+function safeDecode(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
 /**
  * Classify an incoming request by provider and API format.
  *
@@ -45,8 +69,12 @@ const API_PATH_SEGMENTS = new Set([
  * live here so routing and format detection stay in sync.
  *
  * Order matters: ChatGPT backend is checked first (it uses /api/ paths
- * that could collide), then Anthropic, Gemini (before OpenAI because
- * both use /models/), and finally OpenAI as the catch-all.
+ * that could collide), then Bedrock (its Claude requests may carry an
+ * anthropic-version header), Azure OpenAI (its paths contain
+ * /chat/completions too), Anthropic, Gemini (before OpenAI because both
+ * use /models/), and finally OpenAI as the catch-all. An `api-key`
+ * header only decides between OpenAI and Azure OpenAI for OpenAI-style
+ * paths; it never overrides a provider-specific path.
  */
 export function classifyRequest(
   pathname: string,
@@ -57,6 +85,31 @@ export function classifyRequest(
   if (pathname.match(/^\/(api|backend-api|codex)\//))
     return { provider: "chatgpt", apiFormat: "chatgpt-backend" };
 
+  // Amazon Bedrock runtime: /model/{modelId}/{operation}. InvokeModel
+  // bodies are in the model's native format, so Claude model IDs
+  // (including cross-region profiles like "us.anthropic.claude-...")
+  // get the Anthropic format.
+  const bedrock = pathname.match(BEDROCK_PATH);
+  if (bedrock) {
+    if (bedrock[2].startsWith("converse"))
+      return { provider: "bedrock", apiFormat: "bedrock-converse" };
+    const modelId = safeDecode(bedrock[1]);
+    return {
+      provider: "bedrock",
+      apiFormat: /(^|[.:/])anthropic\./.test(modelId) ? "anthropic-messages" : "unknown",
+    };
+  }
+
+  // Azure OpenAI: /openai/deployments/{deployment}/..., or the v1 API
+  // at /openai/v1/...
+  if (pathname.startsWith("/openai/")) {
+    if (pathname.includes("/responses"))
+      return { provider: "azure-openai", apiFormat: "responses" };
+    if (pathname.includes("/chat/completions"))
+      return { provider: "azure-openai", apiFormat: "chat-completions" };
+    return { provider: "azure-openai", apiFormat: "unknown" };
+  }
+
   // Anthropic Messages API
   if (pathname.includes("/v1/messages"))
     return { provider: "anthropic", apiFormat: "anthropic-messages" };
@@ -81,13 +134,15 @@ export function classifyRequest(
   if (isGeminiPath || headers["x-goog-api-key"])
     return { provider: "gemini", apiFormat: "gemini" };
 
-  // OpenAI platform API (catch-all for Bearer sk- tokens)
+  // OpenAI platform API (catch-all for Bearer sk- tokens). Azure OpenAI
+  // clients on OpenAI-style paths send their key in an `api-key` header.
+  const openai: Provider = headers["api-key"] ? "azure-openai" : "openai";
   if (pathname.includes("/responses"))
-    return { provider: "openai", apiFormat: "responses" };
+    return { provider: openai, apiFormat: "responses" };
   if (pathname.includes("/chat/completions"))
-    return { provider: "openai", apiFormat: "chat-completions" };
+    return { provider: openai, apiFormat: "chat-completions" };
   if (pathname.match(/\/(models|embeddings)/))
-    return { provider: "openai", apiFormat: "unknown" };
+    return { provider: openai, apiFormat: "unknown" };
   if (headers.authorization?.startsWith("Bearer sk-"))
     return { provider: "openai", apiFormat: "unknown" };
 
@@ -109,17 +164,16 @@ function isSessionId(segment: string): boolean {
  *   `/claude/ab12cd34/v1/messages` -> source="claude", sessionId="ab12cd34", cleanPath="/v1/messages"
  *   `/v1/messages`                 -> source=null (no tag; path starts with a known API segment)
  *
+ * Azure's `/openai/deployments/...` routes are never tagged. Its v1 API
+ * (`/openai/v1/...`) is indistinguishable from a tool tagged "openai" and
+ * is read as one; it is recognised when intercepted.
+ *
  * Path traversal attempts (encoded slashes, ".." segments) are rejected.
  */
 export function extractSource(pathname: string): ExtractSourceResult {
   const match = pathname.match(/^\/([^/]+)(\/.*)?$/);
-  if (match?.[2] && !API_PATH_SEGMENTS.has(match[1])) {
-    let decoded = match[1];
-    try {
-      decoded = decodeURIComponent(match[1]);
-    } catch {
-      decoded = match[1];
-    }
+  if (match?.[2] && !API_PATH_SEGMENTS.has(match[1]) && !AZURE_DEPLOYMENT_PATH.test(pathname)) {
+    const decoded = safeDecode(match[1]);
     if (
       decoded.includes("/") ||
       decoded.includes("\\") ||
@@ -147,8 +201,8 @@ export function extractSource(pathname: string): ExtractSourceResult {
 /**
  * Determine the upstream URL to forward a request to.
  *
- * Checks for an explicit `x-target-url` header first (used by
- * mitmproxy addon to specify the original destination). Falls back
+ * Checks for an explicit `x-target-url` header first (set for
+ * intercepted HTTPS requests to keep the original destination). Falls back
  * to the configured upstream base URL for the detected provider.
  *
  * @param pathname - Cleaned request path (source tag already stripped).
@@ -189,6 +243,14 @@ export function resolveTargetUrl(
       } else {
         targetUrl = upstreams.vertex + pathname + qs;
       }
+    } else if (provider === "azure-openai") {
+      targetUrl = upstreams.azureOpenai + pathname + qs;
+    } else if (provider === "bedrock") {
+      // SigV4 requests name their region in the credential scope
+      const region = headers.authorization?.match(SIGV4_REGION)?.[1];
+      targetUrl = region
+        ? `https://bedrock-runtime.${region}.amazonaws.com${pathname}${qs}`
+        : upstreams.bedrock + pathname + qs;
     } else {
       // Codex Enterprise sets OPENAI_BASE_URL without a /v1 suffix and
       // appends paths like /responses directly. Normalize /responses to
@@ -202,3 +264,115 @@ export function resolveTargetUrl(
   }
   return { targetUrl, provider, apiFormat };
 }
+
+/**
+ * Read the deployment and API version of an Azure OpenAI request, and
+ * the model the deployment serves.
+ *
+ * Deployment names are chosen per resource, so `deployments` maps them
+ * to models (e.g. `{ "prod-chat": "gpt-4o" }`). Unmapped deployments are
+ * assumed to be named after their model, as Azure suggests by default.
+ *
+ * @param pathname - Cleaned request path.
+ * @param search - Query string including "?", or null.
+ * @param body - Parsed request body; the v1 API names the deployment in `model`.
+ * @param deployments - Deployment names mapped to model names.
+ */
+export function resolveAzureDeployment(
+  pathname: string,
+  search: string | null,
+  body: JsonValue | null,
+  deployments: Record<string, string> = {},
+): AzureDeployment {
+  const fromPath = pathname.match(AZURE_DEPLOYMENT_PATH)?.[1];
+  const fromBody =
+    body && typeof body === "object" && !Array.isArray(body) && typeof body.model === "string"
+      ? body.model
+      : null;
+  const deployment = fromPath ? safeDecode(fromPath) : fromBody;
+  return {
+    deployment,
+    apiVersion: new URLSearchParams(search ?? "").get("api-version"),
+    model: deployment && Object.hasOwn(deployments, deployment) ? deployments[deployment] : deployment,
+  };
+}
+
+/**
+ * Pick a backend from the named-upstream registry.
+ *
+ * A source tag naming an entry selects it outright. Otherwise an
+ * OpenAI-shaped request goes to the entry with the longest `models`
+ * prefix matching its body's `model`. Requests with an `x-target-url`
+ * (intercepted HTTPS) keep their destination.
+ *
+ * @param pathname - Cleaned request path (source tag already stripped).
+ * @param search - Query string including "?", or null.
+ * @param headers - Request headers.
+ * @param source - Source tag from the path, or null.
+ * @param body - Parsed request body, or null before it has been read.
+ * @param registry - Named upstreams, by name.
+ * @returns The selected backend, or null to route by provider as usual.
+ */
+export function resolveNamedUpstream(
+  pathname: string,
+  search: string | null,
+  headers: Record<string, string | undefined>,
+  source: string | null,
+  body: JsonValue | null,
+  registry: Record<string, NamedUpstream> = {},
+): NamedUpstreamTarget | null {
+  if (headers["x-target-url"]) return null;
+  const { provider, apiFormat } = classifyRequest(pathname, headers);
+
+  let name = source && Object.hasOwn(registry, source) ? source : null;
+  const model =
+    body && typeof body === "object" && !Array.isArray(body) && typeof body.model === "string"
+      ? body.model
+      : null;
+  if (!name && model && (provider === "openai" || provider === "unknown")) {
+    let longest = 0;
+    for (const [candidate, upstream] of Object.entries(registry)) {
+      for (const prefix of upstream.models ?? []) {
+        if (prefix.length > longest && model.startsWith(prefix)) {
+          name = candidate;
+          longest = prefix.length;
+        }
+      }
+    }
+  }
+  if (!name) return null;
+
+  const upstream = registry[name];
+  return {
+    name,
+    targetUrl: upstream.baseUrl.replace(/\/+$/, "") + pathname + (search || ""),
+    apiFormat: upstream.apiFormat ?? apiFormat,
+    authHeader: (upstream.authHeader || "authorization").toLowerCase(),
+  };
+}
+
+/**
+ * Find the named upstream a URL points into, such as the `targetUrl` a
+ * plugin redirected a request to. The entry with the longest `baseUrl`
+ * that prefixes the URL on a path boundary wins.
+ *
+ * @param targetUrl - Full upstream URL.
+ * @param registry - Named upstreams, by name.
+ * @returns The entry's name, or null when the URL is outside the registry.
+ */
+export function namedUpstreamForUrl(
+  targetUrl: string,
+  registry: Record<string, NamedUpstream> = {},
+): string | null {
+  let name: string | null = null;
+  let longest = -1;
+  for (const [candidate, upstream] of Object.entries(registry)) {
+    const base = upstream.baseUrl.replace(/\/+$/, "");
+    const inside = targetUrl === base || /^[/?#]/.test(targetUrl.slice(base.length));
+    if (targetUrl.startsWith(base) && inside && base.length > longest) {
+      name = candidate;
+      longest = base.length;
+    }
+  }
+  return name;
+}
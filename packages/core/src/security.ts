@@ -21,6 +21,8 @@ import {
   truncateMatch,
 } from "./security-patterns.js";
 import type { AlertSeverity } from "./security-patterns.js";
+import { extractMessageSegments } from "./messages.js";
+import type { ApiFormat, JsonValue } from "./types.js";
 
 export type { AlertSeverity } from "./security-patterns.js";
 
@@ -168,9 +170,12 @@ export function scanSecurity(
 /**
  * Scan a conversation's messages for prompt injection.
  *
- * Iterates over the message array, skipping system/developer messages
- * (those are trusted). Extracts text from various content formats
- * (Anthropic content blocks, Gemini parts, plain strings) and scans each.
+ * A wrapper around {@link scanRequest} for callers that hold a message
+ * array rather than a request body. Gemini-style `parts` and
+ * `content_blocks` are read as text and tool result blocks, so tool
+ * output (`tool` role messages, `tool_result` blocks) is scanned with
+ * role "tool" exactly as `scanRequest` scans it. System and developer
+ * messages are skipped (they're trusted).
  *
  * @param messages - Message array from the request body.
  * @returns Combined alerts from all scanned messages, with per-message indices.
@@ -178,46 +183,52 @@ export function scanSecurity(
 export function scanRequestMessages(
   messages: Array<{
     role: string;
-    content?: string | null;
+    content?: JsonValue;
     parts?: Array<{ text?: string }> | null;
     content_blocks?: Array<{ type: string; text?: string; content?: string }> | null;
   }>,
 ): SecurityResult {
-  const alerts: SecurityAlert[] = [];
-  let index = 0;
-
-  for (const msg of messages ?? []) {
-    const role = msg.role;
-
-    // Skip system and developer messages (they're trusted)
-    if (role === "system" || role === "developer") {
-      index++;
-      continue;
+  const normalized = (messages ?? []).map(({ parts, content_blocks, ...msg }) => {
+    let content: JsonValue = msg.content ?? null;
+    if (content === null && Array.isArray(parts)) {
+      content = parts.map((p) => ({ type: "text", text: p.text ?? "" }));
+    } else if (content === null && Array.isArray(content_blocks)) {
+      content = content_blocks.map((b): JsonValue =>
+        b.type === "tool_result"
+          ? { type: "tool_result", content: b.content ?? "" }
+          : { type: "text", text: b.text ?? b.content ?? "" },
+      );
     }
+    return { ...msg, content } as JsonValue;
+  });
+  return scanRequest({ messages: normalized }, "unknown");
+}
 
-    // Extract text content from various formats
-    let text = "";
-    if (typeof msg.content === "string") {
-      text = msg.content;
-    } else if (Array.isArray(msg.parts)) {
-      text = msg.parts.map((p) => p.text ?? "").join("\n");
-    } else if (Array.isArray(msg.content_blocks)) {
-      // Anthropic content_blocks
-      text = msg.content_blocks
-        .map((b) => b.text ?? b.content ?? "")
-        .join("\n");
-    }
+/**
+ * Scan a request body for prompt injection.
+ *
+ * The body is flattened with {@link extractMessageSegments}, so tool output
+ * is scanned with role "tool" and its tool name in every API format, which
+ * is what lets the role confusion heuristics fire. System and developer
+ * segments are skipped (they're trusted).
+ *
+ * @param body - Parsed request body.
+ * @param apiFormat - Wire format from request classification.
+ * @returns Combined alerts, with `index` set to the source message position.
+ */
+export function scanRequest(body: JsonValue | null, apiFormat: ApiFormat | string): SecurityResult {
+  const alerts: SecurityAlert[] = [];
 
-    if (text) {
-      const result = scanSecurity(text, { role, skipSystemMessages: true });
-      // Adjust indices for each message
-      for (const alert of result.alerts) {
-        alert.index = index;
-        alerts.push(alert);
-      }
+  for (const segment of extractMessageSegments(body, apiFormat)) {
+    if (segment.role === "system" || segment.role === "developer") continue;
+    const result = scanSecurity(segment.text, {
+      role: segment.role,
+      toolName: segment.toolName,
+    });
+    for (const alert of result.alerts) {
+      alert.index = segment.index;
+      alerts.push(alert);
     }
-
-    index++;
   }
 
   const summary: SecuritySummary = { high: 0, medium: 0, info: 0 };
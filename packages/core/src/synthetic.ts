@@ -0,0 +1,116 @@
+/**
+ * Builders for plugin-generated (synthetic) responses.
+ *
+ * When a plugin rejects a request or replaces a response, the client
+ * should see an error in the same shape its provider would send, so the
+ * tool surfaces a readable message instead of a parse failure.
+ *
+ * Shapes:
+ * - Anthropic: { type: "error", error: { type, message } }
+ * - OpenAI (Chat Completions, Responses, ChatGPT backend): { error: { message, type, param, code } }
+ * - Gemini / Vertex: { error: { code, message, status } }
+ * - Bedrock Converse: { message }
+ */
+
+import type { PluginResponse } from "./types.js";
+
+function isAnthropicFormat(apiFormat: string): boolean {
+  return apiFormat === "anthropic-messages";
+}
+
+function isGeminiFormat(apiFormat: string): boolean {
+  return apiFormat === "gemini";
+}
+
+function anthropicErrorType(status: number): string {
+  if (status === 401) return "authentication_error";
+  if (status === 403) return "permission_error";
+  if (status === 404) return "not_found_error";
+  if (status === 413) return "request_too_large";
+  if (status === 429) return "rate_limit_error";
+  if (status >= 500) return "api_error";
+  return "invalid_request_error";
+}
+
+function openAiErrorType(status: number): string {
+  if (status === 401) return "authentication_error";
+  if (status === 403) return "permission_error";
+  if (status === 404) return "not_found_error";
+  if (status === 429) return "rate_limit_error";
+  if (status >= 500) return "server_error";
+  return "invalid_request_error";
+}
+
+function geminiErrorStatus(status: number): string {
+  if (status === 401) return "UNAUTHENTICATED";
+  if (status === 403) return "PERMISSION_DENIED";
+  if (status === 404) return "NOT_FOUND";
+  if (status === 429) return "RESOURCE_EXHAUSTED";
+  if (status >= 500) return "INTERNAL";
+  return "INVALID_ARGUMENT";
+}
+
+/** Build the JSON error object for an API format, without HTTP framing. */
+function providerErrorObject(
+  apiFormat: string,
+  status: number,
+  message: string,
+  code: string | null,
+): Record<string, unknown> {
+  if (isAnthropicFormat(apiFormat)) {
+    return { type: "error", error: { type: anthropicErrorType(status), message } };
+  }
+  if (isGeminiFormat(apiFormat)) {
+    return { error: { code: status, message, status: geminiErrorStatus(status) } };
+  }
+  if (apiFormat === "bedrock-converse") {
+    return { message };
+  }
+  return {
+    error: { message, type: openAiErrorType(status), param: null, code },
+  };
+}
+
+/**
+ * Build a non-streaming error response shaped like the provider's own.
+ *
+ * @param apiFormat - Wire format of the request (from RequestContext.apiFormat).
+ * @param status - HTTP status to return (4xx for policy rejections).
+ * @param message - Human-readable explanation shown by the client tool.
+ * @param code - Optional machine-readable code (OpenAI `error.code`).
+ */
+export function buildProviderError(
+  apiFormat: string,
+  status: number,
+  message: string,
+  code: string | null = null,
+): PluginResponse & { body: string } {
+  return {
+    status,
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(providerErrorObject(apiFormat, status, message, code)),
+  };
+}
+
+/**
+ * Build an SSE error event shaped like the provider's own, for aborting a
+ * stream whose headers have already been sent.
+ *
+ * Anthropic and the Responses API use a named `error` event; Chat
+ * Completions and Gemini send the error object as a plain data line.
+ */
+export function buildProviderStreamError(
+  apiFormat: string,
+  message: string,
+  code: string | null = null,
+): string {
+  if (isAnthropicFormat(apiFormat)) {
+    const data = providerErrorObject(apiFormat, 400, message, code);
+    return `event: error\ndata: ${JSON.stringify(data)}\n\n`;
+  }
+  if (apiFormat === "responses" || apiFormat === "chatgpt-backend") {
+    const data = { type: "error", code, message, param: null };
+    return `event: error\ndata: ${JSON.stringify(data)}\n\n`;
+  }
+  return `data: ${JSON.stringify(providerErrorObject(apiFormat, 400, message, code))}\n\n`;
+}
@@ -5,6 +5,9 @@
  * Zero external dependencies.
  */
 
+import type { OutputAlert } from "./output-scanner.js";
+import type { SecurityAlert } from "./security.js";
+
 // --- Provider / API format ---
 
 /**
@@ -13,6 +16,11 @@
  * "chatgpt" is separate from "openai" because ChatGPT's backend API
  * (used by Codex subscriptions) has a different format from the
  * OpenAI platform API.
+ *
+ * "bedrock" is Amazon Bedrock's runtime API, whichever model it serves.
+ *
+ * "azure-openai" is the OpenAI API as hosted on an Azure resource, where
+ * requests name a deployment rather than a model.
  */
 export type Provider =
   | "anthropic"
@@ -20,6 +28,8 @@ export type Provider =
   | "chatgpt"
   | "gemini"
   | "vertex"
+  | "bedrock"
+  | "azure-openai"
   | "unknown";
 
 /**
@@ -27,6 +37,9 @@ export type Provider =
  *
  * Used to determine how to parse request/response bodies for token
  * usage, streaming events, and content extraction.
+ *
+ * Bedrock's InvokeModel carries the model's native format (Claude models
+ * use "anthropic-messages"); its Converse API is "bedrock-converse".
  */
 export type ApiFormat =
   | "anthropic-messages"
@@ -34,6 +47,7 @@ export type ApiFormat =
   | "responses"
   | "chat-completions"
   | "gemini"
+  | "bedrock-converse"
   | "raw"
   | "unknown";
 
@@ -58,17 +72,162 @@ export interface Upstreams {
   gemini: string;
   geminiCodeAssist: string;
   vertex: string;
+  /** Bedrock runtime, used when the request's signature names no region. */
+  bedrock: string;
+  /** Azure OpenAI resource endpoint, e.g. `https://my-resource.openai.azure.com`. */
+  azureOpenai: string;
+}
+
+/**
+ * An OpenAI-compatible backend in the named-upstream registry
+ * (`ProxyConfig.namedUpstreams`), such as OpenRouter, Ollama, or vLLM.
+ *
+ * Requests go to an entry when their source tag is the entry's name, or
+ * when their body's `model` starts with one of its `models` prefixes.
+ * The entry's name becomes the capture's `provider`.
+ */
+export interface NamedUpstream {
+  /** Base URL the request path is appended to, e.g. `http://localhost:11434`. */
+  baseUrl: string;
+  /** Wire format the backend speaks. Default: the format of the request path. */
+  apiFormat?: ApiFormat;
+  /**
+   * Header the backend reads its API key from, e.g. "api-key". A client's
+   * `Authorization: Bearer` key is moved there. Default: "authorization".
+   */
+  authHeader?: string;
+  /** `model` prefixes served by this backend, e.g. `["llama", "qwen/"]`. */
+  models?: string[];
 }
 
 // --- Capture data (the full request/response record) ---
 
+/**
+ * Security findings attached to a capture by the guard plugin.
+ */
+export interface SecurityFindings {
+  /** Guard mode in effect: "observe", "warn", or "block". */
+  mode: string;
+  /** Prompt injection alerts found in the request messages. */
+  input: SecurityAlert[];
+  /** Alerts found in the assistant's response text. */
+  output: OutputAlert[];
+  /** Which side was blocked, or null if the exchange was let through. */
+  blocked: "request" | "response" | null;
+}
+
+/**
+ * Response cache outcome attached to a capture by the cache plugin.
+ */
+export interface CacheInfo {
+  /** True when the response was served from the cache. */
+  hit: boolean;
+  /** Cache key: sha256 hex of the normalized request. */
+  key: string;
+  /** Input tokens the cached response reported (0 on a miss). */
+  savedInputTokens: number;
+  /** Output tokens the cached response reported (0 on a miss). */
+  savedOutputTokens: number;
+  /** Estimated USD saved via `estimateCost`; null on a miss or for unknown models. */
+  savedCost: number | null;
+}
+
+/**
+ * One redaction applied to a request, recorded by the redact plugin.
+ *
+ * Never contains the original value: only a keyed hash of it, so the
+ * same value can be recognised across requests without being revealed.
+ */
+export interface RedactionRecord {
+  /** Rule or dictionary id. */
+  rule: string;
+  /** JSON path of the string in the request body (e.g. "messages[*].content"). */
+  path: string;
+  /** What was done: replaced, blocked the request, or only logged. */
+  action: "redacted" | "blocked" | "warned";
+  /** Text sent in place of the original, or null if the text was left unchanged. */
+  placeholder: string | null;
+  /** Keyed hash of the original value, e.g. "hmac-sha256:3f9a...". */
+  hash: string;
+}
+
+/**
+ * Estimated share of the model's context window a request fills.
+ *
+ * Computed by the proxy from the forwarded request body with
+ * `estimateTokens` and `getContextLimit`, so it is a char-based
+ * approximation, not the provider's own count.
+ */
+export interface ContextUtilization {
+  /** Model the limit was looked up for. */
+  model: string;
+  /** Estimated input tokens of the request. */
+  estimatedTokens: number;
+  /** Context window of the model in tokens. */
+  contextLimit: number;
+  /** `estimatedTokens / contextLimit` as a percentage, one decimal. */
+  percent: number;
+}
+
+/**
+ * Deployment details of an Azure OpenAI request.
+ *
+ * Azure requests name a deployment, whose name is chosen per resource;
+ * `model` is the model it serves, for cost and context-limit lookups.
+ */
+export interface AzureDeployment {
+  /** Deployment name from the path (or the body's `model` on the v1 API). */
+  deployment: string | null;
+  /** `api-version` query parameter, or null when absent. */
+  apiVersion: string | null;
+  /** Model the deployment serves: the configured mapping, else the deployment name. */
+  model: string | null;
+}
+
+/**
+ * Routing-rule rewrite attached to a capture by the router plugin.
+ */
+export interface RouteInfo {
+  /** Name of the rule that matched. */
+  rule: string;
+  /** Model the client asked for, or null if the request named none. */
+  requestedModel: string | null;
+  /** Model the request was sent with. */
+  model: string | null;
+  /**
+   * Upstream URL the request was redirected from, without its `key`
+   * query parameter, or null if its target was kept.
+   */
+  originalTargetUrl: string | null;
+}
+
+/**
+ * Optional capture fields contributed by plugins.
+ *
+ * Plugins set these on `RequestContext.annotations` (or the same object
+ * on `ResponseContext.annotations`); the proxy copies them into the
+ * CaptureData record once the exchange completes.
+ */
+export interface CaptureAnnotations {
+  /** Prompt injection and output scan results. */
+  security?: SecurityFindings;
+  /** Response cache hit or miss. */
+  cache?: CacheInfo;
+  /** Redactions applied to the request body. */
+  redactions?: RedactionRecord[];
+  /** Name of the plugin that answered the request instead of the upstream. */
+  respondedBy?: string;
+  /** Routing rule that rewrote the request's model or upstream. */
+  route?: RouteInfo;
+}
+
 /**
  * A complete request/response pair captured by the proxy.
  *
  * Written to disk as JSON by the logger plugin. Contains everything
  * needed to inspect, replay, or analyze an API call.
  */
-export interface CaptureData {
+export interface CaptureData extends CaptureAnnotations {
   /** ISO-8601 timestamp when the request was received. */
   timestamp: string;
   /** Session ID from the URL path, or null if not tagged. */
@@ -95,12 +254,19 @@ export interface CaptureData {
   responseStatus: number;
   /** Response headers with sensitive values stripped. */
   responseHeaders: Record<string, string>;
-  /** Raw response body (SSE text for streaming, JSON string for non-streaming). */
+  /**
+   * Raw response body (SSE text for streaming, JSON string for
+   * non-streaming). Bedrock event streams are rendered as SSE text.
+   */
   responseBody: string;
-  /** Whether the upstream returned a streaming (SSE) response. */
+  /** Whether the upstream returned a streaming (SSE or event-stream) response. */
   responseIsStreaming: boolean;
   /** Size of the raw response body in bytes. */
   responseBytes: number;
+  /** How full the model's context window was; absent when the model is unknown. */
+  contextUtilization?: ContextUtilization;
+  /** Deployment and API version of Azure OpenAI requests. */
+  azure?: AzureDeployment;
   /** Timing breakdown for the request lifecycle. */
   timings: {
     /** Time from receiving the request to finishing the upstream send. */
@@ -116,11 +282,48 @@ export interface CaptureData {
 
 // --- Plugin system ---
 
+/** One piece of a synthetic streaming response. */
+export interface PluginResponseChunk {
+  /**
+   * Raw SSE text, e.g. `event: ...\ndata: {...}\n\n`, or the bytes of
+   * binary event-stream messages for Bedrock.
+   */
+  data: string | Buffer;
+  /** Wait this long before sending the chunk. Default: 0. */
+  delayMs?: number;
+}
+
+/**
+ * A response produced by a plugin instead of the upstream.
+ *
+ * Used to reject a request (policy block, budget cap) with an error the
+ * client understands, or to answer it outright (cache hit, mock). Build
+ * provider-shaped errors with `buildProviderError()`.
+ *
+ * A response with `chunks` is streamed as SSE; otherwise `body` is sent
+ * in one piece. Either way it passes through the onResponse or stream
+ * hooks and onCapture, just like an upstream response.
+ */
+export interface PluginResponse {
+  status: number;
+  headers?: Record<string, string>;
+  /** Response body. Strings are sent as-is; other values are JSON-encoded. */
+  body?: JsonValue;
+  /**
+   * Chunks to stream in order. Content type defaults to text/event-stream;
+   * set `application/vnd.amazon.eventstream` for Bedrock event streams.
+   */
+  chunks?: PluginResponseChunk[];
+}
+
 /**
  * Context passed to onRequest hooks.
  *
  * Plugins can modify `headers` and `body` to transform the request
- * before it is forwarded to the upstream provider.
+ * before it is forwarded to the upstream provider, and `targetUrl` to
+ * send it somewhere else. Setting `response`
+ * answers the client directly: the request is not forwarded and later
+ * onRequest hooks are skipped.
  */
 export interface RequestContext {
   provider: Provider | string;
@@ -131,6 +334,22 @@ export interface RequestContext {
   headers: HeaderMap;
   body: JsonValue | null;
   rawBody: Buffer;
+  /**
+   * Upstream URL the request will be forwarded to, as routed by the
+   * proxy. Plugins may change it to redirect the request. A redirect
+   * into the named-upstream registry is recorded with that upstream's
+   * name as the provider; anywhere else the capture keeps the provider
+   * and API format the request was routed with, and the client's
+   * credential headers and `key` query parameter are dropped when the
+   * origin changes (see `forwardAuth`).
+   */
+  targetUrl?: string;
+  /** Keep the client's credentials on a redirect outside the named-upstream registry. */
+  forwardAuth?: boolean;
+  /** Set by a plugin to short-circuit the upstream call. */
+  response?: PluginResponse;
+  /** Plugin-contributed fields copied into the capture. */
+  annotations?: CaptureAnnotations;
 }
 
 /**
@@ -145,6 +364,8 @@ export interface ResponseContext {
   body: string;
   isStreaming: boolean;
   sessionId: string | null;
+  /** Same annotations object as the originating RequestContext. */
+  annotations?: CaptureAnnotations;
 }
 
 /**
@@ -175,14 +396,18 @@ export interface ProxyPlugin {
    * Transform a streaming (SSE) response chunk before sending to the client.
    * Called for each data chunk. Return the (possibly modified) chunk.
    * Plugins that need to handle split tokens should buffer internally.
+   * Bedrock streams arrive as binary event-stream frames, not SSE text.
+   * `annotations` is the same object as the originating RequestContext's,
+   * so it can key state per response when a session has several streams
+   * in flight.
    */
-  onStreamChunk?: (chunk: Buffer, sessionId: string | null) => Buffer;
+  onStreamChunk?: (chunk: Buffer, sessionId: string | null, annotations?: CaptureAnnotations) => Buffer;
 
   /**
    * Called when a streaming response ends. Plugins can flush any
    * buffered data. Return null if nothing to flush.
    */
-  onStreamEnd?: (sessionId: string | null) => Buffer | null;
+  onStreamEnd?: (sessionId: string | null, annotations?: CaptureAnnotations) => Buffer | null;
 
   /**
    * Observe the completed request/response capture.
@@ -199,6 +424,10 @@ export interface ProxyConfig {
   upstreams?: Partial<Upstreams>;
   allowTargetOverride?: boolean;
   plugins?: ProxyPlugin[];
+  /** Azure OpenAI deployment names mapped to the models they serve. */
+  azureDeployments?: Record<string, string>;
+  /** OpenAI-compatible backends by name, checked before the provider defaults. */
+  namedUpstreams?: Record<string, NamedUpstream>;
 }
 
 // --- Routing helpers (re-exported from routing.ts) ---
@@ -214,3 +443,13 @@ export interface ResolveTargetResult {
   provider: Provider;
   apiFormat: ApiFormat;
 }
+
+/** Where a request selected from the named-upstream registry is sent. */
+export interface NamedUpstreamTarget {
+  /** Registry name, recorded as the capture's provider. */
+  name: string;
+  targetUrl: string;
+  apiFormat: ApiFormat;
+  /** Lowercase name of the header carrying the API key. */
+  authHeader: string;
+}
@@ -0,0 +1,90 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  createEventStreamDecoder,
+  decodeEventStream,
+  encodeEventStreamMessage,
+  eventStreamEventType,
+  eventStreamPayloadText,
+  eventStreamToSse,
+} from "../dist/eventstream.js";
+
+/** An InvokeModel `chunk` event wrapping the model's event JSON. */
+function chunk(event: unknown): Buffer {
+  const bytes = Buffer.from(JSON.stringify(event)).toString("base64");
+  return encodeEventStreamMessage(
+    { ":event-type": "chunk", ":content-type": "application/json", ":message-type": "event" },
+    JSON.stringify({ bytes, p: "abcd" }),
+  );
+}
+
+describe("eventstream.ts", () => {
+  it("round-trips headers and payload", () => {
+    const raw = encodeEventStreamMessage(
+      { ":event-type": "metadata", flag: true, count: 42, id: Buffer.from([1, 2, 3]) },
+      '{"usage":{}}',
+    );
+    const [message] = decodeEventStream(raw);
+
+    assert.deepEqual(message.headers, {
+      ":event-type": "metadata",
+      flag: true,
+      count: 42,
+      id: Buffer.from([1, 2, 3]),
+    });
+    assert.equal(message.payload.toString("utf8"), '{"usage":{}}');
+    assert.deepEqual(message.raw, raw);
+  });
+
+  it("matches the CRCs of the AWS reference encoding", () => {
+    // Empty message from the AWS event-stream test suite
+    const empty = Buffer.from("000000100000000005c248eb7d98c8ff", "hex");
+    assert.deepEqual(encodeEventStreamMessage({}, ""), empty);
+    assert.equal(decodeEventStream(empty).length, 1);
+  });
+
+  it("rejects corrupted messages", () => {
+    const raw = encodeEventStreamMessage({ ":event-type": "chunk" }, "{}");
+    raw[raw.length - 6] ^= 0xff;
+    assert.throws(() => decodeEventStream(raw), /checksum/);
+  });
+
+  it("holds partial messages until the rest arrives", () => {
+    const stream = Buffer.concat([chunk({ type: "a" }), chunk({ type: "b" })]);
+    const decoder = createEventStreamDecoder();
+
+    const first = decoder.push(stream.subarray(0, 30));
+    const rest = decoder.push(stream.subarray(30));
+
+    assert.equal(first.length, 0);
+    assert.equal(rest.length, 2);
+    assert.equal(decoder.pending().length, 0);
+  });
+
+  it("unwraps InvokeModel chunk payloads", () => {
+    const [message] = decodeEventStream(chunk({ type: "message_stop" }));
+    assert.equal(eventStreamEventType(message), "chunk");
+    assert.equal(eventStreamPayloadText(message), '{"type":"message_stop"}');
+  });
+
+  it("renders streams as SSE", () => {
+    const stream = Buffer.concat([
+      chunk({ type: "content_block_delta", delta: { text: "hi" } }),
+      encodeEventStreamMessage(
+        { ":exception-type": "throttlingException", ":message-type": "exception" },
+        '{"message":"slow down"}',
+      ),
+    ]);
+
+    assert.equal(
+      eventStreamToSse(stream),
+      'event: chunk\ndata: {"type":"content_block_delta","delta":{"text":"hi"}}\n\n' +
+        'event: throttlingException\ndata: {"message":"slow down"}\n\n',
+    );
+  });
+
+  it("renders bytes that are not an event stream as text", () => {
+    assert.equal(eventStreamToSse(Buffer.from('{"message":"denied"}')), '{"message":"denied"}');
+  });
+});
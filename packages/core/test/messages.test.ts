@@ -0,0 +1,180 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import { extractMessageSegments } from "../dist/messages.js";
+
+describe("messages.ts", () => {
+  describe("anthropic-messages", () => {
+    it("joins text blocks and splits out tool results with tool names", () => {
+      const segments = extractMessageSegments(
+        {
+          system: "You are helpful.",
+          messages: [
+            { role: "user", content: "Read the file" },
+            {
+              role: "assistant",
+              content: [
+                { type: "text", text: "Reading it." },
+                { type: "tool_use", id: "toolu_1", name: "read_file", input: { path: "a.txt" } },
+              ],
+            },
+            {
+              role: "user",
+              content: [
+                { type: "tool_result", tool_use_id: "toolu_1", content: [{ type: "text", text: "file body" }] },
+                { type: "text", text: "Now summarize" },
+                { type: "text", text: "briefly" },
+              ],
+            },
+          ],
+        },
+        "anthropic-messages",
+      );
+
+      assert.deepEqual(segments, [
+        { index: 0, role: "user", toolName: null, text: "Read the file" },
+        { index: 1, role: "assistant", toolName: null, text: "Reading it." },
+        { index: 2, role: "tool", toolName: "read_file", text: "file body" },
+        { index: 2, role: "user", toolName: null, text: "Now summarize\nbriefly" },
+      ]);
+    });
+
+    it("leaves the tool name null for unmatched tool results", () => {
+      const segments = extractMessageSegments(
+        { messages: [{ role: "user", content: [{ type: "tool_result", tool_use_id: "x", content: "out" }] }] },
+        "anthropic-messages",
+      );
+      assert.deepEqual(segments, [{ index: 0, role: "tool", toolName: null, text: "out" }]);
+    });
+  });
+
+  describe("chat-completions", () => {
+    it("resolves tool names from assistant tool_calls", () => {
+      const segments = extractMessageSegments(
+        {
+          messages: [
+            { role: "system", content: "Be terse." },
+            { role: "user", content: [{ type: "text", text: "Weather?" }] },
+            {
+              role: "assistant",
+              content: null,
+              tool_calls: [{ id: "call_1", type: "function", function: { name: "get_weather", arguments: "{}" } }],
+            },
+            { role: "tool", tool_call_id: "call_1", content: "Sunny" },
+          ],
+        },
+        "chat-completions",
+      );
+
+      assert.deepEqual(segments, [
+        { index: 0, role: "system", toolName: null, text: "Be terse." },
+        { index: 1, role: "user", toolName: null, text: "Weather?" },
+        { index: 3, role: "tool", toolName: "get_weather", text: "Sunny" },
+      ]);
+    });
+  });
+
+  describe("responses", () => {
+    it("reads message items and function call outputs", () => {
+      const segments = extractMessageSegments(
+        {
+          instructions: "System text",
+          input: [
+            { role: "user", content: "List files" },
+            { type: "message", role: "assistant", content: [{ type: "output_text", text: "Sure." }] },
+            { type: "function_call", call_id: "c1", name: "shell", arguments: "{\"cmd\":\"ls\"}" },
+            { type: "function_call_output", call_id: "c1", output: "a.txt\nb.txt" },
+            { type: "reasoning", summary: [] },
+          ],
+        },
+        "responses",
+      );
+
+      assert.deepEqual(segments, [
+        { index: 0, role: "user", toolName: null, text: "List files" },
+        { index: 1, role: "assistant", toolName: null, text: "Sure." },
+        { index: 3, role: "tool", toolName: "shell", text: "a.txt\nb.txt" },
+      ]);
+    });
+
+    it("treats a string input as a single user message", () => {
+      assert.deepEqual(extractMessageSegments({ input: "hello" }, "chatgpt-backend"), [
+        { index: 0, role: "user", toolName: null, text: "hello" },
+      ]);
+    });
+  });
+
+  describe("gemini", () => {
+    it("maps model to assistant and reads functionResponse parts", () => {
+      const segments = extractMessageSegments(
+        {
+          contents: [
+            { role: "user", parts: [{ text: "Find bugs" }] },
+            { role: "model", parts: [{ text: "thinking...", thought: true }, { functionCall: { name: "grep", args: {} } }] },
+            {
+              role: "user",
+              parts: [{ functionResponse: { name: "grep", response: { output: "line 1", matches: 1 } } }],
+            },
+          ],
+        },
+        "gemini",
+      );
+
+      assert.deepEqual(segments, [
+        { index: 0, role: "user", toolName: null, text: "Find bugs" },
+        { index: 2, role: "tool", toolName: "grep", text: "line 1" },
+      ]);
+    });
+
+    it("unwraps Code Assist request bodies", () => {
+      const segments = extractMessageSegments(
+        { model: "gemini-2.5-pro", request: { contents: [{ role: "user", parts: [{ text: "hi" }] }] } },
+        "gemini",
+      );
+      assert.equal(segments.length, 1);
+      assert.equal(segments[0].text, "hi");
+    });
+  });
+
+  describe("bedrock-converse", () => {
+    it("reads text blocks and toolResult content", () => {
+      const segments = extractMessageSegments(
+        {
+          system: [{ text: "Be brief" }],
+          messages: [
+            { role: "user", content: [{ text: "List files" }] },
+            { role: "assistant", content: [{ toolUse: { toolUseId: "t1", name: "ls", input: { dir: "." } } }] },
+            {
+              role: "user",
+              content: [{ toolResult: { toolUseId: "t1", content: [{ text: "a.txt" }, { json: { more: "b.txt" } }] } }],
+            },
+          ],
+        },
+        "bedrock-converse",
+      );
+
+      assert.deepEqual(segments, [
+        { index: 0, role: "user", toolName: null, text: "List files" },
+        { index: 2, role: "tool", toolName: "ls", text: "a.txt\nb.txt" },
+      ]);
+    });
+  });
+
+  describe("unknown formats", () => {
+    it("detects the body shape", () => {
+      const anthropic = extractMessageSegments(
+        { messages: [{ role: "user", content: [{ type: "tool_result", tool_use_id: "t", content: "x" }] }] },
+        "unknown",
+      );
+      assert.equal(anthropic[0].role, "tool");
+
+      const gemini = extractMessageSegments({ contents: [{ role: "user", parts: [{ text: "g" }] }] }, "raw");
+      assert.equal(gemini[0].text, "g");
+    });
+
+    it("returns nothing for non-object bodies", () => {
+      assert.deepEqual(extractMessageSegments(null, "anthropic-messages"), []);
+      assert.deepEqual(extractMessageSegments([1, 2], "chat-completions"), []);
+    });
+  });
+});
@@ -4,6 +4,7 @@ import assert from "node:assert/strict";
 import {
   CONTEXT_LIMITS,
   MODEL_PRICING,
+  estimateContextUtilization,
   estimateCost,
   getContextLimit,
   getKnownModels,
@@ -159,4 +160,35 @@ describe("models.ts", () => {
       assert.equal(CONTEXT_LIMITS["gemini-2.5-flash"], 1048576);
     });
   });
+
+  describe("estimateContextUtilization", () => {
+    it("compares the estimated body size to the model's limit", () => {
+      const body = { model: "gpt-4o", messages: [{ role: "user", content: "x".repeat(256_000) }] };
+      const util = estimateContextUtilization(body)!;
+      assert.equal(util.model, "gpt-4o");
+      assert.equal(util.contextLimit, 128000);
+      assert.ok(util.estimatedTokens >= 64_000);
+      assert.equal(util.percent, 50);
+    });
+
+    it("reads the Gemini model from the path", () => {
+      const util = estimateContextUtilization(
+        { contents: [] },
+        "/v1beta/models/gemini-2.5-flash:streamGenerateContent?alt=sse",
+      );
+      assert.equal(util?.model, "gemini-2.5-flash");
+      assert.equal(util?.contextLimit, 1048576);
+    });
+
+    it("uses a model given explicitly, such as an Azure deployment's", () => {
+      const util = estimateContextUtilization({ messages: [] }, "/openai/deployments/prod/chat/completions", "gpt-4o");
+      assert.equal(util?.model, "gpt-4o");
+      assert.equal(util?.contextLimit, 128000);
+    });
+
+    it("returns null when no model is named", () => {
+      assert.equal(estimateContextUtilization({ messages: [] }, "/v1/messages"), null);
+      assert.equal(estimateContextUtilization(null), null);
+    });
+  });
 });
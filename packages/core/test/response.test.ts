@@ -3,13 +3,27 @@ import assert from "node:assert/strict";
 
 import {
   extractResponseId,
+  extractResponseText,
   parseResponseUsage,
   parseStreamingTokens,
   type ParsedResponseUsage,
 } from "../dist/response.js";
+import { encodeEventStreamMessage } from "../dist/eventstream.js";
 
 type UsageWithThinking = ParsedResponseUsage & { thinkingTokens: number };
 
+/** Encode Bedrock event-stream messages; InvokeModel events are wrapped as base64 chunks. */
+function bedrockStream(events: Array<{ type: string; body: unknown }>): Buffer {
+  return Buffer.concat(
+    events.map(({ type, body }) => {
+      const json = JSON.stringify(body);
+      const payload =
+        type === "chunk" ? JSON.stringify({ bytes: Buffer.from(json).toString("base64") }) : json;
+      return encodeEventStreamMessage({ ":event-type": type, ":message-type": "event" }, payload);
+    }),
+  );
+}
+
 describe("response.ts", () => {
   describe("parseResponseUsage", () => {
     it("returns zeros for null/undefined", () => {
@@ -162,6 +176,33 @@ describe("response.ts", () => {
       assert.equal(result.model, "gpt-4.1");
     });
 
+    it("parses Bedrock Converse usage and stop reason", () => {
+      const body = JSON.stringify({
+        output: { message: { role: "assistant", content: [{ text: "hi" }] } },
+        stopReason: "end_turn",
+        usage: { inputTokens: 25, outputTokens: 3, totalTokens: 28, cacheWriteInputTokens: 100 },
+      });
+      const result = parseResponseUsage(body);
+      assert.equal(result.inputTokens, 25);
+      assert.equal(result.outputTokens, 3);
+      assert.equal(result.cacheWriteTokens, 100);
+      assert.deepEqual(result.finishReasons, ["end_turn"]);
+    });
+
+    it("parses Bedrock streams rendered as SSE in captures", () => {
+      const chunks = [
+        "event: chunk",
+        'data: {"type":"message_start","message":{"usage":{"input_tokens":12}}}',
+        "",
+        "event: chunk",
+        'data: {"type":"message_stop","amazon-bedrock-invocationMetrics":{"inputTokenCount":12,"outputTokenCount":5}}',
+      ].join("\n");
+      const result = parseResponseUsage(chunks);
+      assert.equal(result.stream, true);
+      assert.equal(result.inputTokens, 12);
+      assert.equal(result.outputTokens, 5);
+    });
+
     it("parses Context Lens streaming response wrapper objects", () => {
       const chunks = `data: {"type":"message_start","message":{"model":"claude-3-5-sonnet-20241022","usage":{"input_tokens":100,"cache_read_input_tokens":50}}}
 data: {"type":"message_delta","delta":{"stop_reason":"end_turn"},"usage":{"output_tokens":75}}
@@ -230,6 +271,20 @@ data: [DONE]`;
       assert.deepEqual(result!.finishReasons, ["stop"]);
     });
 
+    it("parses Azure OpenAI streaming SSE like OpenAI's", () => {
+      // Azure sends a prompt_filter_results event with no choices first
+      const chunks = `data: {"choices":[],"prompt_filter_results":[{"prompt_index":0}]}
+data: {"model":"gpt-4o-2024-08-06","choices":[{"index":0,"delta":{"content":"Hi"},"finish_reason":"stop"}]}
+data: {"model":"gpt-4o-2024-08-06","usage":{"prompt_tokens":12,"completion_tokens":3},"choices":[]}
+data: [DONE]`;
+
+      const result = parseStreamingTokens(chunks, "azure-openai");
+      assert.equal(result?.inputTokens, 12);
+      assert.equal(result?.outputTokens, 3);
+      assert.equal(result?.model, "gpt-4o-2024-08-06");
+      assert.deepEqual(result?.finishReasons, ["stop"]);
+    });
+
     it("parses Gemini streaming SSE", () => {
       const chunks = `data: {"candidates":[{"finishReason":"STOP"}],"usageMetadata":{"promptTokenCount":50,"candidatesTokenCount":25,"cachedContentTokenCount":10}}
 data: [DONE]`;
@@ -242,6 +297,61 @@ data: [DONE]`;
       assert.deepEqual(result!.finishReasons, ["STOP"]);
     });
 
+    it("decodes Bedrock InvokeModel event streams", () => {
+      const stream = bedrockStream([
+        {
+          type: "chunk",
+          body: { type: "message_start", message: { model: "claude-sonnet-4-20250514", usage: { input_tokens: 120 } } },
+        },
+        { type: "chunk", body: { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Hi" } } },
+        { type: "chunk", body: { type: "message_delta", delta: { stop_reason: "end_turn" }, usage: { output_tokens: 9 } } },
+        {
+          type: "chunk",
+          body: { type: "message_stop", "amazon-bedrock-invocationMetrics": { inputTokenCount: 120, outputTokenCount: 9 } },
+        },
+      ]);
+
+      const result = parseStreamingTokens(stream, "bedrock");
+      assert.ok(result);
+      assert.equal(result!.inputTokens, 120);
+      assert.equal(result!.outputTokens, 9);
+      assert.equal(result!.model, "claude-sonnet-4-20250514");
+      assert.deepEqual(result!.finishReasons, ["end_turn"]);
+    });
+
+    it("decodes Bedrock Converse event streams", () => {
+      const stream = bedrockStream([
+        { type: "messageStart", body: { role: "assistant" } },
+        { type: "contentBlockDelta", body: { contentBlockIndex: 0, delta: { text: "Hi" } } },
+        { type: "messageStop", body: { stopReason: "end_turn" } },
+        {
+          type: "metadata",
+          body: { usage: { inputTokens: 30, outputTokens: 4, totalTokens: 34, cacheReadInputTokens: 10 } },
+        },
+      ]);
+
+      const result = parseStreamingTokens(stream, "bedrock");
+      assert.ok(result);
+      assert.equal(result!.inputTokens, 30);
+      assert.equal(result!.outputTokens, 4);
+      assert.equal(result!.cacheReadTokens, 10);
+      assert.deepEqual(result!.finishReasons, ["end_turn"]);
+    });
+
+    it("falls back to Bedrock invocation metrics for other models", () => {
+      const stream = bedrockStream([
+        { type: "chunk", body: { generation: "Hi", stop_reason: null } },
+        {
+          type: "chunk",
+          body: { generation: "", stop_reason: "stop", "amazon-bedrock-invocationMetrics": { inputTokenCount: 7, outputTokenCount: 2 } },
+        },
+      ]);
+
+      const result = parseStreamingTokens(stream, "bedrock");
+      assert.equal(result?.inputTokens, 7);
+      assert.equal(result?.outputTokens, 2);
+    });
+
     it("returns null when no usage found", () => {
       const chunks = `data: {"foo":"bar"}
 data: [DONE]`;
@@ -286,6 +396,78 @@ data: [DONE]`,
     });
   });
 
+  describe("extractResponseText", () => {
+    it("joins Anthropic text blocks", () => {
+      const body = JSON.stringify({
+        content: [
+          { type: "text", text: "Hello " },
+          { type: "tool_use", name: "read", input: {} },
+          { type: "text", text: "world" },
+        ],
+      });
+      assert.equal(extractResponseText(body), "Hello world");
+    });
+
+    it("reads OpenAI chat and Responses bodies", () => {
+      assert.equal(
+        extractResponseText(JSON.stringify({ choices: [{ message: { content: "hi" } }] })),
+        "hi",
+      );
+      assert.equal(
+        extractResponseText(JSON.stringify({
+          output: [{ type: "message", content: [{ type: "output_text", text: "resp" }] }],
+        })),
+        "resp",
+      );
+    });
+
+    it("skips Gemini thought parts", () => {
+      const body = JSON.stringify({
+        candidates: [{ content: { parts: [{ text: "hmm", thought: true }, { text: "answer" }] } }],
+      });
+      assert.equal(extractResponseText(body), "answer");
+    });
+
+    it("concatenates streaming deltas across formats", () => {
+      const anthropic = [
+        'data: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"Hel"}}',
+        'data: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"lo"}}',
+      ].join("\n\n");
+      assert.equal(extractResponseText(anthropic), "Hello");
+
+      const openai = [
+        'data: {"choices":[{"delta":{"content":"a"}}]}',
+        'data: {"choices":[{"delta":{"content":"b"}}]}',
+        "data: [DONE]",
+      ].join("\n\n");
+      assert.equal(extractResponseText(openai), "ab");
+
+      const responses = 'data: {"type":"response.output_text.delta","delta":"x"}';
+      assert.equal(extractResponseText(responses), "x");
+    });
+
+    it("reads Bedrock Converse bodies and streams", () => {
+      const body = JSON.stringify({
+        output: { message: { role: "assistant", content: [{ text: "conv" }, { toolUse: { name: "ls" } }] } },
+        stopReason: "tool_use",
+      });
+      assert.equal(extractResponseText(body), "conv");
+
+      const stream = [
+        "event: contentBlockDelta",
+        'data: {"contentBlockIndex":0,"delta":{"text":"a"}}',
+        "",
+        "event: contentBlockDelta",
+        'data: {"contentBlockIndex":0,"delta":{"text":"b"}}',
+      ].join("\n");
+      assert.equal(extractResponseText(stream), "ab");
+    });
+
+    it("returns empty string for unparseable bodies", () => {
+      assert.equal(extractResponseText("not json"), "");
+    });
+  });
+
   describe("round-trip with parseResponseUsage", () => {
     it("handles string input as streaming", () => {
       const chunks = `data: {"type":"message_start","message":{"usage":{"input_tokens":100}}}
@@ -4,9 +4,12 @@ import assert from "node:assert/strict";
 import {
   classifyRequest,
   extractSource,
+  namedUpstreamForUrl,
+  resolveAzureDeployment,
+  resolveNamedUpstream,
   resolveTargetUrl,
 } from "../dist/index.js";
-import type { Upstreams } from "../dist/types.js";
+import type { NamedUpstream, Upstreams } from "../dist/types.js";
 
 const mockUpstreams: Upstreams = {
   anthropic: "https://api.anthropic.com",
@@ -15,8 +18,14 @@ const mockUpstreams: Upstreams = {
   geminiCodeAssist: "https://cloudcode-assist.googleusercontent.com",
   chatgpt: "https://chatgpt.com/backend-api",
   vertex: "https://us-central1-aiplatform.googleapis.com",
+  bedrock: "https://bedrock-runtime.us-east-1.amazonaws.com",
+  azureOpenai: "https://my-resource.openai.azure.com",
 };
 
+const SIGV4_AUTH =
+  "AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20250101/eu-west-1/bedrock/aws4_request, " +
+  "SignedHeaders=host;x-amz-date, Signature=abc123";
+
 describe("classifyRequest", () => {
   it("classifies ChatGPT backend traffic", () => {
     const result = classifyRequest("/api/some-endpoint", {});
@@ -147,6 +156,59 @@ describe("classifyRequest", () => {
     );
     assert.equal(result.provider, "vertex");
   });
+
+  it("classifies Bedrock InvokeModel for Claude as anthropic-messages", () => {
+    for (const model of [
+      "anthropic.claude-sonnet-4-20250514-v1%3A0",
+      "us.anthropic.claude-sonnet-4-20250514-v1:0",
+      "arn%3Aaws%3Abedrock%3Aus-east-1%3A123456789012%3Ainference-profile%2Fus.anthropic.claude-3-5-haiku-20241022-v1%3A0",
+    ]) {
+      for (const op of ["invoke", "invoke-with-response-stream"]) {
+        const result = classifyRequest(`/model/${model}/${op}`, { "anthropic-version": "bedrock-2023-05-31" });
+        assert.deepEqual(result, { provider: "bedrock", apiFormat: "anthropic-messages" }, `${model} ${op}`);
+      }
+    }
+  });
+
+  it("classifies Bedrock Converse and other models", () => {
+    assert.deepEqual(classifyRequest("/model/meta.llama3-70b-instruct-v1%3A0/converse-stream", {}), {
+      provider: "bedrock",
+      apiFormat: "bedrock-converse",
+    });
+    assert.deepEqual(classifyRequest("/model/amazon.titan-text-express-v1/invoke", {}), {
+      provider: "bedrock",
+      apiFormat: "unknown",
+    });
+  });
+
+  it("classifies Azure OpenAI deployment and v1 routes", () => {
+    assert.deepEqual(classifyRequest("/openai/deployments/prod-chat/chat/completions", {}), {
+      provider: "azure-openai",
+      apiFormat: "chat-completions",
+    });
+    assert.deepEqual(classifyRequest("/openai/v1/responses", {}), {
+      provider: "azure-openai",
+      apiFormat: "responses",
+    });
+    assert.deepEqual(classifyRequest("/openai/deployments/embed/embeddings", {}), {
+      provider: "azure-openai",
+      apiFormat: "unknown",
+    });
+  });
+
+  it("classifies OpenAI-style requests with an api-key header as Azure OpenAI", () => {
+    assert.equal(classifyRequest("/chat/completions", { "api-key": "secret" }).provider, "azure-openai");
+    assert.equal(classifyRequest("/v1/embeddings", { "api-key": "secret" }).provider, "azure-openai");
+  });
+
+  it("ignores an api-key header on provider-specific paths", () => {
+    assert.deepEqual(classifyRequest("/v1/messages", { "api-key": "secret" }), {
+      provider: "anthropic",
+      apiFormat: "anthropic-messages",
+    });
+    assert.equal(classifyRequest("/v1beta/models/gemini-2.0-flash:generateContent", { "api-key": "secret" }).provider, "gemini");
+    assert.equal(classifyRequest("/api/codex/responses", { "api-key": "secret" }).provider, "chatgpt");
+  });
 });
 
 describe("extractSource", () => {
@@ -271,6 +333,19 @@ describe("extractSource", () => {
     const result = extractSource("/source/12345678/v1/messages");
     assert.equal(result.sessionId, "12345678");
   });
+  it("does not treat Azure deployment paths as a source tag", () => {
+    assert.equal(extractSource("/openai/deployments/prod-chat/chat/completions").source, null);
+    const tagged = extractSource("/aider/openai/deployments/prod-chat/chat/completions");
+    assert.equal(tagged.source, "aider");
+    assert.equal(tagged.cleanPath, "/openai/deployments/prod-chat/chat/completions");
+  });
+
+  it("does not treat Bedrock /model/ paths as a source tag", () => {
+    assert.equal(extractSource("/model/anthropic.claude-v2/invoke").source, null);
+    const tagged = extractSource("/claude/ab12cd34/model/anthropic.claude-v2/invoke");
+    assert.equal(tagged.source, "claude");
+    assert.equal(tagged.cleanPath, "/model/anthropic.claude-v2/invoke");
+  });
 });
 
 describe("resolveTargetUrl", () => {
@@ -436,6 +511,104 @@ describe("resolveTargetUrl", () => {
     );
     assert.equal(result.provider, "anthropic");
   });
+
+  it("resolves Bedrock to the region named in the SigV4 credential scope", () => {
+    const path = "/model/anthropic.claude-sonnet-4-20250514-v1%3A0/invoke-with-response-stream";
+    const signed = resolveTargetUrl(path, "", { authorization: SIGV4_AUTH }, mockUpstreams);
+    assert.equal(signed.provider, "bedrock");
+    assert.equal(signed.targetUrl, `https://bedrock-runtime.eu-west-1.amazonaws.com${path}`);
+
+    // Bearer API keys carry no region
+    const bearer = resolveTargetUrl(path, "", { authorization: "Bearer ABSKexample" }, mockUpstreams);
+    assert.equal(bearer.targetUrl, `https://bedrock-runtime.us-east-1.amazonaws.com${path}`);
+  });
+
+  it("resolves Azure OpenAI to the configured resource", () => {
+    const path = "/openai/deployments/prod-chat/chat/completions";
+    const result = resolveTargetUrl(path, "?api-version=2024-10-21", { "api-key": "secret" }, mockUpstreams);
+    assert.equal(result.provider, "azure-openai");
+    assert.equal(result.targetUrl, `https://my-resource.openai.azure.com${path}?api-version=2024-10-21`);
+  });
+});
+
+describe("resolveAzureDeployment", () => {
+  it("reads the deployment and API version and maps the deployment to its model", () => {
+    assert.deepEqual(
+      resolveAzureDeployment(
+        "/openai/deployments/prod-chat/chat/completions",
+        "?api-version=2024-10-21",
+        { messages: [] },
+        { "prod-chat": "gpt-4o" },
+      ),
+      { deployment: "prod-chat", apiVersion: "2024-10-21", model: "gpt-4o" },
+    );
+  });
+
+  it("falls back to the deployment name and reads v1 deployments from the body", () => {
+    assert.deepEqual(resolveAzureDeployment("/openai/v1/chat/completions", null, { model: "gpt-4o-mini" }), {
+      deployment: "gpt-4o-mini",
+      apiVersion: null,
+      model: "gpt-4o-mini",
+    });
+    assert.equal(resolveAzureDeployment("/openai/deployments/toString/embeddings", null, null).model, "toString");
+  });
+});
+
+describe("resolveNamedUpstream", () => {
+  const registry: Record<string, NamedUpstream> = {
+    ollama: { baseUrl: "http://localhost:11434", models: ["llama", "qwen"] },
+    openrouter: { baseUrl: "https://openrouter.ai/api/", models: ["qwen/"] },
+    mistral: { baseUrl: "https://api.mistral.ai", authHeader: "X-Api-Key", apiFormat: "chat-completions" },
+  };
+
+  it("selects the entry named by the source tag", () => {
+    assert.deepEqual(resolveNamedUpstream("/v1/models", "?limit=5", {}, "mistral", null, registry), {
+      name: "mistral",
+      targetUrl: "https://api.mistral.ai/v1/models?limit=5",
+      apiFormat: "chat-completions",
+      authHeader: "x-api-key",
+    });
+  });
+
+  it("selects the longest matching model prefix", () => {
+    const path = "/v1/chat/completions";
+    assert.equal(resolveNamedUpstream(path, null, {}, null, { model: "llama3.1:8b" }, registry)?.name, "ollama");
+    const routed = resolveNamedUpstream(path, null, {}, "claude", { model: "qwen/qwen3-coder" }, registry);
+    assert.equal(routed?.name, "openrouter");
+    assert.equal(routed?.targetUrl, "https://openrouter.ai/api/v1/chat/completions");
+    assert.equal(routed?.apiFormat, "chat-completions");
+    assert.equal(routed?.authHeader, "authorization");
+  });
+
+  it("leaves other requests to the provider defaults", () => {
+    const body = { model: "llama3.1:8b" };
+    assert.equal(resolveNamedUpstream("/v1/chat/completions", null, {}, null, { model: "gpt-4o" }, registry), null);
+    assert.equal(resolveNamedUpstream("/v1/messages", null, {}, null, body, registry), null);
+    assert.equal(
+      resolveNamedUpstream("/v1/chat/completions", null, { "x-target-url": "https://api.openai.com" }, "ollama", body, registry),
+      null,
+    );
+    assert.equal(resolveNamedUpstream("/v1/chat/completions", null, {}, "constructor", null, registry), null);
+  });
+});
+
+describe("namedUpstreamForUrl", () => {
+  const registry: Record<string, NamedUpstream> = {
+    ollama: { baseUrl: "http://localhost:11434" },
+    openrouter: { baseUrl: "https://openrouter.ai/" },
+    openrouterApi: { baseUrl: "https://openrouter.ai/api" },
+  };
+
+  it("picks the longest base URL containing the target", () => {
+    assert.equal(namedUpstreamForUrl("http://localhost:11434/v1/chat/completions", registry), "ollama");
+    assert.equal(namedUpstreamForUrl("https://openrouter.ai/api/v1/chat/completions", registry), "openrouterApi");
+    assert.equal(namedUpstreamForUrl("https://openrouter.ai/apis/v1", registry), "openrouter");
+  });
+
+  it("returns null outside the registry", () => {
+    assert.equal(namedUpstreamForUrl("http://localhost:114345/v1/models", registry), null);
+    assert.equal(namedUpstreamForUrl("https://api.openai.com/v1/models", registry), null);
+  });
 });
 
 describe("round-trip classification and resolution", () => {
@@ -0,0 +1,53 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import { buildProviderError, buildProviderStreamError } from "../dist/synthetic.js";
+
+describe("buildProviderError", () => {
+  it("builds Anthropic-shaped errors", () => {
+    const res = buildProviderError("anthropic-messages", 403, "nope");
+    assert.equal(res.status, 403);
+    assert.equal(res.headers?.["content-type"], "application/json");
+    assert.deepEqual(JSON.parse(res.body), {
+      type: "error",
+      error: { type: "permission_error", message: "nope" },
+    });
+  });
+
+  it("builds OpenAI-shaped errors for chat and responses formats", () => {
+    for (const format of ["chat-completions", "responses", "chatgpt-backend"]) {
+      const res = buildProviderError(format, 400, "bad", "policy_block");
+      assert.deepEqual(JSON.parse(res.body), {
+        error: { message: "bad", type: "invalid_request_error", param: null, code: "policy_block" },
+      });
+    }
+  });
+
+  it("builds Gemini-shaped errors", () => {
+    const res = buildProviderError("gemini", 429, "slow down");
+    assert.deepEqual(JSON.parse(res.body), {
+      error: { code: 429, message: "slow down", status: "RESOURCE_EXHAUSTED" },
+    });
+  });
+
+  it("builds Bedrock Converse-shaped errors", () => {
+    const res = buildProviderError("bedrock-converse", 400, "blocked");
+    assert.deepEqual(JSON.parse(res.body), { message: "blocked" });
+  });
+});
+
+describe("buildProviderStreamError", () => {
+  it("uses a named error event for Anthropic", () => {
+    const sse = buildProviderStreamError("anthropic-messages", "stop");
+    assert.ok(sse.startsWith("event: error\ndata: "));
+    assert.ok(sse.endsWith("\n\n"));
+    const data = JSON.parse(sse.split("\n")[1].slice(6));
+    assert.equal(data.error.message, "stop");
+  });
+
+  it("uses a plain data line for Chat Completions", () => {
+    const sse = buildProviderStreamError("chat-completions", "stop");
+    assert.ok(sse.startsWith("data: {"));
+    assert.equal(JSON.parse(sse.slice(6)).error.message, "stop");
+  });
+});
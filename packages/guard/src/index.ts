@@ -0,0 +1,366 @@
+/**
+ * @contextio/guard - Prompt injection and output scanning for LLM API calls.
+ *
+ * Proxy plugin that runs the core security scanners on live traffic:
+ * request bodies go through `scanRequest` (prompt injection, role
+ * confusion in tool output, suspicious Unicode), and the assistant's
+ * response text goes through `scanOutput` (jailbreak markers, dangerous
+ * code, suspicious URLs).
+ *
+ * Findings are attached to the capture under `security`. Three modes:
+ * - `observe`: record findings only
+ * - `warn`: record and log them to stderr
+ * - `block`: also reject requests (and cut off responses) whose findings
+ *   reach the blocking severity, using a provider-shaped error
+ *
+ * Bedrock event streams are decoded message by message and scanned like
+ * SSE; a blocked one ends with an event-stream exception message.
+ *
+ * ```typescript
+ * import { createGuardPlugin } from '@contextio/guard';
+ *
+ * const guard = createGuardPlugin({ mode: "block" });
+ * ```
+ */
+
+import { StringDecoder } from "node:string_decoder";
+
+import {
+  buildProviderError,
+  buildProviderStreamError,
+  createEventStreamDecoder,
+  encodeEventStreamMessage,
+  eventStreamToSse,
+  extractResponseText,
+  scanOutput,
+  scanRequest,
+} from "@contextio/core";
+import type {
+  CaptureAnnotations,
+  EventStreamMessage,
+  OutputAlert,
+  ProxyPlugin,
+  RequestContext,
+  ResponseContext,
+  SecurityAlert,
+  SecurityFindings,
+} from "@contextio/core";
+
+/** How the guard reacts to findings. */
+export type GuardMode = "observe" | "warn" | "block";
+
+/** Severity at or above which block mode rejects. */
+export type GuardBlockSeverity = "high" | "medium";
+
+/** Configuration for {@link createGuardPlugin}. */
+export interface GuardPluginConfig {
+  /** Default: "warn". */
+  mode?: GuardMode;
+  /**
+   * Minimum alert severity that blocks in block mode. Applies to both
+   * request and response findings. Default: "high".
+   */
+  blockSeverity?: GuardBlockSeverity;
+  /** Scan response text with `scanOutput`. Default: true. */
+  scanResponses?: boolean;
+  /** Options forwarded to `scanOutput` (custom regexes, ban list, etc.). */
+  outputOptions?: Parameters<typeof scanOutput>[1];
+}
+
+/** Per-request state for the response in flight. */
+interface ResponseState {
+  /** Annotations object of the request, which keys this state. */
+  owner: CaptureAnnotations;
+  apiFormat: string;
+  findings: SecurityFindings;
+  /** Decoder for Bedrock event-stream responses; null for SSE. */
+  decoder: ReturnType<typeof createEventStreamDecoder> | null;
+  /** UTF-8 decoder for SSE chunks, so characters split across chunks survive. */
+  textDecoder: StringDecoder;
+  /**
+   * Raw SSE text not yet split into complete events (block mode), or the
+   * whole body. Event streams add their decoded messages here as SSE.
+   */
+  pending: string;
+  /** Assistant text assembled from complete events so far. */
+  text: string;
+  /** Offset in `text` up to which output has been scanned. */
+  scannedTo: number;
+  seen: Set<string>;
+  blocked: boolean;
+}
+
+const GUARD_VALID_MODES: GuardMode[] = ["observe", "warn", "block"];
+
+/**
+ * Characters of already-scanned text re-scanned with each new chunk, so
+ * patterns split across chunk boundaries are still found.
+ */
+const RESCAN_OVERLAP = 256;
+
+/** Type guard for mode strings coming from CLI flags or config files. */
+export function isGuardMode(value: string): value is GuardMode {
+  return (GUARD_VALID_MODES as string[]).includes(value);
+}
+
+function meetsSeverity(
+  severity: SecurityAlert["severity"] | OutputAlert["severity"],
+  threshold: GuardBlockSeverity,
+): boolean {
+  if (severity === "high") return true;
+  return threshold === "medium" && severity === "medium";
+}
+
+/** Find the end offset of the last complete SSE event in `text`, or -1. */
+function lastEventBoundary(text: string): number {
+  let end = -1;
+  const boundary = /\r?\n\r?\n/g;
+  let match: RegExpExecArray | null;
+  while ((match = boundary.exec(text)) !== null) {
+    end = match.index + match[0].length;
+  }
+  return end;
+}
+
+/**
+ * Create a guard plugin.
+ *
+ * Request messages are scanned in onRequest. Non-streaming responses are
+ * scanned in onResponse; streaming responses are assembled from SSE
+ * events and scanned incrementally in block mode (so a dangerous
+ * response can be cut off mid-stream) or once at stream end otherwise.
+ */
+export function createGuardPlugin(config?: GuardPluginConfig): ProxyPlugin {
+  const mode = config?.mode ?? "warn";
+  const threshold = config?.blockSeverity ?? "high";
+  const scanResponses = config?.scanResponses ?? true;
+  const outputOptions = config?.outputOptions;
+
+  if (!isGuardMode(mode)) {
+    throw new Error(`Unknown guard mode "${mode}". Use one of: ${GUARD_VALID_MODES.join(", ")}`);
+  }
+
+  // Response state keyed by the request's annotations object, so
+  // concurrent responses in one session stay apart. Callers of the
+  // stream hooks that pass no annotations get the session's latest.
+  const responses = new WeakMap<CaptureAnnotations, ResponseState>();
+  const latestBySession = new Map<string, ResponseState>();
+
+  function stateFor(sessionId: string | null, annotations?: CaptureAnnotations): ResponseState | undefined {
+    return annotations ? responses.get(annotations) : latestBySession.get(sessionId ?? "__default__");
+  }
+
+  function release(state: ResponseState, sessionId: string | null): void {
+    responses.delete(state.owner);
+    const key = sessionId ?? "__default__";
+    if (latestBySession.get(key) === state) latestBySession.delete(key);
+  }
+
+  function logAlerts(
+    sessionId: string | null,
+    where: string,
+    alerts: (SecurityAlert | OutputAlert)[],
+  ): void {
+    if (mode === "observe") return;
+    const sid = sessionId ? ` [${sessionId}]` : "";
+    for (const alert of alerts) {
+      const origin =
+        "role" in alert
+          ? ` in ${alert.role ?? "unknown"}${alert.toolName ? ` (${alert.toolName})` : ""} message #${alert.index}`
+          : "";
+      console.error(
+        `[guard]${sid} ${alert.severity} ${alert.pattern} in ${where}${origin}: ${JSON.stringify(alert.match)}`,
+      );
+    }
+  }
+
+  function scanText(state: ResponseState, sessionId: string | null, final: boolean): boolean {
+    const start = Math.max(0, state.scannedTo - RESCAN_OVERLAP);
+    const window = state.text.slice(start);
+    state.scannedTo = state.text.length;
+    if (!window && !final) return false;
+
+    const fresh: OutputAlert[] = [];
+    for (const alert of scanOutput(window, outputOptions).alerts) {
+      const shifted = { ...alert, offset: alert.offset + start };
+      const key = `${shifted.pattern}:${shifted.offset}`;
+      if (state.seen.has(key)) continue;
+      state.seen.add(key);
+      fresh.push(shifted);
+    }
+    state.findings.output.push(...fresh);
+    logAlerts(sessionId, "response", fresh);
+
+    return mode === "block" && fresh.some((a) => meetsSeverity(a.severity, threshold));
+  }
+
+  function blockMessage(alerts: (SecurityAlert | OutputAlert)[], side: "Request" | "Response"): string {
+    const patterns = [...new Set(alerts.map((a) => a.pattern))].join(", ");
+    return `${side} blocked by contextio guard: ${patterns}`;
+  }
+
+  /** Mark a streamed response blocked and build the error that ends it, in the stream's framing. */
+  function blockStream(state: ResponseState): Buffer {
+    state.blocked = true;
+    state.findings.blocked = "response";
+    const message = blockMessage(state.findings.output, "Response");
+    if (state.decoder) {
+      return encodeEventStreamMessage(
+        {
+          ":message-type": "exception",
+          ":exception-type": "validationException",
+          ":content-type": "application/json",
+        },
+        JSON.stringify({ message }),
+      );
+    }
+    return Buffer.from(buildProviderStreamError(state.apiFormat, message, "unsafe_output_detected"), "utf8");
+  }
+
+  /**
+   * Bedrock event streams: decode the messages a chunk completes and
+   * scan their events as SSE. Block mode only releases scanned messages.
+   * Bytes that aren't valid framing end scanning and pass through.
+   */
+  function onEventStreamChunk(
+    state: ResponseState,
+    decoder: NonNullable<ResponseState["decoder"]>,
+    chunk: Buffer,
+    sessionId: string | null,
+  ): Buffer {
+    const undecoded = Buffer.concat([decoder.pending(), chunk]);
+    let messages: EventStreamMessage[];
+    try {
+      messages = decoder.push(chunk);
+    } catch {
+      release(state, sessionId);
+      return mode === "block" ? undecoded : chunk;
+    }
+
+    const complete = Buffer.concat(messages.map((m) => m.raw));
+    const sse = eventStreamToSse(complete);
+    if (mode !== "block") {
+      state.pending += sse;
+      return chunk;
+    }
+
+    state.text += extractResponseText(sse);
+    return scanText(state, sessionId, false) ? blockStream(state) : complete;
+  }
+
+  return {
+    name: "guard",
+
+    onRequest(ctx: RequestContext): RequestContext {
+      const result = scanRequest(ctx.body, ctx.apiFormat);
+      const findings: SecurityFindings = {
+        mode,
+        input: result.alerts,
+        output: [],
+        blocked: null,
+      };
+      const annotations = ctx.annotations ?? {};
+      annotations.security = findings;
+
+      logAlerts(ctx.sessionId, "request", result.alerts);
+
+      const blocking = result.alerts.filter((a) => meetsSeverity(a.severity, threshold));
+      if (mode === "block" && blocking.length > 0) {
+        findings.blocked = "request";
+        return {
+          ...ctx,
+          annotations,
+          response: buildProviderError(
+            ctx.apiFormat,
+            400,
+            blockMessage(blocking, "Request"),
+            "prompt_injection_detected",
+          ),
+        };
+      }
+
+      if (scanResponses) {
+        const state: ResponseState = {
+          owner: annotations,
+          apiFormat: ctx.apiFormat,
+          findings,
+          decoder: ctx.provider === "bedrock" ? createEventStreamDecoder() : null,
+          textDecoder: new StringDecoder("utf8"),
+          pending: "",
+          text: "",
+          scannedTo: 0,
+          seen: new Set(),
+          blocked: false,
+        };
+        responses.set(annotations, state);
+        latestBySession.set(ctx.sessionId ?? "__default__", state);
+      }
+
+      return ctx.annotations ? ctx : { ...ctx, annotations };
+    },
+
+    onResponse(ctx: ResponseContext): ResponseContext {
+      const state = stateFor(ctx.sessionId, ctx.annotations);
+      if (!state) return ctx;
+      release(state, ctx.sessionId);
+      if (ctx.status < 200 || ctx.status >= 300) return ctx;
+
+      state.text = extractResponseText(ctx.body);
+      if (!scanText(state, ctx.sessionId, true)) return ctx;
+
+      state.findings.blocked = "response";
+      const error = buildProviderError(
+        state.apiFormat,
+        400,
+        blockMessage(state.findings.output, "Response"),
+        "unsafe_output_detected",
+      );
+      return {
+        ...ctx,
+        status: error.status,
+        headers: { ...ctx.headers, ...error.headers },
+        body: error.body,
+      };
+    },
+
+    onStreamChunk(chunk: Buffer, sessionId: string | null, annotations?: CaptureAnnotations): Buffer {
+      const state = stateFor(sessionId, annotations);
+      if (!state) return chunk;
+      if (state.blocked) return Buffer.alloc(0);
+      if (state.decoder) return onEventStreamChunk(state, state.decoder, chunk, sessionId);
+
+      state.pending += state.textDecoder.write(chunk);
+      if (mode !== "block") return chunk;
+
+      // Block mode: only release complete events, after scanning them.
+      const boundary = lastEventBoundary(state.pending);
+      if (boundary < 0) return Buffer.alloc(0);
+      const complete = state.pending.slice(0, boundary);
+      state.pending = state.pending.slice(boundary);
+      state.text += extractResponseText(complete);
+
+      if (scanText(state, sessionId, false)) return blockStream(state);
+      return Buffer.from(complete, "utf8");
+    },
+
+    onStreamEnd(sessionId: string | null, annotations?: CaptureAnnotations): Buffer | null {
+      const state = stateFor(sessionId, annotations);
+      if (!state) return null;
+      release(state, sessionId);
+      if (state.blocked) return null;
+      if (!state.decoder) state.pending += state.textDecoder.end();
+
+      if (mode !== "block") {
+        state.text = extractResponseText(state.pending);
+        scanText(state, sessionId, true);
+        return null;
+      }
+
+      // Flush the trailing partial event (or message), if any, after a final scan.
+      const rest = state.decoder ? state.decoder.pending() : Buffer.from(state.pending, "utf8");
+      if (!state.decoder) state.text += extractResponseText(state.pending);
+      if (scanText(state, sessionId, true)) return blockStream(state);
+      return rest.length > 0 ? rest : null;
+    },
+  };
+}
@@ -8,6 +8,10 @@
  * Filename format: `{source}_{sessionId}_{timestamp}-{counter}.json`
  * Example: `claude_a1b2c3d4_1739000000000-000001.json`
  *
+ * Redaction audit records (`CaptureData.redactions`) are also appended,
+ * one JSON object per line, to `redactions.jsonl` in the same directory.
+ * That file is never pruned, so it outlives the captures it refers to.
+ *
  * @packageDocumentation
  */
 
@@ -17,6 +21,9 @@ import { join } from "node:path";
 
 import type { CaptureData, ProxyPlugin } from "@contextio/core";
 
+/** Name of the redaction audit log inside the capture directory. */
+export const REDACTION_LOG_FILE = "redactions.jsonl";
+
 /** Configuration for {@link createLoggerPlugin}. */
 export interface LoggerConfig {
   /**
@@ -202,6 +209,32 @@ export function createLoggerPlugin(config?: LoggerConfig): LoggerPlugin {
     }
   }
 
+  /**
+   * Append the capture's redaction records to the audit log, one line
+   * each, tagged with the request they came from. Errors are logged.
+   */
+  function appendRedactions(capture: CaptureData, filename: string | null): void {
+    if (!capture.redactions || capture.redactions.length === 0) return;
+    const lines = capture.redactions.map((record) =>
+      JSON.stringify({
+        timestamp: capture.timestamp,
+        sessionId: capture.sessionId,
+        source: capture.source,
+        provider: capture.provider,
+        capture: filename,
+        ...record,
+      }),
+    );
+    try {
+      fs.appendFileSync(join(captureDir, REDACTION_LOG_FILE), `${lines.join("\n")}\n`);
+    } catch (err: unknown) {
+      console.error(
+        "Redaction log write error:",
+        err instanceof Error ? err.message : String(err),
+      );
+    }
+  }
+
   // Eagerly create directory and prune on construction, not first write.
   ensureDir();
 
@@ -209,7 +242,8 @@ export function createLoggerPlugin(config?: LoggerConfig): LoggerPlugin {
     name: "logger",
     captureDir,
     onCapture(capture: CaptureData): void {
-      write(capture);
+      const filename = write(capture);
+      appendRedactions(capture, filename);
     },
   };
 }
@@ -5,7 +5,7 @@ import { join } from "node:path";
 import { randomBytes } from "node:crypto";
 import { tmpdir } from "node:os";
 
-import { createLoggerPlugin } from "../dist/index.js";
+import { REDACTION_LOG_FILE, createLoggerPlugin } from "../dist/index.js";
 import type { CaptureData } from "@contextio/core";
 
 function tmpDir(): string {
@@ -171,6 +171,33 @@ describe("logger plugin", () => {
 
     fs.rmSync(dir, { recursive: true });
   });
+
+  it("appends redaction records to the audit log", () => {
+    const dir = tmpDir();
+    const logger = createLoggerPlugin({ captureDir: dir });
+
+    const redactions = [
+      { rule: "email", path: "messages[*].content", action: "redacted" as const, placeholder: "[EMAIL_1]", hash: "hmac-sha256:aa" },
+      { rule: "ssn", path: "system", action: "warned" as const, placeholder: null, hash: "hmac-sha256:bb" },
+    ];
+    logger.onCapture!(fakeCapture({ source: "claude", sessionId: "aabbccdd", redactions }));
+    logger.onCapture!(fakeCapture());
+
+    const lines = fs.readFileSync(join(dir, REDACTION_LOG_FILE), "utf8").trim().split("\n").map((l) => JSON.parse(l));
+    const captureFile = fs.readdirSync(dir).find((f) => f.startsWith("claude_"));
+    assert.equal(lines.length, 2);
+    assert.deepEqual(lines[0], {
+      timestamp: lines[0].timestamp,
+      sessionId: "aabbccdd",
+      source: "claude",
+      provider: "anthropic",
+      capture: captureFile,
+      ...redactions[0],
+    });
+    assert.equal(lines[1].rule, "ssn");
+
+    fs.rmSync(dir, { recursive: true });
+  });
 });
 
 describe("session retention", () => {
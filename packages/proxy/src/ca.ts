@@ -0,0 +1,286 @@
+/**
+ * Local certificate authority for HTTPS interception.
+ *
+ * Tools that ignore base URL overrides still honour `HTTPS_PROXY`. To
+ * read their traffic, the proxy terminates TLS for LLM API hosts with a
+ * leaf certificate signed by a local CA that the tool is told to trust.
+ *
+ * Node can generate keys and sign data but has no API for building
+ * certificates, so this module encodes the few X.509 structures needed
+ * (RFC 5280) in DER by hand. Keys are ECDSA P-256.
+ *
+ * The CA lives in `~/.contextio/ca`: `ca-key.pem` (mode 0600),
+ * `ca-cert.pem`, and `ca-bundle.pem` (the system roots plus the CA, for
+ * tools whose `SSL_CERT_FILE` replaces the default trust store).
+ *
+ * Zero external dependencies.
+ */
+
+import crypto from "node:crypto";
+import fs from "node:fs";
+import net from "node:net";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import tls from "node:tls";
+
+/** A loaded (or freshly created) local CA. */
+export interface CertificateAuthority {
+  certPem: string;
+  keyPem: string;
+  /** CA certificate file, e.g. for `NODE_EXTRA_CA_CERTS`. */
+  certFile: string;
+  /** System roots plus the CA certificate, e.g. for `SSL_CERT_FILE`. */
+  bundleFile: string;
+}
+
+/** A leaf certificate and its private key, PEM-encoded. */
+export interface LeafCertificate {
+  certPem: string;
+  keyPem: string;
+}
+
+const CA_NAME = "contextio local CA";
+const CA_VALIDITY_DAYS = 3650;
+/** Below the 398-day limit some clients enforce for server certificates. */
+const LEAF_VALIDITY_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// --- DER encoding (just what certificates need) ---
+
+function der(tag: number, content: Buffer): Buffer {
+  const length = content.length;
+  if (length < 0x80) return Buffer.concat([Buffer.from([tag, length]), content]);
+  const bytes: number[] = [];
+  for (let n = length; n > 0; n >>= 8) bytes.unshift(n & 0xff);
+  return Buffer.concat([Buffer.from([tag, 0x80 | bytes.length, ...bytes]), content]);
+}
+
+const sequence = (...items: Buffer[]): Buffer => der(0x30, Buffer.concat(items));
+const set = (...items: Buffer[]): Buffer => der(0x31, Buffer.concat(items));
+const octetString = (value: Buffer): Buffer => der(0x04, value);
+const utf8String = (value: string): Buffer => der(0x0c, Buffer.from(value, "utf8"));
+const boolean = (value: boolean): Buffer => der(0x01, Buffer.from([value ? 0xff : 0x00]));
+/** Context-specific constructed tag `[n]`. */
+const explicit = (n: number, content: Buffer): Buffer => der(0xa0 + n, content);
+
+/** Unsigned big-endian integer. */
+function integer(value: Buffer): Buffer {
+  let start = 0;
+  while (start < value.length - 1 && value[start] === 0) start++;
+  const trimmed = value.subarray(start);
+  return der(0x02, trimmed[0] & 0x80 ? Buffer.concat([Buffer.from([0]), trimmed]) : trimmed);
+}
+
+function bitString(value: Buffer, unusedBits = 0): Buffer {
+  return der(0x03, Buffer.concat([Buffer.from([unusedBits]), value]));
+}
+
+function objectId(dotted: string): Buffer {
+  const [first, second, ...rest] = dotted.split(".").map(Number);
+  const bytes = [first * 40 + second];
+  for (const part of rest) {
+    const encoded = [part & 0x7f];
+    for (let n = part >>> 7; n > 0; n >>>= 7) encoded.unshift((n & 0x7f) | 0x80);
+    bytes.push(...encoded);
+  }
+  return der(0x06, Buffer.from(bytes));
+}
+
+/** UTCTime through 2049, GeneralizedTime after, as RFC 5280 requires. */
+function time(date: Date): Buffer {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const rest =
+    pad(date.getUTCMonth() + 1) +
+    pad(date.getUTCDate()) +
+    pad(date.getUTCHours()) +
+    pad(date.getUTCMinutes()) +
+    pad(date.getUTCSeconds()) +
+    "Z";
+  const year = date.getUTCFullYear();
+  return year < 2050
+    ? der(0x17, Buffer.from(pad(year % 100) + rest))
+    : der(0x18, Buffer.from(String(year) + rest));
+}
+
+// --- X.509 ---
+
+const OID = {
+  ecdsaWithSha256: "1.2.840.10045.4.3.2",
+  commonName: "2.5.4.3",
+  organization: "2.5.4.10",
+  subjectKeyId: "2.5.29.14",
+  keyUsage: "2.5.29.15",
+  subjectAltName: "2.5.29.17",
+  basicConstraints: "2.5.29.19",
+  authorityKeyId: "2.5.29.35",
+  extKeyUsage: "2.5.29.37",
+  serverAuth: "1.3.6.1.5.5.7.3.1",
+};
+
+function name(commonName: string): Buffer {
+  return sequence(
+    set(sequence(objectId(OID.organization), utf8String("contextio"))),
+    set(sequence(objectId(OID.commonName), utf8String(commonName))),
+  );
+}
+
+function extension(oid: string, critical: boolean, value: Buffer): Buffer {
+  return critical
+    ? sequence(objectId(oid), boolean(true), octetString(value))
+    : sequence(objectId(oid), octetString(value));
+}
+
+function keyId(publicKeyDer: Buffer): Buffer {
+  return crypto.createHash("sha1").update(publicKeyDer).digest();
+}
+
+/** SAN entry: iPAddress for IP literals, dNSName otherwise. */
+function altName(host: string): Buffer {
+  const family = net.isIP(host);
+  if (family === 4) return der(0x87, Buffer.from(host.split(".").map(Number)));
+  if (family === 6) return der(0x87, ipv6Bytes(host));
+  return der(0x82, Buffer.from(host, "ascii"));
+}
+
+/** Expand an IPv6 literal (with optional `::`) to 16 bytes. */
+function ipv6Bytes(address: string): Buffer {
+  const [head, tail = ""] = address.split("::");
+  const headParts = head ? head.split(":") : [];
+  const tailParts = tail ? tail.split(":") : [];
+  const missing = address.includes("::") ? 8 - headParts.length - tailParts.length : 0;
+  const groups = [...headParts, ...Array<string>(missing).fill("0"), ...tailParts];
+  const bytes = Buffer.alloc(16);
+  groups.forEach((g, i) => bytes.writeUInt16BE(parseInt(g, 16), i * 2));
+  return bytes;
+}
+
+interface CertificateFields {
+  subject: string;
+  issuer: string;
+  publicKey: crypto.KeyObject;
+  signingKey: crypto.KeyObject;
+  validityDays: number;
+  extensions: Buffer[];
+}
+
+function buildCertificate(fields: CertificateFields): string {
+  const now = Date.now();
+  const serial = crypto.randomBytes(16);
+  serial[0] &= 0x7f;
+  const algorithm = sequence(objectId(OID.ecdsaWithSha256));
+
+  const tbs = sequence(
+    explicit(0, integer(Buffer.from([2]))), // v3
+    integer(serial),
+    algorithm,
+    name(fields.issuer),
+    // Backdated an hour to tolerate clock skew
+    sequence(time(new Date(now - 60 * 60 * 1000)), time(new Date(now + fields.validityDays * DAY_MS))),
+    name(fields.subject),
+    fields.publicKey.export({ type: "spki", format: "der" }),
+    explicit(3, sequence(...fields.extensions)),
+  );
+  const signature = crypto.sign("sha256", tbs, fields.signingKey);
+  const certificate = sequence(tbs, algorithm, bitString(signature));
+
+  const base64 = certificate.toString("base64").replace(/.{1,64}/g, "$&\n");
+  return `-----BEGIN CERTIFICATE-----\n${base64}-----END CERTIFICATE-----\n`;
+}
+
+function generateKey(): crypto.KeyObject {
+  return crypto.generateKeyPairSync("ec", { namedCurve: "prime256v1" }).privateKey;
+}
+
+function spki(key: crypto.KeyObject): Buffer {
+  return crypto.createPublicKey(key).export({ type: "spki", format: "der" });
+}
+
+/** Create a self-signed CA certificate and key. */
+export function createCertificateAuthority(): { certPem: string; keyPem: string } {
+  const key = generateKey();
+  const certPem = buildCertificate({
+    subject: CA_NAME,
+    issuer: CA_NAME,
+    publicKey: crypto.createPublicKey(key),
+    signingKey: key,
+    validityDays: CA_VALIDITY_DAYS,
+    extensions: [
+      extension(OID.basicConstraints, true, sequence(boolean(true))),
+      extension(OID.keyUsage, true, bitString(Buffer.from([0x06]), 1)), // keyCertSign, cRLSign
+      extension(OID.subjectKeyId, false, octetString(keyId(spki(key)))),
+    ],
+  });
+  return { certPem, keyPem: key.export({ type: "pkcs8", format: "pem" }).toString() };
+}
+
+/** Issue a server certificate for `host` (a DNS name or IP literal), signed by the CA. */
+export function issueLeafCertificate(
+  ca: Pick<CertificateAuthority, "keyPem">,
+  host: string,
+): LeafCertificate {
+  const key = generateKey();
+  const caKey = crypto.createPrivateKey(ca.keyPem);
+  const certPem = buildCertificate({
+    subject: host,
+    issuer: CA_NAME,
+    publicKey: crypto.createPublicKey(key),
+    signingKey: caKey,
+    validityDays: LEAF_VALIDITY_DAYS,
+    extensions: [
+      extension(OID.basicConstraints, true, sequence()),
+      extension(OID.keyUsage, true, bitString(Buffer.from([0x80]), 7)), // digitalSignature
+      extension(OID.extKeyUsage, false, sequence(objectId(OID.serverAuth))),
+      extension(OID.subjectAltName, false, sequence(altName(host))),
+      extension(OID.authorityKeyId, false, sequence(der(0x80, keyId(spki(caKey))))),
+    ],
+  });
+  return { certPem, keyPem: key.export({ type: "pkcs8", format: "pem" }).toString() };
+}
+
+// --- Storage ---
+
+/** Default CA directory: `~/.contextio/ca`. */
+export function defaultCaDir(): string {
+  return join(homedir(), ".contextio", "ca");
+}
+
+/** Write the trust bundle (system roots + CA) atomically. */
+function writeBundle(bundleFile: string, certPem: string): void {
+  const tmp = `${bundleFile}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, `${tls.rootCertificates.join("\n")}\n${certPem}`);
+  fs.renameSync(tmp, bundleFile);
+}
+
+/**
+ * Load the local CA from `dir`, creating it on first use.
+ *
+ * A new CA is written to a temporary directory and renamed into place,
+ * so concurrent callers never see a key without its certificate: if
+ * another process wins the race, its CA is used.
+ */
+export function loadOrCreateCA(dir = defaultCaDir()): CertificateAuthority {
+  const certFile = join(dir, "ca-cert.pem");
+  const keyFile = join(dir, "ca-key.pem");
+  const bundleFile = join(dir, "ca-bundle.pem");
+
+  if (!fs.existsSync(certFile)) {
+    const tmpDir = `${dir}.${process.pid}.tmp`;
+    const { certPem, keyPem } = createCertificateAuthority();
+    fs.mkdirSync(tmpDir, { recursive: true, mode: 0o700 });
+    fs.writeFileSync(join(tmpDir, "ca-key.pem"), keyPem, { mode: 0o600 });
+    fs.writeFileSync(join(tmpDir, "ca-cert.pem"), certPem);
+    writeBundle(join(tmpDir, "ca-bundle.pem"), certPem);
+    try {
+      fs.renameSync(tmpDir, dir);
+    } catch (err: unknown) {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+      const code = (err as NodeJS.ErrnoException).code;
+      if (code !== "EEXIST" && code !== "ENOTEMPTY") throw err;
+    }
+  }
+
+  const certPem = fs.readFileSync(certFile, "utf8");
+  const keyPem = fs.readFileSync(keyFile, "utf8");
+  if (!fs.existsSync(bundleFile)) writeBundle(bundleFile, certPem);
+  return { certPem, keyPem, certFile, bundleFile };
+}
@@ -6,7 +6,12 @@
  * flags are resolved here before the proxy starts.
  */
 
-import type { ProxyConfig, Upstreams } from "@contextio/core";
+import fs from "node:fs";
+
+import type { ApiFormat, NamedUpstream, ProxyConfig, Upstreams } from "@contextio/core";
+
+import { awsCredentialsFromEnv } from "./sigv4.js";
+import type { AwsCredentials } from "./sigv4.js";
 
 /**
  * Fully resolved config with all defaults applied.
@@ -16,6 +21,76 @@ export interface ResolvedProxyConfig {
   bindHost: string;
   port: number;
   allowTargetOverride: boolean;
+  /** Credentials for re-signing Bedrock requests, or null if none are set. */
+  awsCredentials: AwsCredentials | null;
+  /** Azure OpenAI deployment names mapped to the models they serve. */
+  azureDeployments: Record<string, string>;
+  /** OpenAI-compatible backends by name (see `NamedUpstream`). */
+  namedUpstreams: Record<string, NamedUpstream>;
+}
+
+/** Parse `name=model,name=model` into a map; entries without a model are skipped. */
+function parseAzureDeployments(value: string | undefined): Record<string, string> {
+  const deployments: Record<string, string> = {};
+  for (const entry of (value ?? "").split(",")) {
+    const [name, model] = entry.split("=", 2).map((part) => part.trim());
+    if (name && model) deployments[name] = model;
+  }
+  return deployments;
+}
+
+/** Values accepted for a named upstream's `apiFormat`. */
+const API_FORMATS: readonly ApiFormat[] = [
+  "anthropic-messages",
+  "chatgpt-backend",
+  "responses",
+  "chat-completions",
+  "gemini",
+  "bedrock-converse",
+  "raw",
+];
+
+/**
+ * Load a named-upstream registry from a JSON file: entries keyed by name,
+ * e.g. `{ "ollama": { "baseUrl": "http://localhost:11434", "models": ["llama"] } }`.
+ *
+ * Throws if the file can't be read or an entry is malformed.
+ */
+export function loadNamedUpstreams(filePath: string): Record<string, NamedUpstream> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  } catch (err: unknown) {
+    throw new Error(`Cannot load upstreams ${filePath}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error(`Upstreams file ${filePath} must contain an object of named upstreams`);
+  }
+
+  const registry: Record<string, NamedUpstream> = {};
+  for (const [name, value] of Object.entries(parsed)) {
+    const entry = (value ?? {}) as Record<string, unknown>;
+    if (typeof entry.baseUrl !== "string" || !/^https?:\/\//.test(entry.baseUrl)) {
+      throw new Error(`Upstream "${name}": "baseUrl" must be an http(s) URL`);
+    }
+    if (entry.apiFormat !== undefined && !API_FORMATS.includes(entry.apiFormat as ApiFormat)) {
+      throw new Error(`Upstream "${name}": "apiFormat" must be one of ${API_FORMATS.join(", ")}`);
+    }
+    if (entry.authHeader !== undefined && typeof entry.authHeader !== "string") {
+      throw new Error(`Upstream "${name}": "authHeader" must be a string`);
+    }
+    const models = entry.models;
+    if (models !== undefined && !(Array.isArray(models) && models.every((m) => typeof m === "string"))) {
+      throw new Error(`Upstream "${name}": "models" must be an array of strings`);
+    }
+    registry[name] = {
+      baseUrl: entry.baseUrl,
+      apiFormat: entry.apiFormat as ApiFormat | undefined,
+      authHeader: entry.authHeader as string | undefined,
+      models: models as string[] | undefined,
+    };
+  }
+  return registry;
 }
 
 /**
@@ -28,9 +103,14 @@ export interface ResolvedProxyConfig {
  * - `CONTEXT_PROXY_BIND_HOST` for bind address (default: "127.0.0.1")
  * - `CONTEXT_PROXY_PORT` for port (default: 4040)
  * - `CONTEXT_PROXY_ALLOW_TARGET_OVERRIDE=1` to allow x-target-url header
+ * - `AWS_ACCESS_KEY_ID`, `AWS_SECRET_ACCESS_KEY`, `AWS_SESSION_TOKEN` for
+ *   re-signing Bedrock requests (see `sigv4.ts`)
+ * - `UPSTREAM_AZURE_OPENAI_URL` (or the SDKs' `AZURE_OPENAI_ENDPOINT`) for
+ *   the Azure OpenAI resource, which has no default
+ * - `AZURE_OPENAI_DEPLOYMENTS=name=model,...` to map deployment names to models
  */
 export function resolveConfig(
-  overrides?: ProxyConfig,
+  overrides?: ProxyConfig & { awsCredentials?: AwsCredentials | null },
 ): ResolvedProxyConfig {
   const defaultUpstreams: Upstreams = {
     openai: process.env.UPSTREAM_OPENAI_URL || "https://api.openai.com",
@@ -46,6 +126,14 @@ export function resolveConfig(
     vertex:
       process.env.UPSTREAM_VERTEX_URL ||
       "https://us-central1-aiplatform.googleapis.com",
+    bedrock:
+      process.env.UPSTREAM_BEDROCK_URL ||
+      "https://bedrock-runtime.us-east-1.amazonaws.com",
+    azureOpenai: (
+      process.env.UPSTREAM_AZURE_OPENAI_URL ||
+      process.env.AZURE_OPENAI_ENDPOINT ||
+      ""
+    ).replace(/\/+$/, ""),
   };
 
   const bindHost =
@@ -61,6 +149,16 @@ export function resolveConfig(
     overrides?.allowTargetOverride ??
     process.env.CONTEXT_PROXY_ALLOW_TARGET_OVERRIDE === "1";
 
+  const awsCredentials =
+    overrides?.awsCredentials !== undefined
+      ? overrides.awsCredentials
+      : awsCredentialsFromEnv();
+
+  const azureDeployments = {
+    ...parseAzureDeployments(process.env.AZURE_OPENAI_DEPLOYMENTS),
+    ...overrides?.azureDeployments,
+  };
+
   const upstreams: Upstreams = {
     ...defaultUpstreams,
     ...overrides?.upstreams,
@@ -71,5 +169,8 @@ export function resolveConfig(
     bindHost,
     port,
     allowTargetOverride,
+    awsCredentials,
+    azureDeployments,
+    namedUpstreams: overrides?.namedUpstreams ?? {},
   };
 }
@@ -4,15 +4,25 @@
  * Request lifecycle:
  * 1. Buffer incoming request body, decompress if needed
  * 2. Parse JSON, build RequestContext
- * 3. Run onRequest plugin pipeline (redaction happens here)
+ * 3. Run onRequest plugin pipeline (redaction happens here). A plugin may
+ *    set `ctx.response` to answer directly; the upstream is then skipped,
+ *    but the synthetic response still goes through steps 5 and 6. It may
+ *    also change `ctx.targetUrl` to send the request elsewhere
  * 4. Forward to upstream LLM API
- * 5. For streaming: pipe SSE chunks through onStreamChunk plugins to client
+ * 5. For streaming: pipe SSE (or Bedrock event-stream) chunks through
+ *    onStreamChunk plugins to client
  *    For non-streaming: buffer response, run onResponse plugins, send to client
  * 6. Build CaptureData, fire onCapture plugins (logging happens here)
  *
  * Non-POST requests (GET /v1/models, OPTIONS) are passed through without
  * plugin processing or capture.
  *
+ * Backends from the named-upstream registry are selected by source tag
+ * before the body is read, or by the body's `model` once it is.
+ *
+ * SigV4-signed (Bedrock) requests keep their signature when everything it
+ * covers is forwarded unchanged, and are re-signed otherwise.
+ *
  * Zero external dependencies beyond @contextio/core.
  */
 
@@ -22,25 +32,57 @@ import url from "node:url";
 import zlib from "node:zlib";
 
 import {
+  EVENT_STREAM_CONTENT_TYPE,
+  SENSITIVE_HEADERS,
+  estimateContextUtilization,
+  eventStreamToSse,
   extractSource,
+  namedUpstreamForUrl,
+  resolveAzureDeployment,
+  resolveNamedUpstream,
   resolveTargetUrl,
   selectHeaders,
 } from "@contextio/core";
 import type {
+  ApiFormat,
+  CaptureAnnotations,
   CaptureData,
   HeaderMap,
   JsonValue,
+  NamedUpstream,
+  PluginResponse,
   ProxyPlugin,
   RequestContext,
   ResponseContext,
   Upstreams,
 } from "@contextio/core";
 
+import { resignIfChanged } from "./sigv4.js";
+import type { AwsCredentials } from "./sigv4.js";
+
 export interface ForwardOptions {
   upstreams: Upstreams;
   allowTargetOverride: boolean;
   plugins: ProxyPlugin[];
   logTraffic: boolean;
+  /** Credentials for re-signing Bedrock requests. Without them, changed requests are forwarded as-is. */
+  awsCredentials?: AwsCredentials | null;
+  /** Azure OpenAI deployment names mapped to the models they serve. */
+  azureDeployments?: Record<string, string>;
+  /** OpenAI-compatible backends by name, checked before the provider defaults. */
+  namedUpstreams?: Record<string, NamedUpstream>;
+}
+
+/**
+ * Routing for a request read from an intercepted HTTPS tunnel (see
+ * `intercept.ts`). The tunnel already knows the destination and the
+ * source tag, so the path is used as-is.
+ */
+export interface InterceptedRequest {
+  /** Destination origin, e.g. `https://api.openai.com`. */
+  origin: string;
+  source: string | null;
+  sessionId: string | null;
 }
 
 // --- Plugin pipeline helpers ---
@@ -49,6 +91,8 @@ export interface ForwardOptions {
  * Run onRequest hooks as a pipeline: each plugin receives the output of
  * the previous one. If a plugin throws, the error is logged and the
  * pipeline continues with the last successful context (fail-open).
+ * The pipeline stops early once a plugin sets `ctx.response`; the
+ * plugin's name is recorded in the `respondedBy` annotation.
  */
 async function runRequestPlugins(
   plugins: ProxyPlugin[],
@@ -59,6 +103,10 @@ async function runRequestPlugins(
     if (!plugin.onRequest) continue;
     try {
       current = await plugin.onRequest(current);
+      if (current.response) {
+        (current.annotations ??= {}).respondedBy = plugin.name;
+        break;
+      }
     } catch (err: unknown) {
       console.error(
         `Plugin "${plugin.name}" onRequest error:`,
@@ -89,6 +137,50 @@ async function runResponsePlugins(
   return current;
 }
 
+/** Pass one SSE chunk through every onStreamChunk hook (fail-open). */
+function runStreamChunkPlugins(
+  plugins: ProxyPlugin[],
+  chunk: Buffer,
+  sessionId: string | null,
+  annotations: CaptureAnnotations | undefined,
+): Buffer {
+  let out = chunk;
+  for (const plugin of plugins) {
+    if (!plugin.onStreamChunk) continue;
+    try {
+      out = plugin.onStreamChunk(out, sessionId, annotations);
+    } catch (err: unknown) {
+      console.error(
+        `Plugin "${plugin.name}" onStreamChunk error:`,
+        err instanceof Error ? err.message : String(err),
+      );
+    }
+  }
+  return out;
+}
+
+/** Collect data flushed by onStreamEnd hooks at the end of a stream (fail-open). */
+function runStreamEndPlugins(
+  plugins: ProxyPlugin[],
+  sessionId: string | null,
+  annotations: CaptureAnnotations | undefined,
+): Buffer[] {
+  const flushed: Buffer[] = [];
+  for (const plugin of plugins) {
+    if (!plugin.onStreamEnd) continue;
+    try {
+      const out = plugin.onStreamEnd(sessionId, annotations);
+      if (out && out.length > 0) flushed.push(out);
+    } catch (err: unknown) {
+      console.error(
+        `Plugin "${plugin.name}" onStreamEnd error:`,
+        err instanceof Error ? err.message : String(err),
+      );
+    }
+  }
+  return flushed;
+}
+
 /** Fire all onCapture hooks. Errors are logged but never block the response. */
 function runCapturePlugins(
   plugins: ProxyPlugin[],
@@ -125,13 +217,22 @@ function runCapturePlugins(
  * accept-encoding so upstreams return uncompressed responses. The proxy
  * needs to read and potentially modify response bodies as text;
  * compression between localhost and client is pointless anyway.
+ *
+ * For a named upstream that reads its key from another header, a
+ * client's `Authorization: Bearer` key is moved there.
  */
 function buildForwardHeaders(
   reqHeaders: HeaderMap,
   targetHost: string | null,
   bodyLength?: number,
+  authHeader = "authorization",
 ): HeaderMap {
   const forwardHeaders: HeaderMap = { ...reqHeaders };
+  const auth = forwardHeaders.authorization;
+  if (authHeader !== "authorization" && typeof auth === "string" && !forwardHeaders[authHeader]) {
+    delete forwardHeaders.authorization;
+    forwardHeaders[authHeader] = auth.replace(/^Bearer\s+/i, "");
+  }
   delete forwardHeaders["x-target-url"];
   delete forwardHeaders.host;
   delete forwardHeaders["accept-encoding"];
@@ -145,29 +246,100 @@ function buildForwardHeaders(
   return forwardHeaders;
 }
 
+/**
+ * Headers without the client's credentials (see SENSITIVE_HEADERS), for
+ * a request redirected to a host the client never chose.
+ */
+function withoutCredentials(headers: HeaderMap, authHeaders: ReadonlySet<string>): HeaderMap {
+  const out: HeaderMap = {};
+  for (const [key, value] of Object.entries(headers)) {
+    const name = key.toLowerCase();
+    if (!SENSITIVE_HEADERS.has(name) && !authHeaders.has(name)) out[key] = value;
+  }
+  return out;
+}
+
+/** A URL without the `key` query parameter that carries Gemini API keys. */
+function withoutKeyParam(targetUrl: string): string {
+  const parsed = new URL(targetUrl);
+  if (!parsed.searchParams.has("key")) return targetUrl;
+  parsed.searchParams.delete("key");
+  return parsed.toString();
+}
+
+/**
+ * Keep or re-create the SigV4 signature of a Bedrock request (see
+ * `sigv4.ts`). Headers of other providers' requests are returned
+ * unchanged, signed or not.
+ *
+ * @param originalBody - The body as received from the client.
+ * @param forward - Path, headers, and body as they will be sent upstream.
+ */
+function signForUpstream(
+  req: http.IncomingMessage,
+  provider: string,
+  originalBody: Buffer,
+  forward: { path: string; headers: HeaderMap; body: Buffer },
+  opts: ForwardOptions,
+): HeaderMap {
+  if (provider !== "bedrock") return forward.headers;
+  const method = req.method!;
+  const signed = resignIfChanged(
+    { method, path: req.url!, headers: req.headers as HeaderMap, body: originalBody },
+    { method, ...forward },
+    opts.awsCredentials ?? null,
+  );
+  if (!signed) return forward.headers;
+
+  if (signed.outcome === "missing-credentials") {
+    console.error(
+      "Cannot re-sign AWS request: set AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY for the proxy",
+    );
+  } else if (signed.outcome === "refused") {
+    console.error("Not re-signing AWS request: only Bedrock requests to bedrock-runtime hosts are re-signed");
+  } else if (opts.logTraffic) {
+    console.log(`  SigV4 signature ${signed.outcome}`);
+  }
+  return signed.headers;
+}
+
 /**
  * Assemble a CaptureData record from the completed request/response cycle.
  *
  * Takes the final plugin-processed request context (`ctx`) rather than the
  * raw request, so the captured body and headers reflect what was actually
  * forwarded to the upstream (after redaction, etc.), not the original client request.
+ * Context utilization is estimated from that same forwarded body, with
+ * Azure deployments resolved to their models.
  */
 function buildCaptureData(options: {
   sessionId: string | null;
   req: http.IncomingMessage;
   cleanPath: string;
+  search: string | null;
+  azureDeployments: Record<string, string> | undefined;
+  /** Credential headers of named upstreams, removed like SENSITIVE_HEADERS. */
+  authHeaders: ReadonlySet<string>;
   source: string | null;
   provider: string;
   apiFormat: string;
   targetUrl: string;
   ctx: RequestContext;
   reqBytes: number;
-  proxyRes: http.IncomingMessage;
+  status: number;
+  responseHeaders: HeaderMap;
   finalBody: string;
   isStreaming: boolean;
   respBytes: number;
   timings: CaptureData["timings"];
 }): CaptureData {
+  const azure =
+    options.provider === "azure-openai"
+      ? resolveAzureDeployment(options.cleanPath, options.search, options.ctx.body, options.azureDeployments)
+      : null;
+  const utilization = azure
+    ? estimateContextUtilization(options.ctx.body, options.cleanPath, azure.model)
+    : estimateContextUtilization(options.ctx.body, options.cleanPath);
   return {
     timestamp: new Date().toISOString(),
     sessionId: options.sessionId,
@@ -177,15 +349,18 @@ function buildCaptureData(options: {
     provider: options.provider,
     apiFormat: options.apiFormat,
     targetUrl: options.targetUrl,
-    requestHeaders: selectHeaders(options.ctx.headers),
+    requestHeaders: selectHeaders(options.ctx.headers, options.authHeaders),
     requestBody: options.ctx.body,
     requestBytes: options.reqBytes,
-    responseStatus: options.proxyRes.statusCode || 0,
-    responseHeaders: selectHeaders(options.proxyRes.headers as HeaderMap),
+    responseStatus: options.status,
+    responseHeaders: selectHeaders(options.responseHeaders, options.authHeaders),
     responseBody: options.finalBody,
     responseIsStreaming: options.isStreaming,
     responseBytes: options.respBytes,
+    ...(utilization ? { contextUtilization: utilization } : {}),
+    ...(azure ? { azure } : {}),
     timings: options.timings,
+    ...options.ctx.annotations,
   };
 }
 
@@ -219,7 +394,7 @@ function attachLifecycleHandlers(
 /**
  * Prepare headers for route resolution.
  *
- * The `x-target-url` header lets mitmproxy specify the original
+ * The `x-target-url` header lets a local client specify the original
  * destination, but is only trusted from local connections when
  * `allowTargetOverride` is enabled.
  */
@@ -256,13 +431,27 @@ function forwardPassthrough(
   req: http.IncomingMessage,
   res: http.ServerResponse,
   targetUrl: string,
+  provider: string,
   body: Buffer | null,
+  opts: ForwardOptions,
+  authHeader?: string,
 ): void {
   const targetParsed = url.parse(targetUrl);
-  const forwardHeaders = buildForwardHeaders(
-    req.headers as HeaderMap,
-    targetParsed.host,
-    body ? body.length : undefined,
+  const forwardHeaders = signForUpstream(
+    req,
+    provider,
+    body ?? Buffer.alloc(0),
+    {
+      path: targetParsed.path!,
+      headers: buildForwardHeaders(
+        req.headers as HeaderMap,
+        targetParsed.host,
+        body ? body.length : undefined,
+        authHeader,
+      ),
+      body: body ?? Buffer.alloc(0),
+    },
+    opts,
   );
 
   const protocol = targetParsed.protocol === "https:" ? https : http;
@@ -301,32 +490,54 @@ function forwardPassthrough(
  */
 export function createProxyHandler(
   opts: ForwardOptions,
-): (req: http.IncomingMessage, res: http.ServerResponse) => void {
+): (
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  intercepted?: InterceptedRequest,
+) => void {
   const plugins = opts.plugins;
   const hasRequestPlugins = plugins.some((p) => p.onRequest);
   const hasResponsePlugins = plugins.some((p) => p.onResponse);
   const hasStreamPlugins = plugins.some((p) => p.onStreamChunk);
   const hasCapturePlugins = plugins.some((p) => p.onCapture);
+  const authHeaders = new Set(
+    Object.values(opts.namedUpstreams ?? {}).map((u) => (u.authHeader ?? "authorization").toLowerCase()),
+  );
 
   return function handleProxy(
     req: http.IncomingMessage,
     res: http.ServerResponse,
+    intercepted?: InterceptedRequest,
   ): void {
     const parsedUrl = url.parse(req.url!);
-    const { source, sessionId, cleanPath } = extractSource(parsedUrl.pathname!);
+    const { source, sessionId, cleanPath } = intercepted
+      ? { ...intercepted, cleanPath: parsedUrl.pathname! }
+      : extractSource(parsedUrl.pathname!);
     const search = parsedUrl.search || null;
 
-    const routingHeaders = headersForResolution(
-      req.headers,
-      req.socket.remoteAddress,
-      opts.allowTargetOverride,
-    );
-    const { targetUrl, provider, apiFormat } = resolveTargetUrl(
-      cleanPath,
-      search,
-      routingHeaders,
-      opts.upstreams,
-    );
+    // Intercepted requests go where the client was going, whatever the
+    // configured upstreams say.
+    const routingHeaders = intercepted
+      ? {
+          ...(req.headers as Record<string, string | undefined>),
+          "x-target-url": intercepted.origin + parsedUrl.path,
+        }
+      : headersForResolution(
+          req.headers,
+          req.socket.remoteAddress,
+          opts.allowTargetOverride,
+        );
+    let { targetUrl, provider, apiFormat }: { targetUrl: string; provider: string; apiFormat: ApiFormat } =
+      resolveTargetUrl(cleanPath, search, routingHeaders, opts.upstreams);
+    let named = resolveNamedUpstream(cleanPath, search, routingHeaders, source, null, opts.namedUpstreams);
+    if (named) ({ targetUrl, name: provider, apiFormat } = named);
+
+    // Providers without a default endpoint (Azure resources) need one configured
+    if (!/^https?:\/\//.test(targetUrl)) {
+      res.writeHead(502, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Proxy error", details: `No upstream URL configured for ${provider}` }));
+      return;
+    }
 
     if (opts.logTraffic) {
       const hasAuth = !!req.headers.authorization;
@@ -338,7 +549,7 @@ export function createProxyHandler(
 
     // Non-POST requests: pass through without plugins or capturing
     if (req.method !== "POST") {
-      forwardPassthrough(req, res, targetUrl, null);
+      forwardPassthrough(req, res, targetUrl, provider, null, opts, named?.authHeader);
       return;
     }
 
@@ -389,6 +600,14 @@ export function createProxyHandler(
         // Not JSON; forward as raw bytes
       }
 
+      if (!named && opts.namedUpstreams) {
+        named = resolveNamedUpstream(cleanPath, search, routingHeaders, source, bodyJson, opts.namedUpstreams);
+        if (named) {
+          ({ targetUrl, name: provider, apiFormat } = named);
+          if (opts.logTraffic) console.log(`  model → ${targetUrl} [${provider}]`);
+        }
+      }
+
       // Build the request context for plugins
       const reqCtx: RequestContext = {
         provider,
@@ -399,6 +618,156 @@ export function createProxyHandler(
         headers: { ...req.headers } as HeaderMap,
         body: bodyJson,
         rawBody: bodyBuffer,
+        targetUrl,
+        annotations: {},
+      };
+
+      // A plugin answered the request itself: send its response and
+      // capture the exchange without contacting the upstream.
+      const respondFromPlugin = (
+        ctx: RequestContext,
+        response: PluginResponse,
+      ): void => {
+        const startTime = performance.now();
+        let firstByteTime = 0;
+        const isStreaming = response.chunks !== undefined;
+
+        if (opts.logTraffic) {
+          const by = ctx.annotations?.respondedBy ?? "plugin";
+          console.log(`  ← ${response.status} (${by} response)`);
+        }
+
+        const capture = (
+          finalBody: string,
+          status: number,
+          headers: HeaderMap,
+          respBytes: number,
+        ): void => {
+          if (!hasCapturePlugins) return;
+          const endTime = performance.now();
+          if (!firstByteTime) firstByteTime = endTime;
+          runCapturePlugins(
+            plugins,
+            buildCaptureData({
+              sessionId,
+              req,
+              cleanPath,
+              search,
+              azureDeployments: opts.azureDeployments,
+              authHeaders,
+              source,
+              provider,
+              apiFormat,
+              targetUrl,
+              ctx,
+              reqBytes: 0,
+              status,
+              responseHeaders: headers,
+              finalBody,
+              isStreaming,
+              respBytes,
+              timings: {
+                send_ms: 0,
+                wait_ms: Math.round(firstByteTime - startTime),
+                receive_ms: Math.round(endTime - firstByteTime),
+                total_ms: Math.round(endTime - startTime),
+              },
+            }),
+          );
+        };
+
+        if (response.chunks) {
+          // Streaming: replay the chunks through the stream hooks, as if
+          // they had arrived from upstream.
+          const chunks = response.chunks;
+          const headers: HeaderMap = {
+            "content-type": "text/event-stream",
+            "cache-control": "no-cache",
+            ...response.headers,
+          };
+          if (!res.destroyed) res.writeHead(response.status, headers);
+
+          const isEventStream = String(headers["content-type"]).includes(EVENT_STREAM_CONTENT_TYPE);
+          const raw: Buffer[] = [];
+          let respBytes = 0;
+          const sendChunk = (i: number): void => {
+            if (i >= chunks.length) {
+              if (hasStreamPlugins && !res.destroyed) {
+                for (const flushed of runStreamEndPlugins(plugins, sessionId, ctx.annotations)) {
+                  res.write(flushed);
+                }
+              }
+              if (!res.destroyed) res.end();
+              // Event streams are binary; capture them as SSE text
+              const body = Buffer.concat(raw);
+              capture(
+                isEventStream ? eventStreamToSse(body) : body.toString("utf8"),
+                response.status,
+                headers,
+                respBytes,
+              );
+              return;
+            }
+            const data = chunks[i].data;
+            const chunk = typeof data === "string" ? Buffer.from(data, "utf8") : data;
+            if (!firstByteTime) firstByteTime = performance.now();
+            raw.push(chunk);
+            respBytes += chunk.length;
+            if (!res.destroyed) {
+              res.write(
+                hasStreamPlugins ? runStreamChunkPlugins(plugins, chunk, sessionId, ctx.annotations) : chunk,
+              );
+            }
+            const delay = chunks[i + 1]?.delayMs ?? 0;
+            if (delay > 0) setTimeout(() => sendChunk(i + 1), delay);
+            else sendChunk(i + 1);
+          };
+          sendChunk(0);
+          return;
+        }
+
+        // Non-streaming: run onResponse hooks over the synthetic body
+        const body =
+          typeof response.body === "string"
+            ? response.body
+            : response.body === undefined
+              ? ""
+              : JSON.stringify(response.body);
+        const respCtx: ResponseContext = {
+          status: response.status,
+          headers: { "content-type": "application/json", ...response.headers },
+          body,
+          isStreaming: false,
+          sessionId,
+          annotations: ctx.annotations,
+        };
+        const finish = (final: ResponseContext): void => {
+          firstByteTime = performance.now();
+          const outBuf = Buffer.from(final.body, "utf8");
+          const outHeaders: HeaderMap = {
+            ...final.headers,
+            "content-length": String(outBuf.length),
+          };
+          if (!res.destroyed) {
+            res.writeHead(final.status, outHeaders);
+            res.end(outBuf);
+          }
+          capture(final.body, final.status, outHeaders, outBuf.length);
+        };
+
+        if (!hasResponsePlugins) {
+          finish(respCtx);
+          return;
+        }
+        runResponsePlugins(plugins, respCtx)
+          .then(finish)
+          .catch((err: unknown) => {
+            console.error(
+              "Response plugin pipeline error:",
+              err instanceof Error ? err.message : String(err),
+            );
+            finish(respCtx);
+          });
       };
 
       // Run the async plugin pipeline, then forward.
@@ -406,6 +775,36 @@ export function createProxyHandler(
       // contentEncoding, and the timing/capture variables from the outer scope
       // without threading them through as parameters.
       const doForward = (ctx: RequestContext): void => {
+        if (ctx.response) {
+          respondFromPlugin(ctx, ctx.response);
+          return;
+        }
+
+        // A plugin redirected the request to another upstream. Into the
+        // registry, the key goes in the header that upstream reads and
+        // the capture names it. Anywhere else the client's credentials
+        // stay behind unless the plugin opted in with `forwardAuth`.
+        let authHeader = named?.authHeader;
+        let upstreamHeaders = ctx.headers;
+        if (ctx.targetUrl && ctx.targetUrl !== targetUrl) {
+          const previous = targetUrl;
+          targetUrl = ctx.targetUrl;
+          const redirectedTo = namedUpstreamForUrl(targetUrl, opts.namedUpstreams);
+          if (redirectedTo) {
+            const upstream = opts.namedUpstreams![redirectedTo];
+            authHeader = (upstream.authHeader || "authorization").toLowerCase();
+            provider = redirectedTo;
+            apiFormat = upstream.apiFormat ?? apiFormat;
+          } else {
+            authHeader = undefined;
+            if (!ctx.forwardAuth && new URL(targetUrl).origin !== new URL(previous).origin) {
+              upstreamHeaders = withoutCredentials(ctx.headers, authHeaders);
+              targetUrl = withoutKeyParam(targetUrl);
+            }
+          }
+          if (opts.logTraffic) console.log(`  redirected → ${targetUrl}`);
+        }
+
         // If a plugin modified the body, re-serialize as plain JSON.
         // Otherwise forward the original bytes (possibly still compressed)
         // to avoid needlessly re-encoding what the upstream already sent.
@@ -425,10 +824,21 @@ export function createProxyHandler(
         }
 
         const targetParsed = url.parse(targetUrl);
-        const forwardHeaders = buildForwardHeaders(
-          ctx.headers,
-          targetParsed.host,
-          forwardBuffer.length,
+        const forwardHeaders = signForUpstream(
+          req,
+          provider,
+          bodyBuffer,
+          {
+            path: targetParsed.path!,
+            headers: buildForwardHeaders(
+              upstreamHeaders,
+              targetParsed.host,
+              forwardBuffer.length,
+              authHeader,
+            ),
+            body: forwardBuffer,
+          },
+          opts,
         );
 
         const protocol =
@@ -453,10 +863,13 @@ export function createProxyHandler(
               );
             }
 
+            // Bedrock streams use AWS event-stream framing instead of SSE
+            const contentType = proxyRes.headers["content-type"] ?? "";
+            const isEventStream = contentType.includes(
+              EVENT_STREAM_CONTENT_TYPE,
+            );
             const isStreaming =
-              proxyRes.headers["content-type"]?.includes(
-                "text/event-stream",
-              );
+              contentType.includes("text/event-stream") || isEventStream;
             let respBytes = 0;
             const respChunks: Buffer[] = [];
 
@@ -476,20 +889,9 @@ export function createProxyHandler(
               respBytes += chunk.length;
               respChunks.push(chunk);
               if (!shouldBufferResponse && !res.destroyed) {
-                let out = chunk;
-                if (hasStreamPlugins && isStreaming) {
-                  for (const plugin of plugins) {
-                    if (!plugin.onStreamChunk) continue;
-                    try {
-                      out = plugin.onStreamChunk(out, sessionId);
-                    } catch (err: unknown) {
-                      console.error(
-                        `Plugin "${plugin.name}" onStreamChunk error:`,
-                        err instanceof Error ? err.message : String(err),
-                      );
-                    }
-                  }
-                }
+                const out = hasStreamPlugins && isStreaming
+                  ? runStreamChunkPlugins(plugins, chunk, sessionId, ctx.annotations)
+                  : chunk;
                 res.write(out);
               }
             });
@@ -500,24 +902,16 @@ export function createProxyHandler(
 
               // Flush any buffered data from stream plugins
               if (hasStreamPlugins && isStreaming && !res.destroyed) {
-                for (const plugin of plugins) {
-                  if (!plugin.onStreamEnd) continue;
-                  try {
-                    const flushed = plugin.onStreamEnd(sessionId);
-                    if (flushed && flushed.length > 0) {
-                      res.write(flushed);
-                    }
-                  } catch (err: unknown) {
-                    console.error(
-                      `Plugin "${plugin.name}" onStreamEnd error:`,
-                      err instanceof Error ? err.message : String(err),
-                    );
-                  }
+                for (const flushed of runStreamEndPlugins(plugins, sessionId, ctx.annotations)) {
+                  res.write(flushed);
                 }
               }
 
-              const respBody =
-                Buffer.concat(respChunks).toString("utf8");
+              // Event streams are binary; capture them as SSE text
+              const respBuffer = Buffer.concat(respChunks);
+              const respBody = isEventStream
+                ? eventStreamToSse(respBuffer)
+                : respBuffer.toString("utf8");
 
               // finishResponse is called once the response body is final:
               // either immediately after the upstream ends (non-buffered path)
@@ -566,15 +960,19 @@ export function createProxyHandler(
                     sessionId,
                     req,
                     cleanPath,
+                    search,
+                    azureDeployments: opts.azureDeployments,
+                    authHeaders,
                     source,
                     provider,
                     apiFormat,
                     targetUrl,
                     ctx,
                     reqBytes,
-                    proxyRes,
+                    status: proxyRes.statusCode || 0,
+                    responseHeaders: proxyRes.headers as HeaderMap,
                     finalBody,
-                    isStreaming: !!isStreaming,
+                    isStreaming,
                     respBytes,
                     timings,
                   });
@@ -592,6 +990,7 @@ export function createProxyHandler(
                   body: respBody,
                   isStreaming: false,
                   sessionId,
+                  annotations: ctx.annotations,
                 };
                 runResponsePlugins(plugins, respCtx)
                   .then((finalCtx) => {
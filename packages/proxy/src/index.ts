@@ -2,8 +2,10 @@
  * @contextio/proxy
  *
  * Pluggable HTTP reverse proxy for LLM APIs. Routes requests to Anthropic,
- * OpenAI, and Google upstreams. Plugins hook into the request/response
- * lifecycle for redaction, logging, or custom transforms.
+ * OpenAI, Google, and Amazon Bedrock upstreams, and can act as an
+ * intercepting `HTTPS_PROXY` for tools without a base URL setting.
+ * Plugins hook into the request/response lifecycle for redaction,
+ * logging, or custom transforms.
  *
  * Depends only on Node.js built-ins and `@contextio/core`. Zero other
  * npm dependencies. Your API keys flow through this code, so it's
@@ -18,8 +20,33 @@ export type { ProxyInstance } from "./proxy.js";
 
 // Low-level handler for embedding in a custom HTTP server
 export { createProxyHandler } from "./forward.js";
-export type { ForwardOptions } from "./forward.js";
+export type { ForwardOptions, InterceptedRequest } from "./forward.js";
+
+// HTTPS_PROXY support: CONNECT handling and the local CA behind it
+export { createConnectHandler, DEFAULT_INTERCEPT_HOSTS } from "./intercept.js";
+export type { InterceptOptions } from "./intercept.js";
+export {
+  createCertificateAuthority,
+  defaultCaDir,
+  issueLeafCertificate,
+  loadOrCreateCA,
+} from "./ca.js";
+export type { CertificateAuthority, LeafCertificate } from "./ca.js";
+
+// Bedrock request signing: keep or re-create SigV4 signatures
+export {
+  awsCredentialsFromEnv,
+  parseSigV4Authorization,
+  resignIfChanged,
+  signSigV4,
+} from "./sigv4.js";
+export type {
+  AwsCredentials,
+  SignableRequest,
+  SigV4Authorization,
+  SigV4Outcome,
+} from "./sigv4.js";
 
 // Config resolution (env vars + overrides)
-export { resolveConfig } from "./config.js";
+export { loadNamedUpstreams, resolveConfig } from "./config.js";
 export type { ResolvedProxyConfig } from "./config.js";
@@ -11,6 +11,9 @@ import type { ProxyConfig, ProxyPlugin } from "@contextio/core";
 
 import { resolveConfig } from "./config.js";
 import { createProxyHandler } from "./forward.js";
+import { createConnectHandler } from "./intercept.js";
+import type { InterceptOptions } from "./intercept.js";
+import type { AwsCredentials } from "./sigv4.js";
 
 export interface ProxyInstance {
   /** Start listening. Resolves when the server is ready. */
@@ -33,9 +36,20 @@ export interface ProxyInstance {
  * });
  * await proxy.start();
  * ```
+ *
+ * With `intercept`, the proxy also accepts CONNECT requests, so it can be
+ * used as `HTTPS_PROXY` (see `intercept.ts`).
+ *
+ * `awsCredentials` re-sign Bedrock requests whose signature the proxy
+ * would break (see `sigv4.ts`). Default: from the `AWS_*` environment
+ * variables; pass null to never re-sign.
  */
 export function createProxy(
-  config?: ProxyConfig & { logTraffic?: boolean },
+  config?: ProxyConfig & {
+    logTraffic?: boolean;
+    intercept?: boolean | InterceptOptions;
+    awsCredentials?: AwsCredentials | null;
+  },
 ): ProxyInstance {
   const resolved = resolveConfig(config);
   const plugins: ProxyPlugin[] = config?.plugins ?? [];
@@ -45,9 +59,19 @@ export function createProxy(
     allowTargetOverride: resolved.allowTargetOverride,
     plugins,
     logTraffic: !!config?.logTraffic,
+    awsCredentials: resolved.awsCredentials,
+    azureDeployments: resolved.azureDeployments,
+    namedUpstreams: resolved.namedUpstreams,
   });
 
   const server = http.createServer(handler);
+  if (config?.intercept) {
+    const options = config.intercept === true ? {} : config.intercept;
+    server.on(
+      "connect",
+      createConnectHandler(handler, { logTraffic: !!config.logTraffic, ...options }),
+    );
+  }
   let boundPort = resolved.port;
   let started = false;
 
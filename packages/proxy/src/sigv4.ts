@@ -0,0 +1,237 @@
+/**
+ * AWS Signature Version 4 for Bedrock requests.
+ *
+ * A SigV4 signature covers the method, path, query, a chosen set of
+ * headers (always including `host`), and usually a hash of the body. It
+ * stays valid through the proxy only if all of those reach AWS
+ * unchanged: true for intercepted HTTPS traffic that no plugin touched,
+ * but not for tools pointed at the proxy's URL (they sign for
+ * `127.0.0.1`) or for bodies rewritten by redaction.
+ *
+ * Those requests are re-signed for their real destination with the
+ * proxy's own credentials, read from the standard `AWS_ACCESS_KEY_ID`,
+ * `AWS_SECRET_ACCESS_KEY`, and `AWS_SESSION_TOKEN` variables. Only
+ * Bedrock requests bound for a Bedrock runtime endpoint are re-signed,
+ * for that endpoint's region: the proxy's identity is never lent to
+ * other AWS services or hosts.
+ *
+ * Zero external dependencies.
+ */
+
+import crypto from "node:crypto";
+
+import type { HeaderMap } from "@contextio/core";
+
+/** Static AWS credentials used to re-sign requests. */
+export interface AwsCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+}
+
+/** The parts of a SigV4 `Authorization` header the proxy needs. */
+export interface SigV4Authorization {
+  accessKeyId: string;
+  region: string;
+  service: string;
+  /** Lowercase header names, in the client's order. */
+  signedHeaders: string[];
+}
+
+/** A request as it is (or would be) sent. `path` includes the query string. */
+export interface SignableRequest {
+  method: string;
+  path: string;
+  headers: HeaderMap;
+  body: Buffer;
+}
+
+const ALGORITHM = "AWS4-HMAC-SHA256";
+/** Bedrock runtime endpoints, the only hosts requests are re-signed for. */
+const BEDROCK_HOST = /^bedrock-runtime(?:-fips)?\.([a-z0-9-]+)\.amazonaws\.com(?::443)?$/i;
+const UNSIGNED_PAYLOAD = "UNSIGNED-PAYLOAD";
+
+/** Read credentials from the environment, or null if they're not set. */
+export function awsCredentialsFromEnv(env: NodeJS.ProcessEnv = process.env): AwsCredentials | null {
+  const accessKeyId = env.AWS_ACCESS_KEY_ID;
+  const secretAccessKey = env.AWS_SECRET_ACCESS_KEY;
+  if (!accessKeyId || !secretAccessKey) return null;
+  return env.AWS_SESSION_TOKEN
+    ? { accessKeyId, secretAccessKey, sessionToken: env.AWS_SESSION_TOKEN }
+    : { accessKeyId, secretAccessKey };
+}
+
+/** Parse `AWS4-HMAC-SHA256 Credential=..., SignedHeaders=..., Signature=...`, or null. */
+export function parseSigV4Authorization(header: string | undefined): SigV4Authorization | null {
+  if (!header?.startsWith(`${ALGORITHM} `)) return null;
+  const credential = header.match(/Credential=([^/,\s]+)\/\d{8}\/([^/]+)\/([^/]+)\/aws4_request/);
+  const signed = header.match(/SignedHeaders=([^,\s]+)/);
+  if (!credential || !signed) return null;
+  return {
+    accessKeyId: credential[1],
+    region: credential[2],
+    service: credential[3],
+    signedHeaders: signed[1].split(";"),
+  };
+}
+
+// --- Signing ---
+
+/** RFC 3986 encoding: everything but unreserved characters. */
+function uriEncode(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Canonical URI and query. Every service but S3 encodes the path as sent
+ * once more, so Bedrock's `v1%3A0` is signed as `v1%253A0`.
+ */
+function canonicalPath(path: string): { uri: string; query: string } {
+  const [pathname, search = ""] = path.split("?", 2);
+  const uri = pathname.split("/").map(uriEncode).join("/") || "/";
+  const query = search
+    .split("&")
+    .filter(Boolean)
+    .map((pair) => {
+      const [key, value = ""] = pair.split("=", 2);
+      return [uriEncode(safeDecode(key)), uriEncode(safeDecode(value))];
+    })
+    .sort(([a, x], [b, y]) => (a === b ? (x < y ? -1 : 1) : a < b ? -1 : 1))
+    .map(([key, value]) => `${key}=${value}`)
+    .join("&");
+  return { uri, query };
+}
+
+function headerValue(headers: HeaderMap, name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value.join(",") : value;
+}
+
+function sha256Hex(data: Buffer | string): string {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: Buffer | string, data: string): Buffer {
+  return crypto.createHmac("sha256", key).update(data).digest();
+}
+
+/** `20250101T120000Z` */
+function amzDate(now: Date): string {
+  return now.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Sign a request, returning its headers with `authorization`,
+ * `x-amz-date`, and (for temporary credentials) `x-amz-security-token`
+ * set. `x-amz-content-sha256` is updated if present.
+ *
+ * @param request - The request exactly as it will be sent; its headers must include `host`.
+ * @param signedHeaders - Headers to sign besides the ones set here.
+ */
+export function signSigV4(
+  request: SignableRequest,
+  credentials: AwsCredentials,
+  scope: { region: string; service: string },
+  signedHeaders: string[] = [],
+  now = new Date(),
+): HeaderMap {
+  const headers: HeaderMap = { ...request.headers };
+  const timestamp = amzDate(now);
+  const date = timestamp.slice(0, 8);
+
+  headers["x-amz-date"] = timestamp;
+  delete headers["x-amz-security-token"];
+  if (credentials.sessionToken) headers["x-amz-security-token"] = credentials.sessionToken;
+
+  const declaredHash = headerValue(headers, "x-amz-content-sha256");
+  const payloadHash = declaredHash === UNSIGNED_PAYLOAD ? UNSIGNED_PAYLOAD : sha256Hex(request.body);
+  if (declaredHash !== undefined) headers["x-amz-content-sha256"] = payloadHash;
+
+  const names = [
+    ...new Set([
+      "host",
+      "x-amz-date",
+      ...(credentials.sessionToken ? ["x-amz-security-token"] : []),
+      ...(declaredHash !== undefined ? ["x-amz-content-sha256"] : []),
+      ...signedHeaders.filter((name) => headers[name] !== undefined),
+    ]),
+  ].sort();
+  const canonicalHeaders = names
+    .map((name) => `${name}:${(headerValue(headers, name) ?? "").trim().replace(/\s+/g, " ")}\n`)
+    .join("");
+
+  const { uri, query } = canonicalPath(request.path);
+  const canonicalRequest = [
+    request.method.toUpperCase(),
+    uri,
+    query,
+    canonicalHeaders,
+    names.join(";"),
+    payloadHash,
+  ].join("\n");
+
+  const credentialScope = `${date}/${scope.region}/${scope.service}/aws4_request`;
+  const stringToSign = [ALGORITHM, timestamp, credentialScope, sha256Hex(canonicalRequest)].join("\n");
+  const signingKey = hmac(
+    hmac(hmac(hmac(`AWS4${credentials.secretAccessKey}`, date), scope.region), scope.service),
+    "aws4_request",
+  );
+  const signature = crypto.createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+  headers.authorization =
+    `${ALGORITHM} Credential=${credentials.accessKeyId}/${credentialScope}, ` +
+    `SignedHeaders=${names.join(";")}, Signature=${signature}`;
+  return headers;
+}
+
+/**
+ * Outcome of {@link resignIfChanged}: everything the client signed is
+ * forwarded unchanged ("intact"), the request was re-signed, it needed
+ * re-signing but the proxy has no credentials, or it needed re-signing
+ * but isn't a Bedrock request to a Bedrock runtime host ("refused").
+ */
+export type SigV4Outcome = "intact" | "resigned" | "missing-credentials" | "refused";
+
+/**
+ * Keep a SigV4 signature if it still covers the forwarded request, or
+ * re-sign the request for its new host, path, or body. Requests that
+ * aren't for the `bedrock` service, or whose forwarded `host` isn't a
+ * Bedrock runtime endpoint, are never re-signed.
+ *
+ * @returns null for requests that aren't SigV4-signed; otherwise the
+ *   headers to forward and what was done.
+ */
+export function resignIfChanged(
+  original: SignableRequest,
+  forward: SignableRequest,
+  credentials: AwsCredentials | null,
+): { headers: HeaderMap; outcome: SigV4Outcome } | null {
+  const auth = parseSigV4Authorization(headerValue(original.headers, "authorization"));
+  if (!auth) return null;
+
+  const unsignedPayload = headerValue(original.headers, "x-amz-content-sha256") === UNSIGNED_PAYLOAD;
+  const changed =
+    original.path !== forward.path ||
+    (!unsignedPayload && !original.body.equals(forward.body)) ||
+    auth.signedHeaders.some(
+      (name) => headerValue(original.headers, name) !== headerValue(forward.headers, name),
+    );
+  if (!changed) return { headers: forward.headers, outcome: "intact" };
+
+  const region = headerValue(forward.headers, "host")?.match(BEDROCK_HOST)?.[1];
+  if (auth.service !== "bedrock" || !region) return { headers: forward.headers, outcome: "refused" };
+  if (!credentials) return { headers: forward.headers, outcome: "missing-credentials" };
+
+  return {
+    headers: signSigV4(forward, credentials, { region, service: "bedrock" }, auth.signedHeaders),
+    outcome: "resigned",
+  };
+}
@@ -0,0 +1,256 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { X509Certificate } from "node:crypto";
+import fs from "node:fs";
+import http from "node:http";
+import net from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import tls from "node:tls";
+
+import { PassThrough } from "node:stream";
+
+import { issueLeafCertificate, loadOrCreateCA } from "../dist/ca.js";
+import { createConnectHandler } from "../dist/intercept.js";
+import { createProxy } from "../dist/proxy.js";
+import type { CaptureData, ProxyPlugin } from "@contextio/core";
+
+let caDir: string;
+
+before(() => {
+  caDir = join(fs.mkdtempSync(join(tmpdir(), "contextio-ca-")), "ca");
+});
+
+after(() => {
+  fs.rmSync(join(caDir, ".."), { recursive: true, force: true });
+});
+
+/** Send a CONNECT to the proxy and return the raw tunnel socket. */
+function connect(
+  proxyPort: number,
+  authority: string,
+  auth?: string,
+): Promise<{ status: number; socket: net.Socket }> {
+  return new Promise((resolve, reject) => {
+    const headers: Record<string, string> = {};
+    if (auth) headers["proxy-authorization"] = `Basic ${Buffer.from(auth).toString("base64")}`;
+    const req = http.request({ host: "127.0.0.1", port: proxyPort, method: "CONNECT", path: authority, headers });
+    req.on("connect", (res, socket) => resolve({ status: res.statusCode!, socket }));
+    req.on("error", reject);
+    req.end();
+  });
+}
+
+/** POST a JSON body over an established TLS tunnel. */
+function postOverTunnel(
+  socket: tls.TLSSocket,
+  host: string,
+  path: string,
+  body: unknown,
+): Promise<{ status: number; body: string }> {
+  return new Promise((resolve, reject) => {
+    const req = http.request(
+      {
+        host,
+        path,
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        createConnection: () => socket,
+      },
+      (res) => {
+        const chunks: Buffer[] = [];
+        res.on("data", (chunk: Buffer) => chunks.push(chunk));
+        res.on("end", () => resolve({ status: res.statusCode!, body: Buffer.concat(chunks).toString("utf8") }));
+      },
+    );
+    req.on("error", reject);
+    req.end(JSON.stringify(body));
+  });
+}
+
+function startTls(socket: net.Socket, servername: string, ca: string): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const secure = tls.connect({ socket, servername, ca }, () => resolve(secure));
+    secure.on("error", reject);
+  });
+}
+
+describe("local CA", () => {
+  it("creates the CA once and keeps the key private", () => {
+    const ca = loadOrCreateCA(caDir);
+    const cert = new X509Certificate(ca.certPem);
+
+    assert.equal(cert.ca, true);
+    assert.ok(cert.verify(cert.publicKey), "CA should be self-signed");
+    assert.equal(fs.statSync(join(caDir, "ca-key.pem")).mode & 0o777, 0o600);
+    assert.ok(fs.readFileSync(ca.bundleFile, "utf8").endsWith(ca.certPem));
+    assert.equal(loadOrCreateCA(caDir).certPem, ca.certPem);
+  });
+
+  it("issues leaf certificates for host names and IP addresses", () => {
+    const ca = loadOrCreateCA(caDir);
+    const caCert = new X509Certificate(ca.certPem);
+
+    const leaf = new X509Certificate(issueLeafCertificate(ca, "api.openai.com").certPem);
+    assert.equal(leaf.ca, false);
+    assert.ok(leaf.verify(caCert.publicKey));
+    assert.ok(leaf.checkIssued(caCert));
+    assert.equal(leaf.checkHost("api.openai.com"), "api.openai.com");
+    assert.equal(leaf.checkHost("api.anthropic.com"), undefined);
+
+    const ipLeaf = new X509Certificate(issueLeafCertificate(ca, "127.0.0.1").certPem);
+    assert.equal(ipLeaf.checkIP("127.0.0.1"), "127.0.0.1");
+  });
+});
+
+describe("CONNECT interception", () => {
+  it("terminates TLS for known hosts and tags requests from the proxy credentials", async () => {
+    let captured: CaptureData | null = null;
+    const answer: ProxyPlugin = {
+      name: "answer",
+      onRequest(ctx) {
+        return {
+          ...ctx,
+          response: { status: 200, headers: { "content-type": "application/json" }, body: '{"ok":true}' },
+        };
+      },
+      onCapture(capture) {
+        captured = capture;
+      },
+    };
+
+    const proxy = createProxy({ port: 0, plugins: [answer], intercept: { caDir } });
+    await proxy.start();
+
+    try {
+      const { status, socket } = await connect(proxy.port, "api.openai.com:443", "codex:ab12cd34");
+      assert.equal(status, 200);
+
+      const secure = await startTls(socket, "api.openai.com", loadOrCreateCA(caDir).certPem);
+      const res = await postOverTunnel(secure, "api.openai.com", "/v1/responses", { model: "gpt-5", input: "hi" });
+      secure.destroy();
+      await new Promise((r) => setTimeout(r, 50));
+
+      assert.equal(res.status, 200);
+      assert.deepEqual(JSON.parse(res.body), { ok: true });
+      assert.ok(captured, "onCapture should run");
+      const capture = captured as CaptureData;
+      assert.equal(capture.source, "codex");
+      assert.equal(capture.sessionId, "ab12cd34");
+      assert.equal(capture.path, "/v1/responses");
+      assert.equal(capture.provider, "openai");
+      assert.equal(capture.targetUrl, "https://api.openai.com/v1/responses");
+    } finally {
+      await proxy.stop();
+    }
+  });
+
+  it("drops invalid tags", async () => {
+    let captured: CaptureData | null = null;
+    const answer: ProxyPlugin = {
+      name: "answer",
+      onRequest: (ctx) => ({ ...ctx, response: { status: 200, headers: {}, body: "{}" } }),
+      onCapture(capture) {
+        captured = capture;
+      },
+    };
+
+    const proxy = createProxy({ port: 0, plugins: [answer], intercept: { caDir } });
+    await proxy.start();
+
+    try {
+      const { socket } = await connect(proxy.port, "api.anthropic.com:443", "../etc:not-a-session");
+      const secure = await startTls(socket, "api.anthropic.com", loadOrCreateCA(caDir).certPem);
+      await postOverTunnel(secure, "api.anthropic.com", "/v1/messages", { model: "claude", messages: [] });
+      secure.destroy();
+      await new Promise((r) => setTimeout(r, 50));
+
+      const capture = captured as CaptureData | null;
+      assert.equal(capture?.source, null);
+      assert.equal(capture?.sessionId, null);
+    } finally {
+      await proxy.stop();
+    }
+  });
+
+  it("tunnels other hosts without decrypting", async () => {
+    const echo = net.createServer((socket) => socket.pipe(socket));
+    await new Promise<void>((resolve) => echo.listen(0, "127.0.0.1", resolve));
+    const echoPort = (echo.address() as net.AddressInfo).port;
+
+    const proxy = createProxy({ port: 0, intercept: { caDir, openTunnels: true } });
+    await proxy.start();
+
+    try {
+      const { status, socket } = await connect(proxy.port, `127.0.0.1:${echoPort}`);
+      assert.equal(status, 200);
+
+      const reply = await new Promise<string>((resolve) => {
+        socket.once("data", (chunk: Buffer) => resolve(chunk.toString("utf8")));
+        socket.write("not TLS");
+      });
+      socket.destroy();
+      assert.equal(reply, "not TLS");
+    } finally {
+      await proxy.stop();
+      echo.close();
+    }
+  });
+
+  it("refuses tunnels to ports other than 443 unless opened", async () => {
+    const proxy = createProxy({ port: 0, intercept: { caDir } });
+    await proxy.start();
+
+    try {
+      const { status, socket } = await connect(proxy.port, "127.0.0.1:22");
+      socket.destroy();
+      assert.equal(status, 403);
+    } finally {
+      await proxy.stop();
+    }
+  });
+
+  it("rejects hosts that are not DNS names or IP literals", async () => {
+    const proxy = createProxy({ port: 0, intercept: { caDir } });
+    await proxy.start();
+
+    try {
+      for (const authority of [
+        "10.0.0.5/.githubcopilot.com:443",
+        "10.0.0.5#.githubcopilot.com:443",
+        "user@10.0.0.5.githubcopilot.com:443",
+      ]) {
+        const { status, socket } = await connect(proxy.port, authority);
+        socket.destroy();
+        assert.equal(status, 400, authority);
+      }
+    } finally {
+      await proxy.stop();
+    }
+  });
+
+  it("refuses intercepted hosts for non-loopback clients and ports other than 443", () => {
+    const handle = createConnectHandler(() => assert.fail("request should not be handled"), { caDir });
+
+    for (const [authority, remoteAddress] of [
+      ["api.openai.com:443", "10.0.0.9"],
+      ["api.openai.com:8443", "127.0.0.1"],
+    ]) {
+      const socket = new PassThrough();
+      const req = { url: authority, headers: {}, socket: { remoteAddress } } as unknown as http.IncomingMessage;
+      handle(req, socket, Buffer.alloc(0));
+      assert.match(String(socket.read()), /^HTTP\/1\.1 403 /, authority);
+    }
+  });
+
+  it("rejects CONNECT without the option", async () => {
+    const proxy = createProxy({ port: 0 });
+    await proxy.start();
+
+    try {
+      await assert.rejects(connect(proxy.port, "api.openai.com:443"));
+    } finally {
+      await proxy.stop();
+    }
+  });
+});
@@ -1,9 +1,15 @@
 import { describe, it, before, after } from "node:test";
 import assert from "node:assert/strict";
+import fs from "node:fs";
 import http from "node:http";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 
+import { loadNamedUpstreams } from "../dist/config.js";
 import { createProxy } from "../dist/proxy.js";
-import type { ProxyPlugin } from "@contextio/core";
+import { parseSigV4Authorization, signSigV4 } from "../dist/sigv4.js";
+import { encodeEventStreamMessage } from "@contextio/core";
+import type { CaptureData, HeaderMap, ProxyPlugin } from "@contextio/core";
 
 function makeRequest(
   port: number,
@@ -1192,3 +1198,701 @@ describe("plugin error resilience", () => {
     }
   });
 });
+
+describe("plugin responses", () => {
+  it("answers from onRequest without contacting the upstream", async () => {
+    let upstreamCalls = 0;
+    let laterPluginCalled = false;
+    let captured: any = null;
+
+    const blocker: ProxyPlugin = {
+      name: "blocker",
+      onRequest(ctx) {
+        return {
+          ...ctx,
+          response: {
+            status: 400,
+            headers: { "content-type": "application/json" },
+            body: '{"type":"error","error":{"type":"invalid_request_error","message":"blocked"}}',
+          },
+        };
+      },
+    };
+    const later: ProxyPlugin = {
+      name: "later",
+      onRequest(ctx) {
+        laterPluginCalled = true;
+        return ctx;
+      },
+      onCapture(capture) {
+        captured = capture;
+      },
+    };
+
+    const upstream = http.createServer((req, res) => {
+      upstreamCalls++;
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end("{}");
+    });
+    await new Promise<void>((resolve) => upstream.listen(0, resolve));
+    const port = getServerPort(upstream);
+
+    const proxy = createProxy({
+      port: 0,
+      plugins: [blocker, later],
+      upstreams: { anthropic: `http://127.0.0.1:${port}` },
+    });
+    await proxy.start();
+
+    try {
+      const res = await makeRequest(proxy.port, {
+        path: "/v1/messages",
+        method: "POST",
+        body: JSON.stringify({ model: "test", messages: [] }),
+      });
+      await new Promise((r) => setTimeout(r, 50));
+
+      assert.equal(res.status, 400);
+      assert.equal(JSON.parse(res.body).error.message, "blocked");
+      assert.equal(upstreamCalls, 0);
+      assert.equal(laterPluginCalled, false);
+      assert.ok(captured, "onCapture should still run");
+      assert.equal(captured.responseStatus, 400);
+      assert.equal(captured.requestBody.model, "test");
+      assert.equal(captured.respondedBy, "blocker");
+    } finally {
+      await proxy.stop();
+      upstream.close();
+    }
+  });
+
+  it("copies plugin annotations into the capture", async () => {
+    let captured: any = null;
+    const annotator: ProxyPlugin = {
+      name: "annotator",
+      onRequest(ctx) {
+        ctx.annotations!.security = { mode: "observe", input: [], output: [], blocked: null };
+        return ctx;
+      },
+      onCapture(capture) {
+        captured = capture;
+      },
+    };
+
+    const upstream = http.createServer((req, res) => {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end('{"ok":true}');
+    });
+    await new Promise<void>((resolve) => upstream.listen(0, resolve));
+    const port = getServerPort(upstream);
+
+    const proxy = createProxy({
+      port: 0,
+      plugins: [annotator],
+      upstreams: { anthropic: `http://127.0.0.1:${port}` },
+    });
+    await proxy.start();
+
+    try {
+      await makeRequest(proxy.port, {
+        path: "/v1/messages",
+        method: "POST",
+        body: JSON.stringify({ model: "test" }),
+      });
+      await new Promise((r) => setTimeout(r, 50));
+
+      assert.deepEqual(captured.security, { mode: "observe", input: [], output: [], blocked: null });
+    } finally {
+      await proxy.stop();
+      upstream.close();
+    }
+  });
+
+  it("records context utilization of the forwarded body", async () => {
+    let captured: any = null;
+    const padder: ProxyPlugin = {
+      name: "padder",
+      onRequest(ctx) {
+        return { ...ctx, body: { ...(ctx.body as object), system: "x".repeat(80_000) } };
+      },
+      onCapture(capture) {
+        captured = capture;
+      },
+    };
+
+    const upstream = http.createServer((req, res) => {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end('{"ok":true}');
+    });
+    await new Promise<void>((resolve) => upstream.listen(0, resolve));
+    const port = getServerPort(upstream);
+
+    const proxy = createProxy({
+      port: 0,
+      plugins: [padder],
+      upstreams: { anthropic: `http://127.0.0.1:${port}` },
+    });
+    await proxy.start();
+
+    try {
+      await makeRequest(proxy.port, {
+        path: "/v1/messages",
+        method: "POST",
+        body: JSON.stringify({ model: "claude-opus-4-20250514", messages: [] }),
+      });
+      await new Promise((r) => setTimeout(r, 50));
+
+      const util = captured.contextUtilization;
+      assert.equal(util.model, "claude-opus-4-20250514");
+      assert.equal(util.contextLimit, 200000);
+      // ~20k tokens of padding added by the plugin: about 10% of 200k
+      assert.ok(util.estimatedTokens > 20_000 && util.estimatedTokens < 20_100, String(util.estimatedTokens));
+      assert.equal(util.percent, 10);
+    } finally {
+      await proxy.stop();
+      upstream.close();
+    }
+  });
+
+  it("runs onResponse hooks over a synthetic JSON body", async () => {
+    let captured: any = null;
+    const answerer: ProxyPlugin = {
+      name: "answerer",
+      onRequest(ctx) {
+        return { ...ctx, response: { status: 200, body: { content: [{ type: "text", text: "cached" }] } } };
+      },
+    };
+    const rewriter: ProxyPlugin = {
+      name: "rewriter",
+      onResponse(ctx) {
+        return { ...ctx, body: ctx.body.replace("cached", "rewritten") };
+      },
+      onCapture(capture) {
+        captured = capture;
+      },
+    };
+
+    const proxy = createProxy({
+      port: 0,
+      plugins: [answerer, rewriter],
+      upstreams: { anthropic: "http://127.0.0.1:1" },
+    });
+    await proxy.start();
+
+    try {
+      const res = await makeRequest(proxy.port, {
+        path: "/v1/messages",
+        method: "POST",
+        body: JSON.stringify({ model: "test" }),
+      });
+      await new Promise((r) => setTimeout(r, 50));
+
+      assert.equal(res.status, 200);
+      assert.equal(JSON.parse(res.body).content[0].text, "rewritten");
+      assert.equal(captured.responseIsStreaming, false);
+      assert.equal(captured.responseHeaders["content-type"], "application/json");
+      assert.ok(captured.responseBody.includes("rewritten"));
+    } finally {
+      await proxy.stop();
+    }
+  });
+
+  it("streams synthetic SSE chunks through the stream hooks", async () => {
+    let captured: any = null;
+    const seen: string[] = [];
+    const streamer: ProxyPlugin = {
+      name: "streamer",
+      onRequest(ctx) {
+        return {
+          ...ctx,
+          response: {
+            status: 200,
+            chunks: [
+              { data: "data: one\n\n" },
+              { data: "data: two\n\n", delayMs: 20 },
+            ],
+          },
+        };
+      },
+    };
+    const tap: ProxyPlugin = {
+      name: "tap",
+      onStreamChunk(chunk) {
+        seen.push(chunk.toString());
+        return Buffer.from(chunk.toString().toUpperCase());
+      },
+      onStreamEnd() {
+        return Buffer.from("data: [DONE]\n\n");
+      },
+      onCapture(capture) {
+        captured = capture;
+      },
+    };
+
+    const proxy = createProxy({
+      port: 0,
+      plugins: [streamer, tap],
+      upstreams: { anthropic: "http://127.0.0.1:1" },
+    });
+    await proxy.start();
+
+    try {
+      const res = await makeRequest(proxy.port, {
+        path: "/v1/messages",
+        method: "POST",
+        body: JSON.stringify({ model: "test", stream: true }),
+      });
+      await new Promise((r) => setTimeout(r, 50));
+
+      assert.equal(res.status, 200);
+      assert.equal(res.body, "DATA: ONE\n\nDATA: TWO\n\ndata: [DONE]\n\n");
+      assert.deepEqual(seen, ["data: one\n\n", "data: two\n\n"]);
+      assert.equal(captured.responseIsStreaming, true);
+      assert.equal(captured.responseBody, "data: one\n\ndata: two\n\n");
+      assert.equal(captured.respondedBy, "streamer");
+      assert.ok(captured.timings.total_ms >= 15);
+    } finally {
+      await proxy.stop();
+    }
+  });
+});
+
+describe("Bedrock", () => {
+  const credentials = { accessKeyId: "AKIDPROXY", secretAccessKey: "proxy-secret" };
+
+  function chunk(event: unknown): Buffer {
+    const bytes = Buffer.from(JSON.stringify(event)).toString("base64");
+    return encodeEventStreamMessage({ ":event-type": "chunk", ":message-type": "event" }, JSON.stringify({ bytes }));
+  }
+
+  it("streams event-stream responses through and captures them as SSE", async () => {
+    const stream = Buffer.concat([
+      chunk({ type: "message_start", message: { usage: { input_tokens: 5 } } }),
+      chunk({ type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Hello" } }),
+    ]);
+    const upstream = http.createServer((req, res) => {
+      req.resume();
+      res.writeHead(200, { "Content-Type": "application/vnd.amazon.eventstream" });
+      res.write(stream.subarray(0, 20));
+      res.end(stream.subarray(20));
+    });
+    await new Promise<void>((resolve) => upstream.listen(0, resolve));
+
+    let capture: CaptureData | null = null;
+    const proxy = createProxy({
+      port: 0,
+      upstreams: { bedrock: `http://127.0.0.1:${getServerPort(upstream)}` },
+      plugins: [{ name: "capture", onCapture: (c) => { capture = c; } }],
+    });
+    await proxy.start();
+
+    try {
+      const received = await new Promise<Buffer>((resolve, reject) => {
+        const req = http.request(
+          {
+            hostname: "127.0.0.1",
+            port: proxy.port,
+            method: "POST",
+            path: "/model/anthropic.claude-sonnet-4-20250514-v1%3A0/invoke-with-response-stream",
+            headers: { "content-type": "application/json" },
+          },
+          (res) => {
+            const chunks: Buffer[] = [];
+            res.on("data", (c: Buffer) => chunks.push(c));
+            res.on("end", () => resolve(Buffer.concat(chunks)));
+          },
+        );
+        req.on("error", reject);
+        req.end(JSON.stringify({ anthropic_version: "bedrock-2023-05-31", messages: [] }));
+      });
+      await new Promise((r) => setTimeout(r, 50));
+
+      assert.deepEqual(received, stream);
+      const c = capture as CaptureData | null;
+      assert.equal(c?.provider, "bedrock");
+      assert.equal(c?.apiFormat, "anthropic-messages");
+      assert.equal(c?.responseIsStreaming, true);
+      assert.ok(c?.responseBody.includes('data: {"type":"content_block_delta"'), c?.responseBody);
+    } finally {
+      await proxy.stop();
+      upstream.close();
+    }
+  });
+
+  it("never re-signs requests for other hosts or services with the proxy's credentials", async () => {
+    const received: { path: string; headers: HeaderMap }[] = [];
+    const upstream = http.createServer((req, res) => {
+      received.push({ path: req.url!, headers: req.headers as HeaderMap });
+      req.resume();
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end("{}");
+    });
+    await new Promise<void>((resolve) => upstream.listen(0, resolve));
+    const mock = `http://127.0.0.1:${getServerPort(upstream)}`;
+
+    const proxy = createProxy({
+      port: 0,
+      allowTargetOverride: true,
+      awsCredentials: credentials,
+      upstreams: { openai: mock },
+    });
+    await proxy.start();
+
+    const send = async (path: string, scope: { region: string; service: string }, extra: Record<string, string>) => {
+      const body = '{"messages":[]}';
+      const signed = signSigV4(
+        {
+          method: "POST",
+          path,
+          headers: { host: `127.0.0.1:${proxy.port}`, "content-type": "application/json" },
+          body: Buffer.from(body),
+        },
+        { accessKeyId: "AKIDCLIENT", secretAccessKey: "client-secret" },
+        scope,
+        ["content-type"],
+      );
+      const res = await makeRequest(proxy.port, {
+        method: "POST",
+        path,
+        headers: { ...(signed as Record<string, string>), ...extra },
+        body,
+      });
+      assert.equal(res.status, 200);
+      return signed.authorization;
+    };
+
+    try {
+      // A Bedrock request redirected to a host that isn't a Bedrock runtime endpoint
+      const bedrock = await send("/claude/model/anthropic.claude-v2%3A1/invoke", { region: "us-east-1", service: "bedrock" }, {
+        "x-target-url": mock,
+      });
+      // A request signed for another service, on a non-Bedrock path
+      const s3 = await send("/v1/chat/completions", { region: "us-east-1", service: "s3" }, {});
+
+      assert.equal(received.length, 2);
+      assert.equal(received[0].headers.authorization, bedrock);
+      assert.equal(received[1].headers.authorization, s3);
+      for (const r of received) {
+        assert.equal(parseSigV4Authorization(String(r.headers.authorization))?.accessKeyId, "AKIDCLIENT");
+      }
+    } finally {
+      await proxy.stop();
+      upstream.close();
+    }
+  });
+});
+
+describe("Azure OpenAI", () => {
+  it("forwards to the resource and records the deployment on the capture", async () => {
+    let upstreamUrl = "";
+    const upstream = http.createServer((req, res) => {
+      upstreamUrl = req.url!;
+      req.resume();
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ model: "gpt-4o-2024-08-06", choices: [], usage: { prompt_tokens: 3, completion_tokens: 1 } }));
+    });
+    await new Promise<void>((resolve) => upstream.listen(0, resolve));
+
+    let capture: CaptureData | null = null;
+    const proxy = createProxy({
+      port: 0,
+      upstreams: { azureOpenai: `http://127.0.0.1:${getServerPort(upstream)}` },
+      azureDeployments: { "prod-chat": "gpt-4o" },
+      plugins: [{ name: "capture", onCapture: (c) => { capture = c; } }],
+    });
+    await proxy.start();
+
+    try {
+      const path = "/openai/deployments/prod-chat/chat/completions?api-version=2024-10-21";
+      const res = await makeRequest(proxy.port, {
+        method: "POST",
+        path,
+        headers: { "content-type": "application/json", "api-key": "azure-secret" },
+        body: JSON.stringify({ messages: [{ role: "user", content: "hi" }] }),
+      });
+      await new Promise((r) => setTimeout(r, 50));
+
+      assert.equal(res.status, 200);
+      assert.equal(upstreamUrl, path);
+      const c = capture as CaptureData | null;
+      assert.equal(c?.provider, "azure-openai");
+      assert.equal(c?.apiFormat, "chat-completions");
+      assert.deepEqual(c?.azure, { deployment: "prod-chat", apiVersion: "2024-10-21", model: "gpt-4o" });
+      assert.equal(c?.contextUtilization?.model, "gpt-4o");
+      assert.equal(c?.requestHeaders["api-key"], undefined);
+    } finally {
+      await proxy.stop();
+      upstream.close();
+    }
+  });
+
+  it("rejects requests when no resource endpoint is configured", async () => {
+    const proxy = createProxy({ port: 0, upstreams: { azureOpenai: "" } });
+    await proxy.start();
+
+    try {
+      const res = await makeRequest(proxy.port, {
+        method: "POST",
+        path: "/openai/deployments/prod-chat/chat/completions",
+        body: "{}",
+      });
+      assert.equal(res.status, 502);
+      assert.match(res.body, /No upstream URL configured for azure-openai/);
+    } finally {
+      await proxy.stop();
+    }
+  });
+});
+
+describe("named upstreams", () => {
+  let upstream: http.Server;
+  let received: { url: string; headers: http.IncomingHttpHeaders }[];
+  let baseUrl: string;
+
+  before(async () => {
+    received = [];
+    upstream = http.createServer((req, res) => {
+      received.push({ url: req.url!, headers: req.headers });
+      req.resume();
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ choices: [], usage: { prompt_tokens: 3, completion_tokens: 1 } }));
+    });
+    await new Promise<void>((resolve) => upstream.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${getServerPort(upstream)}`;
+  });
+
+  after(() => {
+    upstream.close();
+  });
+
+  it("routes by model, moves the key to the backend's header, and labels the capture", async () => {
+    let capture: CaptureData | null = null;
+    const proxy = createProxy({
+      port: 0,
+      namedUpstreams: {
+        vllm: { baseUrl: `${baseUrl}/vllm`, models: ["meta-llama/"], authHeader: "x-api-key" },
+      },
+      plugins: [{ name: "capture", onCapture: (c) => { capture = c; } }],
+    });
+    await proxy.start();
+
+    try {
+      const res = await makeRequest(proxy.port, {
+        method: "POST",
+        path: "/aider/v1/chat/completions",
+        headers: { "content-type": "application/json", authorization: "Bearer vllm-key" },
+        body: JSON.stringify({ model: "meta-llama/Llama-3.1-8B", messages: [] }),
+      });
+      await new Promise((r) => setTimeout(r, 50));
+
+      assert.equal(res.status, 200);
+      const last = received[received.length - 1];
+      assert.equal(last.url, "/vllm/v1/chat/completions");
+      assert.equal(last.headers["x-api-key"], "vllm-key");
+      assert.equal(last.headers.authorization, undefined);
+
+      const c = capture as CaptureData | null;
+      assert.equal(c?.provider, "vllm");
+      assert.equal(c?.source, "aider");
+      assert.equal(c?.apiFormat, "chat-completions");
+      assert.equal(c?.targetUrl, `${baseUrl}/vllm/v1/chat/completions`);
+    } finally {
+      await proxy.stop();
+    }
+  });
+
+  it("keeps the backend's key header out of captures", async () => {
+    let capture: CaptureData | null = null;
+    const proxy = createProxy({
+      port: 0,
+      namedUpstreams: { portkey: { baseUrl, authHeader: "X-Portkey-Key" } },
+      plugins: [{ name: "capture", onCapture: (c) => { capture = c; } }],
+    });
+    await proxy.start();
+
+    try {
+      const res = await makeRequest(proxy.port, {
+        method: "POST",
+        path: "/portkey/v1/chat/completions",
+        headers: { "content-type": "application/json", "x-portkey-key": "pk-secret" },
+        body: JSON.stringify({ model: "gpt-4o", messages: [] }),
+      });
+      await new Promise((r) => setTimeout(r, 50));
+
+      assert.equal(res.status, 200);
+      assert.equal(received[received.length - 1].headers["x-portkey-key"], "pk-secret");
+      const c = capture as CaptureData | null;
+      assert.equal(c?.provider, "portkey");
+      assert.equal(c?.requestHeaders["x-portkey-key"], undefined);
+      assert.equal(c?.requestHeaders["content-type"], "application/json");
+    } finally {
+      await proxy.stop();
+    }
+  });
+
+  it("moves the key to the header of the upstream a plugin redirected to", async () => {
+    const proxy = createProxy({
+      port: 0,
+      namedUpstreams: {
+        vllm: { baseUrl: `${baseUrl}/vllm`, models: ["meta-llama/"], authHeader: "x-api-key" },
+        portkey: { baseUrl: `${baseUrl}/portkey`, authHeader: "x-portkey-key" },
+      },
+      plugins: [
+        {
+          name: "router",
+          onRequest: (ctx) => ({ ...ctx, targetUrl: `${baseUrl}/portkey${ctx.path}` }),
+        },
+      ],
+    });
+    await proxy.start();
+
+    try {
+      const res = await makeRequest(proxy.port, {
+        method: "POST",
+        path: "/v1/chat/completions",
+        headers: { "content-type": "application/json", authorization: "Bearer pk-key" },
+        body: JSON.stringify({ model: "meta-llama/Llama-3.1-8B", messages: [] }),
+      });
+      await new Promise((r) => setTimeout(r, 50));
+
+      assert.equal(res.status, 200);
+      const last = received[received.length - 1];
+      assert.equal(last.url, "/portkey/v1/chat/completions");
+      assert.equal(last.headers["x-portkey-key"], "pk-key");
+      assert.equal(last.headers["x-api-key"], undefined);
+      assert.equal(last.headers.authorization, undefined);
+    } finally {
+      await proxy.stop();
+    }
+  });
+
+  it("drops the client's credentials on a redirect outside the registry unless forwardAuth is set", async () => {
+    for (const forwardAuth of [false, true]) {
+      const proxy = createProxy({
+        port: 0,
+        upstreams: { gemini: "http://127.0.0.1:9" },
+        namedUpstreams: { vllm: { baseUrl: "http://127.0.0.1:9/vllm" } },
+        plugins: [
+          {
+            name: "router",
+            onRequest: (ctx) => ({
+              ...ctx,
+              targetUrl: `${baseUrl}/self${ctx.path}?key=AIza-secret&alt=sse`,
+              ...(forwardAuth ? { forwardAuth } : {}),
+            }),
+          },
+        ],
+      });
+      await proxy.start();
+
+      try {
+        const res = await makeRequest(proxy.port, {
+          method: "POST",
+          path: "/v1beta/models/gemini-2.5-pro:streamGenerateContent",
+          headers: { "content-type": "application/json", "x-goog-api-key": "AIza-secret" },
+          body: JSON.stringify({ contents: [] }),
+        });
+        await new Promise((r) => setTimeout(r, 50));
+
+        assert.equal(res.status, 200);
+        const last = received[received.length - 1];
+        if (forwardAuth) {
+          assert.equal(last.url, "/self/v1beta/models/gemini-2.5-pro:streamGenerateContent?key=AIza-secret&alt=sse");
+          assert.equal(last.headers["x-goog-api-key"], "AIza-secret");
+        } else {
+          assert.equal(last.url, "/self/v1beta/models/gemini-2.5-pro:streamGenerateContent?alt=sse");
+          assert.equal(last.headers["x-goog-api-key"], undefined);
+          assert.equal(last.headers["content-type"], "application/json");
+        }
+      } finally {
+        await proxy.stop();
+      }
+    }
+  });
+
+  it("routes by source tag, including requests that are passed through", async () => {
+    const dir = fs.mkdtempSync(join(tmpdir(), "contextio-upstreams-"));
+    const file = join(dir, "upstreams.json");
+    fs.writeFileSync(file, JSON.stringify({ ollama: { baseUrl } }));
+    const proxy = createProxy({ port: 0, namedUpstreams: loadNamedUpstreams(file) });
+    await proxy.start();
+
+    try {
+      const res = await makeRequest(proxy.port, {
+        path: "/ollama/v1/models",
+        headers: { authorization: "Bearer unused" },
+      });
+      assert.equal(res.status, 200);
+      const last = received[received.length - 1];
+      assert.equal(last.url, "/v1/models");
+      assert.equal(last.headers.authorization, "Bearer unused");
+    } finally {
+      await proxy.stop();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("rejects malformed registry files", () => {
+    const dir = fs.mkdtempSync(join(tmpdir(), "contextio-upstreams-"));
+    const file = join(dir, "upstreams.json");
+    fs.writeFileSync(file, JSON.stringify({ ollama: { baseUrl: "localhost:11434" } }));
+    try {
+      assert.throws(() => loadNamedUpstreams(file), /Upstream "ollama": "baseUrl" must be an http\(s\) URL/);
+
+      fs.writeFileSync(file, JSON.stringify({ ollama: { baseUrl: "http://localhost:11434", apiFormat: "chat-completion" } }));
+      assert.throws(() => loadNamedUpstreams(file), /Upstream "ollama": "apiFormat" must be one of anthropic-messages, /);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("plugin redirects", () => {
+  it("forwards to the targetUrl a plugin set and records it on the capture", async () => {
+    let upstreamUrl = "";
+    const upstream = http.createServer((req, res) => {
+      upstreamUrl = req.url!;
+      req.resume();
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end("{}");
+    });
+    await new Promise<void>((resolve) => upstream.listen(0, resolve));
+    const selfHosted = `http://127.0.0.1:${getServerPort(upstream)}`;
+
+    let seenTarget: string | undefined;
+    let capture: CaptureData | null = null;
+    const proxy = createProxy({
+      port: 0,
+      upstreams: { openai: "http://127.0.0.1:9" },
+      plugins: [
+        {
+          name: "redirect",
+          onRequest: (ctx) => {
+            seenTarget = ctx.targetUrl;
+            return { ...ctx, targetUrl: `${selfHosted}/self${ctx.path}` };
+          },
+          onCapture: (c) => { capture = c; },
+        },
+      ],
+    });
+    await proxy.start();
+
+    try {
+      const res = await makeRequest(proxy.port, {
+        method: "POST",
+        path: "/v1/chat/completions?x=1",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ model: "gpt-4o", messages: [] }),
+      });
+      await new Promise((r) => setTimeout(r, 50));
+
+      assert.equal(res.status, 200);
+      assert.equal(seenTarget, "http://127.0.0.1:9/v1/chat/completions?x=1");
+      assert.equal(upstreamUrl, "/self/v1/chat/completions");
+      assert.equal((capture as CaptureData | null)?.targetUrl, `${selfHosted}/self/v1/chat/completions`);
+    } finally {
+      await proxy.stop();
+      upstream.close();
+    }
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  awsCredentialsFromEnv,
+  parseSigV4Authorization,
+  resignIfChanged,
+  signSigV4,
+} from "../dist/sigv4.js";
+import type { SignableRequest } from "../dist/sigv4.js";
+
+// Credentials and expected values from the AWS SigV4 test suite
+const CREDENTIALS = {
+  accessKeyId: "AKIDEXAMPLE",
+  secretAccessKey: "wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY",
+};
+const TEST_DATE = new Date("2015-08-30T12:36:00Z");
+
+const PROXY_CREDENTIALS = { accessKeyId: "AKIDPROXY", secretAccessKey: "proxy-secret", sessionToken: "tok" };
+
+/** A Bedrock request signed by the client for the proxy's address. */
+function clientRequest(): SignableRequest {
+  const request: SignableRequest = {
+    method: "POST",
+    path: "/claude/model/anthropic.claude-v2%3A1/invoke",
+    headers: { host: "127.0.0.1:4040", "content-type": "application/json" },
+    body: Buffer.from('{"messages":[]}'),
+  };
+  return {
+    ...request,
+    headers: signSigV4(request, CREDENTIALS, { region: "eu-west-1", service: "bedrock" }, ["content-type"]),
+  };
+}
+
+describe("signSigV4", () => {
+  it("matches the AWS get-vanilla test vector", () => {
+    const headers = signSigV4(
+      { method: "GET", path: "/", headers: { host: "example.amazonaws.com" }, body: Buffer.alloc(0) },
+      CREDENTIALS,
+      { region: "us-east-1", service: "service" },
+      [],
+      TEST_DATE,
+    );
+
+    assert.equal(headers["x-amz-date"], "20150830T123600Z");
+    assert.equal(
+      headers.authorization,
+      "AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/service/aws4_request, " +
+        "SignedHeaders=host;x-amz-date, " +
+        "Signature=5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31",
+    );
+  });
+
+  it("signs the session token and keeps an unsigned payload unsigned", () => {
+    const headers = signSigV4(
+      {
+        method: "POST",
+        path: "/model/m/invoke",
+        headers: { host: "bedrock-runtime.us-east-1.amazonaws.com", "x-amz-content-sha256": "UNSIGNED-PAYLOAD" },
+        body: Buffer.from("{}"),
+      },
+      PROXY_CREDENTIALS,
+      { region: "us-east-1", service: "bedrock" },
+    );
+
+    assert.equal(headers["x-amz-security-token"], "tok");
+    assert.equal(headers["x-amz-content-sha256"], "UNSIGNED-PAYLOAD");
+    assert.match(
+      String(headers.authorization),
+      /SignedHeaders=host;x-amz-content-sha256;x-amz-date;x-amz-security-token,/,
+    );
+  });
+});
+
+describe("parseSigV4Authorization", () => {
+  it("reads the credential scope and signed headers", () => {
+    const auth = parseSigV4Authorization(String(clientRequest().headers.authorization));
+    assert.deepEqual(auth, {
+      accessKeyId: "AKIDEXAMPLE",
+      region: "eu-west-1",
+      service: "bedrock",
+      signedHeaders: ["content-type", "host", "x-amz-date"],
+    });
+  });
+
+  it("ignores other schemes", () => {
+    assert.equal(parseSigV4Authorization("Bearer ABSKexample"), null);
+    assert.equal(parseSigV4Authorization(undefined), null);
+  });
+});
+
+describe("resignIfChanged", () => {
+  it("keeps signatures that still cover the forwarded request", () => {
+    const original = clientRequest();
+    const result = resignIfChanged(original, { ...original, headers: { ...original.headers } }, PROXY_CREDENTIALS);
+    assert.equal(result?.outcome, "intact");
+    assert.equal(result?.headers.authorization, original.headers.authorization);
+  });
+
+  it("re-signs for a new host, path, and body with the proxy's credentials", () => {
+    const original = clientRequest();
+    const forward: SignableRequest = {
+      method: "POST",
+      path: "/model/anthropic.claude-v2%3A1/invoke",
+      headers: { ...original.headers, host: "bedrock-runtime.eu-west-1.amazonaws.com" },
+      body: Buffer.from('{"messages":["[EMAIL_1]"]}'),
+    };
+
+    const result = resignIfChanged(original, forward, PROXY_CREDENTIALS);
+    assert.equal(result?.outcome, "resigned");
+
+    const auth = parseSigV4Authorization(String(result?.headers.authorization));
+    assert.equal(auth?.accessKeyId, "AKIDPROXY");
+    assert.equal(auth?.region, "eu-west-1");
+    assert.deepEqual(auth?.signedHeaders, ["content-type", "host", "x-amz-date", "x-amz-security-token"]);
+
+    // Signing the forwarded request again at the same time gives the same signature
+    const now = new Date(
+      String(result?.headers["x-amz-date"]).replace(/^(\d{4})(\d\d)(\d\d)T(\d\d)(\d\d)(\d\d)Z$/, "$1-$2-$3T$4:$5:$6Z"),
+    );
+    const expected = signSigV4(forward, PROXY_CREDENTIALS, { region: "eu-west-1", service: "bedrock" }, ["content-type"], now);
+    assert.equal(result?.headers.authorization, expected.authorization);
+  });
+
+  it("reports a broken signature it cannot fix", () => {
+    const original = clientRequest();
+    const forward = {
+      ...original,
+      path: "/model/anthropic.claude-v2%3A1/invoke",
+      headers: { ...original.headers, host: "bedrock-runtime.eu-west-1.amazonaws.com" },
+    };
+    assert.equal(resignIfChanged(original, forward, null)?.outcome, "missing-credentials");
+  });
+
+  it("never re-signs for other services", () => {
+    const request: SignableRequest = {
+      method: "GET",
+      path: "/my-bucket/secret.txt",
+      headers: { host: "127.0.0.1:4040" },
+      body: Buffer.alloc(0),
+    };
+    const original = { ...request, headers: signSigV4(request, CREDENTIALS, { region: "eu-west-1", service: "s3" }) };
+    const forward = { ...original, headers: { ...original.headers, host: "bedrock-runtime.eu-west-1.amazonaws.com" } };
+
+    const result = resignIfChanged(original, forward, PROXY_CREDENTIALS);
+    assert.equal(result?.outcome, "refused");
+    assert.equal(result?.headers.authorization, original.headers.authorization);
+  });
+
+  it("never re-signs for hosts other than Bedrock runtime endpoints", () => {
+    const original = clientRequest();
+    for (const host of ["iam.amazonaws.com", "sts.eu-west-1.amazonaws.com", "bedrock-runtime.eu-west-1.amazonaws.com.evil.test", "127.0.0.1:9000"]) {
+      const result = resignIfChanged(original, { ...original, headers: { ...original.headers, host } }, PROXY_CREDENTIALS);
+      assert.equal(result?.outcome, "refused", host);
+      assert.equal(result?.headers.authorization, original.headers.authorization);
+    }
+  });
+
+  it("signs for the region of the host it forwards to", () => {
+    const original = clientRequest();
+    const forward = { ...original, headers: { ...original.headers, host: "bedrock-runtime.us-west-2.amazonaws.com" } };
+    const result = resignIfChanged(original, forward, PROXY_CREDENTIALS);
+    assert.equal(parseSigV4Authorization(String(result?.headers.authorization))?.region, "us-west-2");
+  });
+
+  it("leaves unsigned requests alone", () => {
+    const request: SignableRequest = { method: "POST", path: "/v1/messages", headers: {}, body: Buffer.alloc(0) };
+    assert.equal(resignIfChanged(request, request, PROXY_CREDENTIALS), null);
+  });
+});
+
+describe("awsCredentialsFromEnv", () => {
+  it("needs both the key ID and the secret", () => {
+    assert.equal(awsCredentialsFromEnv({ AWS_ACCESS_KEY_ID: "a" }), null);
+    assert.deepEqual(awsCredentialsFromEnv({ AWS_ACCESS_KEY_ID: "a", AWS_SECRET_ACCESS_KEY: "s" }), {
+      accessKeyId: "a",
+      secretAccessKey: "s",
+    });
+  });
+});
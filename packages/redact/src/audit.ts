@@ -0,0 +1,57 @@
+/**
+ * Audit records for redactions.
+ *
+ * The plugin turns each applied match into a {@link RedactionRecord}:
+ * rule, JSON path, placeholder, and an HMAC of the original value. The
+ * plaintext never leaves this module. With a stable key, the same value
+ * hashes the same way in every session, so reviewers can tell how many
+ * distinct values a rule caught, and whether a value seen today was seen
+ * before, without being able to recover it.
+ */
+
+import crypto from "node:crypto";
+import { homedir } from "node:os";
+import { join } from "node:path";
+
+import type { RedactionRecord } from "@contextio/core";
+
+import type { RedactionMatch } from "./redact.js";
+import { readOrCreateSecret } from "./store.js";
+
+/** Hex characters of the HMAC kept in a record. 128 bits is plenty to tell values apart. */
+const HASH_LENGTH = 32;
+
+/** Default secret file for {@link loadAuditKey}: `~/.contextio/redact/audit.key`. */
+export function defaultAuditKeyFile(): string {
+  return join(homedir(), ".contextio", "redact", "audit.key");
+}
+
+/**
+ * Read the audit hashing key, creating a random one (mode 0600) on first
+ * use. Keep the file to keep hashes comparable across proxy restarts.
+ */
+export function loadAuditKey(file = defaultAuditKeyFile()): Buffer {
+  return readOrCreateSecret(file);
+}
+
+/** Keyed hash of an original value, as stored in audit records. */
+export function hashOriginal(value: string, key: Buffer | string): string {
+  const digest = crypto.createHmac("sha256", key).update(value).digest("hex");
+  return `hmac-sha256:${digest.slice(0, HASH_LENGTH)}`;
+}
+
+/** Audit records for the matches a redaction pass applied. Skipped matches are left out. */
+export function toAuditRecords(matches: readonly RedactionMatch[], key: Buffer | string): RedactionRecord[] {
+  const records: RedactionRecord[] = [];
+  for (const m of matches) {
+    if (m.outcome !== "redacted" && m.outcome !== "blocked" && m.outcome !== "warned") continue;
+    records.push({
+      rule: m.rule,
+      path: m.path,
+      action: m.outcome,
+      placeholder: m.replacement,
+      hash: hashOriginal(m.match, key),
+    });
+  }
+  return records;
+}
@@ -0,0 +1,215 @@
+/**
+ * Dictionary matching for entity lists (names, customer IDs, codenames).
+ *
+ * A regex alternation over tens of thousands of names is slow to compile
+ * and slow to run, so dictionaries use an Aho-Corasick automaton instead:
+ * one pass over the text finds every entry, whatever the dictionary size.
+ *
+ * Matches respect word boundaries (an entry "Ann" doesn't match inside
+ * "Annual") and, unless `caseSensitive` is set, ignore case. Overlapping
+ * matches resolve leftmost-longest, so "John Smith" wins over "John".
+ */
+
+import fs from "node:fs";
+import { extname } from "node:path";
+
+/** Options for {@link Dictionary}. */
+export interface DictionaryOptions {
+  /** Match case exactly. Default: false. */
+  caseSensitive?: boolean;
+}
+
+/** A dictionary match: `text.slice(start, end)`. */
+export interface DictionaryMatch {
+  start: number;
+  end: number;
+}
+
+const WORD_CHAR = /[\p{L}\p{N}_]/u;
+
+/**
+ * Lowercase `text` without changing its length, so match offsets in the
+ * folded text are valid in the original. Characters whose lowercase form
+ * has a different length (e.g. "İ") are kept as-is.
+ */
+function foldCase(text: string): string {
+  const lower = text.toLowerCase();
+  if (lower.length === text.length) return lower;
+  let out = "";
+  for (const ch of text) {
+    const l = ch.toLowerCase();
+    out += l.length === ch.length ? l : ch;
+  }
+  return out;
+}
+
+/** Aho-Corasick automaton over a set of terms. */
+export class Dictionary {
+  private readonly caseSensitive: boolean;
+  /** Trie edges per node, keyed by UTF-16 code unit. */
+  private readonly children: Map<number, number>[] = [new Map()];
+  /** Failure link per node. */
+  private readonly fail: number[] = [0];
+  /** Length of the term ending at each node, or 0. */
+  private readonly termLength: number[] = [0];
+  /** Nearest node on the failure chain that ends a term, or 0. */
+  private readonly outputLink: number[] = [0];
+  private count = 0;
+
+  constructor(terms: Iterable<string>, options: DictionaryOptions = {}) {
+    this.caseSensitive = options.caseSensitive ?? false;
+    for (const term of terms) this.add(term);
+    this.link();
+  }
+
+  /** Number of distinct entries. */
+  get size(): number {
+    return this.count;
+  }
+
+  private add(raw: string): void {
+    const term = this.caseSensitive ? raw.trim() : foldCase(raw.trim());
+    if (!term) return;
+
+    let node = 0;
+    for (let i = 0; i < term.length; i++) {
+      const code = term.charCodeAt(i);
+      let next = this.children[node].get(code);
+      if (next === undefined) {
+        next = this.children.length;
+        this.children.push(new Map());
+        this.fail.push(0);
+        this.termLength.push(0);
+        this.outputLink.push(0);
+        this.children[node].set(code, next);
+      }
+      node = next;
+    }
+    if (this.termLength[node] === 0) this.count++;
+    this.termLength[node] = term.length;
+  }
+
+  /** Compute failure and output links breadth-first. */
+  private link(): void {
+    const queue: number[] = [...this.children[0].values()];
+    for (let q = 0; q < queue.length; q++) {
+      const node = queue[q];
+      for (const [code, child] of this.children[node]) {
+        let f = this.fail[node];
+        while (f !== 0 && !this.children[f].has(code)) f = this.fail[f];
+        this.fail[child] = node === 0 ? 0 : this.children[f].get(code) ?? 0;
+        const failNode = this.fail[child];
+        this.outputLink[child] = this.termLength[failNode] > 0 ? failNode : this.outputLink[failNode];
+        queue.push(child);
+      }
+    }
+  }
+
+  /** True if a match at [start, end) sits on word boundaries. */
+  private onBoundaries(text: string, start: number, end: number): boolean {
+    if (WORD_CHAR.test(text[start]) && start > 0 && WORD_CHAR.test(text[start - 1])) return false;
+    if (WORD_CHAR.test(text[end - 1]) && end < text.length && WORD_CHAR.test(text[end])) return false;
+    return true;
+  }
+
+  /** Find all non-overlapping matches in `text`, leftmost-longest, in order. */
+  findAll(text: string): DictionaryMatch[] {
+    if (this.count === 0 || text.length === 0) return [];
+    const haystack = this.caseSensitive ? text : foldCase(text);
+
+    const found: DictionaryMatch[] = [];
+    let state = 0;
+    for (let i = 0; i < haystack.length; i++) {
+      const code = haystack.charCodeAt(i);
+      while (state !== 0 && !this.children[state].has(code)) state = this.fail[state];
+      state = this.children[state].get(code) ?? 0;
+
+      let out = this.termLength[state] > 0 ? state : this.outputLink[state];
+      while (out !== 0) {
+        const start = i + 1 - this.termLength[out];
+        if (this.onBoundaries(text, start, i + 1)) found.push({ start, end: i + 1 });
+        out = this.outputLink[out];
+      }
+    }
+
+    found.sort((a, b) => a.start - b.start || b.end - a.end);
+    const matches: DictionaryMatch[] = [];
+    let lastEnd = 0;
+    for (const m of found) {
+      if (m.start < lastEnd) continue;
+      matches.push(m);
+      lastEnd = m.end;
+    }
+    return matches;
+  }
+}
+
+// --- Loading entries from files ---
+
+/** Split CSV text into rows of fields. Handles quoted fields with commas, quotes, and newlines. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((f) => f.trim()));
+}
+
+/**
+ * Read dictionary entries from a file.
+ *
+ * `.csv` files have a header row; entries come from the named `column`
+ * (default: the first column). Any other file is plain text with one
+ * entry per line; blank lines and lines starting with `#` are skipped.
+ *
+ * @throws If the file can't be read or the column doesn't exist.
+ */
+export function loadDictionaryFile(filePath: string, column?: string): string[] {
+  const text = fs.readFileSync(filePath, "utf8").replace(/^\uFEFF/, "");
+
+  if (extname(filePath).toLowerCase() !== ".csv") {
+    return text
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line && !line.startsWith("#"));
+  }
+
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const index = column === undefined ? 0 : header.findIndex((h) => h.trim() === column);
+  if (index === -1) {
+    throw new Error(`Column "${column}" not found in ${filePath}. Available: ${header.map((h) => h.trim()).join(", ")}`);
+  }
+  return rows.map((r) => (r[index] ?? "").trim()).filter(Boolean);
+}
@@ -0,0 +1,106 @@
+/**
+ * Format-preserving surrogates for `replacementStyle: "fake"` rules.
+ *
+ * Instead of `[EMAIL_1]`, the LLM sees a value of the same kind that it
+ * can still reason about: a valid email address on a reserved domain, a
+ * Luhn-valid test card number, or a phone number in the range reserved
+ * for fiction. None of them can belong to a real person.
+ *
+ * The kind is picked from the shape of the matched value, so custom rules
+ * get surrogates too. Values that are none of these kinds (and numbers
+ * outside a kind's range) return null, and the caller falls back to the
+ * rule's regular replacement.
+ */
+
+import { createHash } from "node:crypto";
+
+/** Kinds of value a surrogate can be generated for. */
+export type FakeKind = "email" | "card" | "phone";
+
+/** Domain reserved for examples (RFC 2606). */
+const EMAIL_DOMAIN = "example.com";
+/** Card prefix used for test card numbers. */
+const CARD_PREFIX = "400000";
+/** Exchange 555 with line numbers 0100-0199 is reserved for fiction in every US area code. */
+const PHONE_SLOTS = 100;
+
+/** True if the digit string passes the Luhn checksum. */
+export function luhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+/** Luhn check digit that makes `payload + digit` valid. */
+function luhnCheckDigit(payload: string): string {
+  for (let d = 0; d <= 9; d++) {
+    if (luhnValid(payload + d)) return String(d);
+  }
+  return "0";
+}
+
+/** Classify a matched value. Returns null if no surrogate kind fits. */
+export function fakeKind(value: string): FakeKind | null {
+  if (/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) return "email";
+
+  const digits = value.replace(/\D/g, "");
+  if (/^[\d\s-]+$/.test(value) && digits.length >= 13 && digits.length <= 19 && luhnValid(digits)) {
+    return "card";
+  }
+  if (/^[\d\s+().-]+$/.test(value) && digits.length >= 7 && digits.length <= 15) return "phone";
+  return null;
+}
+
+/** Put `digits` into the positions of the digits in `layout`, keeping its separators. */
+function withLayout(layout: string, digits: string): string {
+  let i = 0;
+  return layout.replace(/\d/g, () => digits[i++] ?? "");
+}
+
+/**
+ * Generate the `n`th (1-based) surrogate for `value`.
+ *
+ * Different `n` give different surrogates of the same kind. Returns null
+ * if `value` has no surrogate kind or `n` is beyond the kind's range.
+ */
+export function fakeValue(value: string, n: number): string | null {
+  switch (fakeKind(value)) {
+    case "email":
+      return `user${n}@${EMAIL_DOMAIN}`;
+
+    case "card": {
+      const length = value.replace(/\D/g, "").length;
+      const serial = String(n).padStart(length - CARD_PREFIX.length - 1, "0");
+      if (serial.length > length - CARD_PREFIX.length - 1) return null;
+      const payload = CARD_PREFIX + serial;
+      return withLayout(value, payload + luhnCheckDigit(payload));
+    }
+
+    case "phone": {
+      if (n > PHONE_SLOTS) return null;
+      const line = `01${String(n - 1).padStart(2, "0")}`;
+      return value.trimStart().startsWith("+") ? `+1 202-555-${line}` : `202-555-${line}`;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Stateless surrogate for one-way redaction, where there is no session
+ * map to number values. The same value always gets the same surrogate.
+ */
+export function fakeValueFor(value: string): string | null {
+  const kind = fakeKind(value);
+  if (!kind) return null;
+  const hash = createHash("sha256").update(value).digest().readUInt32BE(0);
+  return fakeValue(value, kind === "phone" ? (hash % PHONE_SLOTS) + 1 : (hash % 999_999) + 1);
+}
@@ -5,11 +5,15 @@
  * bodies before they reach the LLM provider.
  *
  * Supports built-in presets (secrets, pii, strict), custom rules,
- * context-word gating, allowlists, and JSON path filtering.
+ * dictionaries of names and IDs, context-word gating, allowlists, and
+ * JSON path filtering. Custom rules
+ * can also block the request outright or only warn (per-rule `action`).
  *
  * When `reversible` is enabled, the plugin tracks redacted values per
  * session and restores them in the LLM response, making redaction fully
- * transparent to the client.
+ * transparent to the client. With a `MappingStore`, those per-session
+ * maps are also kept encrypted on disk, so a restarted proxy can still
+ * rehydrate placeholders the LLM saw before the restart.
  *
  * ```typescript
  * import { createRedactPlugin } from '@contextio/redact';
@@ -19,17 +23,32 @@
  *
  * // Reversible: strip on request, restore on response
  * const redact = createRedactPlugin({ preset: "pii", reversible: true });
+ *
+ * // Reversible, surviving proxy restarts
+ * const redact = createRedactPlugin({ preset: "pii", reversible: true, mappingStore: new MappingStore() });
+ *
+ * // Pick up policy file edits without a restart
+ * const redact = createRedactPlugin({ policyFile: "./policy.jsonc", watchPolicy: true });
  * ```
  */
 
+import { randomBytes } from "node:crypto";
+import fs from "node:fs";
+import { resolve } from "node:path";
+
+import { buildProviderError } from "@contextio/core";
 import type { ProxyPlugin, RequestContext, ResponseContext } from "@contextio/core";
 
+import { toAuditRecords } from "./audit.js";
 import { ReplacementMap } from "./mapping.js";
 import type { CompiledPolicy } from "./policy.js";
-import { compilePolicy, fromPreset, loadPolicyFile } from "./policy.js";
+import { compilePolicy, fromPreset, loadPolicyFile, selectScope } from "./policy.js";
 import type { PresetName } from "./presets.js";
 import { createStats, redactWithPolicy } from "./redact.js";
-import { createStreamRehydrator } from "./stream.js";
+import { rehydrateResponseBody } from "./response.js";
+import type { MappingStore } from "./store.js";
+import { createEventStreamRehydrator, createStreamRehydrator } from "./stream.js";
+import type { StreamRehydrator } from "./stream.js";
 
 /** Configuration for {@link createRedactPlugin}. */
 export interface RedactPluginConfig {
@@ -54,17 +73,71 @@ export interface RedactPluginConfig {
    * Default: 30 minutes.
    */
   sessionTtlMs?: number;
+  /**
+   * Encrypted on-disk store for replacement maps. Only used when
+   * `reversible` is true. A session's map is loaded the first time the
+   * session is seen and saved whenever it gains entries, so rehydration
+   * keeps working across proxy restarts. Stale stored maps are pruned
+   * when the plugin is created.
+   */
+  mappingStore?: MappingStore;
+  /**
+   * Watch `policyFile`, the policy files it extends, and its dictionary
+   * files, and reload the policy when one changes. New requests use the
+   * reloaded policy; a policy that fails to compile is logged and the
+   * previous one stays active. Default: false.
+   */
+  watchPolicy?: boolean;
+  /**
+   * HMAC key for hashing originals in the audit records attached to each
+   * capture (`CaptureData.redactions`). Use a stable key, such as
+   * `loadAuditKey()`, to compare hashes across restarts.
+   * Default: a random key per plugin instance.
+   */
+  auditKey?: Buffer | string;
   /** Log redaction stats to stderr after each request. */
   verbose?: boolean;
 }
 
+/** The redact plugin, with control over its policy file. */
+export interface RedactPlugin extends ProxyPlugin {
+  /**
+   * Recompile the policy file and use it for new requests. On failure,
+   * logs the error and keeps the current policy. Session maps are kept
+   * either way.
+   *
+   * @returns True if the policy was reloaded. Always false without a `policyFile`.
+   */
+  reload(): boolean;
+  /** Stop watching the policy's files. */
+  close(): void;
+}
+
 /** Per-session state for reversible mode: mapping table + stream rehydrator. */
 interface SessionState {
   map: ReplacementMap;
-  rehydrator: ReturnType<typeof createStreamRehydrator>;
+  rehydrator: StreamRehydrator;
   lastSeen: number;
 }
 
+/** How often a watched policy's files are checked for changes. */
+const WATCH_INTERVAL_MS = 500;
+
+/** A file's mtime and size, or "missing" if it can't be read. */
+function stampFile(file: string): string {
+  try {
+    const stat = fs.statSync(file);
+    return `${stat.mtimeMs}:${stat.size}`;
+  } catch {
+    return "missing";
+  }
+}
+
+/** Stamp each of `files`, reusing stamps already taken in `taken`. */
+function stampFiles(files: string[], taken = new Map<string, string>()): Map<string, string> {
+  return new Map(files.map((file) => [file, taken.get(file) ?? stampFile(file)]));
+}
+
 /** Resolve effective policy: explicit policy > policy file > preset (default: "pii"). */
 function resolvePolicy(config?: RedactPluginConfig): CompiledPolicy {
   if (config?.policy) return config.policy;
@@ -74,38 +147,100 @@ function resolvePolicy(config?: RedactPluginConfig): CompiledPolicy {
 
 const DEFAULT_SESSION_TTL_MS = 30 * 60 * 1000; // 30 minutes
 
+/** Format per-rule counts as "rule=n, rule=n" for log lines. */
+function formatCounts(counts: Record<string, number>): string {
+  return Object.entries(counts)
+    .map(([name, count]) => `${name}=${count}`)
+    .join(", ");
+}
+
 /**
  * Create a redact plugin.
  *
  * The plugin's onRequest hook walks the JSON request body and applies
  * the policy's redaction rules. The body sent to the upstream provider
- * will have sensitive data replaced with placeholder tokens.
+ * will have sensitive data replaced with placeholder tokens. If a rule with
+ * action "block" matches, the request is not forwarded at all: the client
+ * gets a 400 error in its provider's format.
  *
  * When `reversible` is true, the plugin also hooks onResponse and
  * onStreamChunk to replace placeholders back with the original values.
  * Each session (identified by the session ID in the URL path) gets its
  * own replacement map.
+ *
+ * Every applied match is also recorded in the request's capture as a
+ * RedactionRecord (rule, path, placeholder, hashed original).
+ *
+ * A policy file can be reloaded with `reload()`, or on every change with
+ * `watchPolicy`. Its files are polled rather than watched with fs.watch,
+ * so editors that save by replacing a file are picked up too. Each poll
+ * compares against the mtime and size taken when the policy was loaded,
+ * so an edit made right after loading is not missed.
  */
-export function createRedactPlugin(config?: RedactPluginConfig): ProxyPlugin {
-  const policy = resolvePolicy(config);
+export function createRedactPlugin(config?: RedactPluginConfig): RedactPlugin {
+  const policyFile = config?.policy ? null : config?.policyFile ?? null;
+  // Stat before reading, so an edit made while loading shows up as a change
+  let stamps = policyFile ? stampFiles([resolve(policyFile)]) : new Map<string, string>();
+  let policy = resolvePolicy(config);
+  stamps = stampFiles(policy.files ?? [], stamps);
   const verbose = config?.verbose ?? false;
   const reversible = config?.reversible ?? false;
   const sessionTtlMs = config?.sessionTtlMs ?? DEFAULT_SESSION_TTL_MS;
+  const store = reversible ? config?.mappingStore ?? null : null;
+  const auditKey = config?.auditKey ?? randomBytes(32);
+
+  if (store) {
+    try {
+      const pruned = store.prune();
+      if (verbose && pruned > 0) {
+        console.error(`[redact] Pruned ${pruned} stale stored mapping(s)`);
+      }
+    } catch (err: unknown) {
+      console.error("[redact] Mapping store error:", err instanceof Error ? err.message : String(err));
+    }
+  }
 
   // Per-session state (only used in reversible mode)
   const sessions = new Map<string, SessionState>();
   let lastEviction = Date.now();
 
+  /** Load a session's stored map, if any. Errors are logged and start an empty map. */
+  function loadStored(key: string, map: ReplacementMap): void {
+    if (!store) return;
+    try {
+      const entries = store.load(key);
+      if (!entries) return;
+      map.restore(entries);
+      if (verbose) {
+        console.error(`[redact] Restored ${map.size} mapping(s) for session ${key}`);
+      }
+    } catch (err: unknown) {
+      console.error("[redact] Mapping store error:", err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  /** Save a session's map after it gained entries. Errors are logged, not thrown. */
+  function saveStored(sessionId: string | null, map: ReplacementMap): void {
+    if (!store) return;
+    try {
+      store.save(sessionId ?? "__default__", map.allEntries());
+    } catch (err: unknown) {
+      console.error("[redact] Mapping store error:", err instanceof Error ? err.message : String(err));
+    }
+  }
+
   /**
    * Get or create session state. Uses "__default__" for requests
    * without a session ID. Also evicts stale sessions periodically
    * (at most once per minute) to prevent unbounded memory growth.
+   * Evicted sessions that were persisted are reloaded on their next request.
    */
   function getSession(sessionId: string | null): SessionState {
     const key = sessionId ?? "__default__";
     let state = sessions.get(key);
     if (!state) {
       const map = new ReplacementMap();
+      loadStored(key, map);
       state = {
         map,
         rehydrator: createStreamRehydrator(map),
@@ -132,30 +267,104 @@ export function createRedactPlugin(config?: RedactPluginConfig): ProxyPlugin {
     return state;
   }
 
+  function reload(): boolean {
+    if (!policyFile) return false;
+    const before = stampFiles([...stamps.keys(), resolve(policyFile)]);
+    try {
+      policy = loadPolicyFile(policyFile);
+      stamps = stampFiles(policy.files ?? [], before);
+      console.error(`[redact] Reloaded policy ${policyFile} (${policy.rules.length} rule(s))`);
+      return true;
+    } catch (err: unknown) {
+      // Don't retry the broken files until they change again
+      stamps = before;
+      console.error(
+        `[redact] Policy reload failed, keeping previous policy: ${err instanceof Error ? err.message : String(err)}`,
+      );
+      return false;
+    }
+  }
+
+  let watcher: NodeJS.Timeout | null = null;
+  if (policyFile && config?.watchPolicy) {
+    watcher = setInterval(() => {
+      for (const [file, recorded] of stamps) {
+        if (stampFile(file) !== recorded) {
+          reload();
+          return;
+        }
+      }
+    }, WATCH_INTERVAL_MS);
+    // The watcher alone shouldn't keep the process alive
+    watcher.unref();
+  }
+
   return {
     name: "redact",
 
+    reload,
+
+    close(): void {
+      if (!watcher) return;
+      clearInterval(watcher);
+      watcher = null;
+    },
+
     onRequest(ctx: RequestContext): RequestContext {
       if (!ctx.body) return ctx;
 
+      const sid = ctx.sessionId ? ` [${ctx.sessionId}]` : "";
+      const scope = selectScope(policy, ctx);
+      if (scope && verbose) {
+        console.error(`[redact]${sid} Using policy scope "${scope.name}"`);
+      }
+
       const map = reversible ? getSession(ctx.sessionId).map : null;
-      const stats = createStats();
-      const redacted = redactWithPolicy(ctx.body, policy, stats, [], map);
+      const sizeBefore = map?.size ?? 0;
+      const stats = createStats({ recordMatches: true });
+      const redacted = redactWithPolicy(ctx.body, scope?.policy ?? policy, stats, [], map);
+      if (map && map.size > sizeBefore) {
+        saveStored(ctx.sessionId, map);
+      }
+
+      const records = toAuditRecords(stats.matches ?? [], auditKey);
+      const annotations = ctx.annotations ?? {};
+      if (records.length > 0) annotations.redactions = records;
 
       // Reset stream rehydrator for this session (new response coming)
       if (reversible) {
         const session = getSession(ctx.sessionId);
-        session.rehydrator = createStreamRehydrator(session.map);
+        session.rehydrator =
+          ctx.provider === "bedrock"
+            ? createEventStreamRehydrator(session.map, ctx.apiFormat)
+            : createStreamRehydrator(session.map, ctx.apiFormat);
+      }
+
+      // Warnings and blocks are policy decisions, so they're logged even when not verbose.
+      if (Object.keys(stats.warned).length > 0) {
+        console.error(`[redact]${sid} Warning: matched ${formatCounts(stats.warned)}`);
+      }
+
+      if (Object.keys(stats.blocked).length > 0) {
+        const rules = Object.keys(stats.blocked).join(", ");
+        console.error(`[redact]${sid} Blocked request: matched ${formatCounts(stats.blocked)}`);
+        return {
+          ...ctx,
+          body: redacted as Record<string, any>,
+          annotations,
+          response: buildProviderError(
+            ctx.apiFormat,
+            400,
+            `Request blocked by contextio redaction policy: contains sensitive data (${rules})`,
+            "redaction_policy_violation",
+          ),
+        };
       }
 
       if (stats.totalReplacements > 0) {
         if (verbose) {
-          const details = Object.entries(stats.byRule)
-            .map(([name, count]) => `${name}=${count}`)
-            .join(", ");
-          const sid = ctx.sessionId ? ` [${ctx.sessionId}]` : "";
           console.error(
-            `[redact]${sid} Redacted ${stats.totalReplacements} match(es): ${details}`,
+            `[redact]${sid} Redacted ${stats.totalReplacements} match(es): ${formatCounts(stats.byRule)}`,
           );
           if (map) {
             console.error(`[redact]${sid} Tracking ${map.size} unique value(s) for rehydration`);
@@ -165,10 +374,11 @@ export function createRedactPlugin(config?: RedactPluginConfig): ProxyPlugin {
         return {
           ...ctx,
           body: redacted as Record<string, any>,
+          annotations,
         };
       }
 
-      return ctx;
+      return ctx.annotations || records.length === 0 ? ctx : { ...ctx, annotations };
     },
 
     // Rehydrate placeholders in non-streaming responses.
@@ -177,7 +387,7 @@ export function createRedactPlugin(config?: RedactPluginConfig): ProxyPlugin {
           const session = getSession(ctx.sessionId);
           if (session.map.size === 0) return ctx;
 
-          const rehydrated = session.map.rehydrate(ctx.body);
+          const rehydrated = rehydrateResponseBody(ctx.body, session.map);
           if (rehydrated === ctx.body) return ctx;
 
           if (verbose) {
@@ -189,7 +399,7 @@ export function createRedactPlugin(config?: RedactPluginConfig): ProxyPlugin {
         }
       : undefined,
 
-    // Rehydrate placeholders in streaming SSE chunks.
+    // Rehydrate placeholders in streaming chunks (SSE, or event-stream for Bedrock).
     onStreamChunk: reversible
       ? (chunk: Buffer, sessionId: string | null): Buffer => {
           const session = getSession(sessionId);
@@ -209,12 +419,27 @@ export function createRedactPlugin(config?: RedactPluginConfig): ProxyPlugin {
 }
 
 // Public API
-export type { RedactionRule } from "./rules.js";
+export type { RedactionRule, ReplacementStyle, RuleAction } from "./rules.js";
 export type { PresetName } from "./presets.js";
 export { PRESETS } from "./presets.js";
-export type { PolicyJson, PolicyRuleJson, CompiledPolicy } from "./policy.js";
-export { compilePolicy, loadPolicyFile, fromPreset } from "./policy.js";
-export type { RedactionStats } from "./redact.js";
+export type {
+  PolicyJson,
+  PolicyRuleJson,
+  PolicyDictionaryJson,
+  PolicyRuleOverrideJson,
+  PolicyScopeJson,
+  PolicyScopeMatchJson,
+  CompiledPolicy,
+  CompiledScope,
+  ScopeTarget,
+} from "./policy.js";
+export { compilePolicy, loadPolicyFile, fromPreset, selectScope } from "./policy.js";
+export type { MatchOutcome, RedactionMatch, RedactionStats } from "./redact.js";
 export { redactWithPolicy, redactValue, createStats } from "./redact.js";
+export type { DictionaryMatch, DictionaryOptions } from "./dictionary.js";
+export { Dictionary, loadDictionaryFile } from "./dictionary.js";
 export type { MappingEntry } from "./mapping.js";
 export { ReplacementMap } from "./mapping.js";
+export { defaultAuditKeyFile, hashOriginal, loadAuditKey, toAuditRecords } from "./audit.js";
+export type { MappingStoreOptions, StoredMappingInfo } from "./store.js";
+export { MappingStore } from "./store.js";
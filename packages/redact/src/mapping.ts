@@ -6,16 +6,20 @@
  *
  * Mappings persist for the lifetime of the session. The same value always
  * maps to the same placeholder, even across multiple requests in the
- * same session.
+ * same session. Rules with `replacementStyle: "fake"` get realistic
+ * surrogates (e.g. "user1@example.com") instead, tracked the same way.
  */
 
+import { fakeKind, fakeValue } from "./fake.js";
+import type { ReplacementStyle } from "./rules.js";
+
 /**
  * A single mapping entry.
  */
 export interface MappingEntry {
   /** The original sensitive value. */
   original: string;
-  /** The placeholder token sent to the LLM, such as "[EMAIL_1]". */
+  /** The placeholder token sent to the LLM, such as "[EMAIL_1]" or a fake surrogate. */
   placeholder: string;
   /** The rule that triggered this mapping, such as "email". */
   ruleId: string;
@@ -47,16 +51,20 @@ export class ReplacementMap {
    * The ruleId is used to generate the placeholder label:
    *   "email" -> [EMAIL_1], [EMAIL_2], ...
    *   "ssn"   -> [SSN_1], [SSN_2], ...
+   *
+   * With the "fake" style, values that look like an email, card number,
+   * or phone number get a surrogate of the same kind, numbered per kind.
+   * Other values (or a kind whose range is used up) get a placeholder.
+   *
+   * A value that already is one of this map's placeholders or surrogates
+   * is returned unchanged, so a later rule can't redact it again.
    */
-  getOrCreate(original: string, ruleId: string): string {
+  getOrCreate(original: string, ruleId: string, style: ReplacementStyle = "placeholder"): string {
     const existing = this.forward.get(original);
     if (existing) return existing;
+    if (this.reverse.has(original)) return original;
 
-    const count = (this.counters.get(ruleId) ?? 0) + 1;
-    this.counters.set(ruleId, count);
-
-    const label = ruleId.toUpperCase().replace(/[^A-Z0-9]/g, "_");
-    const placeholder = `[${label}_${count}]`;
+    const placeholder = (style === "fake" ? this.nextFake(original) : null) ?? this.nextPlaceholder(ruleId);
 
     this.forward.set(original, placeholder);
     this.reverse.set(placeholder, original);
@@ -65,6 +73,51 @@ export class ReplacementMap {
     return placeholder;
   }
 
+  /** Next numbered placeholder for a rule, e.g. "[EMAIL_3]". */
+  private nextPlaceholder(ruleId: string): string {
+    const count = (this.counters.get(ruleId) ?? 0) + 1;
+    this.counters.set(ruleId, count);
+
+    const label = ruleId.toUpperCase().replace(/[^A-Z0-9]/g, "_");
+    return `[${label}_${count}]`;
+  }
+
+  /** Next unused surrogate of the value's kind, or null if none fits. */
+  private nextFake(original: string): string | null {
+    const kind = fakeKind(original);
+    if (!kind) return null;
+
+    const key = `fake:${kind}`;
+    let count = this.counters.get(key) ?? 0;
+    let surrogate: string | null;
+    do {
+      count++;
+      surrogate = fakeValue(original, count);
+    } while (surrogate !== null && (this.reverse.has(surrogate) || this.forward.has(surrogate)));
+
+    this.counters.set(key, count);
+    return surrogate;
+  }
+
+  /**
+   * Re-add entries saved from an earlier map (e.g. loaded from a
+   * MappingStore). Counters continue after the highest restored number,
+   * so new values never reuse a placeholder the LLM has already seen.
+   */
+  restore(entries: readonly MappingEntry[]): void {
+    for (const entry of entries) {
+      if (this.forward.has(entry.original) || this.reverse.has(entry.placeholder)) continue;
+      this.forward.set(entry.original, entry.placeholder);
+      this.reverse.set(entry.placeholder, entry.original);
+      this.entries.push({ ...entry });
+
+      const n = Number(entry.placeholder.match(/_(\d+)\]$/)?.[1] ?? 0);
+      if (n > (this.counters.get(entry.ruleId) ?? 0)) {
+        this.counters.set(entry.ruleId, n);
+      }
+    }
+  }
+
   /**
    * Look up the original value for a placeholder.
    * Returns undefined if the placeholder is unknown.
@@ -79,8 +132,11 @@ export class ReplacementMap {
    * Iterates all known placeholders and does a global string replace.
    * Longest placeholders are tried first to avoid partial matches
    * (e.g. [EMAIL_10] before [EMAIL_1]).
+   *
+   * `encode` transforms each original before insertion, e.g. JSON-escaping
+   * it when `text` is JSON source such as streamed tool-call arguments.
    */
-  rehydrate(text: string): string {
+  rehydrate(text: string, encode?: (original: string) => string): string {
     if (this.reverse.size === 0) return text;
 
     // Sort placeholders longest-first to avoid partial replacement
@@ -91,7 +147,7 @@ export class ReplacementMap {
     let result = text;
     for (const [placeholder, original] of sorted) {
       // Simple split-join is safe and avoids regex escaping issues
-      result = result.split(placeholder).join(original);
+      result = result.split(placeholder).join(encode ? encode(original) : original);
     }
     return result;
   }
@@ -6,13 +6,30 @@
  *
  * Policy JSON format:
  * {
- *   "extends": "secrets",           // built-in preset: "secrets" | "pii" | "strict"
- *   "rules": [                      // additional rules (merged with preset)
+ *   "extends": ["pii", "../base.jsonc"], // presets and/or other policy files
+ *   "disable": ["phone-us"],        // drop inherited rules by id
+ *   "overrides": {                  // change inherited rules by id
+ *     "email": { "replacement": "[MAIL]" }
+ *   },
+ *   "rules": [                      // additional rules (merged with inherited ones)
  *     {
  *       "id": "employee-id",
  *       "pattern": "EMP-\\d{5}",
  *       "replacement": "[EMPLOYEE_ID]",
  *       "context": ["employee", "staff"]
+ *     },
+ *     {
+ *       "id": "aws-key",
+ *       "pattern": "AKIA[0-9A-Z]{16}",
+ *       "action": "block"               // reject the request instead of rewriting it
+ *     }
+ *   ],
+ *   "dictionaries": [               // entity lists, matched as whole words
+ *     {
+ *       "id": "customer",
+ *       "file": "customers.csv",        // relative to the policy file
+ *       "column": "name",
+ *       "replacement": "[CUSTOMER]"
  *     }
  *   ],
  *   "allowlist": {
@@ -27,9 +44,12 @@
  */
 
 import fs from "node:fs";
+import { dirname, resolve } from "node:path";
+
+import { Dictionary, loadDictionaryFile } from "./dictionary.js";
 
 import { PRESETS, type PresetName } from "./presets.js";
-import type { RedactionRule } from "./rules.js";
+import type { RedactionRule, ReplacementStyle, RuleAction } from "./rules.js";
 
 // --- Policy JSON schema types ---
 
@@ -38,8 +58,8 @@ export interface PolicyRuleJson {
   id: string;
   /** Regex pattern as a string. Compiled with the global flag. */
   pattern: string;
-  /** Replacement string. */
-  replacement: string;
+  /** Replacement string. Required unless `action` is "block" or "warn". */
+  replacement?: string;
   /**
    * Context words. If provided, the rule only fires when at least one
    * context word appears within a window around the match.
@@ -47,6 +67,39 @@ export interface PolicyRuleJson {
   context?: string[];
   /** Window size in characters to search for context words. Default: 100. */
   contextWindow?: number;
+  /**
+   * What to do on a match: "redact" (default) replaces it, "block" rejects
+   * the whole request, "warn" only logs it.
+   */
+  action?: RuleAction;
+  /**
+   * What a match is replaced with: "placeholder" (default) or "fake", a
+   * realistic surrogate (email, test card number, fictional phone number)
+   * that is still mapped back to the original in reversible mode.
+   */
+  replacementStyle?: ReplacementStyle;
+}
+
+export interface PolicyDictionaryJson {
+  /** Unique identifier for this dictionary. Used like a rule id. */
+  id: string;
+  /** Inline entries. */
+  terms?: string[];
+  /**
+   * File with more entries: CSV with a header row, or plain text with one
+   * entry per line. Relative paths resolve against the policy file.
+   */
+  file?: string;
+  /** CSV column to read entries from. Default: the first column. */
+  column?: string;
+  /** Match case exactly. Default: false. */
+  caseSensitive?: boolean;
+  /** Replacement string. Required unless `action` is "block" or "warn". */
+  replacement?: string;
+  /** Same as for rules: "redact" (default), "block", or "warn". */
+  action?: RuleAction;
+  /** Same as for rules: "placeholder" (default) or "fake". */
+  replacementStyle?: ReplacementStyle;
 }
 
 export interface PolicyAllowlistJson {
@@ -70,15 +123,58 @@ export interface PolicyPathsJson {
   skip?: string[];
 }
 
+/** Changes to an inherited rule, keyed by rule id in `PolicyJson.overrides`. */
+export interface PolicyRuleOverrideJson {
+  replacement?: string;
+  /** Replace the context words. An empty array removes context gating. */
+  context?: string[];
+  contextWindow?: number;
+  action?: RuleAction;
+  replacementStyle?: ReplacementStyle;
+}
+
 export interface PolicyJson {
-  /** Extend a built-in preset. Rules are merged (policy rules come after preset rules). */
-  extends?: PresetName;
+  /**
+   * Presets and/or other policy files to inherit from, in order. File
+   * paths are resolved relative to this policy's file. Inherited rules
+   * come before this policy's own rules.
+   */
+  extends?: PresetName | string | Array<PresetName | string>;
+  /** Ids of inherited rules (or dictionaries) to drop. */
+  disable?: string[];
+  /** Changes to inherited rules, keyed by rule id. */
+  overrides?: Record<string, PolicyRuleOverrideJson>;
   /** Additional redaction rules. */
   rules?: PolicyRuleJson[];
+  /** Entity lists (names, customer IDs, codenames) matched as whole words. */
+  dictionaries?: PolicyDictionaryJson[];
   /** Allowlist configuration. */
   allowlist?: PolicyAllowlistJson;
   /** JSON path scoping. */
   paths?: PolicyPathsJson;
+  /**
+   * Alternative policies for some requests, picked by source, provider,
+   * or request path. The first matching scope replaces this policy's
+   * rules for that request.
+   */
+  scopes?: PolicyScopeJson[];
+}
+
+/** Which requests a scope applies to. Each field matches any of its values; all given fields must match. */
+export interface PolicyScopeMatchJson {
+  /** Tool name from the URL prefix (e.g. "claude", "aider"). */
+  source?: string | string[];
+  /** Detected provider (e.g. "anthropic", "openai", "vertex"). */
+  provider?: string | string[];
+  /** Request path globs, without the source prefix. `*` matches anything, e.g. "/v1/projects/*". */
+  path?: string | string[];
+}
+
+/** A policy that applies only to matching requests. */
+export interface PolicyScopeJson extends Omit<PolicyJson, "scopes"> {
+  /** Label for logs. Default: "scope N". */
+  name?: string;
+  match: PolicyScopeMatchJson;
 }
 
 // --- Compiled policy (ready for the engine) ---
@@ -93,6 +189,31 @@ export interface CompiledPolicy {
     only: PathMatcher[] | null;
     skip: PathMatcher[];
   };
+  /** Alternative policies for matching requests, tried in order. */
+  scopes?: CompiledScope[];
+  /**
+   * Files the policy was compiled from: policy files (the loaded one and
+   * those it extends) and dictionary files. Absent when there are none.
+   */
+  files?: string[];
+}
+
+export interface CompiledScope {
+  name: string;
+  /** Allowed values per request field; null fields match anything. */
+  match: {
+    source: string[] | null;
+    provider: string[] | null;
+    path: RegExp[] | null;
+  };
+  policy: CompiledPolicy;
+}
+
+/** The request fields scopes match on (a subset of RequestContext). */
+export interface ScopeTarget {
+  source: string | null;
+  provider: string;
+  path: string;
 }
 
 export interface PathMatcher {
@@ -134,14 +255,50 @@ function parsePath(path: string): PathMatcher {
   return { source: path, segments };
 }
 
+const RULE_ACTIONS: RuleAction[] = ["redact", "block", "warn"];
+const REPLACEMENT_STYLES: ReplacementStyle[] = ["placeholder", "fake"];
+
+/**
+ * Validate the action and replacement options shared by rules and
+ * dictionaries. `label` names the entry in error messages.
+ *
+ * @throws If the action or replacement style is unknown, or a "redact"
+ *   entry has no replacement.
+ */
+function checkAction(
+  label: string,
+  json: { action?: RuleAction; replacement?: string; replacementStyle?: ReplacementStyle },
+): RuleAction {
+  const action = json.action ?? "redact";
+  if (!RULE_ACTIONS.includes(action)) {
+    throw new Error(
+      `${label}: unknown action "${action}". Available: ${RULE_ACTIONS.join(", ")}`,
+    );
+  }
+  if (json.replacementStyle !== undefined && !REPLACEMENT_STYLES.includes(json.replacementStyle)) {
+    throw new Error(
+      `${label}: unknown replacementStyle "${json.replacementStyle}". Available: ${REPLACEMENT_STYLES.join(", ")}`,
+    );
+  }
+  if (json.replacement === undefined && action === "redact") {
+    throw new Error(`${label}: "replacement" is required unless action is "block" or "warn"`);
+  }
+  return action;
+}
+
 /**
  * Compile a policy JSON rule into an internal RedactionRule.
  *
  * Patterns are always compiled with the "g" flag. If the pattern string
  * starts with `(?i)`, the "i" flag is also added (JS doesn't support
  * inline flags natively).
+ *
+ * @throws If the action or replacement style is unknown, or a "redact" rule
+ *   has no replacement.
  */
 function compileRule(json: PolicyRuleJson): RedactionRule {
+  const action = checkAction(`Rule "${json.id}"`, json);
+
   let flags = "g";
   let source = json.pattern;
 
@@ -156,9 +313,13 @@ function compileRule(json: PolicyRuleJson): RedactionRule {
   const rule: RedactionRule = {
     name: json.id,
     pattern,
-    replacement: json.replacement,
+    // Blocked requests are never sent, but the capture still shouldn't hold the match.
+    replacement: json.replacement ?? "[BLOCKED]",
   };
 
+  if (action !== "redact") rule.action = action;
+  if (json.replacementStyle === "fake") rule.replacementStyle = "fake";
+
   if (json.context && json.context.length > 0) {
     rule.context = json.context.map((w) => w.toLowerCase());
     rule.contextWindow = json.contextWindow ?? 100;
@@ -168,61 +329,280 @@ function compileRule(json: PolicyRuleJson): RedactionRule {
 }
 
 /**
- * Compile a PolicyJson into a CompiledPolicy.
+ * Compile a policy dictionary into a RedactionRule that matches its
+ * entries (inline `terms` plus those from `file`) as whole words.
  *
- * If the policy extends a preset, preset rules are included first (so
- * custom rules run after built-in ones). Allowlists and path matchers
- * are compiled into their runtime forms.
+ * @throws If the options are invalid, or the file can't be read.
+ */
+function compileDictionary(json: PolicyDictionaryJson, baseDir: string): RedactionRule {
+  const label = `Dictionary "${json.id}"`;
+  const action = checkAction(label, json);
+
+  const terms = [...(json.terms ?? [])];
+  if (json.file) {
+    const filePath = resolve(baseDir, json.file);
+    try {
+      terms.push(...loadDictionaryFile(filePath, json.column));
+    } catch (err: unknown) {
+      throw new Error(`${label}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  const rule: RedactionRule = {
+    name: json.id,
+    pattern: /(?!)/g,
+    dictionary: new Dictionary(terms, { caseSensitive: json.caseSensitive }),
+    replacement: json.replacement ?? "[BLOCKED]",
+  };
+
+  if (action !== "redact") rule.action = action;
+  if (json.replacementStyle === "fake") rule.replacementStyle = "fake";
+
+  return rule;
+}
+
+/** A policy that redacts nothing: the starting point for inheritance. */
+function emptyPolicy(): CompiledPolicy {
+  return { rules: [], allowlist: { strings: new Set(), patterns: [] }, paths: { only: null, skip: [] } };
+}
+
+/** Read a policy file as PolicyJson. Supports // comments and trailing commas. */
+function readPolicyJson(filePath: string): PolicyJson {
+  const raw = fs.readFileSync(filePath, "utf8");
+  return JSON.parse(stripJsonComments(raw)) as PolicyJson;
+}
+
+/**
+ * Resolve one `extends` entry: a preset name, or a policy file compiled
+ * recursively. `chain` holds the files being compiled, to detect cycles.
+ */
+function resolveParent(ref: string, baseDir: string, chain: string[]): CompiledPolicy {
+  if (Object.hasOwn(PRESETS, ref)) {
+    return { ...emptyPolicy(), rules: [...PRESETS[ref as PresetName]] };
+  }
+  if (!/[\\/]|\.jsonc?$/.test(ref)) {
+    throw new Error(
+      `Unknown preset: "${ref}". Available: ${Object.keys(PRESETS).join(", ")} (or a path to a policy file)`,
+    );
+  }
+
+  const filePath = resolve(baseDir, ref);
+  if (chain.includes(filePath)) {
+    throw new Error(`Policy extends cycle: ${[...chain, filePath].join(" -> ")}`);
+  }
+  let json: PolicyJson;
+  try {
+    json = readPolicyJson(filePath);
+  } catch (err: unknown) {
+    throw new Error(`Cannot load extended policy ${filePath}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return compileChain(json, dirname(filePath), [...chain, filePath]);
+}
+
+/** Merge parent policies in order. Rules with an id already seen (e.g. "pii" after "secrets") are skipped. */
+function mergeParents(parents: CompiledPolicy[]): CompiledPolicy {
+  const merged = emptyPolicy();
+  const seen = new Set<string>();
+  for (const parent of parents) {
+    for (const rule of parent.rules) {
+      if (seen.has(rule.name)) continue;
+      seen.add(rule.name);
+      merged.rules.push(rule);
+    }
+    for (const str of parent.allowlist.strings) merged.allowlist.strings.add(str);
+    merged.allowlist.patterns.push(...parent.allowlist.patterns);
+    if (parent.paths.only !== null || parent.paths.skip.length > 0) merged.paths = parent.paths;
+  }
+  return merged;
+}
+
+/**
+ * Apply an override to a copy of an inherited rule. Preset rules are
+ * shared between policies, so they're never modified in place.
  *
- * @throws If `extends` references an unknown preset name.
+ * @throws If the override's action or replacement style is invalid.
  */
-export function compilePolicy(json: PolicyJson): CompiledPolicy {
-  // Start with preset rules if extending
-  let rules: RedactionRule[] = [];
-  if (json.extends) {
-    const preset = PRESETS[json.extends];
-    if (!preset) {
-      throw new Error(
-        `Unknown preset: "${json.extends}". Available: ${Object.keys(PRESETS).join(", ")}`,
-      );
+function overrideRule(rule: RedactionRule, override: PolicyRuleOverrideJson): RedactionRule {
+  checkAction(`Override for "${rule.name}"`, {
+    action: override.action,
+    replacement: override.replacement ?? rule.replacement,
+    replacementStyle: override.replacementStyle,
+  });
+
+  const next: RedactionRule = { ...rule };
+  if (override.replacement !== undefined) next.replacement = override.replacement;
+  if (override.action !== undefined) {
+    if (override.action === "redact") delete next.action;
+    else next.action = override.action;
+  }
+  if (override.replacementStyle !== undefined) {
+    if (override.replacementStyle === "fake") next.replacementStyle = "fake";
+    else delete next.replacementStyle;
+  }
+  if (override.context !== undefined) {
+    if (override.context.length > 0) {
+      next.context = override.context.map((w) => w.toLowerCase());
+      next.contextWindow = override.contextWindow ?? rule.contextWindow ?? 100;
+    } else {
+      delete next.context;
+      delete next.contextWindow;
     }
-    rules = [...preset];
+  } else if (override.contextWindow !== undefined && next.context) {
+    next.contextWindow = override.contextWindow;
   }
+  return next;
+}
 
-  // Append custom rules
-  if (json.rules) {
-    for (const r of json.rules) {
-      rules.push(compileRule(r));
+/**
+ * Apply `disable` and `overrides` to inherited rules.
+ *
+ * @throws If either names a rule that isn't inherited (most likely a typo).
+ */
+function adjustInherited(rules: RedactionRule[], json: PolicyJson): RedactionRule[] {
+  const ids = new Set(rules.map((r) => r.name));
+  const disable = new Set(json.disable ?? []);
+  const overrides = json.overrides ?? {};
+
+  for (const id of [...disable, ...Object.keys(overrides)]) {
+    if (!ids.has(id)) {
+      throw new Error(`Unknown inherited rule "${id}" in ${disable.has(id) ? "disable" : "overrides"}`);
     }
   }
 
+  return rules
+    .filter((r) => !disable.has(r.name))
+    .map((r) => (Object.hasOwn(overrides, r.name) ? overrideRule(r, overrides[r.name]) : r));
+}
+
+/** Compile a path glob: `*` matches any characters, everything else is literal. */
+function globToRegExp(glob: string): RegExp {
+  const source = glob.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+  return new RegExp(`^${source}$`);
+}
+
+function toList(value: string | string[] | undefined): string[] | null {
+  if (value === undefined) return null;
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Compile one scope into a matcher and a standalone policy.
+ *
+ * @throws If the scope has nothing to match on, or is itself scoped.
+ */
+function compileScope(json: PolicyScopeJson, index: number, baseDir: string, chain: string[]): CompiledScope {
+  const { name = `scope ${index + 1}`, match, ...policy } = json;
+  const source = toList(match?.source);
+  const provider = toList(match?.provider);
+  const path = toList(match?.path);
+  if (!source && !provider && !path) {
+    throw new Error(`Scope "${name}": "match" needs at least one of source, provider, path`);
+  }
+  if ((policy as PolicyJson).scopes) {
+    throw new Error(`Scope "${name}": scopes cannot be nested`);
+  }
+  return {
+    name,
+    match: { source, provider, path: path ? path.map(globToRegExp) : null },
+    policy: compileChain(policy, baseDir, chain),
+  };
+}
+
+/**
+ * Pick the scope for a request: the first whose match fields all accept
+ * the request's source, provider, and path. Returns null when no scope
+ * matches and the policy's own rules apply.
+ */
+export function selectScope(policy: CompiledPolicy, target: ScopeTarget): CompiledScope | null {
+  for (const scope of policy.scopes ?? []) {
+    const { source, provider, path } = scope.match;
+    if (source && (target.source === null || !source.includes(target.source))) continue;
+    if (provider && !provider.includes(target.provider)) continue;
+    if (path && !path.some((re) => re.test(target.path))) continue;
+    return scope;
+  }
+  return null;
+}
+
+/**
+ * Compile a PolicyJson into a CompiledPolicy.
+ *
+ * Policies and presets named in `extends` are resolved first (recursively
+ * for files) and merged in order; `disable` and `overrides` then adjust
+ * the inherited rules. The policy's own dictionaries and rules come after
+ * the inherited rules, dictionaries first. Block and warn entries (rules
+ * or dictionaries) are the exception: they run before everything else.
+ *
+ * Allowlists are merged with the inherited ones. `paths` replaces the
+ * inherited scoping when set. `scopes` are compiled as standalone
+ * policies and are not inherited by policies that extend this one.
+ * Relative `extends` and dictionary file paths resolve against `baseDir`.
+ *
+ * @throws If `extends` references an unknown preset, a missing file, or
+ *   forms a cycle, or a rule, dictionary, or override is invalid.
+ */
+export function compilePolicy(json: PolicyJson, baseDir = process.cwd()): CompiledPolicy {
+  return compileChain(json, baseDir, []);
+}
+
+/** {@link compilePolicy} with the chain of policy files being compiled, for cycle detection. */
+function compileChain(json: PolicyJson, baseDir: string, chain: string[]): CompiledPolicy {
+  const refs = json.extends === undefined ? [] : Array.isArray(json.extends) ? json.extends : [json.extends];
+  const parents = refs.map((ref) => resolveParent(ref, baseDir, chain));
+  const inherited = mergeParents(parents);
+  let rules = adjustInherited(inherited.rules, json);
+
+  // Append dictionaries and custom rules. Block and warn entries go first
+  // so they see the original text even when an inherited rule would also match it.
+  const compiled = [
+    ...(json.dictionaries ?? []).map((d) => compileDictionary(d, baseDir)),
+    ...(json.rules ?? []).map(compileRule),
+  ];
+  if (compiled.length > 0) {
+    const detect = compiled.filter((r) => r.action === "block" || r.action === "warn");
+    const redact = compiled.filter((r) => r.action === undefined);
+    rules = [...detect, ...rules, ...redact];
+  }
+
   // Compile allowlist
-  const allowlistStrings = new Set(json.allowlist?.strings ?? []);
-  const allowlistPatterns = (json.allowlist?.patterns ?? []).map(
-    (p) => new RegExp(p),
-  );
+  const allowlistStrings = new Set([...inherited.allowlist.strings, ...(json.allowlist?.strings ?? [])]);
+  const allowlistPatterns = [
+    ...inherited.allowlist.patterns,
+    ...(json.allowlist?.patterns ?? []).map((p) => new RegExp(p)),
+  ];
 
   // Compile paths
-  const pathsOnly = json.paths?.only
-    ? json.paths.only.map(parsePath)
-    : null;
-  const pathsSkip = (json.paths?.skip ?? []).map(parsePath);
+  const paths = json.paths
+    ? { only: json.paths.only ? json.paths.only.map(parsePath) : null, skip: (json.paths.skip ?? []).map(parsePath) }
+    : inherited.paths;
 
-  return {
+  const compiledPolicy: CompiledPolicy = {
     rules,
     allowlist: { strings: allowlistStrings, patterns: allowlistPatterns },
-    paths: { only: pathsOnly, skip: pathsSkip },
+    paths,
   };
+  if (json.scopes && json.scopes.length > 0) {
+    compiledPolicy.scopes = json.scopes.map((scope, i) => compileScope(scope, i, baseDir, chain));
+  }
+
+  const files = new Set(chain.slice(-1));
+  for (const parent of [...parents, ...(compiledPolicy.scopes ?? []).map((s) => s.policy)]) {
+    for (const file of parent.files ?? []) files.add(file);
+  }
+  for (const dictionary of json.dictionaries ?? []) {
+    if (dictionary.file) files.add(resolve(baseDir, dictionary.file));
+  }
+  if (files.size > 0) compiledPolicy.files = [...files];
+  return compiledPolicy;
 }
 
 /**
  * Load a policy from a JSON file path. Supports // comments and trailing commas.
+ * Extended policies and dictionary files are resolved relative to the policy file.
  */
 export function loadPolicyFile(filePath: string): CompiledPolicy {
-  const raw = fs.readFileSync(filePath, "utf8");
-  const cleaned = stripJsonComments(raw);
-  const json: PolicyJson = JSON.parse(cleaned);
-  return compilePolicy(json);
+  const path = resolve(filePath);
+  return compileChain(readPolicyJson(path), dirname(path), [path]);
 }
 
 /**
@@ -8,6 +8,7 @@
 
 import { shannonEntropy } from "@contextio/core";
 
+import { fakeValueFor } from "./fake.js";
 import type { ReplacementMap } from "./mapping.js";
 import type { CompiledPolicy } from "./policy.js";
 import type { RedactionRule } from "./rules.js";
@@ -17,13 +18,52 @@ export interface RedactionStats {
   totalReplacements: number;
   /** Per-rule replacement counts. Only includes rules that matched. */
   byRule: Record<string, number>;
+  /** Per-rule match counts for rules with action "block". */
+  blocked: Record<string, number>;
+  /** Per-rule match counts for rules with action "warn". These are not replaced. */
+  warned: Record<string, number>;
+  /**
+   * Every match a rule found, including ones a gate suppressed. Only
+   * recorded when present (see {@link createStats}); used by dry runs.
+   */
+  matches?: RedactionMatch[];
+}
+
+/** What happened to a rule match. */
+export type MatchOutcome =
+  | "redacted"
+  | "blocked"
+  | "warned"
+  | "allowlisted"
+  | "low-entropy"
+  | "no-context";
+
+/** One rule match, as recorded in {@link RedactionStats.matches}. */
+export interface RedactionMatch {
+  /** Rule (or dictionary) id. */
+  rule: string;
+  /** JSON path of the string, in policy path syntax (e.g. "messages[*].content"). Empty at the top level. */
+  path: string;
+  /** The matched text. */
+  match: string;
+  /** Up to 30 characters of text before and after the match. */
+  before: string;
+  after: string;
+  /** Text put in place of the match, or null if it was left unchanged. */
+  replacement: string | null;
+  outcome: MatchOutcome;
+  /** Whether a context word was found nearby; undefined for rules without context words. */
+  contextFound?: boolean;
 }
 
 /**
- * Create fresh stats for a redaction pass.
+ * Create fresh stats for a redaction pass. With `recordMatches`, every
+ * match is also recorded in `matches`.
  */
-export function createStats(): RedactionStats {
-  return { totalReplacements: 0, byRule: {} };
+export function createStats(options: { recordMatches?: boolean } = {}): RedactionStats {
+  const stats: RedactionStats = { totalReplacements: 0, byRule: {}, blocked: {}, warned: {} };
+  if (options.recordMatches) stats.matches = [];
+  return stats;
 }
 
 // --- Context word matching ---
@@ -134,22 +174,99 @@ function shouldRedactPath(
  * Resolve the replacement string for a matched value.
  *
  * In non-reversible mode (`map` is null), returns the rule's static
- * replacement string (e.g. "[EMAIL_REDACTED]"). In reversible mode, delegates
- * to the ReplacementMap which generates a numbered placeholder and records
- * the original so it can be restored later from the LLM's response.
+ * replacement string (e.g. "[EMAIL_REDACTED]"), or a stable fake surrogate
+ * for "fake" rules. In reversible mode, delegates to the ReplacementMap
+ * which generates a numbered placeholder (or surrogate) and records the
+ * original so it can be restored later from the LLM's response.
  */
 function resolveReplacement(
   match: string,
   rule: RedactionRule,
   map: ReplacementMap | null,
 ): string {
-  if (map) return map.getOrCreate(match, rule.name);
+  if (map) return map.getOrCreate(match, rule.name, rule.replacementStyle);
+  if (rule.replacementStyle === "fake") return fakeValueFor(match) ?? rule.replacement;
   return rule.replacement;
 }
 
+/**
+ * Record a match that passed all gates and return the text to put in its
+ * place. "warn" rules keep the original; "block" rules are replaced like
+ * "redact" rules but also counted in `stats.blocked`.
+ */
+function applyMatch(
+  match: string,
+  rule: RedactionRule,
+  stats: RedactionStats,
+  map: ReplacementMap | null,
+): string {
+  if (rule.action === "warn") {
+    stats.warned[rule.name] = (stats.warned[rule.name] || 0) + 1;
+    return match;
+  }
+  if (rule.action === "block") {
+    stats.blocked[rule.name] = (stats.blocked[rule.name] || 0) + 1;
+  }
+  stats.totalReplacements++;
+  stats.byRule[rule.name] = (stats.byRule[rule.name] || 0) + 1;
+  return resolveReplacement(match, rule, map);
+}
+
+/** Check the allowlist and entropy gates. Returns the suppressing gate, or null if the match passes. */
+function gateMatch(
+  match: string,
+  captured: string | undefined,
+  rule: RedactionRule,
+  allowlistStrings: Set<string>,
+  allowlistPatterns: RegExp[],
+): MatchOutcome | null {
+  if (isAllowlisted(match, allowlistStrings, allowlistPatterns)) return "allowlisted";
+  if (rule.allowlist && isRuleAllowlisted(match, captured, rule.allowlist)) return "allowlisted";
+  if (rule.minEntropy !== undefined && shannonEntropy(captured ?? match) < rule.minEntropy) return "low-entropy";
+  return null;
+}
+
+/** Format path segments in policy path syntax: ["messages", "*", "content"] -> "messages[*].content". */
+function formatPath(segments: string[]): string {
+  return segments.reduce((out, seg) => (seg === "*" ? `${out}[*]` : out ? `${out}.${seg}` : seg), "");
+}
+
+/** Add a match to `stats.matches`, if matches are being recorded. */
+function recordMatch(
+  stats: RedactionStats,
+  rule: RedactionRule,
+  path: string[],
+  text: string,
+  start: number,
+  end: number,
+  outcome: MatchOutcome,
+  replacement: string | null,
+  contextFound?: boolean,
+): void {
+  if (!stats.matches) return;
+  const match: RedactionMatch = {
+    rule: rule.name,
+    path: formatPath(path),
+    match: text.slice(start, end),
+    before: text.slice(Math.max(0, start - 30), start),
+    after: text.slice(end, end + 30),
+    replacement,
+    outcome,
+  };
+  if (contextFound !== undefined) match.contextFound = contextFound;
+  stats.matches.push(match);
+}
+
+/** Outcome of a match that passed all gates. */
+function appliedOutcome(rule: RedactionRule): MatchOutcome {
+  if (rule.action === "warn") return "warned";
+  if (rule.action === "block") return "blocked";
+  return "redacted";
+}
+
 /**
  * Apply redaction rules to a single string, respecting context words
- * and allowlists.
+ * and allowlists. `path` is only used to record matches.
  */
 function redactString(
   input: string,
@@ -158,44 +275,65 @@ function redactString(
   allowlistPatterns: RegExp[],
   stats: RedactionStats,
   map: ReplacementMap | null,
+  path: string[] = [],
 ): string {
   let result = input;
   for (const rule of rules) {
     rule.pattern.lastIndex = 0;
 
-    if (rule.context && rule.context.length > 0) {
-      // Context-gated: use exec loop to check context per match
+    if (rule.dictionary || (rule.context && rule.context.length > 0)) {
+      // Dictionary or context-gated: collect matches, then check gates per match
       const window = rule.contextWindow ?? 100;
       const matches: { start: number; end: number; match: string; captured: string | undefined }[] = [];
-      let m: RegExpExecArray | null;
-      rule.pattern.lastIndex = 0;
-      while ((m = rule.pattern.exec(result)) !== null) {
-        matches.push({ start: m.index, end: m.index + m[0].length, match: m[0], captured: m[1] });
+      if (rule.dictionary) {
+        for (const { start, end } of rule.dictionary.findAll(result)) {
+          matches.push({ start, end, match: result.slice(start, end), captured: undefined });
+        }
+      } else {
+        let m: RegExpExecArray | null;
+        rule.pattern.lastIndex = 0;
+        while ((m = rule.pattern.exec(result)) !== null) {
+          matches.push({ start: m.index, end: m.index + m[0].length, match: m[0], captured: m[1] });
+        }
       }
 
-      // Apply replacements in reverse order to preserve indices
-      for (let i = matches.length - 1; i >= 0; i--) {
-        const { start, end, match, captured } = matches[i];
-        if (isAllowlisted(match, allowlistStrings, allowlistPatterns)) continue;
-        if (rule.allowlist && isRuleAllowlisted(match, captured, rule.allowlist)) continue;
-        if (rule.minEntropy !== undefined && shannonEntropy(captured ?? match) < rule.minEntropy) continue;
-        if (!hasContextNearby(result, start, end, rule.context, window)) continue;
-        stats.totalReplacements++;
-        stats.byRule[rule.name] = (stats.byRule[rule.name] || 0) + 1;
-        const replacement = resolveReplacement(match, rule, map);
-        result = result.slice(0, start) + replacement + result.slice(end);
+      // Resolve replacements in text order (so placeholders are numbered
+      // left to right), then splice them in from the end to keep indices valid
+      const replacements: { start: number; end: number; text: string }[] = [];
+      for (const { start, end, match, captured } of matches) {
+        const gated = gateMatch(match, captured, rule, allowlistStrings, allowlistPatterns);
+        if (gated) {
+          recordMatch(stats, rule, path, result, start, end, gated, null);
+          continue;
+        }
+        const contextFound = rule.context ? hasContextNearby(result, start, end, rule.context, window) : undefined;
+        if (contextFound === false) {
+          recordMatch(stats, rule, path, result, start, end, "no-context", null, false);
+          continue;
+        }
+        const text = applyMatch(match, rule, stats, map);
+        recordMatch(stats, rule, path, result, start, end, appliedOutcome(rule), rule.action === "warn" ? null : text, contextFound);
+        replacements.push({ start, end, text });
+      }
+      for (let i = replacements.length - 1; i >= 0; i--) {
+        const { start, end, text } = replacements[i];
+        result = result.slice(0, start) + text + result.slice(end);
       }
     } else {
       // No context gating: simple replace
+      const text = result;
       result = result.replace(rule.pattern, (match, ...args) => {
         // args: [cap1, cap2, ..., offset, fullString] — first arg is capture group 1 if present
         const captured = typeof args[0] === "string" ? args[0] : undefined;
-        if (isAllowlisted(match, allowlistStrings, allowlistPatterns)) return match;
-        if (rule.allowlist && isRuleAllowlisted(match, captured, rule.allowlist)) return match;
-        if (rule.minEntropy !== undefined && shannonEntropy(captured ?? match) < rule.minEntropy) return match;
-        stats.totalReplacements++;
-        stats.byRule[rule.name] = (stats.byRule[rule.name] || 0) + 1;
-        return resolveReplacement(match, rule, map);
+        const offset = args.find((a) => typeof a === "number") as number;
+        const gated = gateMatch(match, captured, rule, allowlistStrings, allowlistPatterns);
+        if (gated) {
+          recordMatch(stats, rule, path, text, offset, offset + match.length, gated, null);
+          return match;
+        }
+        const replacement = applyMatch(match, rule, stats, map);
+        recordMatch(stats, rule, path, text, offset, offset + match.length, appliedOutcome(rule), rule.action === "warn" ? null : replacement);
+        return replacement;
       });
     }
   }
@@ -246,6 +384,7 @@ export function redactWithPolicy(
       policy.allowlist.patterns,
       stats,
       map,
+      currentPath,
     );
   }
 
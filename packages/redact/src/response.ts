@@ -0,0 +1,74 @@
+/**
+ * Rehydration for non-streaming (JSON) responses.
+ *
+ * Replacing placeholders in the raw body text would insert originals
+ * unescaped: a value containing a quote, backslash, or newline would
+ * break the response JSON. Instead the body is parsed, every string leaf
+ * is rehydrated on its own, and the result is re-serialized.
+ *
+ * This covers all provider formats without knowing their shapes: text
+ * blocks, Anthropic `tool_use.input` and Gemini `functionCall.args`
+ * (nested objects), and OpenAI `arguments` fields. The latter hold tool
+ * arguments as JSON source text, so originals are JSON-escaped there.
+ */
+
+import type { JsonValue } from "@contextio/core";
+
+import type { ReplacementMap } from "./mapping.js";
+import { jsonEscape } from "./stream.js";
+
+/** String fields whose value is JSON source text rather than plain text. */
+const JSON_SOURCE_KEYS = new Set(["arguments"]);
+
+/** Rehydrate every string leaf of `value` in place. Returns true if anything changed. */
+function rehydrateLeaves(value: JsonValue, map: ReplacementMap): boolean {
+  let changed = false;
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => {
+      if (typeof item === "string") {
+        const next = map.rehydrate(item);
+        if (next !== item) {
+          value[i] = next;
+          changed = true;
+        }
+      } else if (rehydrateLeaves(item, map)) {
+        changed = true;
+      }
+    });
+  } else if (typeof value === "object" && value !== null) {
+    for (const [key, item] of Object.entries(value)) {
+      if (typeof item === "string") {
+        const next = JSON_SOURCE_KEYS.has(key) ? map.rehydrate(item, jsonEscape) : map.rehydrate(item);
+        if (next !== item) {
+          value[key] = next;
+          changed = true;
+        }
+      } else if (rehydrateLeaves(item, map)) {
+        changed = true;
+      }
+    }
+  }
+  return changed;
+}
+
+/**
+ * Restore placeholders in a non-streaming response body.
+ *
+ * JSON bodies are rehydrated leaf by leaf, so the result is always valid
+ * JSON. Bodies that are not JSON are rehydrated as plain text. Returns
+ * the input unchanged when it contains no known placeholder.
+ */
+export function rehydrateResponseBody(body: string, map: ReplacementMap): string {
+  let parsed: JsonValue;
+  try {
+    parsed = JSON.parse(body) as JsonValue;
+  } catch {
+    return map.rehydrate(body);
+  }
+
+  if (typeof parsed === "string") {
+    const next = map.rehydrate(parsed);
+    return next === parsed ? body : JSON.stringify(next);
+  }
+  return rehydrateLeaves(parsed, map) ? JSON.stringify(parsed) : body;
+}
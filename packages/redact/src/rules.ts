@@ -7,11 +7,33 @@
  * word appears within a character window around the match.
  */
 
+import type { Dictionary } from "./dictionary.js";
+
+/**
+ * What happens when a rule matches.
+ * - "redact": replace the match (default)
+ * - "block": replace the match and have the redact plugin reject the request
+ * - "warn": leave the match in place and only report it
+ */
+export type RuleAction = "redact" | "block" | "warn";
+
+/**
+ * What a redacted value is replaced with.
+ * - "placeholder": the rule's replacement, or a numbered token like
+ *   `[EMAIL_1]` in reversible mode (default)
+ * - "fake": a realistic surrogate of the same kind (email on a reserved
+ *   domain, test card number, fictional phone number), so the LLM can
+ *   still reason about its format
+ */
+export type ReplacementStyle = "placeholder" | "fake";
+
 export interface RedactionRule {
   /** Unique identifier for logging and policy references. */
   name: string;
-  /** Pattern to match. Must have the global flag. */
+  /** Pattern to match. Must have the global flag. Unused when `dictionary` is set. */
   pattern: RegExp;
+  /** Entity list to match instead of `pattern` (policy `dictionaries`). */
+  dictionary?: Dictionary;
   /** Replacement string. Can use $1, $2, etc. for capture groups. */
   replacement: string;
   /**
@@ -37,4 +59,8 @@ export interface RedactionRule {
    * Carried over from CredentialPattern.minEntropy via toRule().
    */
   minEntropy?: number;
+  /** What happens on a match. Default: "redact". */
+  action?: RuleAction;
+  /** What a match is replaced with. Default: "placeholder". */
+  replacementStyle?: ReplacementStyle;
 }
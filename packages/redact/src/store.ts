@@ -0,0 +1,224 @@
+/**
+ * Encrypted on-disk store for reversible-redaction mappings.
+ *
+ * The LLM keeps seeing placeholders like `[EMAIL_1]` from earlier turns
+ * for as long as the conversation lasts, so a session's replacement map
+ * has to outlive a proxy restart. Each session's entries are written to
+ * `{dir}/{sessionId}.json`, encrypted with AES-256-GCM.
+ *
+ * The encryption key is derived (HKDF-SHA256) from a random secret file
+ * that is created on first save with mode 0600. Deleting the secret file
+ * makes every stored map unreadable. The session ID is bound in as
+ * additional authenticated data, so a file renamed to another session
+ * fails to decrypt.
+ */
+
+import crypto from "node:crypto";
+import fs from "node:fs";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+
+import type { MappingEntry } from "./mapping.js";
+
+/** Options for {@link MappingStore}. */
+export interface MappingStoreOptions {
+  /** Directory for mapping files. Default: `~/.contextio/redact/mappings`. */
+  dir?: string;
+  /** Secret file the encryption key is derived from. Default: `~/.contextio/redact/mapping.key`. */
+  keyFile?: string;
+  /** Stored maps not updated for this long are removed by `prune()`. Default: 7 days. */
+  maxAgeMs?: number;
+}
+
+/** Summary of one stored session map, readable without the key. */
+export interface StoredMappingInfo {
+  sessionId: string;
+  /** Number of mapping entries. */
+  count: number;
+  /** ISO-8601 time of the last save. */
+  updatedAt: string;
+}
+
+/** On-disk format. Everything except `count` and `updatedAt` is encrypted. */
+interface MappingFile {
+  version: 1;
+  sessionId: string;
+  count: number;
+  updatedAt: string;
+  /** Base64 12-byte GCM nonce. */
+  iv: string;
+  /** Base64 16-byte GCM auth tag. */
+  tag: string;
+  /** Base64 ciphertext of `JSON.stringify(entries)`. */
+  data: string;
+}
+
+const DEFAULT_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+const KEY_INFO = "contextio redact mappings v1";
+const SESSION_ID_RE = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Read a random secret file, creating it (readable only by the current
+ * user) if it doesn't exist yet.
+ */
+export function readOrCreateSecret(file: string): Buffer {
+  if (fs.existsSync(file)) return fs.readFileSync(file);
+  fs.mkdirSync(dirname(file), { recursive: true, mode: 0o700 });
+  const secret = crypto.randomBytes(32);
+  try {
+    fs.writeFileSync(file, secret, { mode: 0o600, flag: "wx" });
+    return secret;
+  } catch (err: unknown) {
+    // Another process created it first: use theirs
+    if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+    return fs.readFileSync(file);
+  }
+}
+
+/** Encrypted per-session storage for {@link MappingEntry} lists. */
+export class MappingStore {
+  readonly dir: string;
+  readonly keyFile: string;
+  private readonly maxAgeMs: number;
+  private key: Buffer | null = null;
+
+  constructor(options: MappingStoreOptions = {}) {
+    const base = join(homedir(), ".contextio", "redact");
+    this.dir = options.dir ?? join(base, "mappings");
+    this.keyFile = options.keyFile ?? join(base, "mapping.key");
+    this.maxAgeMs = options.maxAgeMs ?? DEFAULT_MAX_AGE_MS;
+  }
+
+  /**
+   * Derive the encryption key from the secret file. With `create`, a
+   * missing secret file is generated; otherwise null is returned.
+   */
+  private getKey(create: boolean): Buffer | null {
+    if (this.key) return this.key;
+
+    let secret: Buffer;
+    if (fs.existsSync(this.keyFile)) {
+      secret = fs.readFileSync(this.keyFile);
+    } else if (create) {
+      secret = readOrCreateSecret(this.keyFile);
+    } else {
+      return null;
+    }
+
+    this.key = Buffer.from(crypto.hkdfSync("sha256", secret, Buffer.alloc(0), KEY_INFO, 32));
+    return this.key;
+  }
+
+  private filePath(sessionId: string): string {
+    if (!SESSION_ID_RE.test(sessionId)) {
+      throw new Error(`Invalid session ID "${sessionId}"`);
+    }
+    return join(this.dir, `${sessionId}.json`);
+  }
+
+  private readFile(sessionId: string): MappingFile | null {
+    let raw: string;
+    try {
+      raw = fs.readFileSync(this.filePath(sessionId), "utf8");
+    } catch (err: unknown) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw err;
+    }
+    const file = JSON.parse(raw) as MappingFile;
+    if (file.version !== 1) {
+      throw new Error(`Unsupported mapping file version ${String(file.version)}`);
+    }
+    return file;
+  }
+
+  /**
+   * Load a session's entries. Returns null when nothing is stored.
+   * Throws if the file cannot be decrypted (wrong or missing key, tampering).
+   */
+  load(sessionId: string): MappingEntry[] | null {
+    const file = this.readFile(sessionId);
+    if (!file) return null;
+
+    const key = this.getKey(false);
+    if (!key) throw new Error(`Key file ${this.keyFile} not found; stored mappings cannot be decrypted`);
+
+    const decipher = crypto.createDecipheriv("aes-256-gcm", key, Buffer.from(file.iv, "base64"));
+    decipher.setAAD(Buffer.from(sessionId));
+    decipher.setAuthTag(Buffer.from(file.tag, "base64"));
+    try {
+      const plain = Buffer.concat([decipher.update(Buffer.from(file.data, "base64")), decipher.final()]);
+      return JSON.parse(plain.toString("utf8")) as MappingEntry[];
+    } catch {
+      throw new Error(`Could not decrypt mappings for session ${sessionId} (key changed or file corrupted)`);
+    }
+  }
+
+  /** Encrypt and write a session's entries, replacing any stored ones. */
+  save(sessionId: string, entries: readonly MappingEntry[]): void {
+    const path = this.filePath(sessionId);
+    const key = this.getKey(true)!;
+
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+    cipher.setAAD(Buffer.from(sessionId));
+    const data = Buffer.concat([cipher.update(JSON.stringify(entries), "utf8"), cipher.final()]);
+
+    const file: MappingFile = {
+      version: 1,
+      sessionId,
+      count: entries.length,
+      updatedAt: new Date().toISOString(),
+      iv: iv.toString("base64"),
+      tag: cipher.getAuthTag().toString("base64"),
+      data: data.toString("base64"),
+    };
+
+    fs.mkdirSync(this.dir, { recursive: true, mode: 0o700 });
+    const tmpPath = `${path}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(file), { mode: 0o600 });
+    fs.renameSync(tmpPath, path);
+  }
+
+  /** Stored sessions, most recently updated first. Unreadable files are skipped. */
+  list(): StoredMappingInfo[] {
+    let names: string[];
+    try {
+      names = fs.readdirSync(this.dir).filter((f) => f.endsWith(".json"));
+    } catch {
+      return [];
+    }
+
+    const infos: StoredMappingInfo[] = [];
+    for (const name of names) {
+      try {
+        const file = this.readFile(name.slice(0, -".json".length));
+        if (file) infos.push({ sessionId: file.sessionId, count: file.count, updatedAt: file.updatedAt });
+      } catch {
+        // Skip foreign or corrupted files
+      }
+    }
+    return infos.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  /** Delete a session's stored map. Returns false if there was none. */
+  delete(sessionId: string): boolean {
+    try {
+      fs.unlinkSync(this.filePath(sessionId));
+      return true;
+    } catch (err: unknown) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return false;
+      throw err;
+    }
+  }
+
+  /** Delete maps not updated within `maxAgeMs`. Returns how many were removed. */
+  prune(now = Date.now()): number {
+    let removed = 0;
+    for (const info of this.list()) {
+      if (now - Date.parse(info.updatedAt) > this.maxAgeMs && this.delete(info.sessionId)) {
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
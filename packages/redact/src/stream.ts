@@ -1,204 +1,472 @@
 /**
- * Streaming rehydration for SSE responses.
+ * Streaming rehydration for SSE and AWS event-stream responses.
  *
  * The challenge: placeholders like `[EMAIL_1]` can be split across
  * multiple SSE events (the LLM might stream "[EMA" in one chunk and
  * "IL_1]" in the next). This module handles that by:
  *
- * 1. Extracting text content from SSE `data:` lines (provider-agnostic)
- * 2. Buffering content when a partial placeholder is detected (trailing "[")
+ * 1. Parsing each SSE `data:` line as JSON and locating its string fields
+ *    with a per-`ApiFormat` extractor (text, thinking, and tool-call
+ *    argument deltas, plus the full values in "done" events)
+ * 2. Grouping delta fields into channels (one per content block, choice,
+ *    tool call, or output item) and buffering a channel's events while
+ *    its text ends in what could be the start of a known placeholder
  * 3. Replacing complete placeholders with originals from the ReplacementMap
- * 4. Preserving the JSON structure of each SSE event
+ * 4. Re-serializing only the events whose fields changed
  *
- * When no placeholders are present in a chunk, it passes through unchanged
- * (zero allocation fast path).
+ * Tool-call arguments are streamed as JSON source text, so originals are
+ * JSON-escaped before they are put back there. A model that writes
+ * `[EMAIL_1]` into a file through a tool call gets the real address.
+ *
+ * Bedrock streams arrive as binary event-stream messages instead of SSE
+ * lines. They go through the same event-level logic; a message whose
+ * event changed is re-encoded with fresh checksums.
+ *
+ * When no placeholders are present, lines and messages pass through
+ * byte-for-byte.
  */
 
+import { StringDecoder } from "node:string_decoder";
+
+import {
+  createEventStreamDecoder,
+  encodeEventStreamMessage,
+  eventStreamEventType,
+  eventStreamPayloadText,
+} from "@contextio/core";
+import type { ApiFormat, EventStreamMessage, JsonObject, JsonValue } from "@contextio/core";
+
 import type { ReplacementMap } from "./mapping.js";
 
-/** Escape a string for safe embedding inside a JSON string value. */
-function jsonEscape(s: string): string {
-  return s
-    .replace(/\\/g, "\\\\")
-    .replace(/"/g, '\\"')
-    .replace(/\n/g, "\\n")
-    .replace(/\r/g, "\\r")
-    .replace(/\t/g, "\\t");
+/** How a field's text is written: plain text, or JSON source (tool arguments). */
+type FieldEncoding = "text" | "json";
+
+/** A string field inside a parsed stream event. */
+interface FieldRef {
+  /**
+   * Stream the field belongs to: consecutive delta fields of the same
+   * channel form one logical string. Null for fields that carry a
+   * complete value and are rehydrated on their own.
+   */
+  channel: string | null;
+  encoding: FieldEncoding;
+  get(): string;
+  set(value: string): void;
 }
 
-/**
- * Result of extracting text content from a JSON SSE event.
- *
- * Contains the text value plus enough context to reconstruct the
- * original line with modified content.
- */
-interface Extracted {
-  /** The extracted text content (JSON-unescaped). */
-  text: string;
-  /** The full matched substring (e.g. `"text":"hello"`) for string replacement. */
-  fullMatch: string;
-  /** The field key prefix (e.g. `"text":"`) for reconstructing the line. */
-  prefix: string;
+/** Finds the string fields of one stream event that may contain placeholders. */
+type FieldExtractor = (event: JsonObject) => FieldRef[];
+
+function isObject(value: JsonValue | undefined): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
 }
 
-/**
- * Extract text content from a JSON SSE event line.
- *
- * Recognizes content fields from all three providers:
- * - Anthropic: `text_delta` events with `"text"` field
- * - Anthropic: `thinking_delta` events with `"thinking"` field
- * - OpenAI: `delta` objects with `"content"` field
- * - Gemini: `parts` arrays with `"text"` field
- *
- * @returns Extracted text and match context, or null for non-content events.
- */
-function extractContent(json: string): Extracted | null {
-  let m: RegExpMatchArray | null;
+function objects(value: JsonValue | undefined): JsonObject[] {
+  return Array.isArray(value) ? value.filter(isObject) : [];
+}
+
+/** Reference `obj[key]` if it is a string; otherwise nothing. */
+function field(
+  obj: JsonObject | undefined,
+  key: string,
+  channel: string | null,
+  encoding: FieldEncoding = "text",
+): FieldRef[] {
+  if (!obj || typeof obj[key] !== "string") return [];
+  return [{
+    channel,
+    encoding,
+    get: () => obj[key] as string,
+    set: (value) => { obj[key] = value; },
+  }];
+}
 
-  if (json.includes("text_delta")) {
-    m = json.match(/"text"\s*:\s*"((?:[^"\\]|\\.)*)"/);
-    if (m) return { text: m[1], fullMatch: m[0], prefix: m[0].slice(0, m[0].indexOf(m[1])) };
+/** Reference every string leaf of a complete JSON value (e.g. Gemini functionCall args). */
+function leaves(value: JsonValue | undefined, out: FieldRef[] = []): FieldRef[] {
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => {
+      if (typeof item === "string") {
+        out.push({ channel: null, encoding: "text", get: () => value[i] as string, set: (v) => { value[i] = v; } });
+      } else {
+        leaves(item, out);
+      }
+    });
+  } else if (isObject(value)) {
+    for (const key of Object.keys(value)) {
+      if (typeof value[key] === "string") out.push(...field(value, key, null));
+      else leaves(value[key], out);
+    }
   }
-  if (json.includes("thinking_delta")) {
-    m = json.match(/"thinking"\s*:\s*"((?:[^"\\]|\\.)*)"/);
-    if (m) return { text: m[1], fullMatch: m[0], prefix: m[0].slice(0, m[0].indexOf(m[1])) };
+  return out;
+}
+
+// --- Per-format extractors ---
+
+/** Anthropic Messages: text, thinking, and tool input deltas per content block. */
+const anthropicFields: FieldExtractor = (event) => {
+  if (event.type !== "content_block_delta" || !isObject(event.delta)) return [];
+  const channel = `block:${String(event.index ?? 0)}`;
+  const delta = event.delta;
+  switch (delta.type) {
+    case "text_delta":
+      return field(delta, "text", channel);
+    case "thinking_delta":
+      return field(delta, "thinking", channel);
+    case "input_json_delta":
+      return field(delta, "partial_json", channel, "json");
+    default:
+      return [];
   }
-  if (json.includes('"delta"') && json.includes('"content"')) {
-    m = json.match(/"content"\s*:\s*"((?:[^"\\]|\\.)*)"/);
-    if (m) return { text: m[1], fullMatch: m[0], prefix: m[0].slice(0, m[0].indexOf(m[1])) };
+};
+
+/** OpenAI Chat Completions: content and tool-call argument deltas per choice. */
+const chatCompletionsFields: FieldExtractor = (event) => {
+  const refs: FieldRef[] = [];
+  for (const choice of objects(event.choices)) {
+    if (!isObject(choice.delta)) continue;
+    const base = `choice:${String(choice.index ?? 0)}`;
+    refs.push(...field(choice.delta, "content", `${base}:content`));
+    refs.push(...field(choice.delta, "reasoning_content", `${base}:reasoning`));
+    for (const call of objects(choice.delta.tool_calls)) {
+      if (!isObject(call.function)) continue;
+      refs.push(...field(call.function, "arguments", `${base}:tool:${String(call.index ?? 0)}`, "json"));
+    }
   }
-  if (json.includes('"parts"') && json.includes('"text"')) {
-    m = json.match(/"text"\s*:\s*"((?:[^"\\]|\\.)*)"/);
-    if (m) return { text: m[1], fullMatch: m[0], prefix: m[0].slice(0, m[0].indexOf(m[1])) };
+  return refs;
+};
+
+/** Text and arguments of a complete Responses API output item. */
+function responseItemFields(item: JsonObject): FieldRef[] {
+  const refs: FieldRef[] = [];
+  for (const part of objects(item.content)) refs.push(...field(part, "text", null));
+  for (const part of objects(item.summary)) refs.push(...field(part, "text", null));
+  refs.push(...field(item, "arguments", null, "json"));
+  return refs;
+}
+
+/** OpenAI Responses (and the ChatGPT backend): deltas per output item, plus "done" events. */
+const responsesFields: FieldExtractor = (event) => {
+  const type = typeof event.type === "string" ? event.type : "";
+  const channel = `item:${String(event.item_id ?? event.output_index ?? 0)}:${String(event.content_index ?? event.summary_index ?? 0)}`;
+
+  switch (type) {
+    case "response.output_text.delta":
+    case "response.reasoning_text.delta":
+    case "response.reasoning_summary_text.delta":
+    case "response.refusal.delta":
+      return field(event, "delta", channel);
+    case "response.function_call_arguments.delta":
+      return field(event, "delta", channel, "json");
+    case "response.output_text.done":
+    case "response.reasoning_text.done":
+    case "response.reasoning_summary_text.done":
+      return field(event, "text", null);
+    case "response.refusal.done":
+      return field(event, "refusal", null);
+    case "response.function_call_arguments.done":
+      return field(event, "arguments", null, "json");
+    case "response.content_part.done":
+    case "response.reasoning_summary_part.done":
+      return isObject(event.part) ? field(event.part, "text", null) : [];
+    case "response.output_item.done":
+      return isObject(event.item) ? responseItemFields(event.item) : [];
+    case "response.completed":
+    case "response.incomplete":
+      return isObject(event.response) ? objects(event.response.output).flatMap(responseItemFields) : [];
+    default:
+      return [];
   }
-  return null;
+};
+
+/** Gemini (and Code Assist's `response` wrapper): text parts per candidate, complete functionCall args. */
+const geminiFields: FieldExtractor = (event) => {
+  const carrier = isObject(event.response) ? event.response : event;
+  const refs: FieldRef[] = [];
+  for (const candidate of objects(carrier.candidates)) {
+    if (!isObject(candidate.content)) continue;
+    const channel = `candidate:${String(candidate.index ?? 0)}`;
+    for (const part of objects(candidate.content.parts)) {
+      refs.push(...field(part, "text", channel));
+      if (isObject(part.functionCall)) refs.push(...leaves(part.functionCall.args));
+    }
+  }
+  return refs;
+};
+
+/** Bedrock Converse: text, reasoning, and tool input deltas per content block. */
+const converseFields: FieldExtractor = (event) => {
+  if (!isObject(event.delta)) return [];
+  const channel = `block:${String(event.contentBlockIndex ?? 0)}`;
+  const delta = event.delta;
+  return [
+    ...field(delta, "text", channel),
+    ...(isObject(delta.reasoningContent) ? field(delta.reasoningContent, "text", channel) : []),
+    ...(isObject(delta.toolUse) ? field(delta.toolUse, "input", channel, "json") : []),
+  ];
+};
+
+/** Unknown format: pick the extractor by the event's shape. */
+const detectFields: FieldExtractor = (event) => {
+  const type = typeof event.type === "string" ? event.type : "";
+  if (type.startsWith("response.")) return responsesFields(event);
+  if (type) return anthropicFields(event);
+  if (Array.isArray(event.choices)) return chatCompletionsFields(event);
+  if (typeof event.contentBlockIndex === "number") return converseFields(event);
+  return geminiFields(event);
+};
+
+const EXTRACTORS: Partial<Record<ApiFormat, FieldExtractor>> = {
+  "anthropic-messages": anthropicFields,
+  "chat-completions": chatCompletionsFields,
+  responses: responsesFields,
+  "chatgpt-backend": responsesFields,
+  gemini: geminiFields,
+  "bedrock-converse": converseFields,
+};
+
+/** JSON-escape an original for insertion into JSON source text (no quotes). */
+export function jsonEscape(s: string): string {
+  return JSON.stringify(s).slice(1, -1);
+}
+
+// --- Rehydrator ---
+
+/** Chunk and end handlers for one streamed response. */
+export interface StreamRehydrator {
+  onChunk: (chunk: Buffer) => Buffer;
+  onEnd: () => Buffer | null;
+}
+
+/** An event parsed as JSON, with its placeholder-bearing fields. */
+interface ParsedEvent {
+  event: JsonObject;
+  /** Set once a field was rewritten; the event is then re-serialized. */
+  dirty: boolean;
+}
+
+/** A unit of input (an SSE line or event-stream message) waiting to be emitted. */
+interface Held<T> {
+  item: T;
+  parsed: ParsedEvent | null;
+}
+
+/** Accumulated text of one channel since the last flush. */
+interface Channel {
+  text: string;
+  encoding: FieldEncoding;
+  refs: { ref: FieldRef; parsed: ParsedEvent }[];
 }
 
 /**
- * Create a stateful stream rehydrator for one session.
+ * Placeholder resolution over a sequence of events, independent of how
+ * they are framed. Units are handed back to `emit` in input order once
+ * their placeholders are resolved.
  *
- * Call `onChunk()` for each SSE chunk from the upstream. It buffers
- * partial lines and partial placeholders, replacing complete ones with
- * originals. Call `onEnd()` when the stream finishes to flush any
- * remaining buffered content.
+ * Units fall into three categories:
  *
- * @param map - The session's replacement map (original <-> placeholder).
- * @returns Chunk and end handlers.
+ * 1. Units without an event that content may continue past (SSE
+ *    separators, `event:` and `id:` lines): held without forcing a flush,
+ *    because a placeholder can span the separator and `event:` line
+ *    between two events.
+ *
+ * 2. Units content won't continue past (`data: [DONE]`, malformed JSON,
+ *    exceptions), and events without delta fields (usage, metadata,
+ *    "done" events with complete values): complete values are rehydrated
+ *    in place, then held content is flushed and the unit passes through.
+ *
+ * 3. Events with delta fields: each field's text is appended to its
+ *    channel and the unit is held. `flushHeld` decides whether to emit
+ *    now or wait for more content.
  */
-export function createStreamRehydrator(map: ReplacementMap): {
-  onChunk: (chunk: Buffer) => Buffer;
-  onEnd: () => Buffer | null;
+function createEventRehydrator<T>(
+  map: ReplacementMap,
+  extract: FieldExtractor,
+  emit: (item: T, parsed: ParsedEvent | null) => void,
+): {
+  /** A unit without an event that content may continue past. */
+  hold: (item: T) => void;
+  /** A unit without an event that ends any pending content. */
+  pass: (item: T) => void;
+  /** A unit carrying a parsed event. */
+  event: (item: T, event: JsonObject) => void;
+  /** Emit everything still held. */
+  flush: () => void;
 } {
-  let lineBuf = "";       // Incomplete line from previous chunk
-  let contentBuf = "";    // Accumulated text content (may span SSE events)
-  let held: { line: string; extracted: Extracted | null }[] = [];  // Buffered lines awaiting placeholder resolution
-  let outputParts: string[] = [];  // Completed output lines ready to emit
+  let held: Held<T>[] = [];                  // Units awaiting placeholder resolution
+  let channels = new Map<string, Channel>(); // Delta text per channel since last flush
+
+  function rehydrate(text: string, encoding: FieldEncoding): string {
+    return encoding === "json" ? map.rehydrate(text, jsonEscape) : map.rehydrate(text);
+  }
 
   /**
-   * Check if contentBuf ends with a partial placeholder (has "[" without
-   * a closing "]"). If so, we need to buffer more content before
-   * attempting replacement.
+   * True if `text` ends with the beginning of a known placeholder. Fake
+   * surrogates (e.g. "user1@example.com") don't start with "[", so every
+   * proper prefix of every placeholder is checked.
    */
-  function hasTrailingPartial(): boolean {
-    const i = contentBuf.lastIndexOf("[");
-    if (i === -1) return false;
-    return contentBuf.indexOf("]", i) === -1;
+  function endsWithPartial(text: string): boolean {
+    return map.allPlaceholders().some((p) => {
+      for (let n = Math.min(p.length - 1, text.length); n > 0; n--) {
+        if (text.endsWith(p.slice(0, n))) return true;
+      }
+      return false;
+    });
   }
 
   /**
-   * Flush held lines to output. When `force` is false, only flushes if
-   * there's no trailing partial placeholder. When `force` is true, flushes
-   * everything regardless.
+   * Flush held units to output. When `force` is false, only flushes if
+   * no channel ends in a partial placeholder. When `force` is true,
+   * flushes everything regardless.
    *
-   * If placeholders were replaced, all rehydrated text goes into the first
-   * content line; subsequent content lines get emptied. This avoids
-   * producing duplicate text when a placeholder spans multiple events.
+   * If a channel's placeholders were replaced, its whole rehydrated text
+   * goes into the channel's first field and later fields are emptied.
+   * This avoids producing duplicate text when a placeholder spans events.
    */
   function flushHeld(force: boolean): void {
     if (held.length === 0) return;
-    if (!force && hasTrailingPartial()) return;
-
-    const rehydrated = map.rehydrate(contentBuf);
-
-    if (rehydrated === contentBuf) {
-      // No placeholders found; pass through unchanged
-      for (const h of held) outputParts.push(h.line);
-    } else {
-      // Placeholders were replaced. Put all rehydrated text into the
-      // first content line (preserving its JSON structure) and pass
-      // subsequent content lines with empty text.
-      let first = true;
-      for (const h of held) {
-        if (h.extracted === null) {
-          // Non-content line (empty separator, etc.); pass through
-          outputParts.push(h.line);
-          continue;
-        }
-        if (first) {
-          first = false;
-          // Replace the content value in this line with all rehydrated text
-          const newMatch = h.extracted.prefix + jsonEscape(rehydrated) + '"';
-          outputParts.push(h.line.replace(h.extracted.fullMatch, newMatch));
-        } else {
-          // Empty out subsequent content lines
-          const newMatch = h.extracted.prefix + '"';
-          outputParts.push(h.line.replace(h.extracted.fullMatch, newMatch));
-        }
-      }
+    if (!force && [...channels.values()].some((c) => endsWithPartial(c.text))) return;
+
+    for (const channel of channels.values()) {
+      const rehydrated = rehydrate(channel.text, channel.encoding);
+      if (rehydrated === channel.text) continue;
+      channel.refs.forEach(({ ref, parsed }, i) => {
+        ref.set(i === 0 ? rehydrated : "");
+        parsed.dirty = true;
+      });
     }
 
-    contentBuf = "";
+    for (const h of held) emit(h.item, h.parsed);
     held = [];
+    channels = new Map();
   }
 
-  /**
-   * Process one line from the SSE stream.
-   *
-   * Lines fall into three categories:
-   *
-   * 1. Non-`data:` lines (empty separator lines, `event:` lines, etc.):
-   *    Empty lines are held without forcing a flush because a placeholder
-   *    can span across the empty line separator between two SSE events.
-   *    Non-empty non-data lines (like `event: done`) force a flush first,
-   *    since they mark a boundary where content won't continue.
-   *
-   * 2. `data:` lines with no extractable text content (e.g. `data: [DONE]`,
-   *    usage events, metadata events): force a flush, then pass through.
-   *
-   * 3. `data:` lines with text content: accumulate the text into `contentBuf`
-   *    and hold the line for deferred output. `flushHeld` decides whether to
-   *    emit now or wait for more content based on whether a placeholder looks
-   *    like it might be split across the next chunk.
-   */
-  function processLine(line: string): void {
-    if (!line.startsWith("data: ")) {
-      // Empty separator lines must not force a flush; a placeholder can span them.
-      if (line.trim().length > 0) {
-        flushHeld(true);
+  /** Rehydrate fields that carry a complete value. Returns the delta fields. */
+  function rehydrateComplete(parsed: ParsedEvent, refs: FieldRef[]): FieldRef[] {
+    const deltas: FieldRef[] = [];
+    for (const ref of refs) {
+      if (ref.channel !== null) {
+        deltas.push(ref);
+        continue;
+      }
+      const value = ref.get();
+      const rehydrated = rehydrate(value, ref.encoding);
+      if (rehydrated !== value) {
+        ref.set(rehydrated);
+        parsed.dirty = true;
       }
-      held.push({ line, extracted: null });
-      flushHeld(false);
-      return;
     }
+    return deltas;
+  }
 
-    const json = line.slice(6);
-    const extracted = extractContent(json);
+  return {
+    hold(item: T): void {
+      held.push({ item, parsed: null });
+      flushHeld(false);
+    },
 
-    if (extracted === null) {
-      // Non-content data line (usage stats, [DONE], etc.); flush and pass through.
+    pass(item: T): void {
       flushHeld(true);
-      outputParts.push(line);
+      emit(item, null);
+    },
+
+    event(item: T, event: JsonObject): void {
+      const parsed: ParsedEvent = { event, dirty: false };
+      const deltas = rehydrateComplete(parsed, extract(event));
+
+      if (deltas.length === 0) {
+        flushHeld(true);
+        emit(item, parsed);
+        return;
+      }
+
+      for (const ref of deltas) {
+        const key = ref.channel!;
+        let channel = channels.get(key);
+        if (!channel) {
+          channel = { text: "", encoding: ref.encoding, refs: [] };
+          channels.set(key, channel);
+        }
+        channel.text += ref.get();
+        channel.refs.push({ ref, parsed });
+      }
+      held.push({ item, parsed });
+      flushHeld(false);
+    },
+
+    flush: () => flushHeld(true),
+  };
+}
+
+/** Parse text as a JSON object, or null. */
+function parseObject(text: string): JsonObject | null {
+  if (!text.startsWith("{")) return null;
+  try {
+    const value = JSON.parse(text) as JsonValue;
+    return isObject(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+// --- SSE ---
+
+/** One SSE input line. */
+interface SseLine {
+  line: string;
+  /** Line terminator as received (`\n`, or "" for a final unterminated line). */
+  eol: string;
+  /** `data: ` or `data:` for data lines. */
+  prefix: string;
+  /** Trailing `\r` of CRLF streams, kept on output. */
+  cr: string;
+}
+
+/**
+ * Create a stateful stream rehydrator for one SSE response.
+ *
+ * Call `onChunk()` for each SSE chunk from the upstream. It buffers
+ * partial lines and partial placeholders, replacing complete ones with
+ * originals. Call `onEnd()` when the stream finishes to flush any
+ * remaining buffered content.
+ *
+ * @param map - The session's replacement map (original <-> placeholder).
+ * @param apiFormat - Wire format of the stream. When omitted (or not a
+ *   streaming format), each event's format is detected from its shape.
+ * @returns Chunk and end handlers.
+ */
+export function createStreamRehydrator(map: ReplacementMap, apiFormat?: ApiFormat | string): StreamRehydrator {
+  const decoder = new StringDecoder("utf8");
+
+  let lineBuf = ""; // Incomplete line from previous chunk
+  let output = "";  // Completed output ready to emit
+
+  const events = createEventRehydrator<SseLine>(
+    map,
+    EXTRACTORS[apiFormat as ApiFormat] ?? detectFields,
+    (l, parsed) => {
+      output += parsed?.dirty ? l.prefix + JSON.stringify(parsed.event) + l.cr + l.eol : l.line + l.eol;
+    },
+  );
+
+  /** Process one line from the SSE stream. */
+  function processLine(line: string, eol: string): void {
+    const sse: SseLine = { line, eol, prefix: "", cr: "" };
+    const m = line.match(/^data: ?/);
+    if (!m) {
+      events.hold(sse);
       return;
     }
 
-    contentBuf += extracted.text;
-    held.push({ line, extracted });
-    flushHeld(false);
+    sse.prefix = m[0];
+    sse.cr = line.endsWith("\r") ? "\r" : "";
+    const event = parseObject(line.slice(m[0].length, line.length - sse.cr.length));
+    if (event) events.event(sse, event);
+    else events.pass(sse);
   }
 
   function drain(): string {
-    const result = outputParts.join("\n");
-    outputParts = [];
+    const result = output;
+    output = "";
     return result;
   }
 
@@ -206,25 +474,103 @@ export function createStreamRehydrator(map: ReplacementMap): {
     onChunk(chunk: Buffer): Buffer {
       if (map.size === 0) return chunk;
 
-      const text = lineBuf + chunk.toString("utf8");
-      lineBuf = "";
-      const lines = text.split("\n");
-      if (!text.endsWith("\n")) {
-        lineBuf = lines.pop() ?? "";
-      }
-
-      for (const line of lines) processLine(line);
+      const lines = (lineBuf + decoder.write(chunk)).split("\n");
+      lineBuf = lines.pop() ?? "";
+      for (const line of lines) processLine(line, "\n");
       return Buffer.from(drain(), "utf8");
     },
 
     onEnd(): Buffer | null {
-      if (lineBuf.length > 0) {
-        processLine(lineBuf);
-        lineBuf = "";
-      }
-      flushHeld(true);
+      const rest = lineBuf + decoder.end();
+      lineBuf = "";
+      if (rest.length > 0) processLine(rest, "");
+      events.flush();
       const out = drain();
       return out.length > 0 ? Buffer.from(out, "utf8") : null;
     },
   };
 }
+
+// --- AWS event stream ---
+
+/** An event-stream message and, for InvokeModel chunks, the wrapper its event was unwrapped from. */
+interface StreamMessage {
+  message: EventStreamMessage;
+  wrapper: JsonObject | null;
+}
+
+/**
+ * Create a stateful rehydrator for one Bedrock event-stream response.
+ *
+ * Works like {@link createStreamRehydrator}, one message at a time.
+ * InvokeModel chunks are rehydrated inside their base64 `bytes` field.
+ * Messages that didn't change are passed on exactly as received. Bytes
+ * that aren't valid framing end rehydration and pass through untouched.
+ *
+ * @param map - The session's replacement map (original <-> placeholder).
+ * @param apiFormat - Format of the events ("anthropic-messages" for
+ *   InvokeModel with Claude, "bedrock-converse" for Converse).
+ * @returns Chunk and end handlers.
+ */
+export function createEventStreamRehydrator(map: ReplacementMap, apiFormat?: ApiFormat | string): StreamRehydrator {
+  const decoder = createEventStreamDecoder();
+
+  let output: Buffer[] = []; // Completed messages ready to emit
+  let failed = false;        // Framing was invalid; everything passes through
+
+  const events = createEventRehydrator<StreamMessage>(
+    map,
+    EXTRACTORS[apiFormat as ApiFormat] ?? detectFields,
+    ({ message, wrapper }, parsed) => {
+      if (!parsed?.dirty) {
+        output.push(message.raw);
+        return;
+      }
+      const json = JSON.stringify(parsed.event);
+      const payload = wrapper ? JSON.stringify({ ...wrapper, bytes: Buffer.from(json).toString("base64") }) : json;
+      output.push(encodeEventStreamMessage(message.headers, payload));
+    },
+  );
+
+  function processMessage(message: EventStreamMessage): void {
+    const event =
+      message.headers[":message-type"] === "event" ? parseObject(eventStreamPayloadText(message)) : null;
+    if (!event) {
+      events.pass({ message, wrapper: null });
+      return;
+    }
+    const wrapper = eventStreamEventType(message) === "chunk" ? parseObject(message.payload.toString("utf8")) : null;
+    events.event({ message, wrapper }, event);
+  }
+
+  function drain(): Buffer {
+    const result = Buffer.concat(output);
+    output = [];
+    return result;
+  }
+
+  return {
+    onChunk(chunk: Buffer): Buffer {
+      if (map.size === 0 || failed) return chunk;
+
+      const undecoded = Buffer.concat([decoder.pending(), chunk]);
+      let messages: EventStreamMessage[];
+      try {
+        messages = decoder.push(chunk);
+      } catch {
+        failed = true;
+        events.flush();
+        return Buffer.concat([drain(), undecoded]);
+      }
+      for (const message of messages) processMessage(message);
+      return drain();
+    },
+
+    onEnd(): Buffer | null {
+      if (failed) return null;
+      events.flush();
+      const out = Buffer.concat([drain(), decoder.pending()]);
+      return out.length > 0 ? out : null;
+    },
+  };
+}
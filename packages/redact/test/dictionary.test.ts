@@ -0,0 +1,113 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { Dictionary, loadDictionaryFile, parseCsv } from "../dist/dictionary.js";
+import { compilePolicy, loadPolicyFile } from "../dist/policy.js";
+import { createStats, redactWithPolicy } from "../dist/redact.js";
+import { ReplacementMap } from "../dist/mapping.js";
+
+function found(dict: Dictionary, text: string): string[] {
+  return dict.findAll(text).map((m) => text.slice(m.start, m.end));
+}
+
+describe("Dictionary", () => {
+  it("matches whole words, ignoring case by default", () => {
+    const dict = new Dictionary(["Ann", "Atlas"]);
+    assert.deepEqual(found(dict, "ann said ATLAS is Annual, not Atlassian"), ["ann", "ATLAS"]);
+    assert.deepEqual(found(new Dictionary(["Ann"], { caseSensitive: true }), "ann and Ann"), ["Ann"]);
+  });
+
+  it("prefers the leftmost-longest entry", () => {
+    const dict = new Dictionary(["John", "John Smith", "Smithers", "Smith"]);
+    assert.deepEqual(found(dict, "John Smith met John and Smithers."), ["John Smith", "John", "Smithers"]);
+  });
+
+  it("finds entries that share suffixes and prefixes", () => {
+    const dict = new Dictionary(["he", "she", "hers", "C++"]);
+    assert.deepEqual(found(dict, "she, hers, he and C++"), ["she", "hers", "he", "C++"]);
+  });
+
+  it("handles tens of thousands of entries", () => {
+    const terms = Array.from({ length: 50_000 }, (_, i) => `CUST-${i.toString(36).toUpperCase()}`);
+    const dict = new Dictionary(terms);
+    assert.equal(dict.size, 50_000);
+    const text = "Orders for cust-zz and CUST-12AB, but not CUST-ZZZZZZ. ".repeat(2000);
+    const started = Date.now();
+    assert.equal(dict.findAll(text).length, 4000);
+    assert.ok(Date.now() - started < 2000);
+  });
+});
+
+describe("dictionary files", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(join(tmpdir(), "contextio-dict-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("parses quoted CSV fields", () => {
+    assert.deepEqual(parseCsv('name,notes\r\n"Smith, John","said ""hi""\nthen left"\n'), [
+      ["name", "notes"],
+      ["Smith, John", 'said "hi"\nthen left'],
+    ]);
+  });
+
+  it("reads a CSV column or text lines", () => {
+    fs.writeFileSync(join(dir, "people.csv"), "name,email\nJohn Smith,john@test.com\n,\nJane Doe,jane@test.com\n");
+    fs.writeFileSync(join(dir, "codenames.txt"), "# codenames\nAtlas\n\nPhoenix\n");
+
+    assert.deepEqual(loadDictionaryFile(join(dir, "people.csv")), ["John Smith", "Jane Doe"]);
+    assert.deepEqual(loadDictionaryFile(join(dir, "people.csv"), "email"), ["john@test.com", "jane@test.com"]);
+    assert.deepEqual(loadDictionaryFile(join(dir, "codenames.txt")), ["Atlas", "Phoenix"]);
+    assert.throws(() => loadDictionaryFile(join(dir, "people.csv"), "phone"), /Column "phone" not found.*name, email/);
+  });
+
+  it("loads policy dictionaries relative to the policy file", () => {
+    fs.writeFileSync(join(dir, "customers.csv"), "id,name\nC-1001,Acme Corp\nC-1002,Globex\n");
+    fs.writeFileSync(join(dir, "policy.json"), JSON.stringify({
+      dictionaries: [
+        { id: "customer", file: "customers.csv", column: "name", terms: ["Initech"], replacement: "[CUSTOMER]" },
+      ],
+    }));
+
+    const policy = loadPolicyFile(join(dir, "policy.json"));
+    const map = new ReplacementMap();
+    const result = redactWithPolicy("Globex and acme corp, not Initech Labs", policy, createStats(), [], map);
+    assert.equal(result, "[CUSTOMER_1] and [CUSTOMER_2], not [CUSTOMER_3] Labs");
+    assert.equal(map.rehydrate("[CUSTOMER_2]"), "acme corp");
+  });
+
+  it("reports missing files with the dictionary id", () => {
+    assert.throws(
+      () => compilePolicy({ dictionaries: [{ id: "people", file: "nope.txt", replacement: "[P]" }] }, dir),
+      /Dictionary "people": ENOENT/,
+    );
+  });
+});
+
+describe("dictionary rules", () => {
+  it("supports block, allowlist, and stats like regex rules", () => {
+    const policy = compilePolicy({
+      extends: "pii",
+      dictionaries: [
+        { id: "codename", terms: ["Project Atlas"], action: "block" },
+        { id: "employee", terms: ["John Smith", "Jane Doe"], replacement: "[EMPLOYEE]" },
+      ],
+      allowlist: { strings: ["Jane Doe"] },
+    });
+
+    const stats = createStats();
+    const result = redactWithPolicy("John Smith and Jane Doe on project atlas", policy, stats);
+    assert.equal(result, "[EMPLOYEE] and Jane Doe on [BLOCKED]");
+    assert.deepEqual(stats.blocked, { codename: 1 });
+    assert.deepEqual(stats.byRule, { codename: 1, employee: 1 });
+    assert.equal(policy.rules[0].name, "codename");
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import type { RequestContext, ResponseContext } from "@contextio/core";
+
+import { compilePolicy, createRedactPlugin, createStats, redactWithPolicy } from "../dist/index.js";
+import { fakeKind, fakeValue, fakeValueFor, luhnValid } from "../dist/fake.js";
+import { ReplacementMap } from "../dist/mapping.js";
+import { createStreamRehydrator } from "../dist/stream.js";
+
+describe("fake surrogates", () => {
+  it("classifies emails, card numbers, and phone numbers", () => {
+    assert.equal(fakeKind("john@test.com"), "email");
+    assert.equal(fakeKind("4111 1111 1111 1111"), "card");
+    assert.equal(fakeKind("+1 (415) 555-2671"), "phone");
+    assert.equal(fakeKind("123-45-6789"), "phone");
+    assert.equal(fakeKind("NL91ABNA0417164300"), null);
+  });
+
+  it("generates valid surrogates that keep the original's layout", () => {
+    assert.equal(fakeValue("john@test.com", 2), "user2@example.com");
+
+    const card = fakeValue("4111-1111-1111-1111", 1)!;
+    assert.match(card, /^\d{4}-\d{4}-\d{4}-\d{4}$/);
+    assert.ok(luhnValid(card.replace(/\D/g, "")));
+    assert.notEqual(card, fakeValue("4111-1111-1111-1111", 2));
+
+    assert.equal(fakeValue("+31 6 12345678", 1), "+1 202-555-0100");
+    assert.equal(fakeValue("(415) 555-2671", 100), "202-555-0199");
+    assert.equal(fakeValue("(415) 555-2671", 101), null);
+  });
+
+  it("is stable without a map", () => {
+    assert.equal(fakeValueFor("john@test.com"), fakeValueFor("john@test.com"));
+    assert.notEqual(fakeValueFor("john@test.com"), fakeValueFor("jane@test.com"));
+  });
+});
+
+describe("replacementStyle: fake", () => {
+  // The second rule matches surrogates too, so it must leave them alone.
+  const policy = compilePolicy({
+    rules: [
+      { id: "customer-mail", pattern: "[a-z]+@acme\\.test", replacement: "[MAIL]", replacementStyle: "fake" },
+      { id: "email", pattern: "[a-z0-9]+@[a-z]+\\.[a-z]+", replacement: "[EMAIL]" },
+    ],
+  });
+
+  it("rejects unknown styles", () => {
+    assert.throws(
+      () => compilePolicy({ rules: [{ id: "x", pattern: "x", replacement: "y", replacementStyle: "random" as never }] }),
+      /unknown replacementStyle "random"/,
+    );
+  });
+
+  it("numbers surrogates per session and maps them back", () => {
+    const map = new ReplacementMap();
+    const redacted = redactWithPolicy("mail bob@acme.test and amy@acme.test, again bob@acme.test", policy, createStats(), [], map);
+    assert.equal(redacted, "mail user1@example.com and user2@example.com, again user1@example.com");
+    assert.equal(map.rehydrate("Reply to user2@example.com"), "Reply to amy@acme.test");
+  });
+
+  it("does not redact a surrogate again with a later rule", () => {
+    const map = new ReplacementMap();
+    const redacted = redactWithPolicy("mail bob@acme.test", policy, createStats(), [], map);
+    assert.equal(redacted, "mail user1@example.com");
+    assert.equal(map.size, 1);
+  });
+
+  it("uses stable surrogates in one-way mode", () => {
+    const oneWay = compilePolicy({
+      rules: [{ id: "customer-mail", pattern: "[a-z]+@acme\\.test", replacement: "[MAIL]", replacementStyle: "fake" }],
+    });
+    const a = redactWithPolicy("bob@acme.test", oneWay, createStats());
+    const b = redactWithPolicy("bob@acme.test", oneWay, createStats());
+    assert.match(String(a), /^user\d+@example\.com$/);
+    assert.equal(a, b);
+  });
+
+  it("rehydrates a surrogate split across stream events", () => {
+    const map = new ReplacementMap();
+    map.getOrCreate("bob@acme.test", "customer-mail", "fake");
+    const rehydrator = createStreamRehydrator(map, "anthropic-messages");
+    const delta = (text: string) =>
+      `data: ${JSON.stringify({ type: "content_block_delta", index: 0, delta: { type: "text_delta", text } })}\n\n`;
+
+    let out = rehydrator.onChunk(Buffer.from(delta("Hi user1@exa"))).toString();
+    out += rehydrator.onChunk(Buffer.from(delta("mple.com!"))).toString();
+    out += rehydrator.onEnd()?.toString() ?? "";
+    assert.ok(out.includes("Hi bob@acme.test!"));
+  });
+
+  it("round-trips through the plugin", async () => {
+    const plugin = createRedactPlugin({ reversible: true, policy });
+    const body = { model: "claude-sonnet-4", messages: [{ role: "user", content: "Validate bob@acme.test" }] };
+    const request: RequestContext = {
+      provider: "anthropic",
+      apiFormat: "anthropic-messages",
+      path: "/v1/messages",
+      source: "claude",
+      sessionId: "ab12cd34",
+      headers: {},
+      body,
+      rawBody: Buffer.from(JSON.stringify(body)),
+      annotations: {},
+    };
+    const redacted = await plugin.onRequest!(request);
+    assert.equal(redacted.body!.messages[0].content, "Validate user1@example.com");
+
+    const response: ResponseContext = {
+      status: 200,
+      headers: {},
+      body: JSON.stringify({ content: [{ type: "text", text: "user1@example.com is valid" }] }),
+      isStreaming: false,
+      sessionId: "ab12cd34",
+      annotations: {},
+    };
+    const result = await plugin.onResponse!(response);
+    assert.equal(JSON.parse(result.body).content[0].text, "bob@acme.test is valid");
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * Request and response contexts shared by the plugin-level redact tests:
+ * one Anthropic user message in, one text block out, both in session
+ * `ab12cd34`.
+ */
+
+import type { RequestContext, ResponseContext } from "@contextio/core";
+
+export function makeRequest(content: string): RequestContext {
+  const body = { model: "claude-sonnet-4", messages: [{ role: "user", content }] };
+  return {
+    provider: "anthropic",
+    apiFormat: "anthropic-messages",
+    path: "/v1/messages",
+    source: "claude",
+    sessionId: "ab12cd34",
+    headers: {},
+    body,
+    rawBody: Buffer.from(JSON.stringify(body)),
+    annotations: {},
+  };
+}
+
+export function makeResponse(text: string): ResponseContext {
+  return {
+    status: 200,
+    headers: {},
+    body: JSON.stringify({ content: [{ type: "text", text }] }),
+    isStreaming: false,
+    sessionId: "ab12cd34",
+    annotations: {},
+  };
+}
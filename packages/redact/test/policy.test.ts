@@ -1,11 +1,14 @@
-import { describe, it } from "node:test";
+import { describe, it, beforeEach, afterEach } from "node:test";
 import assert from "node:assert/strict";
 import fs from "node:fs";
 import { join } from "node:path";
 import { randomBytes } from "node:crypto";
 import { tmpdir } from "node:os";
 
-import { compilePolicy, fromPreset, loadPolicyFile } from "../dist/policy.js";
+import type { RequestContext } from "@contextio/core";
+
+import { createRedactPlugin } from "../dist/index.js";
+import { compilePolicy, fromPreset, loadPolicyFile, selectScope } from "../dist/policy.js";
 
 function tmpFile(extension = "json"): string {
   return join(
@@ -222,6 +225,35 @@ describe("rule compilation", () => {
 
     assert.equal(policy.rules[0].contextWindow, 200);
   });
+
+  it("compiles rule actions", () => {
+    const policy = compilePolicy({
+      rules: [
+        { id: "key", pattern: "AKIA[0-9A-Z]{16}", action: "block" },
+        { id: "codename", pattern: "atlas", action: "warn" },
+        { id: "plain", pattern: "x", replacement: "[X]", action: "redact" },
+      ],
+    });
+
+    assert.equal(policy.rules[0].action, "block");
+    assert.equal(policy.rules[0].replacement, "[BLOCKED]");
+    assert.equal(policy.rules[1].action, "warn");
+    assert.equal(policy.rules[2].action, undefined);
+  });
+
+  it("requires a replacement for redact rules", () => {
+    assert.throws(
+      () => compilePolicy({ rules: [{ id: "test", pattern: "x" }] }),
+      /"replacement" is required/,
+    );
+  });
+
+  it("rejects unknown actions", () => {
+    assert.throws(
+      () => compilePolicy({ rules: [{ id: "test", pattern: "x", action: "drop" as "warn" }] }),
+      /unknown action "drop"/,
+    );
+  });
 });
 
 describe("fromPreset", () => {
@@ -376,6 +408,150 @@ describe("loadPolicyFile", () => {
   });
 });
 
+describe("policy composition", () => {
+  let dir: string;
+
+  function write(name: string, json: unknown): string {
+    const file = join(dir, name);
+    fs.mkdirSync(join(file, ".."), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(json));
+    return file;
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(join(tmpdir(), "contextio-compose-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("extends several presets without duplicating rules", () => {
+    const policy = compilePolicy({ extends: ["secrets", "pii"] });
+    assert.deepEqual(policy.rules.map((r) => r.name), fromPreset("pii").rules.map((r) => r.name));
+  });
+
+  it("extends policy files recursively, relative to each file", () => {
+    write("org/base.json", {
+      extends: "secrets",
+      rules: [{ id: "employee-id", pattern: "EMP-\\d{5}", replacement: "[EMPLOYEE]" }],
+      allowlist: { strings: ["support@acme.com"] },
+      paths: { skip: ["model"] },
+    });
+    write("org/team.json", { extends: ["pii", "./base.json"], allowlist: { strings: ["team@acme.com"] } });
+    const file = write("team-a/policy.json", {
+      extends: "../org/team.json",
+      rules: [{ id: "ticket", pattern: "TCK-\\d+", replacement: "[TICKET]" }],
+    });
+
+    const policy = loadPolicyFile(file);
+    const names = policy.rules.map((r) => r.name);
+    assert.ok(names.includes("email"));
+    assert.deepEqual(names.slice(-2), ["employee-id", "ticket"]);
+    assert.deepEqual([...policy.allowlist.strings].sort(), ["support@acme.com", "team@acme.com"]);
+    assert.deepEqual(policy.paths.skip.map((p) => p.source), ["model"]);
+  });
+
+  it("disables and overrides inherited rules without touching the preset", () => {
+    const policy = compilePolicy({
+      extends: "pii",
+      disable: ["phone-us"],
+      overrides: {
+        email: { replacement: "[MAIL]" },
+        ssn: { context: [] },
+        "credit-card": { context: ["Card"], contextWindow: 20, action: "warn" },
+      },
+    });
+
+    const byName = new Map(policy.rules.map((r) => [r.name, r]));
+    assert.equal(byName.has("phone-us"), false);
+    assert.equal(byName.get("email")!.replacement, "[MAIL]");
+    assert.equal(byName.get("ssn")!.context, undefined);
+    assert.deepEqual(byName.get("credit-card")!.context, ["card"]);
+    assert.equal(byName.get("credit-card")!.contextWindow, 20);
+    assert.equal(byName.get("credit-card")!.action, "warn");
+
+    const preset = fromPreset("pii").rules;
+    assert.equal(preset.find((r) => r.name === "email")!.replacement, "[EMAIL_REDACTED]");
+    assert.ok(preset.some((r) => r.name === "phone-us"));
+  });
+
+  it("rejects unknown ids in disable and overrides", () => {
+    assert.throws(() => compilePolicy({ extends: "pii", disable: ["phone"] }), /Unknown inherited rule "phone" in disable/);
+    assert.throws(
+      () => compilePolicy({ extends: "pii", overrides: { mail: { replacement: "x" } } }),
+      /Unknown inherited rule "mail" in overrides/,
+    );
+  });
+
+  it("detects cycles and missing files", () => {
+    write("a.json", { extends: "./b.json" });
+    write("b.json", { extends: "./a.json" });
+    assert.throws(() => loadPolicyFile(join(dir, "a.json")), /Policy extends cycle: .*a\.json -> .*b\.json -> .*a\.json/);
+    assert.throws(() => compilePolicy({ extends: "./missing.json" }, dir), /Cannot load extended policy .*missing\.json/);
+  });
+});
+
+describe("policy scopes", () => {
+  const policy = compilePolicy({
+    extends: "pii",
+    scopes: [
+      { name: "aider", match: { source: "aider" }, extends: "secrets" },
+      { name: "vertex", match: { provider: ["vertex", "gemini"], path: "/v1/projects/*" }, extends: "strict" },
+    ],
+  });
+
+  it("picks the first scope whose fields all match", () => {
+    assert.equal(selectScope(policy, { source: "aider", provider: "openai", path: "/v1/chat/completions" })?.name, "aider");
+    assert.equal(
+      selectScope(policy, { source: null, provider: "vertex", path: "/v1/projects/p/locations/l:generateContent" })?.name,
+      "vertex",
+    );
+    assert.equal(selectScope(policy, { source: null, provider: "vertex", path: "/v1beta/models" }), null);
+    assert.equal(selectScope(policy, { source: null, provider: "anthropic", path: "/v1/messages" }), null);
+  });
+
+  it("compiles each scope as a standalone policy", () => {
+    const aider = policy.scopes![0].policy;
+    assert.deepEqual(aider.rules.map((r) => r.name), fromPreset("secrets").rules.map((r) => r.name));
+    assert.equal(aider.scopes, undefined);
+  });
+
+  it("rejects scopes without a match and nested scopes", () => {
+    assert.throws(() => compilePolicy({ scopes: [{ match: {} }] }), /Scope "scope 1": "match" needs at least one/);
+    assert.throws(
+      () => compilePolicy({ scopes: [{ name: "x", match: { source: "a" }, scopes: [] } as never] }),
+      /Scope "x": scopes cannot be nested/,
+    );
+  });
+
+  it("applies the matching scope in the plugin", async () => {
+    const plugin = createRedactPlugin({
+      policy: compilePolicy({
+        rules: [{ id: "ticket", pattern: "TCK-\\d+", replacement: "[TICKET]" }],
+        scopes: [{ match: { source: "aider" }, rules: [] }],
+      }),
+    });
+    const body = { messages: [{ role: "user", content: "see TCK-42" }] };
+    const request = (source: string | null): RequestContext => ({
+      provider: "openai",
+      apiFormat: "chat-completions",
+      path: "/v1/chat/completions",
+      source,
+      sessionId: null,
+      headers: {},
+      body,
+      rawBody: Buffer.from(JSON.stringify(body)),
+      annotations: {},
+    });
+
+    const claude = await plugin.onRequest!(request("claude"));
+    assert.equal(claude.body!.messages[0].content, "see [TICKET]");
+    const aider = await plugin.onRequest!(request("aider"));
+    assert.equal(aider.body!.messages[0].content, "see TCK-42");
+  });
+});
+
 describe("path parsing", () => {
   it("parses simple path", () => {
     const policy = compilePolicy({
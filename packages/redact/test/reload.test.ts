@@ -0,0 +1,111 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+
+import { createRedactPlugin } from "../dist/index.js";
+import { makeRequest, makeResponse } from "./helpers.ts";
+
+let dir: string;
+let file: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(join(tmpdir(), "contextio-reload-"));
+  file = join(dir, "policy.json");
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function writePolicy(pattern: string, replacement: string): void {
+  fs.writeFileSync(file, JSON.stringify({ rules: [{ id: "ticket", pattern, replacement }] }));
+}
+
+async function contentOf(plugin: ReturnType<typeof createRedactPlugin>, text: string): Promise<string> {
+  const ctx = await plugin.onRequest!(makeRequest(text));
+  return ctx.body!.messages[0].content;
+}
+
+/** Poll until the plugin redacts `text` to `expected`, for up to 4s. Returns the last result. */
+async function waitFor(plugin: ReturnType<typeof createRedactPlugin>, text: string, expected: string): Promise<string> {
+  let content = "";
+  for (let i = 0; i < 40 && content !== expected; i++) {
+    await sleep(100);
+    content = await contentOf(plugin, text);
+  }
+  return content;
+}
+
+describe("policy reload", () => {
+  it("swaps in the reloaded policy for new requests", async () => {
+    writePolicy("TCK-\\d+", "[TICKET]");
+    const plugin = createRedactPlugin({ policyFile: file });
+    assert.equal(await contentOf(plugin, "TCK-1 and BUG-2"), "[TICKET] and BUG-2");
+
+    writePolicy("BUG-\\d+", "[BUG]");
+    assert.equal(plugin.reload(), true);
+    assert.equal(await contentOf(plugin, "TCK-1 and BUG-2"), "TCK-1 and [BUG]");
+  });
+
+  it("keeps the previous policy when the new one doesn't compile", async () => {
+    writePolicy("TCK-\\d+", "[TICKET]");
+    const plugin = createRedactPlugin({ policyFile: file });
+
+    fs.writeFileSync(file, '{ "rules": [{ "id": "broken", "pattern": "(" }] }');
+    assert.equal(plugin.reload(), false);
+    assert.equal(await contentOf(plugin, "TCK-1"), "[TICKET]");
+  });
+
+  it("keeps reversible session maps across reloads", async () => {
+    writePolicy("TCK-\\d+", "[TICKET]");
+    const plugin = createRedactPlugin({ policyFile: file, reversible: true });
+    assert.equal(await contentOf(plugin, "TCK-1"), "[TICKET_1]");
+
+    writePolicy("BUG-\\d+", "[BUG]");
+    plugin.reload();
+    const response = await plugin.onResponse!(makeResponse("Closed [TICKET_1]"));
+    assert.equal(JSON.parse(response.body).content[0].text, "Closed TCK-1");
+  });
+
+  it("does nothing without a policy file", () => {
+    assert.equal(createRedactPlugin({ preset: "secrets" }).reload(), false);
+  });
+
+  it("reloads on change when watching", async () => {
+    writePolicy("TCK-\\d+", "[TICKET]");
+    const plugin = createRedactPlugin({ policyFile: file, watchPolicy: true });
+    try {
+      // Right away: the change is compared against the file as it was loaded
+      writePolicy("BUG-\\d+", "[BUG-REDACTED]");
+      assert.equal(await waitFor(plugin, "TCK-1 BUG-2", "TCK-1 [BUG-REDACTED]"), "TCK-1 [BUG-REDACTED]");
+    } finally {
+      plugin.close();
+    }
+  });
+
+  it("reloads when an extended policy or dictionary file changes", async () => {
+    const base = join(dir, "base.json");
+    const names = join(dir, "names.txt");
+    fs.writeFileSync(base, JSON.stringify({ rules: [{ id: "ticket", pattern: "TCK-\\d+", replacement: "[TICKET]" }] }));
+    fs.writeFileSync(names, "Alice\n");
+    fs.writeFileSync(file, JSON.stringify({
+      extends: "./base.json",
+      dictionaries: [{ id: "names", file: "./names.txt", replacement: "[NAME]" }],
+    }));
+    const plugin = createRedactPlugin({ policyFile: file, watchPolicy: true });
+    try {
+      assert.equal(await contentOf(plugin, "TCK-1 Alice Bob"), "[TICKET] [NAME] Bob");
+
+      fs.writeFileSync(names, "Alice\nBob\n");
+      assert.equal(await waitFor(plugin, "TCK-1 Alice Bob", "[TICKET] [NAME] [NAME]"), "[TICKET] [NAME] [NAME]");
+
+      fs.writeFileSync(base, JSON.stringify({ rules: [{ id: "ticket", pattern: "TCK-\\d+", replacement: "[T]" }] }));
+      assert.equal(await waitFor(plugin, "TCK-1 Alice Bob", "[T] [NAME] [NAME]"), "[T] [NAME] [NAME]");
+    } finally {
+      plugin.close();
+    }
+  });
+});
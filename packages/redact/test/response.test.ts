@@ -0,0 +1,101 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import type { RequestContext, ResponseContext } from "@contextio/core";
+
+import { compilePolicy, createRedactPlugin } from "../dist/index.js";
+import { ReplacementMap } from "../dist/mapping.js";
+import { rehydrateResponseBody } from "../dist/response.js";
+
+function mapOf(...pairs: Array<[string, string]>): ReplacementMap {
+  const map = new ReplacementMap();
+  for (const [original, ruleId] of pairs) map.getOrCreate(original, ruleId);
+  return map;
+}
+
+describe("rehydrateResponseBody", () => {
+  const tricky = 'He said "hi"\\\n\tbye';
+
+  it("keeps Anthropic text and tool_use input valid JSON", () => {
+    const map = mapOf([tricky, "secret"]);
+    const body = JSON.stringify({
+      content: [
+        { type: "text", text: "Value: [SECRET_1]" },
+        { type: "tool_use", id: "t1", name: "write", input: { content: "[SECRET_1]", lines: ["[SECRET_1]", 3] } },
+      ],
+    });
+
+    const result = JSON.parse(rehydrateResponseBody(body, map));
+    assert.equal(result.content[0].text, `Value: ${tricky}`);
+    assert.equal(result.content[1].input.content, tricky);
+    assert.deepEqual(result.content[1].input.lines, [tricky, 3]);
+  });
+
+  it("JSON-escapes originals inside OpenAI arguments strings", () => {
+    const map = mapOf([tricky, "secret"]);
+    const body = JSON.stringify({
+      choices: [{
+        message: {
+          content: null,
+          tool_calls: [{ id: "c1", type: "function", function: { name: "write", arguments: '{"text":"[SECRET_1]"}' } }],
+        },
+      }],
+      output: [{ type: "function_call", name: "write", arguments: '{"text":"[SECRET_1]"}' }],
+    });
+
+    const result = JSON.parse(rehydrateResponseBody(body, map));
+    assert.deepEqual(JSON.parse(result.choices[0].message.tool_calls[0].function.arguments), { text: tricky });
+    assert.deepEqual(JSON.parse(result.output[0].arguments), { text: tricky });
+  });
+
+  it("restores Gemini functionCall args", () => {
+    const map = mapOf(["john@test.com", "email"]);
+    const body = JSON.stringify({
+      candidates: [{ content: { parts: [{ functionCall: { name: "send", args: { to: "[EMAIL_1]" } } }] } }],
+    });
+
+    const result = JSON.parse(rehydrateResponseBody(body, map));
+    assert.equal(result.candidates[0].content.parts[0].functionCall.args.to, "john@test.com");
+  });
+
+  it("returns the body untouched when nothing matches, and handles non-JSON", () => {
+    const map = mapOf(["john@test.com", "email"]);
+    const body = '{ "content": [ { "type": "text", "text": "nothing here" } ] }';
+    assert.equal(rehydrateResponseBody(body, map), body);
+    assert.equal(rehydrateResponseBody("plain [EMAIL_1]", map), "plain john@test.com");
+  });
+});
+
+describe("redact plugin non-streaming responses", () => {
+  it("restores a value containing quotes as valid JSON", async () => {
+    const plugin = createRedactPlugin({
+      reversible: true,
+      policy: compilePolicy({ rules: [{ id: "quoted", pattern: 'say "[a-z]+"', replacement: "[QUOTED]" }] }),
+    });
+    const body = { model: "claude-sonnet-4", messages: [{ role: "user", content: 'Please say "hello" back' }] };
+    const request: RequestContext = {
+      provider: "anthropic",
+      apiFormat: "anthropic-messages",
+      path: "/v1/messages",
+      source: "claude",
+      sessionId: "ab12cd34",
+      headers: {},
+      body,
+      rawBody: Buffer.from(JSON.stringify(body)),
+      annotations: {},
+    };
+    const redacted = await plugin.onRequest!(request);
+    assert.ok(JSON.stringify(redacted.body).includes("[QUOTED_1]"));
+
+    const response: ResponseContext = {
+      status: 200,
+      headers: {},
+      body: JSON.stringify({ content: [{ type: "text", text: "OK: [QUOTED_1]" }] }),
+      isStreaming: false,
+      sessionId: "ab12cd34",
+      annotations: {},
+    };
+    const result = await plugin.onResponse!(response);
+    assert.equal(JSON.parse(result.body).content[0].text, 'OK: say "hello"');
+  });
+});
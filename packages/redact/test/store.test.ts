@@ -0,0 +1,102 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { createRedactPlugin } from "../dist/index.js";
+import { ReplacementMap } from "../dist/mapping.js";
+import { MappingStore } from "../dist/store.js";
+import { makeRequest, makeResponse } from "./helpers.ts";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(join(tmpdir(), "contextio-mappings-"));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function makeStore(): MappingStore {
+  return new MappingStore({ dir: join(dir, "mappings"), keyFile: join(dir, "mapping.key") });
+}
+
+describe("MappingStore", () => {
+  it("round-trips entries and keeps originals out of the file", () => {
+    const store = makeStore();
+    const entries = [{ original: "john@test.com", placeholder: "[EMAIL_1]", ruleId: "email" }];
+    store.save("ab12cd34", entries);
+
+    const raw = fs.readFileSync(join(dir, "mappings", "ab12cd34.json"), "utf8");
+    assert.ok(!raw.includes("john@test.com"));
+    assert.ok(!raw.includes("[EMAIL_1]"));
+    assert.equal(fs.statSync(join(dir, "mapping.key")).mode & 0o777, 0o600);
+
+    assert.deepEqual(makeStore().load("ab12cd34"), entries);
+    assert.equal(store.load("ffff0000"), null);
+  });
+
+  it("refuses files moved to another session or read with another key", () => {
+    const store = makeStore();
+    store.save("ab12cd34", [{ original: "x@y.com", placeholder: "[EMAIL_1]", ruleId: "email" }]);
+    fs.copyFileSync(join(dir, "mappings", "ab12cd34.json"), join(dir, "mappings", "ffff0000.json"));
+    assert.throws(() => store.load("ffff0000"), /Could not decrypt/);
+
+    fs.rmSync(join(dir, "mapping.key"));
+    assert.throws(() => makeStore().load("ab12cd34"), /not found/);
+    makeStore().save("other000", []);
+    assert.throws(() => makeStore().load("ab12cd34"), /Could not decrypt/);
+  });
+
+  it("lists, deletes, and prunes stored sessions", () => {
+    const store = new MappingStore({ dir: join(dir, "m"), keyFile: join(dir, "k"), maxAgeMs: 1000 });
+    store.save("aaaa0000", [{ original: "a@b.com", placeholder: "[EMAIL_1]", ruleId: "email" }]);
+    store.save("bbbb0000", []);
+    assert.deepEqual(store.list().map((i) => i.sessionId).sort(), ["aaaa0000", "bbbb0000"]);
+    assert.equal(store.list().find((i) => i.sessionId === "aaaa0000")?.count, 1);
+
+    assert.equal(store.delete("bbbb0000"), true);
+    assert.equal(store.delete("bbbb0000"), false);
+    assert.equal(store.prune(Date.now() + 5000), 1);
+    assert.deepEqual(store.list(), []);
+    assert.throws(() => store.load("../etc"), /Invalid session ID/);
+  });
+});
+
+describe("ReplacementMap.restore", () => {
+  it("continues numbering after restored placeholders", () => {
+    const map = new ReplacementMap();
+    map.restore([
+      { original: "a@b.com", placeholder: "[EMAIL_1]", ruleId: "email" },
+      { original: "c@d.com", placeholder: "[EMAIL_2]", ruleId: "email" },
+    ]);
+    assert.equal(map.getOrCreate("a@b.com", "email"), "[EMAIL_1]");
+    assert.equal(map.getOrCreate("e@f.com", "email"), "[EMAIL_3]");
+    assert.equal(map.rehydrate("[EMAIL_2]"), "c@d.com");
+  });
+});
+
+describe("redact plugin with a mapping store", () => {
+  it("rehydrates placeholders from before a restart", async () => {
+    const first = createRedactPlugin({ preset: "pii", reversible: true, mappingStore: makeStore() });
+    const redacted = await first.onRequest!(makeRequest("mail john@test.com"));
+    assert.ok(JSON.stringify(redacted.body).includes("[EMAIL_1]"));
+
+    // New plugin instance = restarted proxy
+    const second = createRedactPlugin({ preset: "pii", reversible: true, mappingStore: makeStore() });
+    const response = await second.onResponse!(makeResponse("I emailed [EMAIL_1]"));
+    assert.ok(response.body.includes("I emailed john@test.com"));
+
+    // New values keep numbering where the first instance left off
+    const next = await second.onRequest!(makeRequest("also jane@test.com"));
+    assert.ok(JSON.stringify(next.body).includes("[EMAIL_2]"));
+  });
+
+  it("is not used for one-way redaction", async () => {
+    const plugin = createRedactPlugin({ preset: "pii", mappingStore: makeStore() });
+    await plugin.onRequest!(makeRequest("mail john@test.com"));
+    assert.equal(fs.existsSync(join(dir, "mappings")), false);
+  });
+});
@@ -1,7 +1,9 @@
 import { describe, it } from "node:test";
 import assert from "node:assert/strict";
 
-import { createStreamRehydrator } from "../dist/stream.js";
+import { decodeEventStream, encodeEventStreamMessage, eventStreamPayloadText } from "@contextio/core";
+
+import { createEventStreamRehydrator, createStreamRehydrator } from "../dist/stream.js";
 import { ReplacementMap } from "../dist/mapping.js";
 
 // --- Helpers ---
@@ -574,3 +576,213 @@ describe("stream rehydration edge cases", () => {
     });
   });
 });
+
+// --- Format-aware extraction ---
+
+/** Stream chunks through a rehydrator for one API format. */
+function streamFormat(map: ReplacementMap, format: string, chunks: string[]): string {
+  const stream = createStreamRehydrator(map, format);
+  let out = "";
+  for (const c of chunks) out += toString(stream.onChunk(toBuffer(c)));
+  return out + toString(stream.onEnd());
+}
+
+/** Parsed JSON of every data: event in an SSE stream. */
+function events(sse: string): any[] {
+  return sse
+    .split("\n")
+    .filter((l) => l.startsWith("data: {"))
+    .map((l) => JSON.parse(l.slice(6)));
+}
+
+describe("format-aware stream rehydration", () => {
+  it("restores placeholders in Anthropic tool input deltas as valid JSON", () => {
+    const map = new ReplacementMap();
+    map.getOrCreate('Jane "JD" Doe <jane@test.com>', "email");
+
+    const delta = (json: string) =>
+      `data: ${JSON.stringify({ type: "content_block_delta", index: 1, delta: { type: "input_json_delta", partial_json: json } })}\n\n`;
+    const sse = streamFormat(map, "anthropic-messages", [
+      delta('{"path":"notes.txt","content":"To: [EMA'),
+      delta('IL_1]\\n"}'),
+    ]);
+
+    const json = events(sse).map((e) => e.delta.partial_json).join("");
+    assert.deepEqual(JSON.parse(json), { path: "notes.txt", content: 'To: Jane "JD" Doe <jane@test.com>\n' });
+  });
+
+  it("restores placeholders in Chat Completions tool-call arguments", () => {
+    const map = new ReplacementMap();
+    map.getOrCreate("john@test.com", "email");
+
+    const args = (index: number, text: string) =>
+      `data: ${JSON.stringify({ choices: [{ index: 0, delta: { tool_calls: [{ index, function: { arguments: text } }] } }] })}\n\n`;
+    const sse = streamFormat(map, "chat-completions", [
+      args(0, '{"to":"[EMAIL'),
+      args(1, '{"cc":"none"}'),
+      args(0, '_1]"}'),
+      "data: [DONE]\n\n",
+    ]);
+
+    const byCall = new Map<number, string>();
+    for (const e of events(sse)) {
+      const call = e.choices[0].delta.tool_calls[0];
+      byCall.set(call.index, (byCall.get(call.index) ?? "") + call.function.arguments);
+    }
+    assert.deepEqual(JSON.parse(byCall.get(0)!), { to: "john@test.com" });
+    assert.deepEqual(JSON.parse(byCall.get(1)!), { cc: "none" });
+    assert.ok(sse.endsWith("data: [DONE]\n\n"));
+  });
+
+  it("restores Responses API text and function-call deltas and done events", () => {
+    const map = new ReplacementMap();
+    map.getOrCreate("john@test.com", "email");
+
+    const ev = (obj: object) => `event: ${(obj as any).type}\ndata: ${JSON.stringify(obj)}\n\n`;
+    const sse = streamFormat(map, "responses", [
+      ev({ type: "response.output_text.delta", item_id: "msg_1", output_index: 0, content_index: 0, delta: "Mail [EMA" }),
+      ev({ type: "response.output_text.delta", item_id: "msg_1", output_index: 0, content_index: 0, delta: "IL_1] now" }),
+      ev({ type: "response.output_text.done", item_id: "msg_1", text: "Mail [EMAIL_1] now" }),
+      ev({ type: "response.function_call_arguments.delta", item_id: "fc_1", output_index: 1, delta: '{"to":"[EMAIL_1]"}' }),
+      ev({ type: "response.function_call_arguments.done", item_id: "fc_1", arguments: '{"to":"[EMAIL_1]"}' }),
+      ev({
+        type: "response.completed",
+        response: { output: [{ type: "message", content: [{ type: "output_text", text: "Mail [EMAIL_1] now" }] }] },
+      }),
+    ]);
+
+    const all = events(sse);
+    assert.equal(all.filter((e) => e.type === "response.output_text.delta").map((e) => e.delta).join(""), "Mail john@test.com now");
+    assert.equal(all.find((e) => e.type === "response.output_text.done").text, "Mail john@test.com now");
+    assert.equal(JSON.parse(all.find((e) => e.type === "response.function_call_arguments.delta").delta).to, "john@test.com");
+    assert.equal(JSON.parse(all.find((e) => e.type === "response.function_call_arguments.done").arguments).to, "john@test.com");
+    assert.equal(all.find((e) => e.type === "response.completed").response.output[0].content[0].text, "Mail john@test.com now");
+    assert.ok(!sse.includes("[EMAIL_1]"), sse);
+  });
+
+  it("restores placeholders in Gemini functionCall args", () => {
+    const map = new ReplacementMap();
+    map.getOrCreate("john@test.com", "email");
+
+    const event = {
+      candidates: [{ content: { parts: [{ functionCall: { name: "send", args: { to: ["[EMAIL_1]"], subject: "hi" } } }] } }],
+    };
+    const sse = streamFormat(map, "gemini", [`data: ${JSON.stringify(event)}\r\n\r\n`]);
+
+    const args = events(sse)[0].candidates[0].content.parts[0].functionCall.args;
+    assert.deepEqual(args, { to: ["john@test.com"], subject: "hi" });
+    assert.ok(sse.endsWith("\r\n\r\n"), "CRLF line endings preserved");
+  });
+
+  it("keeps escaped characters intact when rehydrating text", () => {
+    const map = new ReplacementMap();
+    map.getOrCreate("john@test.com", "email");
+
+    const event = { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: 'He said "hi"\n\tto [EMAIL_1]' } };
+    const sse = streamFormat(map, "anthropic-messages", [`data: ${JSON.stringify(event)}\n\n`]);
+    assert.equal(events(sse)[0].delta.text, 'He said "hi"\n\tto john@test.com');
+  });
+
+  it("passes lines without placeholders through byte-for-byte", () => {
+    const map = new ReplacementMap();
+    map.getOrCreate("john@test.com", "email");
+
+    const input =
+      'event: content_block_delta\ndata: {"type": "content_block_delta", "index": 0, "delta": {"type": "text_delta", "text": "array[0] ok"}}\n\n';
+    assert.equal(streamFormat(map, "anthropic-messages", [input]), input);
+  });
+
+  it("does not hold text on brackets that cannot start a placeholder", () => {
+    const map = new ReplacementMap();
+    map.getOrCreate("john@test.com", "email");
+
+    const stream = createStreamRehydrator(map, "anthropic-messages");
+    const out = toString(stream.onChunk(toBuffer(sseTextDelta("items[i"))));
+    assert.ok(out.includes("items[i"), `expected immediate output, got: ${out}`);
+  });
+
+  it("reassembles multi-byte characters split across chunks", () => {
+    const map = new ReplacementMap();
+    map.getOrCreate("john@test.com", "email");
+
+    const buf = toBuffer(sseTextDelta("Hi 👋 [EMAIL_1]"));
+    const split = buf.indexOf(toBuffer("👋")) + 2;
+    const stream = createStreamRehydrator(map, "anthropic-messages");
+    const out = toString(stream.onChunk(buf.subarray(0, split))) + toString(stream.onChunk(buf.subarray(split))) + toString(stream.onEnd());
+
+    assert.equal(events(out)[0].delta.text, "Hi 👋 john@test.com");
+  });
+});
+
+// --- AWS event stream (Bedrock) ---
+
+/** An InvokeModel `chunk` message wrapping an Anthropic event. */
+function invokeChunk(event: object): Buffer {
+  return encodeEventStreamMessage(
+    { ":event-type": "chunk", ":content-type": "application/json", ":message-type": "event" },
+    JSON.stringify({ bytes: Buffer.from(JSON.stringify(event)).toString("base64"), p: "abc" }),
+  );
+}
+
+/** A Converse stream message. */
+function converseEvent(type: string, event: object): Buffer {
+  return encodeEventStreamMessage(
+    { ":event-type": type, ":content-type": "application/json", ":message-type": "event" },
+    JSON.stringify(event),
+  );
+}
+
+/** Stream event-stream chunks through a rehydrator and return the output bytes. */
+function streamEventStream(map: ReplacementMap, format: string, chunks: Buffer[]): Buffer {
+  const stream = createEventStreamRehydrator(map, format);
+  const out = chunks.map((c) => stream.onChunk(c));
+  const end = stream.onEnd();
+  return Buffer.concat(end ? [...out, end] : out);
+}
+
+describe("event-stream rehydration", () => {
+  it("restores a placeholder split across InvokeModel chunks", () => {
+    const map = new ReplacementMap();
+    map.getOrCreate("john@test.com", "email");
+
+    const delta = (text: string) => invokeChunk({ type: "content_block_delta", index: 0, delta: { type: "text_delta", text } });
+    const input = Buffer.concat([delta("Mail [EMA"), delta("IL_1] now"), invokeChunk({ type: "message_stop" })]);
+
+    // Split mid-message to exercise frame reassembly
+    const out = streamEventStream(map, "anthropic-messages", [input.subarray(0, 50), input.subarray(50)]);
+    const messages = decodeEventStream(out);
+
+    assert.equal(messages.length, 3);
+    const texts = messages.slice(0, 2).map((m) => JSON.parse(eventStreamPayloadText(m)).delta.text);
+    assert.equal(texts.join(""), "Mail john@test.com now");
+    assert.equal(JSON.parse(messages[0].payload.toString("utf8")).p, "abc", "wrapper fields kept");
+    assert.deepEqual(messages[2].raw, invokeChunk({ type: "message_stop" }), "unchanged messages pass through");
+  });
+
+  it("restores Converse text and tool input deltas", () => {
+    const map = new ReplacementMap();
+    map.getOrCreate("john@test.com", "email");
+
+    const out = streamEventStream(map, "bedrock-converse", [
+      converseEvent("contentBlockDelta", { contentBlockIndex: 0, delta: { text: "Hi [EMAIL" } }),
+      converseEvent("contentBlockDelta", { contentBlockIndex: 0, delta: { text: "_1]" } }),
+      converseEvent("contentBlockDelta", { contentBlockIndex: 1, delta: { toolUse: { input: '{"to":"[EMAIL_1]"}' } } }),
+      converseEvent("messageStop", { stopReason: "tool_use" }),
+    ]);
+    const events = decodeEventStream(out).map((m) => JSON.parse(m.payload.toString("utf8")));
+
+    assert.equal(events[0].delta.text + events[1].delta.text, "Hi john@test.com");
+    assert.deepEqual(JSON.parse(events[2].delta.toolUse.input), { to: "john@test.com" });
+    assert.equal(events[3].stopReason, "tool_use");
+  });
+
+  it("passes streams through unchanged when nothing is mapped or framing is invalid", () => {
+    const input = converseEvent("contentBlockDelta", { contentBlockIndex: 0, delta: { text: "[EMAIL_1]" } });
+    assert.deepEqual(streamEventStream(new ReplacementMap(), "bedrock-converse", [input]), input);
+
+    const map = new ReplacementMap();
+    map.getOrCreate("john@test.com", "email");
+    const garbage = Buffer.from("not an event stream at all");
+    assert.deepEqual(streamEventStream(map, "bedrock-converse", [garbage]), garbage);
+  });
+});
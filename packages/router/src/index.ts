@@ -0,0 +1,203 @@
+/**
+ * @contextio/router - Model routing and rewriting rules.
+ *
+ * Proxy plugin that redirects matching requests: swap the model a tool
+ * asked for (send `gpt-4o` from a load-test source to `gpt-4o-mini`),
+ * send the request to another upstream (a self-hosted endpoint), or both.
+ * Rules match on source tool, provider, and the body's `model`; the first
+ * matching rule applies.
+ *
+ * The tool never sees the change. Captures record the requested and the
+ * effective model under `route`.
+ *
+ * ```typescript
+ * import { createRouterPlugin } from '@contextio/router';
+ *
+ * const router = createRouterPlugin({
+ *   rules: [
+ *     { match: { source: "loadtest", model: "gpt-4o" }, model: "gpt-4o-mini" },
+ *     { match: { model: "llama*" }, upstream: "http://localhost:8000" },
+ *   ],
+ * });
+ * ```
+ */
+
+import fs from "node:fs";
+
+import type { JsonValue, ProxyPlugin, RequestContext, RouteInfo } from "@contextio/core";
+
+/**
+ * Which requests a rule applies to. Each field takes one value or a list;
+ * every field that is set must match. `model` values ending in `*` match
+ * by prefix.
+ */
+export interface RouteMatch {
+  source?: string | string[];
+  provider?: string | string[];
+  model?: string | string[];
+}
+
+/** A routing rule. At least one of `model` and `upstream` must be set. */
+export interface RouteRule {
+  /** Name recorded on captures. Default: the rule's position, e.g. "#2". */
+  name?: string;
+  match: RouteMatch;
+  /** Model to send instead of the requested one. */
+  model?: string;
+  /**
+   * Base URL to send the request to instead of its routed upstream, e.g.
+   * `http://localhost:8000`. The request path and query are kept. The
+   * client's API key is not sent along unless `forwardAuth` is set or
+   * the URL belongs to a named upstream.
+   */
+  upstream?: string;
+  /** Send the client's credentials to `upstream` too. Default: false. */
+  forwardAuth?: boolean;
+}
+
+/** Configuration for {@link createRouterPlugin}. */
+export interface RouterPluginConfig {
+  rules: RouteRule[];
+  /** Log every rewrite to stderr. */
+  verbose?: boolean;
+}
+
+function toList(value: string | string[] | undefined): string[] | null {
+  if (value === undefined) return null;
+  return Array.isArray(value) ? value : [value];
+}
+
+function matchesModel(patterns: string[], model: string | null): boolean {
+  if (model === null) return false;
+  return patterns.some((p) => (p.endsWith("*") ? model.startsWith(p.slice(0, -1)) : model === p));
+}
+
+/** The body's `model` field, or null. */
+function bodyModel(body: JsonValue | null): string | null {
+  if (body && typeof body === "object" && !Array.isArray(body) && typeof body.model === "string") {
+    return body.model;
+  }
+  return null;
+}
+
+function ruleMatches(rule: RouteRule, ctx: RequestContext, model: string | null): boolean {
+  const sources = toList(rule.match.source);
+  if (sources && !(ctx.source !== null && sources.includes(ctx.source))) return false;
+  const providers = toList(rule.match.provider);
+  if (providers && !providers.includes(ctx.provider)) return false;
+  const models = toList(rule.match.model);
+  if (models && !matchesModel(models, model)) return false;
+  return true;
+}
+
+function validateRule(rule: RouteRule, index: number): void {
+  const label = `Route rule ${rule.name ? `"${rule.name}"` : `#${index + 1}`}`;
+  if (!rule.match || typeof rule.match !== "object") {
+    throw new Error(`${label}: "match" is required`);
+  }
+  for (const field of ["source", "provider", "model"] as const) {
+    const list = toList(rule.match[field]);
+    if (list && !list.every((v) => typeof v === "string")) {
+      throw new Error(`${label}: "match.${field}" must be a string or an array of strings`);
+    }
+  }
+  if (rule.model === undefined && rule.upstream === undefined) {
+    throw new Error(`${label}: needs "model" or "upstream"`);
+  }
+  if (rule.model !== undefined && (typeof rule.model !== "string" || !rule.model)) {
+    throw new Error(`${label}: "model" must be a non-empty string`);
+  }
+  if (rule.upstream !== undefined && !/^https?:\/\//.test(String(rule.upstream))) {
+    throw new Error(`${label}: "upstream" must be an http(s) URL`);
+  }
+  if (rule.forwardAuth !== undefined && typeof rule.forwardAuth !== "boolean") {
+    throw new Error(`${label}: "forwardAuth" must be a boolean`);
+  }
+}
+
+/** A URL without its `key` query parameter, which holds Gemini API keys. */
+function withoutKey(targetUrl: string): string {
+  const parsed = new URL(targetUrl);
+  if (!parsed.searchParams.has("key")) return targetUrl;
+  parsed.searchParams.delete("key");
+  return parsed.toString();
+}
+
+/**
+ * Load routing rules from a JSON file holding an array of rules.
+ *
+ * Throws if the file can't be read or isn't an array; the rules
+ * themselves are checked by {@link createRouterPlugin}.
+ */
+export function loadRouteRules(filePath: string): RouteRule[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  } catch (err: unknown) {
+    throw new Error(`Cannot load route rules ${filePath}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error(`Route rules file ${filePath} must contain an array of rules`);
+  }
+  return parsed as RouteRule[];
+}
+
+/**
+ * Create a router plugin.
+ *
+ * onRequest applies the first rule matching the request: it rewrites the
+ * body's `model` and/or `ctx.targetUrl`, and records what it did as the
+ * capture's `route`. Requests without a `model` field are never
+ * rewritten to one, but can still be redirected by rules that don't
+ * match on model.
+ */
+export function createRouterPlugin(config: RouterPluginConfig): ProxyPlugin {
+  const rules = config.rules;
+  rules.forEach(validateRule);
+
+  return {
+    name: "router",
+
+    onRequest(ctx: RequestContext): RequestContext {
+      const requestedModel = bodyModel(ctx.body);
+      const index = rules.findIndex((rule) => ruleMatches(rule, ctx, requestedModel));
+      if (index === -1) return ctx;
+      const rule = rules[index];
+
+      let body = ctx.body;
+      if (rule.model && requestedModel !== null && rule.model !== requestedModel) {
+        body = { ...(ctx.body as Record<string, JsonValue>), model: rule.model };
+      }
+
+      let targetUrl = ctx.targetUrl;
+      if (rule.upstream && ctx.targetUrl) {
+        const query = new URL(ctx.targetUrl).search;
+        targetUrl = rule.upstream.replace(/\/+$/, "") + ctx.path + query;
+      }
+
+      const route: RouteInfo = {
+        rule: rule.name ?? `#${index + 1}`,
+        requestedModel,
+        model: bodyModel(body),
+        originalTargetUrl: targetUrl !== ctx.targetUrl && ctx.targetUrl ? withoutKey(ctx.targetUrl) : null,
+      };
+      const annotations = ctx.annotations ?? {};
+      annotations.route = route;
+
+      if (config.verbose) {
+        const sid = ctx.sessionId ? ` [${ctx.sessionId}]` : "";
+        const model = route.model !== requestedModel ? ` ${requestedModel} → ${route.model}` : "";
+        const upstream = route.originalTargetUrl ? ` via ${targetUrl}` : "";
+        console.error(`[router]${sid} Rule ${route.rule}:${model}${upstream}`);
+      }
+
+      return {
+        ...ctx,
+        body,
+        targetUrl,
+        annotations,
+        ...(rule.forwardAuth && route.originalTargetUrl ? { forwardAuth: true } : {}),
+      };
+    },
+  };
+}
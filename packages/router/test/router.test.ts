@@ -0,0 +1,134 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import type { RequestContext } from "@contextio/core";
+
+import { createRouterPlugin, loadRouteRules } from "../dist/index.js";
+import type { RouteRule } from "../dist/index.js";
+
+// --- Helpers ---
+
+function makeRequest(model: string | null, source: string | null = "loadtest"): RequestContext {
+  const body = model === null ? { messages: [] } : { model, messages: [{ role: "user", content: "hi" }] };
+  return {
+    provider: "openai",
+    apiFormat: "chat-completions",
+    path: "/v1/chat/completions",
+    source,
+    sessionId: "sess0001",
+    headers: {},
+    body,
+    rawBody: Buffer.from(JSON.stringify(body)),
+    targetUrl: "https://api.openai.com/v1/chat/completions?trace=1",
+    annotations: {},
+  };
+}
+
+function route(rules: RouteRule[], ctx: RequestContext): RequestContext {
+  return createRouterPlugin({ rules }).onRequest!(ctx) as RequestContext;
+}
+
+// --- Tests ---
+
+describe("router: matching", () => {
+  it("rewrites the model for matching source and model", () => {
+    const ctx = makeRequest("gpt-4o");
+    const result = route([{ match: { source: "loadtest", model: "gpt-4o" }, model: "gpt-4o-mini" }], ctx);
+
+    assert.deepEqual(result.body, { model: "gpt-4o-mini", messages: [{ role: "user", content: "hi" }] });
+    assert.equal(result.targetUrl, ctx.targetUrl);
+    assert.deepEqual(result.annotations?.route, {
+      rule: "#1",
+      requestedModel: "gpt-4o",
+      model: "gpt-4o-mini",
+      originalTargetUrl: null,
+    });
+  });
+
+  it("leaves requests that no rule matches untouched", () => {
+    const rules: RouteRule[] = [
+      { match: { source: "ci", model: "gpt-4o" }, model: "gpt-4o-mini" },
+      { match: { provider: "anthropic" }, upstream: "http://localhost:8000" },
+      { match: { model: "gpt-4o" }, model: "gpt-4o-mini" },
+    ];
+    const ctx = makeRequest("gpt-4o-2024-08-06");
+    assert.equal(route(rules, ctx), ctx);
+    assert.equal(ctx.annotations?.route, undefined);
+  });
+
+  it("matches model prefixes and applies the first matching rule", () => {
+    const rules: RouteRule[] = [
+      { name: "self-hosted llama", match: { model: ["llama*", "meta-llama/*"] }, upstream: "http://localhost:8000/" },
+      { match: { model: "llama*" }, model: "gpt-4o-mini" },
+    ];
+    const result = route(rules, makeRequest("meta-llama/Llama-3.1-8B"));
+
+    assert.equal(result.targetUrl, "http://localhost:8000/v1/chat/completions?trace=1");
+    assert.deepEqual(result.annotations?.route, {
+      rule: "self-hosted llama",
+      requestedModel: "meta-llama/Llama-3.1-8B",
+      model: "meta-llama/Llama-3.1-8B",
+      originalTargetUrl: "https://api.openai.com/v1/chat/completions?trace=1",
+    });
+  });
+
+  it("records the original URL without a Gemini key", () => {
+    const ctx = { ...makeRequest(null), targetUrl: "https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-pro:generateContent?key=AIza-secret&alt=sse" };
+    const result = route([{ match: {}, upstream: "http://localhost:8000" }], ctx);
+
+    assert.equal(
+      result.annotations?.route?.originalTargetUrl,
+      "https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-pro:generateContent?alt=sse",
+    );
+  });
+
+  it("redirects requests without a model but never adds one", () => {
+    const ctx = makeRequest(null);
+    const result = route([{ match: { source: "loadtest" }, model: "gpt-4o-mini", upstream: "http://localhost:8000" }], ctx);
+
+    assert.equal(result.body, ctx.body);
+    assert.equal(result.targetUrl, "http://localhost:8000/v1/chat/completions?trace=1");
+    assert.equal(result.annotations?.route?.model, null);
+  });
+});
+
+describe("router: credentials", () => {
+  it("asks the proxy to keep credentials only for forwardAuth rules", () => {
+    const plain = route([{ match: {}, upstream: "http://localhost:8000" }], makeRequest("gpt-4o"));
+    assert.equal(plain.forwardAuth, undefined);
+
+    const opted = route([{ match: {}, upstream: "http://localhost:8000", forwardAuth: true }], makeRequest("gpt-4o"));
+    assert.equal(opted.forwardAuth, true);
+  });
+});
+
+describe("router: configuration", () => {
+  it("rejects rules that change nothing or point at a non-URL", () => {
+    assert.throws(() => createRouterPlugin({ rules: [{ match: { model: "gpt-4o" } }] }), /Route rule #1: needs "model" or "upstream"/);
+    assert.throws(
+      () => createRouterPlugin({ rules: [{ name: "local", match: {}, upstream: "localhost:8000" }] }),
+      /Route rule "local": "upstream" must be an http\(s\) URL/,
+    );
+    assert.throws(
+      () => createRouterPlugin({ rules: [{ match: {}, upstream: "http://localhost:8000", forwardAuth: "yes" as unknown as boolean }] }),
+      /Route rule #1: "forwardAuth" must be a boolean/,
+    );
+  });
+
+  it("loads rules from a JSON file", () => {
+    const dir = fs.mkdtempSync(join(tmpdir(), "contextio-router-"));
+    const file = join(dir, "routes.json");
+    try {
+      fs.writeFileSync(file, JSON.stringify([{ match: { model: "gpt-4o" }, model: "gpt-4o-mini" }]));
+      assert.deepEqual(loadRouteRules(file), [{ match: { model: "gpt-4o" }, model: "gpt-4o-mini" }]);
+
+      fs.writeFileSync(file, JSON.stringify({ rules: [] }));
+      assert.throws(() => loadRouteRules(file), /must contain an array of rules/);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Integration test: HTTPS_PROXY interception + proxy pipeline.
+ *
+ * Verifies the full flow for tools like Codex, Copilot, and OpenCode:
+ *   HTTPS request → CONNECT to the proxy (TLS terminated with the local CA)
+ *     → redaction + logging
+ *       → mock HTTPS upstream (the host the client asked for)
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import http from "node:http";
+import https from "node:https";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import tls from "node:tls";
+
+import { createProxy, issueLeafCertificate, loadOrCreateCA } from "@contextio/proxy";
+import type { CaptureData } from "@contextio/core";
+import { createRedactPlugin } from "@contextio/redact";
+import { createLoggerPlugin } from "@contextio/logger";
+
+// --- Helpers ---
+
+function waitForFile(dir: string, timeoutMs = 2000): Promise<string> {
+  const start = Date.now();
+  return new Promise((resolve, reject) => {
+    const poll = (): void => {
+      const files = fs.existsSync(dir)
+        ? fs.readdirSync(dir).filter((f) => f.endsWith(".json"))
+        : [];
+      if (files.length > 0) {
+        resolve(join(dir, files[0]));
+        return;
+      }
+      if (Date.now() - start > timeoutMs) {
+        reject(new Error("Timed out waiting for capture file"));
+        return;
+      }
+      setTimeout(poll, 50);
+    };
+    poll();
+  });
+}
+
+/** POST through the proxy the way an HTTPS_PROXY client does: CONNECT, then TLS. */
+function postThroughProxy(options: {
+  proxyPort: number;
+  auth: string;
+  host: string;
+  port: number;
+  path: string;
+  body: string;
+  ca: string;
+}): Promise<{ status: number; body: string }> {
+  return new Promise((resolve, reject) => {
+    const connect = http.request({
+      host: "127.0.0.1",
+      port: options.proxyPort,
+      method: "CONNECT",
+      path: `${options.host}:${options.port}`,
+      headers: { "proxy-authorization": `Basic ${Buffer.from(options.auth).toString("base64")}` },
+    });
+    connect.on("error", reject);
+    connect.on("connect", (_res, socket) => {
+      const secure = tls.connect({ socket, host: options.host, ca: options.ca }, () => {
+        const req = http.request(
+          {
+            host: options.host,
+            path: options.path,
+            method: "POST",
+            headers: { "content-type": "application/json", "anthropic-version": "2023-06-01" },
+            createConnection: () => secure,
+          },
+          (res) => {
+            const chunks: Buffer[] = [];
+            res.on("data", (chunk: Buffer) => chunks.push(chunk));
+            res.on("end", () => {
+              secure.destroy();
+              resolve({ status: res.statusCode!, body: Buffer.concat(chunks).toString("utf8") });
+            });
+          },
+        );
+        req.on("error", reject);
+        req.end(options.body);
+      });
+      secure.on("error", reject);
+    });
+    connect.end();
+  });
+}
+
+// --- Test suite ---
+
+describe("HTTPS_PROXY interception flow", () => {
+  let workDir: string;
+  let captureDir: string;
+  let caPem: string;
+  let mockUpstream: https.Server;
+  let mockUpstreamPort: number;
+  let proxyInstance: Awaited<ReturnType<typeof createProxy>>;
+  let originalAgentCa: tls.SecureContextOptions["ca"];
+
+  let lastUpstreamBody: string;
+  let lastUpstreamPath: string;
+
+  before(async () => {
+    workDir = fs.mkdtempSync(join(tmpdir(), "context-intercept-test-"));
+    captureDir = join(workDir, "captures");
+    const caDir = join(workDir, "ca");
+    const ca = loadOrCreateCA(caDir);
+    caPem = ca.certPem;
+
+    // Mock upstream standing in for the real API host, over HTTPS
+    const leaf = issueLeafCertificate(ca, "127.0.0.1");
+    mockUpstream = https.createServer({ cert: leaf.certPem, key: leaf.keyPem }, (req, res) => {
+      const chunks: Buffer[] = [];
+      lastUpstreamPath = req.url!;
+      req.on("data", (chunk: Buffer) => chunks.push(chunk));
+      req.on("end", () => {
+        lastUpstreamBody = Buffer.concat(chunks).toString("utf8");
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({
+            id: "msg_test",
+            type: "message",
+            content: [{ type: "text", text: "Response from mock" }],
+          }),
+        );
+      });
+    });
+    await new Promise<void>((resolve) => mockUpstream.listen(0, "127.0.0.1", resolve));
+    const addr = mockUpstream.address();
+    mockUpstreamPort = typeof addr === "object" && addr ? addr.port : 0;
+
+    // The proxy's own upstream connections must trust the mock too
+    originalAgentCa = https.globalAgent.options.ca;
+    https.globalAgent.options.ca = [...tls.rootCertificates, caPem];
+
+    proxyInstance = createProxy({
+      port: 0,
+      plugins: [createRedactPlugin({ preset: "pii" }), createLoggerPlugin({ captureDir })],
+      // The mock upstream listens on a random port, not 443
+      intercept: { caDir, hosts: ["127.0.0.1"], openTunnels: true },
+    });
+    await proxyInstance.start();
+  });
+
+  after(async () => {
+    https.globalAgent.options.ca = originalAgentCa;
+    await proxyInstance.stop();
+    mockUpstream.close();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it("routes intercepted HTTPS traffic through the plugins to the original host", async () => {
+    const body = JSON.stringify({
+      model: "claude-sonnet-4-20250514",
+      messages: [
+        {
+          role: "user",
+          content: "My email is secret@example.com and SSN is 123-45-6789",
+        },
+      ],
+    });
+
+    const res = await postThroughProxy({
+      proxyPort: proxyInstance.port,
+      auth: "testclient:aabb0011",
+      host: "127.0.0.1",
+      port: mockUpstreamPort,
+      path: "/v1/messages",
+      body,
+      ca: caPem,
+    });
+
+    assert.equal(res.status, 200);
+    assert.equal(lastUpstreamPath, "/v1/messages");
+
+    // The upstream should have received redacted content
+    const upstreamBody = JSON.parse(lastUpstreamBody) as { messages: Array<{ content: string }> };
+    assert.ok(
+      upstreamBody.messages[0].content.includes("[EMAIL_REDACTED]"),
+      `Expected email redaction, got: ${upstreamBody.messages[0].content}`,
+    );
+    assert.ok(
+      upstreamBody.messages[0].content.includes("[SSN_REDACTED]"),
+      `Expected SSN redaction, got: ${upstreamBody.messages[0].content}`,
+    );
+
+    // The proxy credentials become the capture's source tags
+    const capturePath = await waitForFile(captureDir);
+    const capture: CaptureData = JSON.parse(fs.readFileSync(capturePath, "utf8"));
+
+    assert.equal(capture.source, "testclient");
+    assert.equal(capture.sessionId, "aabb0011");
+    assert.equal(capture.provider, "anthropic");
+    assert.equal(capture.targetUrl, `https://127.0.0.1:${mockUpstreamPort}/v1/messages`);
+  });
+});